@@ -0,0 +1,140 @@
+"use client";
+import React, { useState } from "react";
+// The validation module alone: the rest of lib/contact is server-only (files and sockets)
+import { CONTACT_LIMITS, HONEYPOT_FIELD, validateContact } from "@/lib/contact/validate";
+import type { ContactError, ContactField, ContactInput } from "@/lib/contact/types";
+
+type Status = { state: "idle" | "sending" | "sent" } | { state: "error"; message: string };
+
+const EMPTY: ContactInput = { name: "", email: "", subject: "", message: "" };
+
+const fieldClass = (invalid: boolean) =>
+  `w-full p-3 rounded-md bg-transparent border placeholder:text-slate-500 text-slate-200 ${
+    invalid ? "border-red-500/80 focus:border-red-400" : "border-slate-700"
+  }`;
+
+/**
+ * Contact form posting to /api/contact. The same rules are checked before sending, so
+ * field errors show inline without a round trip; the server's verdict covers the rest.
+ */
+export default function ContactForm() {
+  const [values, setValues] = useState<ContactInput>(EMPTY);
+  const [honeypot, setHoneypot] = useState("");
+  const [errors, setErrors] = useState<Partial<Record<ContactField, string>>>({});
+  const [status, setStatus] = useState<Status>({ state: "idle" });
+
+  const update = (field: ContactField) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    setValues({ ...values, [field]: e.target.value });
+    setErrors({ ...errors, [field]: undefined });
+    if (status.state !== "sending") setStatus({ state: "idle" });
+  };
+
+  // Field errors go under their inputs; anything about the request as a whole goes in the banner
+  const showErrors = (list: ContactError[]) => {
+    const byField: Partial<Record<ContactField, string>> = {};
+    for (const { field, message } of list) {
+      if (field !== "body") byField[field] ??= message;
+    }
+    setErrors(byField);
+    const general = list.find((e) => e.field === "body");
+    setStatus(general ? { state: "error", message: general.message } : { state: "idle" });
+  };
+
+  const submit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const checked = validateContact(values);
+    if ("errors" in checked) {
+      showErrors(checked.errors);
+      return;
+    }
+
+    setStatus({ state: "sending" });
+    try {
+      const response = await fetch("/api/contact", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...checked.contact, [HONEYPOT_FIELD]: honeypot }),
+      });
+      if (response.ok) {
+        setValues(EMPTY);
+        setErrors({});
+        setStatus({ state: "sent" });
+        return;
+      }
+      const data = await response.json().catch(() => null);
+      showErrors(data?.errors ?? [{ field: "body", message: `The server replied ${response.status}. Please try again.` }]);
+    } catch {
+      setStatus({ state: "error", message: "Could not reach the server. Check your connection and try again." });
+    }
+  };
+
+  const field = (name: ContactField) => ({
+    id: `contact-${name}`,
+    name,
+    value: values[name],
+    onChange: update(name),
+    maxLength: CONTACT_LIMITS[name].max,
+    "aria-invalid": errors[name] ? true : undefined,
+    "aria-describedby": errors[name] ? `contact-${name}-error` : undefined,
+    className: fieldClass(Boolean(errors[name])),
+  });
+
+  const fieldError = (name: ContactField) =>
+    errors[name] && (
+      <p id={`contact-${name}-error`} className="mt-1 text-sm text-red-400">
+        {errors[name]}
+      </p>
+    );
+
+  return (
+    <form id="contact-form" className="space-y-4" onSubmit={submit} noValidate>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <input {...field("name")} placeholder="Your name" autoComplete="name" aria-label="Your name" />
+          {fieldError("name")}
+        </div>
+        <div>
+          <input {...field("email")} type="email" placeholder="Your email" autoComplete="email" aria-label="Your email" />
+          {fieldError("email")}
+        </div>
+      </div>
+      <div>
+        <input {...field("subject")} placeholder="Subject" aria-label="Subject" />
+        {fieldError("subject")}
+      </div>
+      <div>
+        <textarea {...field("message")} rows={5} placeholder="Message" aria-label="Message" />
+        {fieldError("message")}
+      </div>
+
+      {/* Honeypot: hidden from people and screen readers, so only bots fill it in */}
+      <div className="absolute -left-[9999px] h-px w-px overflow-hidden" aria-hidden="true">
+        <label>
+          Website
+          <input name={HONEYPOT_FIELD} value={honeypot} onChange={(e) => setHoneypot(e.target.value)} tabIndex={-1} autoComplete="off" />
+        </label>
+      </div>
+
+      {status.state === "sent" && (
+        <p className="p-3 rounded-md border border-emerald-500/40 bg-emerald-500/10 text-emerald-300" role="status">
+          Thanks! Your message is on its way, and I&apos;ll reply within a few days.
+        </p>
+      )}
+      {status.state === "error" && (
+        <p className="p-3 rounded-md border border-red-500/40 bg-red-500/10 text-red-300" role="alert">
+          {status.message}
+        </p>
+      )}
+
+      <div className="text-right">
+        <button
+          type="submit"
+          disabled={status.state === "sending"}
+          className="inline-flex items-center gap-2 px-5 py-3 rounded-md bg-gradient-to-r from-cyan-500 to-indigo-600 hover:scale-[1.01] transition disabled:opacity-60 disabled:hover:scale-100"
+        >
+          {status.state === "sending" ? "Sending…" : "Send message"}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,73 @@
+import {
+  clientIp,
+  createRateLimiter,
+  DEFAULT_IP_HEADER,
+  HONEYPOT_FIELD,
+  rateLimitKey,
+  transportFromEnv,
+  validateContact,
+  type ContactError,
+  type ContactTransport,
+} from "@/lib/contact";
+
+// Accepted messages per client in any 15-minute span
+const limiter = createRateLimiter({ limit: 5, windowMs: 15 * 60 * 1000 });
+
+let transport: ContactTransport | undefined;
+
+const reply = (status: number, errors: ContactError[], headers?: HeadersInit) =>
+  Response.json({ errors }, { status, headers });
+
+// Header the trusted reverse proxy records the client address in (see clientIp)
+const ipHeader = (process.env.CONTACT_IP_HEADER || DEFAULT_IP_HEADER).toLowerCase();
+
+/**
+ * Accepts a message from the contact form and delivers it through the configured transport
+ * (see transportFromEnv: a JSONL outbox file by default, or SMTP).
+ *
+ * Body: `{ "name", "email", "subject", "message" }`, plus the empty honeypot field.
+ * Responds with `{ "sent": true }`, 400 with one `{ field, message }` per bad field,
+ * 429 with `Retry-After` once a client has sent too many, or 500 if delivery failed.
+ * Honeypot submissions get the same success reply but are dropped.
+ *
+ * Clients are told apart by the address the reverse proxy in front of the app appends to
+ * `CONTACT_IP_HEADER` (X-Forwarded-For by default). Without such a proxy the header is
+ * whatever the client sends, and requests without it are limited per browser signature.
+ */
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return reply(400, [{ field: "body", message: "Request body must be valid JSON." }]);
+  }
+
+  const validated = validateContact(body);
+  if ("errors" in validated) return reply(400, validated.errors);
+
+  // Only well-formed submissions count towards the limit, so fixing a typo costs nothing
+  const ip = clientIp(request.headers, ipHeader);
+  const limit = limiter.hit(rateLimitKey(request.headers, ipHeader));
+  if (!limit.allowed) {
+    const seconds = Math.ceil(limit.retryAfterMs / 1000);
+    return reply(
+      429,
+      [{ field: "body", message: `Too many messages; please try again in ${Math.ceil(seconds / 60)} minute(s).` }],
+      { "Retry-After": String(seconds) }
+    );
+  }
+
+  const honeypot = (body as Record<string, unknown>)[HONEYPOT_FIELD];
+  if (typeof honeypot === "string" && honeypot !== "") {
+    return Response.json({ sent: true });
+  }
+
+  try {
+    transport ??= transportFromEnv();
+    await transport.send({ ...validated.contact, receivedAt: new Date().toISOString(), ...(ip && { ip }) });
+  } catch (e) {
+    console.error(`Contact message not delivered (${transport?.name ?? "no transport"}):`, e);
+    return reply(500, [{ field: "body", message: "Your message could not be delivered. Please try again later." }]);
+  }
+  return Response.json({ sent: true });
+}
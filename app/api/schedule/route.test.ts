@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { POST } from "./route";
+
+const post = (body: unknown) =>
+  POST(new Request("http://localhost/api/schedule", { method: "POST", body: JSON.stringify(body) }));
+
+describe("POST /api/schedule", () => {
+  it("runs a valid workload", async () => {
+    const response = await post({ algorithm: "fcfs", processes: [{ pid: "P1", arrival: 0, burst: 3 }] });
+    expect(response.status).toBe(200);
+    expect((await response.json()).metrics.avgTurnaround).toBe(3);
+  });
+
+  it("rejects an affinity beyond the cores the run uses", async () => {
+    const response = await post({ algorithm: "fcfs", processes: [{ pid: "P1", arrival: 0, burst: 3, affinity: 3 }] });
+    expect(response.status).toBe(400);
+    expect((await response.json()).errors).toEqual([
+      { field: "processes[0].affinity", message: "Must be 0, the run's only core (affinity counts from 0)." },
+    ]);
+
+    const multiCore = await post({ algorithm: "fcfs", cores: 4, processes: [{ pid: "P1", arrival: 0, burst: 3, affinity: 3 }] });
+    expect(multiCore.status).toBe(200);
+  });
+
+  it("rejects PIDs reserved for the Gantt chart", async () => {
+    const response = await post({
+      algorithm: "fcfs",
+      processes: [
+        { pid: "IDLE", arrival: 0, burst: 3 },
+        { pid: "CS", arrival: 0, burst: 3 },
+      ],
+    });
+    expect(response.status).toBe(400);
+    expect((await response.json()).errors.map((e: { field: string }) => e.field)).toEqual(["processes[0].pid", "processes[1].pid"]);
+  });
+});
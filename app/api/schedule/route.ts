@@ -0,0 +1,74 @@
+import {
+  ALGORITHM_IDS,
+  ALGORITHMS,
+  summarize,
+  validateOptions,
+  validateWorkload,
+  type AlgorithmId,
+  type FieldError,
+} from "@/lib/scheduling";
+
+const badRequest = (errors: FieldError[]) => Response.json({ errors }, { status: 400 });
+
+/**
+ * Runs a scheduling algorithm on a workload.
+ *
+ * Body: `{ "algorithm": "fcfs", "processes": [{ "pid": "P1", "arrival": 0, "burst": 5 }, ...] }`,
+ * plus the optional `quantum`, `preemptive`, `cores`, `contextSwitch` and `mlfq` options.
+ * Responds with the per-process `results`, the `ganttBlocks` (core 0), every core's lane,
+ * the I/O lane and the summary metrics, or 400 with one `{ field, message }` per bad field.
+ * Processes may only be pinned to the cores the run uses: one unless `cores` says otherwise.
+ */
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return badRequest([{ field: "body", message: "Request body must be valid JSON." }]);
+  }
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return badRequest([{ field: "body", message: "Request body must be a JSON object." }]);
+  }
+
+  const input = body as Record<string, unknown>;
+  const errors: FieldError[] = [];
+
+  const algorithm = input.algorithm as AlgorithmId;
+  const known = ALGORITHM_IDS.includes(algorithm);
+  if (!known) {
+    errors.push({ field: "algorithm", message: `Must be one of: ${ALGORITHM_IDS.join(", ")}.` });
+  }
+
+  const options = validateOptions(input);
+  if ("errors" in options) errors.push(...options.errors);
+
+  // Affinities are checked against the cores the run will use, which is one unless asked otherwise
+  const workload = validateWorkload(input.processes, {
+    requirePriority: known && ALGORITHMS[algorithm].usesPriority,
+    cores: "options" in options ? options.options.cores ?? 1 : undefined,
+  });
+  if ("errors" in workload) errors.push(...workload.errors);
+
+  if (errors.length > 0 || !("processes" in workload) || !("options" in options)) {
+    return badRequest(errors);
+  }
+
+  let schedule;
+  try {
+    schedule = ALGORITHMS[algorithm].run(workload.processes, options.options);
+  } catch (e) {
+    // The schedulers reject inputs they cannot run with a RangeError; anything else is a bug
+    if (e instanceof RangeError) return badRequest([{ field: "body", message: e.message }]);
+    throw e;
+  }
+  return Response.json({
+    algorithm,
+    results: schedule.results,
+    ganttBlocks: schedule.ganttBlocks,
+    coreBlocks: schedule.coreBlocks,
+    ioBlocks: schedule.ioBlocks,
+    timeMarkers: schedule.timeMarkers,
+    totalTime: schedule.totalTime,
+    metrics: summarize(schedule),
+  });
+}
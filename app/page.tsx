@@ -2,6 +2,7 @@
 import Link from "next/link";
 import Image from "next/image";
 import React from "react";
+import ContactForm from "./_components/ContactForm";
 
 /**
  * Futuristic Dark portfolio page (Option C)
@@ -23,6 +24,8 @@ interface PortfolioItem {
 
 const NAME = "JAYMAR YECYEC";
 const heroImage = "/yecyec.jpg";
+// Address behind the "Email me" button; without it the button leads to the contact form
+const EMAIL = process.env.NEXT_PUBLIC_CONTACT_EMAIL;
 
 export default function Home(): React.JSX.Element {
   const portfolioItems: PortfolioItem[] = [
@@ -44,6 +47,46 @@ export default function Home(): React.JSX.Element {
       image: "/Commerce Shop.jpg",
       openInNewTab: true,
     },
+    {
+      id: 3,
+      title: "Page Replacement Simulator",
+      description:
+        "FIFO, LRU, OPT, Clock and LFU on one reference string, with a frame-by-time table and a Belady's anomaly plot.",
+      link: "/projects/page-replacement",
+      openInNewTab: true,
+    },
+    {
+      id: 4,
+      title: "Disk Scheduling Simulator",
+      description:
+        "FCFS, SSTF, SCAN, C-SCAN, LOOK and C-LOOK on one request queue, with the head path plotted and seek distances compared.",
+      link: "/projects/disk-scheduling",
+      openInNewTab: true,
+    },
+    {
+      id: 5,
+      title: "Banker's Algorithm & Deadlock Workbench",
+      description:
+        "Edit Allocation, Max and Available, step through the safety algorithm, test resource requests, and spot deadlocks on a resource-allocation graph.",
+      link: "/projects/deadlock",
+      openInNewTab: true,
+    },
+    {
+      id: 6,
+      title: "Memory Management Simulator",
+      description:
+        "First, best, worst and next fit on a memory bar over time, with fragmentation tracking, compaction, and paging and segmentation address translation.",
+      link: "/projects/memory",
+      openInNewTab: true,
+    },
+    {
+      id: 7,
+      title: "Process Synchronization Playground",
+      description:
+        "Producer-consumer, readers-writers and dining philosophers with semaphores and mutexes: thread-state lanes, seeded or manual interleavings, and flagged deadlocks and starvation.",
+      link: "/projects/sync",
+      openInNewTab: true,
+    },
   ];
 
   return (
@@ -276,8 +319,8 @@ export default function Home(): React.JSX.Element {
               </p>
 
               <div className="mt-6 flex gap-3">
-                <a href="mailto:example@example.com" className="px-4 py-2 rounded-md bg-cyan-500/90 hover:bg-cyan-500 transition">
-                  Email me
+                <a href={EMAIL ? `mailto:${EMAIL}` : "#contact-form"} className="px-4 py-2 rounded-md bg-cyan-500/90 hover:bg-cyan-500 transition">
+                  {EMAIL ? "Email me" : "Write a message"}
                 </a>
                 <a href="#" className="px-4 py-2 rounded-md border border-slate-700 hover:border-cyan-400 transition">
                   Other ways
@@ -285,19 +328,7 @@ export default function Home(): React.JSX.Element {
               </div>
             </div>
 
-            <form className="space-y-4" onSubmit={(e) => e.preventDefault()}>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <input className="p-3 rounded-md bg-transparent border border-slate-700 placeholder:text-slate-500 text-slate-200" placeholder="Your name" />
-                <input type="email" className="p-3 rounded-md bg-transparent border border-slate-700 placeholder:text-slate-500 text-slate-200" placeholder="Your email" />
-              </div>
-              <input className="w-full p-3 rounded-md bg-transparent border border-slate-700 placeholder:text-slate-500 text-slate-200" placeholder="Subject" />
-              <textarea className="w-full p-3 rounded-md bg-transparent border border-slate-700 placeholder:text-slate-500 text-slate-200" rows={5} placeholder="Message" />
-              <div className="text-right">
-                <button className="inline-flex items-center gap-2 px-5 py-3 rounded-md bg-gradient-to-r from-cyan-500 to-indigo-600 hover:scale-[1.01] transition">
-                  Send message
-                </button>
-              </div>
-            </form>
+            <ContactForm />
           </div>
         </div>
       </section>
@@ -0,0 +1,298 @@
+import React, { useState } from "react";
+import {
+  MAX_MEMORY,
+  translatePaged,
+  translateSegmented,
+  type PagedTranslation,
+  type Segment,
+  type SegmentedTranslation,
+} from "@/lib/memory";
+import RemoveRowButton from "./RemoveRowButton";
+import {
+  BORDER_COLOR,
+  DIVIDER_COLOR,
+  INPUT_BG_COLOR,
+  LIGHT_TEXT_COLOR,
+  PRIMARY_BG_BLUE,
+  PRIMARY_BLUE_CLASS,
+  PRIMARY_HOVER_BLUE_BG,
+  PRIMARY_SHADOW,
+  TEXT_COLOR,
+} from "./theme";
+
+type Cell = number | "";
+
+// Silberschatz's examples: 4-byte pages, and a five-entry segment table
+const EXAMPLE_PAGE_TABLE = "5 6 1 2";
+const EXAMPLE_SEGMENTS: { base: Cell; limit: Cell }[] = [
+  { base: 1400, limit: 1000 },
+  { base: 6300, limit: 400 },
+  { base: 4300, limit: 400 },
+  { base: 3200, limit: 1100 },
+  { base: 4700, limit: 1000 },
+];
+
+/**
+ * Parses a page table written as frame numbers, with "-" for a page not in memory.
+ * @returns The frames, or a message for the error box.
+ */
+function parsePageTable(text: string): { table: (number | null)[] } | { error: string } {
+  const tokens = text.trim().split(/[\s,]+/).filter((t) => t !== "");
+  if (tokens.length === 0 || tokens.some((t) => t !== "-" && !/^\d+$/.test(t))) {
+    return { error: 'The page table must list a frame number per page, or "-" for a page not in memory.' };
+  }
+  return { table: tokens.map((t) => (t === "-" ? null : Number(t))) };
+}
+
+const isPowerOfTwo = (n: number) => (n & (n - 1)) === 0;
+
+/**
+ * Logical-to-physical address translation through a page table or a segment table,
+ * showing each step of the arithmetic.
+ */
+export default function AddressTranslator() {
+  const [pageSize, setPageSize] = useState<Cell>(4);
+  const [pageTableText, setPageTableText] = useState(EXAMPLE_PAGE_TABLE);
+  const [logical, setLogical] = useState<Cell>(13);
+  const [segments, setSegments] = useState(EXAMPLE_SEGMENTS);
+  const [segment, setSegment] = useState<Cell>(2);
+  const [offset, setOffset] = useState<Cell>(53);
+  const [paged, setPaged] = useState<{ result: PagedTranslation; table: (number | null)[]; pageSize: number } | null>(null);
+  const [segmented, setSegmented] = useState<{ result: SegmentedTranslation; table: Segment[] } | null>(null);
+  const [error, setError] = useState("");
+
+  // Whole numbers only, like the other numeric inputs
+  const numeric = (set: (value: Cell) => void, clear: () => void) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!/^\d*$/.test(e.target.value)) return;
+    set(e.target.value === "" ? "" : parseInt(e.target.value));
+    clear();
+    setError("");
+  };
+  const clearPaged = () => setPaged(null);
+  const clearSegmented = () => setSegmented(null);
+
+  const translatePage = () => {
+    const parsed = parsePageTable(pageTableText);
+    if ("error" in parsed) {
+      setError(parsed.error);
+      return;
+    }
+    if (pageSize === "" || pageSize < 1 || pageSize > MAX_MEMORY || logical === "") {
+      setError(`Enter a page size from 1 to ${MAX_MEMORY} and a logical address.`);
+      return;
+    }
+    setPaged({ result: translatePaged(logical, pageSize, parsed.table), table: parsed.table, pageSize });
+    setError("");
+  };
+
+  const translateSegment = () => {
+    const invalid = segments.findIndex((s) => s.base === "" || s.limit === "");
+    if (invalid !== -1) {
+      setError(`Segment ${invalid}: Base and Limit are required.`);
+      return;
+    }
+    if (segment === "" || offset === "") {
+      setError("Enter a segment number and an offset.");
+      return;
+    }
+    const table = segments.map((s) => ({ base: s.base as number, limit: s.limit as number }));
+    setSegmented({ result: translateSegmented(segment, offset, table), table });
+    setError("");
+  };
+
+  const updateSegment = (i: number, field: "base" | "limit", value: string) => {
+    if (!/^\d*$/.test(value)) return;
+    setSegments(segments.map((s, r) => (r === i ? { ...s, [field]: value === "" ? "" : parseInt(value) } : s)));
+    clearSegmented();
+    setError("");
+  };
+
+  const inputClass = `w-28 p-2 border ${BORDER_COLOR} rounded-lg text-sm focus:ring-blue-500 focus:border-blue-500 transition-shadow ${INPUT_BG_COLOR} text-white`;
+  const labelClass = `flex items-center gap-3 text-sm ${LIGHT_TEXT_COLOR}`;
+  const buttonClass = `px-4 py-2 text-sm font-bold text-white rounded-full ${PRIMARY_BG_BLUE} ${PRIMARY_HOVER_BLUE_BG} transition-transform transform hover:scale-[1.02] active:scale-95 shadow-lg shadow-blue-900/50`;
+  const verdictClass = (ok: boolean) =>
+    `p-4 rounded-lg border font-semibold ${ok ? "bg-green-900/40 border-green-700 text-green-400" : "bg-red-900/50 border-red-700 text-red-300"}`;
+
+  const pagedSteps = (p: NonNullable<typeof paged>) => {
+    const { result, pageSize: size } = p;
+    const address = result.page * size + result.offset;
+    const steps = [`Page = ⌊${address} ÷ ${size}⌋ = ${result.page}`, `Offset = ${address} mod ${size} = ${result.offset}`];
+    if (isPowerOfTwo(size)) {
+      const bits = Math.log2(size);
+      const binary = address.toString(2).padStart(bits + 1, "0");
+      steps.push(`In binary, the low ${bits} bits are the offset: ${binary.slice(0, -bits || undefined)} | ${bits > 0 ? binary.slice(-bits) : "—"}`);
+    }
+    if (result.frame !== undefined) {
+      steps.push(`Frame = page table[${result.page}] = ${result.frame}`, `Physical = ${result.frame} × ${size} + ${result.offset} = ${result.physical}`);
+    }
+    return steps;
+  };
+
+  return (
+    <div className="space-y-10">
+      {/* Paging */}
+      <div>
+        <h3 className={`text-xl font-semibold mb-5 ${TEXT_COLOR} flex items-center`}>
+          <span className={`text-2xl mr-3 ${PRIMARY_BLUE_CLASS}`}>📄</span> Paging
+        </h3>
+        <div className="flex flex-wrap items-center gap-6">
+          <label className={labelClass}>
+            Page Size
+            <input type="number" min="1" value={pageSize} onChange={numeric(setPageSize, clearPaged)} className={inputClass} />
+          </label>
+          <label className={labelClass}>
+            Page Table (frames)
+            <input
+              type="text"
+              value={pageTableText}
+              onChange={(e) => {
+                setPageTableText(e.target.value);
+                clearPaged();
+                setError("");
+              }}
+              placeholder="e.g., 5 6 - 2"
+              className={`w-48 p-2 border ${BORDER_COLOR} rounded-lg text-sm font-mono focus:ring-blue-500 focus:border-blue-500 ${INPUT_BG_COLOR} text-white`}
+            />
+          </label>
+          <label className={labelClass}>
+            Logical Address
+            <input type="number" min="0" value={logical} onChange={numeric(setLogical, clearPaged)} className={inputClass} />
+          </label>
+          <button onClick={translatePage} className={buttonClass}>
+            Translate 🚀
+          </button>
+        </div>
+
+        {paged && (
+          <div className="mt-6 space-y-4">
+            <div className="flex flex-wrap gap-2">
+              {paged.table.map((frame, page) => (
+                <div
+                  key={page}
+                  className={`px-3 py-2 rounded-lg border text-center text-sm font-mono ${
+                    page === paged.result.page ? "bg-blue-900/50 border-blue-500 text-blue-300" : `${BORDER_COLOR} ${LIGHT_TEXT_COLOR}`
+                  }`}
+                >
+                  <div className="text-xs">page {page}</div>
+                  <div className="font-bold">{frame ?? "—"}</div>
+                </div>
+              ))}
+            </div>
+            <ol className={`list-decimal list-inside text-sm font-mono space-y-1 ${TEXT_COLOR}`}>
+              {pagedSteps(paged).map((step) => (
+                <li key={step}>{step}</li>
+              ))}
+            </ol>
+            <div className={verdictClass(!paged.result.error)}>
+              {paged.result.error ?? `Logical address ${logical} → physical address ${paged.result.physical}`}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <hr className={`${DIVIDER_COLOR}`} />
+
+      {/* Segmentation */}
+      <div>
+        <h3 className={`text-xl font-semibold mb-5 ${TEXT_COLOR} flex items-center`}>
+          <span className={`text-2xl mr-3 ${PRIMARY_BLUE_CLASS}`}>🧩</span> Segmentation
+        </h3>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-700">
+            <thead className="bg-gray-700">
+              <tr>
+                {["Segment", "Base", "Limit", "Actions"].map((label) => (
+                  <th key={label} className={`px-4 py-3 text-left text-xs font-medium ${LIGHT_TEXT_COLOR} uppercase tracking-wider`}>
+                    {label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-700">
+              {segments.map((s, i) => (
+                <tr
+                  key={i}
+                  className={`transition-colors ${segmented && segmented.result.segment === i ? "bg-blue-900/40" : "bg-gray-800 hover:bg-gray-700"}`}
+                >
+                  <td className="px-4 py-4 whitespace-nowrap text-sm font-semibold text-gray-100">{i}</td>
+                  {(["base", "limit"] as const).map((field) => (
+                    <td key={field} className="px-4 py-2 whitespace-nowrap">
+                      <input
+                        type="number"
+                        min="0"
+                        value={s[field]}
+                        onChange={(e) => updateSegment(i, field, e.target.value)}
+                        className={inputClass}
+                      />
+                    </td>
+                  ))}
+                  <td className="px-4 py-2 whitespace-nowrap text-sm font-medium">
+                    {segments.length > 1 && (
+                      <RemoveRowButton
+                        onClick={() => {
+                          setSegments(segments.filter((_, r) => r !== i));
+                          clearSegmented();
+                        }}
+                        title="Remove Segment"
+                      />
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-6 mt-6">
+          <button
+            onClick={() => {
+              setSegments([...segments, { base: "", limit: "" }]);
+              clearSegmented();
+            }}
+            className={`px-4 py-2 text-sm font-medium rounded-full text-blue-400 bg-gray-900 border border-blue-600 hover:bg-gray-700 transition-all ${PRIMARY_SHADOW}`}
+          >
+            <span className="text-xl inline-block mr-1 align-bottom">+</span> Add Segment
+          </button>
+          <label className={labelClass}>
+            Segment
+            <input type="number" min="0" value={segment} onChange={numeric(setSegment, clearSegmented)} className={inputClass} />
+          </label>
+          <label className={labelClass}>
+            Offset
+            <input type="number" min="0" value={offset} onChange={numeric(setOffset, clearSegmented)} className={inputClass} />
+          </label>
+          <button onClick={translateSegment} className={buttonClass}>
+            Translate 🚀
+          </button>
+        </div>
+
+        {segmented && (
+          <div className="mt-6 space-y-4">
+            {!segmented.result.error && (
+              <ol className={`list-decimal list-inside text-sm font-mono space-y-1 ${TEXT_COLOR}`}>
+                <li>
+                  Offset {segmented.result.offset} &lt; limit {segmented.table[segmented.result.segment].limit} ✓
+                </li>
+                <li>
+                  Physical = base {segmented.table[segmented.result.segment].base} + {segmented.result.offset} = {segmented.result.physical}
+                </li>
+              </ol>
+            )}
+            <div className={verdictClass(!segmented.result.error)}>
+              {segmented.result.error ??
+                `(${segmented.result.segment}, ${segmented.result.offset}) → physical address ${segmented.result.physical}`}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-900/50 border border-red-700 text-red-300 rounded-lg" role="alert">
+          <p className="font-semibold">Input Error:</p>
+          <p>{error}</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import Link from "next/link";
+import React from "react";
+import { ALGORITHM_IDS, ALGORITHMS, type AlgorithmId } from "@/lib/scheduling";
+import { PRIMARY_BG_BLUE } from "./theme";
+
+/** Page that runs every algorithm on one workload. */
+export const COMPARE_ROUTE = "/projects/compare";
+
+interface AlgorithmNavProps {
+  /** Page this is, highlighted and not linked. */
+  current?: AlgorithmId | "compare";
+}
+
+/**
+ * Row of links to every scheduling simulator, built from the registry's routes, and to the
+ * comparison page.
+ */
+export default function AlgorithmNav({ current }: AlgorithmNavProps) {
+  const linkClass = "px-3 py-1.5 text-xs font-medium rounded-full border transition-all";
+  const pages = [
+    ...ALGORITHM_IDS.map((id) => ({ id, href: ALGORITHMS[id].route, label: ALGORITHMS[id].name, title: ALGORITHMS[id].title })),
+    { id: "compare", href: COMPARE_ROUTE, label: "⚖️ Compare All", title: "Every algorithm on one workload" },
+  ];
+
+  return (
+    <nav aria-label="Scheduling simulators" className="flex flex-wrap justify-center gap-2 mt-4">
+      {pages.map(({ id, href, label, title }) =>
+        id === current ? (
+          <span key={id} aria-current="page" className={`${linkClass} ${PRIMARY_BG_BLUE} text-white border-blue-600`}>
+            {label}
+          </span>
+        ) : (
+          <Link key={id} href={href} title={title} className={`${linkClass} bg-gray-900 text-blue-400 border-blue-600 hover:bg-gray-700`}>
+            {label}
+          </Link>
+        )
+      )}
+    </nav>
+  );
+}
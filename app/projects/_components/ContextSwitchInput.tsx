@@ -0,0 +1,41 @@
+import React from "react";
+import { MAX_TIME_UNIT } from "@/lib/scheduling";
+import { BORDER_COLOR, INPUT_BG_COLOR, LIGHT_TEXT_COLOR } from "./theme";
+
+/**
+ * Validates a context-switch time.
+ * @returns The message for the error box, or null when the value is usable.
+ */
+export function contextSwitchError(contextSwitch: number | ""): string | null {
+  if (contextSwitch === "" || contextSwitch < 0 || contextSwitch > MAX_TIME_UNIT) {
+    return `Context Switch time must be between 0 and ${MAX_TIME_UNIT}.`;
+  }
+  return null;
+}
+
+interface ContextSwitchInputProps {
+  contextSwitch: number | "";
+  onChange: (contextSwitch: number | "") => void;
+}
+
+/**
+ * Labelled numeric input for the time charged per context switch.
+ */
+export default function ContextSwitchInput({ contextSwitch, onChange }: ContextSwitchInputProps) {
+  return (
+    <label className={`flex items-center gap-3 text-sm ${LIGHT_TEXT_COLOR}`}>
+      Context Switch (cs)
+      <input
+        type="number"
+        min="0"
+        value={contextSwitch}
+        onChange={(e) => {
+          // Ensure only non-negative integers are entered
+          if (!/^\d*$/.test(e.target.value)) return;
+          onChange(e.target.value === "" ? "" : parseInt(e.target.value));
+        }}
+        className={`w-24 p-2 border ${BORDER_COLOR} rounded-lg text-sm focus:ring-blue-500 focus:border-blue-500 transition-shadow ${INPUT_BG_COLOR} text-white`}
+      />
+    </label>
+  );
+}
@@ -0,0 +1,58 @@
+import React from "react";
+import { describeEvent, type ScheduleEvent, type ScheduleEventType } from "@/lib/scheduling";
+import { BORDER_COLOR, DIVIDER_COLOR, LIGHT_TEXT_COLOR, TEXT_COLOR } from "./theme";
+
+const EVENT_BADGE: Record<ScheduleEventType, string> = {
+  arrival: "bg-yellow-900/50 text-yellow-300",
+  switch: "bg-red-900/50 text-red-300",
+  dispatch: "bg-green-900/50 text-green-300",
+  preempt: "bg-orange-900/50 text-orange-300",
+  block: "bg-purple-900/50 text-purple-300",
+  "io-complete": "bg-purple-900/50 text-purple-300",
+  complete: "bg-blue-900/50 text-blue-300",
+  "idle-start": "bg-gray-700 text-gray-300",
+  "idle-end": "bg-gray-700 text-gray-300",
+  demote: "bg-pink-900/50 text-pink-300",
+  promote: "bg-teal-900/50 text-teal-300",
+};
+
+// Rows rendered at most; long traces are cut off so the page stays responsive
+const MAX_ROWS = 1000;
+
+interface EventLogProps {
+  events: ScheduleEvent[];
+}
+
+/**
+ * Scrollable, time-ordered scheduler trace with a ready-queue snapshot per event.
+ */
+export default function EventLog({ events }: EventLogProps) {
+  return (
+    <div className={`border ${BORDER_COLOR} rounded-lg bg-gray-900 shadow-inner shadow-black/20 flex flex-col`}>
+      <p className={`px-4 py-3 border-b ${DIVIDER_COLOR} text-sm font-semibold ${TEXT_COLOR}`}>
+        Event Log <span className={`${LIGHT_TEXT_COLOR} font-normal`}>({events.length})</span>
+      </p>
+      <ol className="max-h-80 overflow-y-auto text-xs divide-y divide-gray-800">
+        {events.slice(0, MAX_ROWS).map((event, index) => (
+          <li key={index} className="px-4 py-2 flex gap-3">
+            <span className={`font-mono w-8 text-right shrink-0 ${LIGHT_TEXT_COLOR}`}>{event.time}</span>
+            <div className="min-w-0">
+              <span className={`inline-block px-2 py-0.5 mr-2 rounded uppercase tracking-wider text-[10px] font-semibold ${EVENT_BADGE[event.type]}`}>
+                {event.type}
+              </span>
+              <span className={TEXT_COLOR}>{describeEvent(event)}</span>
+              <p className={`mt-1 font-mono ${LIGHT_TEXT_COLOR}`}>
+                Ready: [{event.readyQueue.join(", ")}]
+              </p>
+            </div>
+          </li>
+        ))}
+        {events.length > MAX_ROWS && (
+          <li className={`px-4 py-2 italic ${LIGHT_TEXT_COLOR}`}>
+            … {events.length - MAX_ROWS} more events not shown
+          </li>
+        )}
+      </ol>
+    </div>
+  );
+}
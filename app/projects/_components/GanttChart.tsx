@@ -0,0 +1,93 @@
+import React from "react";
+import { downsampleBlocks, getProcessColor, type GanttData, type ProcessColor } from "@/lib/scheduling";
+import { BORDER_COLOR, PRIMARY_BLUE_CLASS } from "./theme";
+
+// Most blocks and time labels drawn at once; denser views merge short blocks and skip labels
+const MAX_BLOCKS = 400;
+const MAX_MARKERS = 16;
+
+export interface TimeWindow {
+  start: number;
+  end: number;
+}
+
+interface GanttChartProps {
+  ganttData: GanttData;
+  /** Length of the time axis; defaults to `ganttData.totalTime`. Pass the same value to stacked charts to align them. */
+  axisTime?: number;
+  /** Part of the axis to draw; defaults to all of it. */
+  view?: TimeWindow;
+  /** Bar height in pixels. */
+  height?: number;
+  /** Hide the time markers (for stacked lanes that share one axis). */
+  hideMarkers?: boolean;
+  /** Colors picked for processes, by PID; the rest get their default color. */
+  colors?: Record<string, ProcessColor>;
+}
+
+/**
+ * Gantt bar plus time markers, scaled so the visible window fills the chart's width.
+ */
+export default function GanttChart({ ganttData, axisTime, view, height = 60, hideMarkers = false, colors }: GanttChartProps) {
+    const { ganttBlocks, timeMarkers, totalTime } = ganttData;
+    const { start, end } = view ?? { start: 0, end: axisTime ?? totalTime };
+    const span = Math.max(end - start, 1);
+    const percent = (time: number) => `${((time - start) / span) * 100}%`;
+
+    const blocks = downsampleBlocks(ganttBlocks, start, end, span / MAX_BLOCKS);
+    // Markers inside the window, at least 1/MAX_MARKERS of it apart
+    const markers: number[] = [];
+    for (const time of timeMarkers) {
+        if (time < start || time > end) continue;
+        if (markers.length > 0 && time - markers[markers.length - 1] < span / MAX_MARKERS) continue;
+        markers.push(time);
+    }
+
+    return (
+        <div className="relative min-w-[400px]">
+            <div
+                className={`relative rounded-md overflow-hidden border ${BORDER_COLOR}`}
+                style={{ height: `${height}px` }}
+            >
+                {blocks.map((block) => {
+                    const duration = block.end - block.start;
+                    const blockColorClass = getProcessColor(block.process, colors?.[block.process]);
+                    // Multilevel schedulers tag each block with the queue it ran from
+                    const queue = block.level !== undefined ? ` · Q${block.level}` : "";
+
+                    return (
+                        <div
+                            key={block.start}
+                            className={`absolute inset-y-0 flex items-center justify-center overflow-hidden border-r ${BORDER_COLOR} ${blockColorClass}`}
+                            style={{ left: percent(block.start), width: percent(start + duration) }}
+                            title={`${block.process}${queue} (${duration}ms)`}
+                        >
+                            {height >= 24 && (
+                                <span className="text-sm font-semibold p-1 select-none whitespace-nowrap">
+                                    {block.process}
+                                    {queue && <span className="text-xs font-normal opacity-80">{queue}</span>}
+                                </span>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+
+            {/* Time Markers */}
+            {!hideMarkers && (
+                <div className="relative w-full h-4 mt-3">
+                    {markers.map((time) => (
+                        <div
+                            key={time}
+                            className="absolute top-0 text-xs text-gray-400 transform -translate-x-1/2"
+                            style={{ left: percent(time) }}
+                        >
+                            <span className={`h-2 w-px inline-block ${PRIMARY_BLUE_CLASS} absolute bottom-full left-1/2 -translate-x-1/2`}></span>
+                            {time}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
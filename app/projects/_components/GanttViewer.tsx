@@ -0,0 +1,153 @@
+import React, { useEffect, useRef, useState } from "react";
+import type { GanttBlock, ProcessColor } from "@/lib/scheduling";
+import GanttChart, { type TimeWindow } from "./GanttChart";
+import { BORDER_COLOR, LIGHT_TEXT_COLOR } from "./theme";
+
+// Narrowest window, in time units, and how much one zoom step scales it
+const MIN_SPAN = 4;
+const ZOOM_STEP = 2;
+
+export interface GanttLane {
+  /** Shown above the lane; omit for a lone CPU lane. */
+  label?: string;
+  blocks: GanttBlock[];
+}
+
+interface GanttViewerProps {
+  lanes: GanttLane[];
+  timeMarkers: number[];
+  totalTime: number;
+  /** Colors picked for processes, by PID; the rest get their default color. */
+  colors?: Record<string, ProcessColor>;
+}
+
+/**
+ * Keeps a window inside `0..totalTime` and at least MIN_SPAN wide.
+ */
+function clampView({ start, end }: TimeWindow, totalTime: number): TimeWindow {
+  const span = Math.min(totalTime, Math.max(end - start, MIN_SPAN));
+  const from = Math.min(Math.max(start, 0), totalTime - span);
+  return { start: from, end: from + span };
+}
+
+/**
+ * Resizes a window to `nextSpan`, keeping the time `at` in the same place on screen.
+ * @returns The new window, or null once it covers the whole schedule.
+ */
+function zoomView(view: TimeWindow, nextSpan: number, at: number, totalTime: number): TimeWindow | null {
+  const span = Math.max(MIN_SPAN, nextSpan);
+  if (span >= totalTime) return null;
+  const start = at - ((at - view.start) / (view.end - view.start)) * span;
+  return clampView({ start, end: start + span }, totalTime);
+}
+
+/**
+ * Stacked Gantt lanes on one time axis with zoom (buttons or Ctrl + scroll), drag-to-pan,
+ * and a minimap of the whole schedule while zoomed in.
+ */
+export default function GanttViewer({ lanes, timeMarkers, totalTime, colors }: GanttViewerProps) {
+  const [viewState, setView] = useState<TimeWindow | null>(null); // null = fit the whole schedule
+  const view = viewState ? clampView(viewState, totalTime) : { start: 0, end: totalTime };
+  const span = view.end - view.start;
+  const zoomed = span < totalTime;
+
+  const chartRef = useRef<HTMLDivElement>(null);
+  const drag = useRef<{ x: number; view: TimeWindow } | null>(null);
+
+  const zoom = (factor: number) => setView(zoomView(view, span * factor, view.start + span / 2, totalTime));
+
+  // Ctrl + scroll zooms around the pointer; a passive React listener could not stop the page zooming too
+  useEffect(() => {
+    const el = chartRef.current;
+    if (!el) return;
+    const onWheel = (e: WheelEvent) => {
+      if (!e.ctrlKey && !e.metaKey) return;
+      e.preventDefault();
+      const rect = el.getBoundingClientRect();
+      const at = view.start + ((e.clientX - rect.left) / rect.width) * span;
+      const current = { start: view.start, end: view.start + span };
+      setView(zoomView(current, span * (e.deltaY > 0 ? ZOOM_STEP : 1 / ZOOM_STEP), at, totalTime));
+    };
+    el.addEventListener("wheel", onWheel, { passive: false });
+    return () => el.removeEventListener("wheel", onWheel);
+  }, [view.start, span, totalTime]);
+
+  const startPan = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!zoomed) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drag.current = { x: e.clientX, view };
+  };
+  const pan = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag.current) return;
+    const shift = -((e.clientX - drag.current.x) / e.currentTarget.getBoundingClientRect().width) * span;
+    setView(clampView({ start: drag.current.view.start + shift, end: drag.current.view.end + shift }, totalTime));
+  };
+  const endPan = () => {
+    drag.current = null;
+  };
+
+  // Clicking or dragging on the minimap centres the window there
+  const jump = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.buttons !== 1) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const at = ((e.clientX - rect.left) / rect.width) * totalTime;
+    setView(clampView({ start: at - span / 2, end: at + span / 2 }, totalTime));
+  };
+
+  const buttonClass = `px-3 py-1 text-sm font-medium rounded-full text-blue-400 bg-gray-900 border border-blue-600 hover:bg-gray-700 transition-all disabled:opacity-40`;
+
+  return (
+    <div>
+      {/* Zoom controls */}
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <button onClick={() => zoom(1 / ZOOM_STEP)} disabled={span <= MIN_SPAN} className={buttonClass} title="Zoom In">
+          ＋
+        </button>
+        <button onClick={() => zoom(ZOOM_STEP)} disabled={!zoomed} className={buttonClass} title="Zoom Out">
+          －
+        </button>
+        <button onClick={() => setView(null)} disabled={!zoomed} className={buttonClass}>
+          Fit
+        </button>
+        <span className={`text-xs ${LIGHT_TEXT_COLOR} ml-auto`}>
+          {zoomed ? `Showing ${Math.round(view.start)}–${Math.round(view.end)} of ${totalTime} · drag to pan` : "Ctrl + scroll to zoom"}
+        </span>
+      </div>
+
+      {/* Lanes */}
+      <div
+        ref={chartRef}
+        onPointerDown={startPan}
+        onPointerMove={pan}
+        onPointerUp={endPan}
+        onPointerCancel={endPan}
+        className={zoomed ? "cursor-grab active:cursor-grabbing select-none" : ""}
+      >
+        {lanes.map((lane, index) => (
+          <div key={index} className={index > 0 ? "mt-6" : ""}>
+            {lane.label && <p className={`text-xs uppercase tracking-wider mb-2 ${LIGHT_TEXT_COLOR}`}>{lane.label}</p>}
+            <GanttChart ganttData={{ ganttBlocks: lane.blocks, timeMarkers, totalTime }} view={view} colors={colors} />
+          </div>
+        ))}
+      </div>
+
+      {/* Minimap of the whole schedule with the visible window highlighted */}
+      {zoomed && (
+        <div
+          onPointerDown={jump}
+          onPointerMove={jump}
+          className={`relative mt-6 rounded-md border ${BORDER_COLOR} cursor-pointer select-none space-y-px`}
+          title="Minimap: click or drag to move the view"
+        >
+          {lanes.map((lane, index) => (
+            <GanttChart key={index} ganttData={{ ganttBlocks: lane.blocks, timeMarkers, totalTime }} height={8} hideMarkers colors={colors} />
+          ))}
+          <div
+            className="absolute inset-y-0 border-2 border-blue-400 bg-blue-400/20 rounded-sm pointer-events-none"
+            style={{ left: `${(view.start / totalTime) * 100}%`, width: `${(span / totalTime) * 100}%` }}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import React from "react";
+import { LIGHT_TEXT_COLOR } from "./theme";
+
+export interface Series {
+  label: string;
+  /** Stroke colour, e.g. "#60a5fa". */
+  color: string;
+  points: { x: number; y: number }[];
+  /** x values whose points get a red ring, e.g. where an anomaly occurs. */
+  marked?: number[];
+}
+
+interface LineChartProps {
+  series: Series[];
+  xLabel: string;
+  yLabel: string;
+  /** Draw y growing downwards, like a timeline read top to bottom. */
+  flipY?: boolean;
+  /** Start the y axis at 0 instead of the smallest value. */
+  zeroBased?: boolean;
+  /** Fixed x axis range, e.g. the whole disk; defaults to the range of the points. */
+  xDomain?: [number, number];
+}
+
+// SVG canvas and the margin left for axis labels
+const WIDTH = 640;
+const HEIGHT = 320;
+const MARGIN = { top: 16, right: 16, bottom: 44, left: 56 };
+const MAX_TICKS = 10;
+
+/**
+ * Whole-number tick values from `min` to `max`, at most MAX_TICKS of them.
+ */
+function ticks(min: number, max: number): number[] {
+  const step = Math.max(1, Math.ceil((max - min) / MAX_TICKS));
+  const first = Math.ceil(min / step) * step;
+  const values: number[] = [];
+  for (let v = first; v <= max; v += step) values.push(v);
+  return values;
+}
+
+/**
+ * Multi-series SVG line chart with numeric axes and a legend.
+ */
+export default function LineChart({ series, xLabel, yLabel, flipY = false, zeroBased = false, xDomain }: LineChartProps) {
+  const all = series.flatMap((s) => s.points);
+  const xs = all.map((p) => p.x);
+  const ys = all.map((p) => p.y);
+  const [xMin, xMax] = xDomain ?? [Math.min(...xs), Math.max(...xs)];
+  const [yMin, yMax] = [zeroBased ? 0 : Math.min(...ys), Math.max(...ys)];
+
+  const plotWidth = WIDTH - MARGIN.left - MARGIN.right;
+  const plotHeight = HEIGHT - MARGIN.top - MARGIN.bottom;
+  const x = (value: number) => MARGIN.left + ((value - xMin) / Math.max(xMax - xMin, 1)) * plotWidth;
+  const y = (value: number) => {
+    const fraction = (value - yMin) / Math.max(yMax - yMin, 1);
+    return MARGIN.top + (flipY ? fraction : 1 - fraction) * plotHeight;
+  };
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={`${yLabel} by ${xLabel}`}>
+        {/* Grid and tick labels */}
+        {ticks(yMin, yMax).map((v) => (
+          <g key={`y${v}`}>
+            <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={y(v)} y2={y(v)} stroke="#374151" strokeDasharray="2 4" />
+            <text x={MARGIN.left - 8} y={y(v)} textAnchor="end" dominantBaseline="middle" fontSize="11" fill="#9ca3af">
+              {v}
+            </text>
+          </g>
+        ))}
+        {ticks(xMin, xMax).map((v) => (
+          <text key={`x${v}`} x={x(v)} y={HEIGHT - MARGIN.bottom + 16} textAnchor="middle" fontSize="11" fill="#9ca3af">
+            {v}
+          </text>
+        ))}
+
+        {/* Axes */}
+        <line x1={MARGIN.left} x2={MARGIN.left} y1={MARGIN.top} y2={HEIGHT - MARGIN.bottom} stroke="#6b7280" />
+        <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={HEIGHT - MARGIN.bottom} y2={HEIGHT - MARGIN.bottom} stroke="#6b7280" />
+        <text x={MARGIN.left + plotWidth / 2} y={HEIGHT - 6} textAnchor="middle" fontSize="12" fill="#d1d5db">
+          {xLabel}
+        </text>
+        <text
+          x={14}
+          y={MARGIN.top + plotHeight / 2}
+          textAnchor="middle"
+          fontSize="12"
+          fill="#d1d5db"
+          transform={`rotate(-90 14 ${MARGIN.top + plotHeight / 2})`}
+        >
+          {yLabel}
+        </text>
+
+        {/* Series */}
+        {series.map((s) => (
+          <g key={s.label}>
+            <polyline
+              points={s.points.map((p) => `${x(p.x)},${y(p.y)}`).join(" ")}
+              fill="none"
+              stroke={s.color}
+              strokeWidth="2"
+              strokeLinejoin="round"
+            />
+            {s.points.map((p, i) => (
+              <circle key={i} cx={x(p.x)} cy={y(p.y)} r="3" fill={s.color}>
+                <title>{`${s.label}: ${p.y} at ${p.x}`}</title>
+              </circle>
+            ))}
+            {s.points
+              .filter((p) => s.marked?.includes(p.x))
+              .map((p, i) => (
+                <circle key={`mark${i}`} cx={x(p.x)} cy={y(p.y)} r="8" fill="none" stroke="#f87171" strokeWidth="2" />
+              ))}
+          </g>
+        ))}
+      </svg>
+
+      {/* Legend */}
+      <div className={`flex flex-wrap justify-center gap-4 mt-2 text-sm ${LIGHT_TEXT_COLOR}`}>
+        {series.map((s) => (
+          <span key={s.label} className="flex items-center gap-2">
+            <span className="inline-block w-4 h-1 rounded" style={{ backgroundColor: s.color }} />
+            {s.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
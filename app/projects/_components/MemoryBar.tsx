@@ -0,0 +1,60 @@
+import React from "react";
+import type { MemoryBlock } from "@/lib/memory";
+import { getProcessColor } from "@/lib/scheduling";
+import { BORDER_COLOR, PRIMARY_BLUE_CLASS } from "./theme";
+
+// Most address labels drawn; closer boundaries are skipped
+const MAX_MARKERS = 16;
+
+interface MemoryBarProps {
+  blocks: MemoryBlock[];
+  memorySize: number;
+  /** Bar height in pixels. */
+  height?: number;
+}
+
+/**
+ * Memory drawn as one horizontal bar from address 0, with Gantt-style blocks for the regions
+ * jobs hold and dashed blocks for holes.
+ */
+export default function MemoryBar({ blocks, memorySize, height = 60 }: MemoryBarProps) {
+  const percent = (address: number) => `${(address / memorySize) * 100}%`;
+
+  // Region boundaries, at least 1/MAX_MARKERS of memory apart
+  const markers: number[] = [];
+  for (const address of [...blocks.map((b) => b.start), memorySize]) {
+    if (markers.length > 0 && address - markers[markers.length - 1] < memorySize / MAX_MARKERS && address !== memorySize) continue;
+    markers.push(address);
+  }
+
+  return (
+    <div className="relative min-w-[400px]">
+      <div className={`relative rounded-md overflow-hidden border ${BORDER_COLOR}`} style={{ height: `${height}px` }}>
+        {blocks.map((block) => (
+          <div
+            key={block.start}
+            className={`absolute inset-y-0 flex items-center justify-center overflow-hidden border-r ${BORDER_COLOR} ${getProcessColor(block.pid ?? "IDLE")}`}
+            style={{ left: percent(block.start), width: percent(block.size) }}
+            title={`${block.pid ?? "Free"}: ${block.start}–${block.start + block.size} (${block.size} KB)`}
+          >
+            <span className="text-sm font-semibold p-1 select-none whitespace-nowrap">{block.pid ?? "Free"}</span>
+          </div>
+        ))}
+      </div>
+
+      {/* Address Markers */}
+      <div className="relative w-full h-4 mt-3">
+        {markers.map((address) => (
+          <div
+            key={address}
+            className="absolute top-0 text-xs text-gray-400 transform -translate-x-1/2"
+            style={{ left: percent(address) }}
+          >
+            <span className={`h-2 w-px inline-block ${PRIMARY_BLUE_CLASS} absolute bottom-full left-1/2 -translate-x-1/2`}></span>
+            {address}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import React, { useState } from "react";
+import { MAX_MEMORY_JOBS, type MemoryJob } from "@/lib/memory";
+import RemoveRowButton from "./RemoveRowButton";
+import { BORDER_COLOR, INPUT_BG_COLOR, LIGHT_TEXT_COLOR } from "./theme";
+
+export interface JobRow {
+  pid: string;
+  arrival: number | "";
+  duration: number | "";
+  size: number | "";
+}
+
+type NumericField = Exclude<keyof JobRow, "pid">;
+
+const COLUMNS: { field: NumericField; label: string; placeholder: string; min: string }[] = [
+  { field: "arrival", label: "Arrival Time", placeholder: "e.g., 0", min: "0" },
+  { field: "duration", label: "Duration", placeholder: "e.g., 5", min: "1" },
+  { field: "size", label: "Size (KB)", placeholder: "e.g., 100", min: "1" },
+];
+
+const blankJob = (n: number): JobRow => ({ pid: `P${n}`, arrival: "", duration: "", size: "" });
+
+/**
+ * Validates the job rows and converts the filled-in ones to allocation input.
+ * @param rows Rows from the job table; rows missing every value are skipped.
+ * @param memorySize Total memory, which no job may exceed.
+ * @returns The jobs, or the message to show in the error box.
+ */
+export function parseJobs(rows: JobRow[], memorySize: number): { jobs: MemoryJob[] } | { error: string } {
+  const filled = rows.filter((r) => r.arrival !== "" || r.duration !== "" || r.size !== "");
+  if (filled.length === 0) {
+    return { error: "Please enter Arrival, Duration and Size for at least one job." };
+  }
+  if (filled.length > MAX_MEMORY_JOBS) {
+    return { error: `At most ${MAX_MEMORY_JOBS} jobs can be simulated.` };
+  }
+
+  for (const r of filled) {
+    if (r.arrival === "" || r.duration === "" || r.size === "") {
+      return { error: `${r.pid}: Arrival Time, Duration and Size are required.` };
+    }
+    if (r.duration <= 0 || r.size <= 0 || r.size > memorySize) {
+      return { error: `${r.pid}: Duration must be positive, and Size between 1 and the memory size (${memorySize} KB).` };
+    }
+  }
+  return {
+    jobs: filled.map((r) => ({ pid: r.pid, arrival: r.arrival as number, duration: r.duration as number, size: r.size as number })),
+  };
+}
+
+/**
+ * State and row handlers for the job table, renumbering PIDs like the process table.
+ * @param onEdit Called after a cell changes (e.g. to clear the error box).
+ * @param onResize Called after a row is added or removed (e.g. to clear stale results).
+ * @param initial Rows to start with.
+ */
+export function useJobList(onEdit?: () => void, onResize?: () => void, initial?: JobRow[]) {
+  const [jobs, setJobs] = useState<JobRow[]>(() => initial ?? [1, 2, 3, 4].map(blankJob));
+
+  const updateJob = (i: number, field: NumericField, value: string) => {
+    // Ensure only non-negative integers are entered
+    if (!/^\d*$/.test(value)) return;
+    onEdit?.();
+    setJobs(jobs.map((job, r) => (r === i ? { ...job, [field]: value === "" ? "" : parseInt(value) } : job)));
+  };
+
+  const addJob = () => {
+    setJobs([...jobs, blankJob(jobs.length + 1)]);
+    onResize?.();
+  };
+
+  /** Replaces every row, e.g. with an example workload. */
+  const loadJobs = (rows: JobRow[]) => {
+    setJobs(rows);
+    onResize?.();
+  };
+
+  const removeJob = (i: number) => {
+    const copy = jobs.filter((_, r) => r !== i);
+    setJobs(copy.map((job, index) => ({ ...job, pid: `P${index + 1}` })));
+    onResize?.();
+  };
+
+  return { jobs, loadJobs, updateJob, addJob, removeJob };
+}
+
+interface MemoryJobTableProps {
+  jobs: JobRow[];
+  onUpdate: (i: number, field: NumericField, value: string) => void;
+  onRemove: (i: number) => void;
+}
+
+/**
+ * Editable list of jobs asking for memory, styled like the process input table.
+ */
+export default function MemoryJobTable({ jobs, onUpdate, onRemove }: MemoryJobTableProps) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full divide-y divide-gray-700">
+        <thead className="bg-gray-700">
+          <tr>
+            {["Process ID", ...COLUMNS.map((c) => c.label), "Actions"].map((label) => (
+              <th key={label} className={`px-4 py-3 text-left text-xs font-medium ${LIGHT_TEXT_COLOR} uppercase tracking-wider`}>
+                {label}
+              </th>
+            ))}
+          </tr>
+        </thead>
+
+        <tbody className="divide-y divide-gray-700">
+          {jobs.map((job, i) => (
+            <tr key={i} className="hover:bg-gray-700 transition-colors bg-gray-800">
+              <td className="px-4 py-4 whitespace-nowrap text-sm font-semibold text-gray-100">{job.pid}</td>
+              {COLUMNS.map((c) => (
+                <td key={c.field} className="px-4 py-2 whitespace-nowrap">
+                  <input
+                    type="number"
+                    min={c.min}
+                    value={job[c.field]}
+                    onChange={(e) => onUpdate(i, c.field, e.target.value)}
+                    placeholder={c.placeholder}
+                    className={`w-32 p-2 border ${BORDER_COLOR} rounded-lg text-sm focus:ring-blue-500 focus:border-blue-500 transition-shadow ${INPUT_BG_COLOR} text-white`}
+                  />
+                </td>
+              ))}
+              <td className="px-4 py-2 whitespace-nowrap text-sm font-medium">
+                {jobs.length > 1 && <RemoveRowButton onClick={() => onRemove(i)} title="Remove Job" />}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
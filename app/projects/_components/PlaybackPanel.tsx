@@ -0,0 +1,230 @@
+import React, { useEffect, useState } from "react";
+import {
+  blockIndexAt,
+  buildSchedule,
+  clipBlocks,
+  CONTEXT_SWITCH,
+  getProcessColor,
+  type GanttBlock,
+  type ProcessColor,
+  type ProcessResult,
+  type ScheduleEvent,
+} from "@/lib/scheduling";
+import GanttChart from "./GanttChart";
+import {
+  BORDER_COLOR,
+  DIVIDER_COLOR,
+  LIGHT_TEXT_COLOR,
+  PRIMARY_BLUE_CLASS,
+  SECONDARY_ORANGE_CLASS,
+  TEXT_COLOR,
+} from "./theme";
+
+interface PlaybackProps {
+  /** One Gantt lane per core, each spanning `0..totalTime`. */
+  lanes: GanttBlock[][];
+  totalTime: number;
+  results: ProcessResult[];
+  /** Event trace; when given, its snapshots supply the true ready-queue order. */
+  events?: ScheduleEvent[];
+  /** Colors picked for processes, by PID; the rest get their default color. */
+  colors?: Record<string, ProcessColor>;
+}
+
+type ProcessStatus = "Not Arrived" | "Ready" | "Switching In" | "Running" | "Blocked (I/O)" | "Done";
+
+const STATUS_CLASS: Record<ProcessStatus, string> = {
+  "Not Arrived": "text-gray-500",
+  Ready: "text-yellow-400",
+  "Switching In": "text-red-300",
+  Running: "text-green-400 font-bold",
+  "Blocked (I/O)": "text-purple-400",
+  Done: "text-blue-400",
+};
+
+/**
+ * Play / pause / step controls over a schedule's core lanes.
+ * At clock `t` the first `t` units have executed and the blocks covering `t` are about to run.
+ */
+export default function PlaybackPanel({ lanes, totalTime, results, events, colors }: PlaybackProps) {
+  const multiCore = lanes.length > 1;
+  const [tickState, setTick] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(2); // Time units per second
+
+  // A new, shorter schedule may leave the previous tick out of range
+  const tick = Math.min(tickState, totalTime);
+  const isPlaying = playing && tick < totalTime;
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    const id = setInterval(() => setTick((t) => Math.min(t + 1, totalTime)), 1000 / speed);
+    return () => clearInterval(id);
+  }, [isPlaying, speed, totalTime]);
+
+  const togglePlay = () => {
+    if (isPlaying) {
+      setPlaying(false);
+      return;
+    }
+    if (tick >= totalTime) setTick(0);
+    setPlaying(true);
+  };
+
+  const step = (delta: number) => {
+    setPlaying(false);
+    setTick(Math.max(0, Math.min(totalTime, tick + delta)));
+  };
+
+  // Lanes up to the clock, and the units executed per process in them
+  const played = lanes.map((blocks) => clipBlocks(blocks, 0, tick));
+  const executed = new Map<string, number>();
+  for (const block of played.flat()) {
+    executed.set(block.process, (executed.get(block.process) ?? 0) + block.end - block.start);
+  }
+
+  // What each core is about to run at the clock
+  const current = lanes.map((blocks) => blockIndexAt(blocks, tick));
+  const running = lanes.map((blocks, core) => blocks[current[core]]?.process ?? "IDLE");
+  // A core in a context switch is loading the process it runs next
+  const switchingIn = lanes.map((blocks, core) => (running[core] === CONTEXT_SWITCH ? blocks[current[core] + 1]?.process : undefined));
+  // Latest trace snapshot at or before the clock; without a trace every arrived process counts as ready
+  const snapshot = events?.filter((e) => e.time <= tick).at(-1)?.readyQueue;
+
+  const rows = results
+    .map((p) => {
+      const remaining = p.burst - (executed.get(p.pid) ?? 0);
+      const status: ProcessStatus =
+        p.arrival > tick ? "Not Arrived"
+        : remaining === 0 ? "Done"
+        : running.includes(p.pid) ? "Running"
+        : switchingIn.includes(p.pid) ? "Switching In"
+        : !snapshot || snapshot.includes(p.pid) ? "Ready"
+        : "Blocked (I/O)";
+      return { ...p, remaining, status };
+    })
+    .sort((a, b) => a.arrival - b.arrival || a.pid.localeCompare(b.pid));
+
+  const readyQueue = snapshot
+    ? snapshot.map((pid) => rows.find((p) => p.pid === pid)!)
+    : rows.filter((p) => p.status === "Ready");
+  const progress = played.map((blocks) => buildSchedule([blocks], []));
+
+  const buttonClass = `px-4 py-2 text-sm font-medium rounded-full text-blue-400 bg-gray-900 border border-blue-600 hover:bg-gray-700 transition-all disabled:opacity-40`;
+
+  return (
+    <div className={`p-5 mb-10 border ${BORDER_COLOR} rounded-lg bg-gray-900 shadow-inner shadow-black/20`}>
+      {/* Controls */}
+      <div className="flex flex-wrap items-center gap-3 mb-6">
+        <button onClick={() => step(-1)} disabled={tick === 0} className={buttonClass} title="Step Back">
+          ⏮ Step
+        </button>
+        <button onClick={togglePlay} className={buttonClass}>
+          {isPlaying ? "⏸ Pause" : "▶ Play"}
+        </button>
+        <button onClick={() => step(1)} disabled={tick >= totalTime} className={buttonClass} title="Step Forward">
+          Step ⏭
+        </button>
+        <label className={`flex items-center gap-3 text-sm ${LIGHT_TEXT_COLOR} ml-auto`}>
+          Speed
+          <input
+            type="range"
+            min="1"
+            max="10"
+            value={speed}
+            onChange={(e) => setSpeed(parseInt(e.target.value))}
+            className="accent-blue-500"
+          />
+          <span className="font-mono w-16">{speed} u/s</span>
+        </label>
+      </div>
+
+      {/* Scrubber: jump anywhere in long schedules */}
+      <input
+        type="range"
+        min="0"
+        max={totalTime}
+        value={tick}
+        onChange={(e) => {
+          setPlaying(false);
+          setTick(parseInt(e.target.value));
+        }}
+        className="w-full mb-6 accent-blue-500"
+        aria-label="Clock"
+      />
+
+      {/* Clock, running process and ready queue */}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+        <div className={`p-4 rounded-lg border ${BORDER_COLOR}`}>
+          <p className={`text-xs uppercase tracking-wider ${LIGHT_TEXT_COLOR}`}>Clock</p>
+          <p className={`text-3xl font-bold font-mono ${PRIMARY_BLUE_CLASS}`}>
+            {tick} <span className={`text-base ${LIGHT_TEXT_COLOR}`}>/ {totalTime}</span>
+          </p>
+        </div>
+        <div className={`p-4 rounded-lg border ${BORDER_COLOR}`}>
+          <p className={`text-xs uppercase tracking-wider ${LIGHT_TEXT_COLOR}`}>Running</p>
+          <div className="mt-2 flex flex-wrap gap-2">
+            {tick >= totalTime ? (
+              <span className={`${LIGHT_TEXT_COLOR} italic`}>Finished</span>
+            ) : (
+              running.map((pid, core) => (
+                <span key={core} className={`inline-block px-3 py-1 rounded-md text-sm font-semibold ${getProcessColor(pid, colors?.[pid])}`}>
+                  {multiCore && <span className="opacity-70 mr-1">CPU {core + 1}:</span>}
+                  {pid}
+                </span>
+              ))
+            )}
+          </div>
+        </div>
+        <div className={`p-4 rounded-lg border ${BORDER_COLOR}`}>
+          <p className={`text-xs uppercase tracking-wider ${LIGHT_TEXT_COLOR}`}>Ready Queue</p>
+          <div className="mt-2 flex flex-wrap gap-2">
+            {readyQueue.length === 0 ? (
+              <span className={`${LIGHT_TEXT_COLOR} italic text-sm`}>Empty</span>
+            ) : (
+              readyQueue.map((p) => (
+                <span key={p.pid} className={`px-2 py-1 rounded-md text-xs font-semibold ${getProcessColor(p.pid, colors?.[p.pid])}`}>
+                  {p.pid}
+                </span>
+              ))
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Timeline so far */}
+      <div className="overflow-x-auto mb-6 space-y-4">
+        {progress.map((lane, core) => (
+          <div key={core}>
+            {multiCore && <p className={`text-xs uppercase tracking-wider mb-2 ${LIGHT_TEXT_COLOR}`}>CPU {core + 1}</p>}
+            <GanttChart ganttData={lane} axisTime={totalTime} colors={colors} />
+          </div>
+        ))}
+      </div>
+
+      {/* Remaining burst per process */}
+      <div className={`overflow-x-auto rounded-lg border ${BORDER_COLOR}`}>
+        <table className="min-w-full border-collapse text-sm">
+          <thead>
+            <tr className={`bg-gray-700 border-b ${DIVIDER_COLOR}`}>
+              <th className={`px-4 py-2 border-r ${DIVIDER_COLOR} ${TEXT_COLOR}`}>P</th>
+              <th className={`px-4 py-2 border-r ${DIVIDER_COLOR} ${TEXT_COLOR}`}>Status</th>
+              <th className={`px-4 py-2 ${TEXT_COLOR}`}>Remaining Burst</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((p) => (
+              <tr key={p.pid} className={`bg-gray-800 border-t ${DIVIDER_COLOR}`}>
+                <td className={`p-2 border-r ${DIVIDER_COLOR} text-center font-semibold ${PRIMARY_BLUE_CLASS}`}>{p.pid}</td>
+                <td className={`p-2 border-r ${DIVIDER_COLOR} text-center ${STATUS_CLASS[p.status]}`}>{p.status}</td>
+                <td className={`p-2 text-center font-mono ${SECONDARY_ORANGE_CLASS}`}>
+                  {p.remaining} / {p.burst}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
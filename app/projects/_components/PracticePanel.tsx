@@ -0,0 +1,217 @@
+import React, { useState } from "react";
+import {
+  gradeQuiz,
+  parseOrder,
+  QUIZ_FIELDS,
+  type QuizAnswer,
+  type QuizField,
+  type QuizGrade,
+  type ScheduleResult,
+} from "@/lib/scheduling";
+import {
+  BORDER_COLOR,
+  CARD_BG_COLOR,
+  DIVIDER_COLOR,
+  INPUT_BG_COLOR,
+  LIGHT_TEXT_COLOR,
+  PRIMARY_BG_BLUE,
+  PRIMARY_BLUE_CLASS,
+  PRIMARY_HOVER_BLUE_BG,
+  PRIMARY_SHADOW,
+  TEXT_COLOR,
+} from "./theme";
+
+const FIELD_LABELS: Record<QuizField, string> = {
+  completion: "Completion (CT)",
+  turnaround: "Turnaround (TAT = CT - AT)",
+  waiting: "Waiting (WT = TAT - BT)",
+};
+
+type Entries = Record<string, Record<QuizField, number | "">>;
+
+// Green when right, red when wrong, plain before grading
+const feedbackClass = (right: boolean | undefined) =>
+  right === undefined ? BORDER_COLOR : right ? "border-green-500 bg-green-900/30" : "border-red-500 bg-red-900/30";
+
+interface PracticePanelProps {
+  /** The answer key; its results give the processes to work through. */
+  schedule: ScheduleResult;
+  /** Name shown in the instructions, e.g. "FCFS". */
+  algorithmName: string;
+  /** Shows the full simulation output. */
+  onReveal: () => void;
+}
+
+/**
+ * Practice mode: the student fills in each process's completion, turnaround and waiting
+ * times and the Gantt order, then checks them against the schedule for per-cell feedback
+ * and a score.
+ */
+export default function PracticePanel({ schedule, algorithmName, onReveal }: PracticePanelProps) {
+  const { results } = schedule;
+  const [entries, setEntries] = useState<Entries>(() =>
+    Object.fromEntries(results.map((r) => [r.pid, { completion: "", turnaround: "", waiting: "" }]))
+  );
+  const [orderText, setOrderText] = useState("");
+  const [grade, setGrade] = useState<QuizGrade | null>(null);
+
+  const showPriority = results.some((r) => r.priority !== undefined);
+  const showIo = results.some((r) => r.ioTime > 0);
+  const order = parseOrder(orderText);
+
+  const updateEntry = (pid: string, field: QuizField, value: string) => {
+    // Ensure only non-negative integers are entered
+    if (!/^\d*$/.test(value)) return;
+    setEntries({ ...entries, [pid]: { ...entries[pid], [field]: value === "" ? "" : parseInt(value) } });
+    setGrade(null);
+  };
+
+  const updateOrder = (text: string) => {
+    setOrderText(text);
+    setGrade(null);
+  };
+
+  const check = () => {
+    const answers: QuizAnswer[] = results.map(({ pid }) => {
+      const answer: QuizAnswer = { pid };
+      for (const field of QUIZ_FIELDS) {
+        const value = entries[pid][field];
+        if (value !== "") answer[field] = value;
+      }
+      return answer;
+    });
+    setGrade(gradeQuiz(schedule, answers, order));
+  };
+
+  const cellGrade = (pid: string, field: QuizField) => grade?.cells.find((c) => c.pid === pid)?.[field];
+  const buttonClass = `px-3 py-1.5 text-xs font-medium rounded-full text-blue-400 bg-gray-900 border border-blue-600 hover:bg-gray-700 transition-all`;
+
+  return (
+    <section className={`p-8 md:p-10 ${CARD_BG_COLOR} rounded-2xl shadow-xl border ${BORDER_COLOR} ${TEXT_COLOR}`}>
+      <div className={`flex items-center border-b ${DIVIDER_COLOR} pb-4 mb-8`}>
+        <h2 className={`text-3xl font-bold ${PRIMARY_BLUE_CLASS} flex items-center`}>
+          <span className="mr-3 text-4xl">📝</span> Practice
+        </h2>
+      </div>
+
+      <p className={`mb-6 ${LIGHT_TEXT_COLOR}`}>
+        Schedule these processes with {algorithmName} by hand, then fill in each process&apos;s times and the
+        order they get the CPU.
+      </p>
+
+      {/* Answer Table */}
+      <div className={`overflow-x-auto rounded-lg border ${BORDER_COLOR} shadow-sm`}>
+        <table className="min-w-full border-collapse rounded-lg overflow-hidden text-sm">
+          <thead>
+            <tr className={`bg-gray-700 border-b ${DIVIDER_COLOR}`}>
+              <th className={`px-4 py-3 border-r ${DIVIDER_COLOR}`}>P</th>
+              <th className={`px-4 py-3 border-r ${DIVIDER_COLOR}`}>Arrival (AT)</th>
+              <th className={`px-4 py-3 border-r ${DIVIDER_COLOR}`}>Burst (BT)</th>
+              {showPriority && <th className={`px-4 py-3 border-r ${DIVIDER_COLOR}`}>Priority</th>}
+              {showIo && <th className={`px-4 py-3 border-r ${DIVIDER_COLOR}`}>I/O Time</th>}
+              {QUIZ_FIELDS.map((field) => (
+                <th key={field} className={`px-4 py-3 border-r ${DIVIDER_COLOR}`}>
+                  {field === "waiting" && showIo ? "Waiting (WT = TAT - BT - I/O)" : FIELD_LABELS[field]}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {results.map((p) => (
+              <tr key={p.pid} className={`bg-gray-800 border-t ${DIVIDER_COLOR}`}>
+                <td className={`p-3 border-r ${DIVIDER_COLOR} text-center font-semibold text-lg ${PRIMARY_BLUE_CLASS}`}>{p.pid}</td>
+                <td className={`p-3 border-r ${DIVIDER_COLOR} text-center font-mono`}>{p.arrival}</td>
+                <td className={`p-3 border-r ${DIVIDER_COLOR} text-center font-mono`}>{p.burst}</td>
+                {showPriority && <td className={`p-3 border-r ${DIVIDER_COLOR} text-center font-mono`}>{p.priority}</td>}
+                {showIo && <td className={`p-3 border-r ${DIVIDER_COLOR} text-center font-mono`}>{p.ioTime}</td>}
+                {QUIZ_FIELDS.map((field) => (
+                  <td key={field} className={`p-2 border-r ${DIVIDER_COLOR} text-center`}>
+                    <input
+                      type="number"
+                      min="0"
+                      value={entries[p.pid][field]}
+                      onChange={(e) => updateEntry(p.pid, field, e.target.value)}
+                      aria-label={`${p.pid} ${FIELD_LABELS[field]}`}
+                      className={`w-24 p-2 border rounded-lg text-sm text-center font-mono text-white ${INPUT_BG_COLOR} ${feedbackClass(cellGrade(p.pid, field))}`}
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Gantt Order */}
+      <h3 className={`text-xl font-semibold mt-10 mb-4 flex items-center`}>
+        <span className={`text-2xl mr-3 ${PRIMARY_BLUE_CLASS}`}>⏱️</span> Gantt Order
+      </h3>
+      <p className={`mb-3 text-sm ${LIGHT_TEXT_COLOR}`}>
+        Click the processes in the order they run (skip idle time; list a process again each time it gets the CPU back),
+        or type them separated by spaces or commas.
+      </p>
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        {results.map(({ pid }) => (
+          <button key={pid} onClick={() => updateOrder([...order, pid].join(" "))} className={buttonClass}>
+            + {pid}
+          </button>
+        ))}
+        <button onClick={() => updateOrder(order.slice(0, -1).join(" "))} disabled={order.length === 0} className={`${buttonClass} disabled:opacity-50`}>
+          ⌫ Undo
+        </button>
+        <button onClick={() => updateOrder("")} disabled={order.length === 0} className={`${buttonClass} disabled:opacity-50`}>
+          Clear
+        </button>
+      </div>
+      <input
+        type="text"
+        value={orderText}
+        onChange={(e) => updateOrder(e.target.value)}
+        placeholder="e.g. P1 P2 P3"
+        aria-label="Gantt order"
+        className={`w-full p-2 border ${BORDER_COLOR} rounded-lg text-sm font-mono focus:ring-blue-500 focus:border-blue-500 ${INPUT_BG_COLOR} text-white`}
+      />
+      {grade && (
+        <div className="flex flex-wrap items-center gap-2 mt-3 font-mono text-sm">
+          {grade.order.map(({ entered, expected, right }, i) => (
+            <span
+              key={i}
+              className={`px-2 py-1 rounded border ${feedbackClass(right)}`}
+              title={right ? "Right" : expected ? "Wrong process for this slot" : "The Gantt chart has no slot here"}
+            >
+              {entered ?? "?"}
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className={`flex flex-col sm:flex-row justify-between items-center gap-4 mt-10 pt-6 border-t ${DIVIDER_COLOR}`}>
+        {grade ? (
+          <p className="text-lg font-semibold" role="status">
+            Score:{" "}
+            <span className={`${grade.score === grade.total ? "text-green-400" : PRIMARY_BLUE_CLASS} font-bold text-2xl`}>
+              {grade.score} / {grade.total}
+            </span>{" "}
+            <span className={`${LIGHT_TEXT_COLOR} text-base`}>({((grade.score / grade.total) * 100).toFixed(0)}%)</span>
+          </p>
+        ) : (
+          <p className={`text-sm ${LIGHT_TEXT_COLOR}`}>Every cell and every slot of the Gantt order is worth one point.</p>
+        )}
+        <div className="flex items-center gap-4">
+          <button
+            onClick={onReveal}
+            className={`px-4 py-2 text-sm font-medium rounded-full text-blue-400 bg-gray-900 border border-blue-600 hover:bg-gray-700 transition-all ${PRIMARY_SHADOW}`}
+          >
+            👀 Show Solution
+          </button>
+          <button
+            onClick={check}
+            className={`px-8 py-3 text-lg font-bold text-white rounded-full ${PRIMARY_BG_BLUE} ${PRIMARY_HOVER_BLUE_BG} transition-transform transform hover:scale-[1.02] active:scale-95 shadow-lg shadow-blue-900/50`}
+          >
+            Check Answers ✅
+          </button>
+        </div>
+      </div>
+    </section>
+  );
+}
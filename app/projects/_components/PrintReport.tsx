@@ -0,0 +1,124 @@
+import React from "react";
+import { renderGanttSvg, summarize, type ProcessColor, type ScheduleResult, type SvgLane } from "@/lib/scheduling";
+import type { Process } from "./ProcessTable";
+
+interface PrintReportProps {
+  title: string;
+  subtitle: string;
+  /** Options the schedule was run with, e.g. "Time Quantum: 4". */
+  settings: string[];
+  /** Filled-in input rows. */
+  processes: Process[];
+  schedule: ScheduleResult;
+  /** Lanes of the Gantt chart, as drawn on the page. */
+  lanes: SvgLane[];
+  /** Colors picked for processes, by PID; the rest get their default color. */
+  colors?: Record<string, ProcessColor>;
+}
+
+const cell = "border border-gray-400 px-3 py-1.5 text-center";
+const heading = "text-lg font-bold mt-6 mb-2 break-after-avoid";
+
+/**
+ * Black-on-white report of one run: inputs, Gantt chart, per-process metrics and averages.
+ * Sections and table rows avoid page breaks, and table headers repeat, so the browser's
+ * print-to-PDF paginates it cleanly.
+ */
+export default function PrintReport({ title, subtitle, settings, processes, schedule, lanes, colors }: PrintReportProps) {
+  const metrics = summarize(schedule);
+  const showPriority = processes.some((p) => p.priority !== "");
+  const showIo = processes.some((p) => p.io.trim() !== "");
+  const showAffinity = processes.some((p) => p.affinity !== "");
+  const svg = renderGanttSvg(lanes, { totalTime: schedule.totalTime, timeMarkers: schedule.timeMarkers, colors });
+
+  const averages = [
+    ["Avg Waiting", `${metrics.avgWaiting.toFixed(2)} ms`],
+    ["Avg Turnaround", `${metrics.avgTurnaround.toFixed(2)} ms`],
+    ["Avg Response", `${metrics.avgResponse.toFixed(2)} ms`],
+    ["Throughput", `${metrics.throughput.toFixed(3)} /ms`],
+    ["CPU Utilization", `${metrics.cpuUtilization.toFixed(1)}%`],
+    ["Context Switches", `${metrics.contextSwitches}${metrics.switchOverhead > 0 ? ` (${metrics.switchOverhead} ms overhead)` : ""}`],
+  ];
+
+  return (
+    <article className="mx-auto max-w-4xl bg-white p-8 text-sm text-gray-900 print:max-w-none print:p-0">
+      <header className="border-b-2 border-gray-900 pb-3">
+        <h1 className="text-2xl font-bold">{title}</h1>
+        <p className="text-gray-700">{subtitle}</p>
+        {settings.length > 0 && <p className="mt-1 text-gray-700">{settings.join(" · ")}</p>}
+      </header>
+
+      <section className="break-inside-avoid">
+        <h2 className={heading}>Input</h2>
+        <table className="w-full border-collapse">
+          <thead className="bg-gray-100">
+            <tr>
+              <th className={cell}>Process</th>
+              <th className={cell}>Arrival (AT)</th>
+              <th className={cell}>Burst (BT)</th>
+              {showPriority && <th className={cell}>Priority</th>}
+              {showIo && <th className={cell}>Then I/O, CPU, …</th>}
+              {showAffinity && <th className={cell}>Pinned to CPU</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {processes.map((p) => (
+              <tr key={p.pid} className="break-inside-avoid">
+                <td className={`${cell} font-semibold`}>{p.pid}</td>
+                <td className={cell}>{p.arrival}</td>
+                <td className={cell}>{p.burst}</td>
+                {showPriority && <td className={cell}>{p.priority}</td>}
+                {showIo && <td className={`${cell} font-mono`}>{p.io}</td>}
+                {showAffinity && <td className={cell}>{p.affinity}</td>}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+
+      <section className="break-inside-avoid">
+        <h2 className={heading}>Gantt Chart</h2>
+        {/* The markup comes from renderGanttSvg, which escapes every name it draws */}
+        <div className="[&>svg]:h-auto [&>svg]:w-full" dangerouslySetInnerHTML={{ __html: svg }} />
+      </section>
+
+      <section>
+        <h2 className={heading}>Process Metrics</h2>
+        <table className="w-full border-collapse">
+          <thead className="bg-gray-100">
+            <tr>
+              <th className={cell}>Process</th>
+              <th className={cell}>Completion (CT)</th>
+              <th className={cell}>Turnaround (TAT)</th>
+              <th className={cell}>Waiting (WT)</th>
+              <th className={cell}>Response (RT)</th>
+            </tr>
+          </thead>
+          <tbody>
+            {schedule.results.map((r) => (
+              <tr key={r.pid} className="break-inside-avoid">
+                <td className={`${cell} font-semibold`}>{r.pid}</td>
+                <td className={cell}>{r.completion}</td>
+                <td className={cell}>{r.turnaround}</td>
+                <td className={cell}>{r.waiting}</td>
+                <td className={cell}>{r.response}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+
+      <section className="break-inside-avoid">
+        <h2 className={heading}>Averages</h2>
+        <dl className="grid grid-cols-2 gap-x-8 gap-y-1 sm:grid-cols-3">
+          {averages.map(([label, value]) => (
+            <div key={label} className="flex justify-between border-b border-gray-300 py-1">
+              <dt className="text-gray-700">{label}</dt>
+              <dd className="font-semibold">{value}</dd>
+            </div>
+          ))}
+        </dl>
+      </section>
+    </article>
+  );
+}
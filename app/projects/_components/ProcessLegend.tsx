@@ -0,0 +1,38 @@
+import React from "react";
+import { CONTEXT_SWITCH, getProcessColor, type GanttBlock, type ProcessColor } from "@/lib/scheduling";
+import { LIGHT_TEXT_COLOR, TEXT_COLOR } from "./theme";
+
+interface ProcessLegendProps {
+  /** Processes in the order to list them. */
+  pids: string[];
+  /** Lanes of the chart the legend explains; idle and context-switch entries appear only if they do. */
+  lanes: GanttBlock[][];
+  /** Colors picked for processes, by PID; the rest get their default color. */
+  colors?: Record<string, ProcessColor>;
+}
+
+/**
+ * Color key for a Gantt chart: one swatch per process, plus idle time and context switches.
+ */
+export default function ProcessLegend({ pids, lanes, colors }: ProcessLegendProps) {
+  const shown = new Set(lanes.flatMap((blocks) => blocks.map((b) => b.process)));
+  const entries = [
+    ...pids.map((pid) => ({ key: pid, label: pid, className: getProcessColor(pid, colors?.[pid]) })),
+    ...(shown.has("IDLE") ? [{ key: "IDLE", label: "Idle", className: getProcessColor("IDLE") }] : []),
+    ...(shown.has(CONTEXT_SWITCH)
+      ? [{ key: CONTEXT_SWITCH, label: "Context Switch", className: getProcessColor(CONTEXT_SWITCH) }]
+      : []),
+  ];
+
+  return (
+    <div className={`flex flex-wrap items-center gap-x-4 gap-y-2 mt-4 text-sm ${TEXT_COLOR}`}>
+      <span className={LIGHT_TEXT_COLOR}>Legend:</span>
+      {entries.map(({ key, label, className }) => (
+        <span key={key} className="flex items-center gap-2">
+          <span className={`inline-block h-3 w-5 rounded-sm ${className}`} />
+          <span className="font-mono">{label}</span>
+        </span>
+      ))}
+    </div>
+  );
+}
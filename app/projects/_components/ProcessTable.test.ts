@@ -0,0 +1,14 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_PROCESS_DATA, duplicatePids, parseProcesses } from "./ProcessTable";
+
+describe("parseProcesses", () => {
+  it("trims PIDs, so ones that differ only by spaces count as duplicates", () => {
+    const rows = [
+      { ...DEFAULT_PROCESS_DATA, pid: "P1", arrival: 0, burst: 3 },
+      { ...DEFAULT_PROCESS_DATA, pid: "P1 ", arrival: 1, burst: 2 },
+    ];
+    expect(duplicatePids(rows)).toEqual(new Set(["P1"]));
+    expect(parseProcesses(rows)).toEqual({ error: "Duplicate Process ID P1: every process needs a unique name." });
+    expect(parseProcesses([rows[1]])).toEqual({ processes: [{ pid: "P1", arrival: 1, burst: 2 }] });
+  });
+});
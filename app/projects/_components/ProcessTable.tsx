@@ -0,0 +1,388 @@
+import React, { useState } from "react";
+import {
+  CONTEXT_SWITCH,
+  getProcessColor,
+  MAX_TIME_UNIT,
+  PROCESS_COLOR_NAMES,
+  type ProcessColor,
+  type SchedulerProcess,
+} from "@/lib/scheduling";
+import RemoveRowButton from "./RemoveRowButton";
+import { BORDER_COLOR, INPUT_BG_COLOR, LIGHT_TEXT_COLOR } from "./theme";
+
+// Interfaces
+export interface Process {
+  pid: string;
+  arrival: number | "";
+  burst: number | "";
+  priority: number | "";
+  /** Follow-up bursts as "I/O CPU I/O CPU ..." (blank = CPU-only process). */
+  io: string;
+  /** CPU the process is pinned to, numbered from 1 (blank = any core). */
+  affinity: number | "";
+  /** Gantt chart color (blank = derived from the PID). */
+  color: ProcessColor | "";
+}
+
+export const DEFAULT_PROCESS_DATA: Omit<Process, "pid"> = { arrival: "", burst: "", priority: "", io: "", affinity: "", color: "" };
+
+export const getInitialProcesses = (): Process[] => [
+  { pid: "P1", ...DEFAULT_PROCESS_DATA },
+  { pid: "P2", ...DEFAULT_PROCESS_DATA },
+  { pid: "P3", ...DEFAULT_PROCESS_DATA },
+  { pid: "P4", ...DEFAULT_PROCESS_DATA },
+  { pid: "P5", ...DEFAULT_PROCESS_DATA },
+];
+
+export interface ParseOptions {
+  /**
+   * "required" rejects filled rows without a priority, "default" treats blanks as 0, and
+   * "optional" passes on only the priorities that are filled in.
+   */
+  priority?: "required" | "default" | "optional";
+  /** Read the I/O burst column. */
+  io?: boolean;
+  /** Core count; above 1 the CPU affinity column is read and checked against it. */
+  cores?: number;
+}
+
+/**
+ * Parses an I/O burst cell ("I/O CPU I/O CPU ...", separated by spaces or commas).
+ * @returns The burst pairs, or null if the cell is malformed.
+ */
+function parseIoBursts(cell: string): SchedulerProcess["io"] | null {
+  const values = cell.trim() === "" ? [] : cell.trim().split(/[\s,]+/).map(Number);
+  if (values.length % 2 !== 0 || values.some((v) => !Number.isInteger(v) || v <= 0 || v > MAX_TIME_UNIT)) {
+    return null;
+  }
+
+  const pairs: { io: number; cpu: number }[] = [];
+  for (let i = 0; i < values.length; i += 2) {
+    pairs.push({ io: values[i], cpu: values[i + 1] });
+  }
+  return pairs;
+}
+
+/**
+ * Checks one filled-in row against the scheduler's input rules.
+ * @param p Row with arrival and burst entered.
+ * @param options Which optional columns to check.
+ * @returns The problem with the row, or null when it is valid.
+ */
+export function rowError(p: Process, { priority, io, cores = 1 }: ParseOptions = {}): string | null {
+  if (p.pid.trim() === "") {
+    return "Every process needs a Process ID.";
+  }
+  if (p.pid.trim() === "IDLE" || p.pid.trim() === CONTEXT_SWITCH) {
+    return `"${p.pid.trim()}" is reserved for the Gantt chart; please rename the process.`;
+  }
+  if (p.arrival === "" || p.burst === "") {
+    return "Arrival Time and Burst Time are required.";
+  }
+  if (p.arrival < 0 || p.burst <= 0 || p.burst > MAX_TIME_UNIT) {
+    return `Arrival Time must be non-negative, and Burst Time must be positive (max ${MAX_TIME_UNIT}).`;
+  }
+  if (priority === "required" && p.priority === "") {
+    return "Please enter a Priority (lower number = higher priority).";
+  }
+  if (cores > 1 && p.affinity !== "" && (p.affinity < 1 || p.affinity > cores)) {
+    return `CPU affinity must be between 1 and ${cores} (or blank for any core).`;
+  }
+  if (io && !parseIoBursts(p.io)) {
+    return `I/O bursts must be pairs of "I/O CPU" lengths, each positive (max ${MAX_TIME_UNIT}).`;
+  }
+  return null;
+}
+
+/**
+ * PIDs used by more than one row, trimmed as the scheduler will see them.
+ */
+export function duplicatePids(processes: Process[]): Set<string> {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  for (const { pid } of processes) {
+    const id = pid.trim();
+    if (seen.has(id)) duplicates.add(id);
+    seen.add(id);
+  }
+  return duplicates;
+}
+
+/**
+ * Colours picked in the table, by PID, for the charts.
+ */
+export function processColors(processes: Process[]): Record<string, ProcessColor> {
+  return Object.fromEntries(processes.flatMap((p) => (p.color ? [[p.pid.trim(), p.color]] : [])));
+}
+
+/**
+ * Validates the input rows and converts the filled-in ones to scheduler input.
+ * @param processes Rows from the input table; rows missing arrival or burst are skipped.
+ * @param options Which optional columns to read.
+ * @returns The numeric processes, or the message to show in the error box.
+ */
+export function parseProcesses(
+  processes: Process[],
+  options: ParseOptions = {}
+): { processes: SchedulerProcess[] } | { error: string } {
+  const { priority, io, cores = 1 } = options;
+  const filled = processes.filter((p) => p.arrival !== "" && p.burst !== "");
+  if (filled.length === 0) {
+    return { error: "Please enter valid Arrival and Burst times for at least one process." };
+  }
+
+  const invalid = filled.find((p) => rowError(p, options) !== null);
+  if (invalid) {
+    return { error: `${invalid.pid || "Unnamed process"}: ${rowError(invalid, options)}` };
+  }
+
+  const duplicate = duplicatePids(filled).values().next().value;
+  if (duplicate !== undefined) {
+    return { error: `Duplicate Process ID ${duplicate}: every process needs a unique name.` };
+  }
+
+  return {
+    processes: filled.map((p) => {
+      const pairs = io ? parseIoBursts(p.io)! : [];
+      return {
+        pid: p.pid.trim(),
+        arrival: p.arrival as number,
+        burst: p.burst as number,
+        ...(priority && (priority !== "optional" || p.priority !== "") && { priority: p.priority === "" ? 0 : p.priority }),
+        ...(cores > 1 && p.affinity !== "" && { affinity: p.affinity - 1 }),
+        ...(pairs.length > 0 && { io: pairs }),
+      };
+    }),
+  };
+}
+
+/**
+ * Sets one cell of the input table. The edited row is replaced rather than changed in place,
+ * so rows kept elsewhere (e.g. the input of the last run) stay as they were.
+ * @returns The new rows, or null when the value is not allowed in that cell.
+ */
+export function updateProcess(processes: Process[], i: number, field: keyof Process, value: string): Process[] | null {
+  let cell: Process[keyof Process];
+  if (field === "pid" || field === "io") {
+    cell = value;
+  } else if (field === "color") {
+    cell = value as ProcessColor | "";
+  } else {
+    // Ensure only non-negative integers are entered
+    if (!/^\d*$/.test(value)) return null;
+    cell = value === "" ? "" : parseInt(value);
+  }
+  return processes.map((p, index) => (index === i ? { ...p, [field]: cell } : p));
+}
+
+/**
+ * State and row handlers for the process input table.
+ * @param onEdit Called after a cell changes (e.g. to clear the error box).
+ * @param onResize Called after a row is added or removed (e.g. to clear stale results).
+ * @param initial Rows to start with instead of the blank defaults.
+ */
+export function useProcessList(onEdit?: () => void, onResize?: () => void, initial?: Process[]) {
+  const [processes, setProcesses] = useState<Process[]>(() => initial ?? getInitialProcesses());
+
+  const updateField = (i: number, field: keyof Process, value: string) => {
+    onEdit?.();
+    const updated = updateProcess(processes, i, field, value);
+    if (updated) setProcesses(updated);
+  };
+
+  const addProcess = () => {
+    // Rows are never renumbered, so skip past names already taken
+    const taken = new Set(processes.map((p) => p.pid.trim()));
+    let n = processes.length + 1;
+    while (taken.has(`P${n}`)) n++;
+
+    setProcesses([
+      ...processes,
+      { pid: `P${n}`, ...DEFAULT_PROCESS_DATA },
+    ]);
+    onResize?.();
+  };
+
+  /** Replaces every row, e.g. with an imported workload. */
+  const loadProcesses = (rows: Process[]) => {
+    setProcesses(rows);
+    onResize?.();
+  };
+
+  const removeProcess = (i: number) => {
+    // The other rows keep their names (and so their colours)
+    setProcesses(processes.filter((_, index) => index !== i));
+    onResize?.();
+  };
+
+  return { processes, setProcesses, loadProcesses, updateField, addProcess, removeProcess };
+}
+
+interface ProcessTableProps {
+  processes: Process[];
+  showPriority?: boolean;
+  showIo?: boolean;
+  /** Show the CPU affinity column (multi-core runs). */
+  showAffinity?: boolean;
+  onUpdate: (i: number, field: keyof Process, value: string) => void;
+  onRemove: (i: number) => void;
+}
+
+/**
+ * Editable process input table shared by the scheduling simulators.
+ */
+export default function ProcessTable({ processes, showPriority, showIo, showAffinity, onUpdate, onRemove }: ProcessTableProps) {
+  const duplicates = duplicatePids(processes);
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full divide-y divide-gray-700">
+        {/* Table Header */}
+        <thead className="bg-gray-700">
+          <tr>
+            <th className={`px-4 py-3 text-left text-xs font-medium ${LIGHT_TEXT_COLOR} uppercase tracking-wider`}>
+              Process ID
+            </th>
+            <th className={`px-4 py-3 text-left text-xs font-medium ${LIGHT_TEXT_COLOR} uppercase tracking-wider`}>
+              Arrival Time (AT)
+            </th>
+            <th className={`px-4 py-3 text-left text-xs font-medium ${LIGHT_TEXT_COLOR} uppercase tracking-wider`}>
+              Burst Time (BT)
+            </th>
+            {showPriority && (
+              <th className={`px-4 py-3 text-left text-xs font-medium ${LIGHT_TEXT_COLOR} uppercase tracking-wider`}>
+                Priority
+              </th>
+            )}
+            {showIo && (
+              <th className={`px-4 py-3 text-left text-xs font-medium ${LIGHT_TEXT_COLOR} uppercase tracking-wider`}>
+                Then I/O, CPU, … (optional)
+              </th>
+            )}
+            {showAffinity && (
+              <th className={`px-4 py-3 text-left text-xs font-medium ${LIGHT_TEXT_COLOR} uppercase tracking-wider`}>
+                Pin to CPU (optional)
+              </th>
+            )}
+            <th className={`px-4 py-3 text-left text-xs font-medium ${LIGHT_TEXT_COLOR} uppercase tracking-wider`}>
+              Color
+            </th>
+            <th className={`px-4 py-3 text-left text-xs font-medium ${LIGHT_TEXT_COLOR} uppercase tracking-wider`}>
+              Actions
+            </th>
+          </tr>
+        </thead>
+
+        {/* Table Body */}
+        <tbody className="divide-y divide-gray-700">
+          {processes.map((p, i) => (
+            <tr key={i} className="hover:bg-gray-700 transition-colors bg-gray-800">
+              {/* PID Input */}
+              <td className="px-4 py-2 whitespace-nowrap">
+                <input
+                  type="text"
+                  value={p.pid}
+                  onChange={(e) => onUpdate(i, "pid", e.target.value)}
+                  aria-invalid={duplicates.has(p.pid.trim()) || p.pid.trim() === ""}
+                  title={duplicates.has(p.pid.trim()) ? "Another process has this ID" : undefined}
+                  className={`w-28 p-2 border rounded-lg text-sm font-semibold focus:ring-blue-500 focus:border-blue-500 transition-shadow ${INPUT_BG_COLOR} text-white ${
+                    duplicates.has(p.pid.trim()) || p.pid.trim() === "" ? "border-red-500" : BORDER_COLOR
+                  }`}
+                />
+              </td>
+
+              {/* Arrival Time Input */}
+              <td className="px-4 py-2 whitespace-nowrap">
+                <input
+                  type="number"
+                  min="0"
+                  value={p.arrival}
+                  onChange={(e) => onUpdate(i, "arrival", e.target.value)}
+                  placeholder="e.g., 0"
+                  className={`w-32 p-2 border ${BORDER_COLOR} rounded-lg text-sm focus:ring-blue-500 focus:border-blue-500 transition-shadow ${INPUT_BG_COLOR} text-white`}
+                />
+              </td>
+
+              {/* Burst Time Input */}
+              <td className="px-4 py-2 whitespace-nowrap">
+                <input
+                  type="number"
+                  min="1"
+                  value={p.burst}
+                  onChange={(e) => onUpdate(i, "burst", e.target.value)}
+                  placeholder="e.g., 5"
+                  className={`w-32 p-2 border ${BORDER_COLOR} rounded-lg text-sm focus:ring-orange-500 focus:border-orange-500 transition-shadow ${INPUT_BG_COLOR} text-white`}
+                />
+              </td>
+
+              {/* Priority Input */}
+              {showPriority && (
+                <td className="px-4 py-2 whitespace-nowrap">
+                  <input
+                    type="number"
+                    min="0"
+                    value={p.priority}
+                    onChange={(e) => onUpdate(i, "priority", e.target.value)}
+                    placeholder="e.g., 1"
+                    className={`w-32 p-2 border ${BORDER_COLOR} rounded-lg text-sm focus:ring-blue-500 focus:border-blue-500 transition-shadow ${INPUT_BG_COLOR} text-white`}
+                  />
+                </td>
+              )}
+
+              {/* I/O Bursts Input */}
+              {showIo && (
+                <td className="px-4 py-2 whitespace-nowrap">
+                  <input
+                    type="text"
+                    value={p.io}
+                    onChange={(e) => onUpdate(i, "io", e.target.value)}
+                    placeholder="e.g., 4 2 3 1"
+                    className={`w-40 p-2 border ${BORDER_COLOR} rounded-lg text-sm font-mono focus:ring-blue-500 focus:border-blue-500 transition-shadow ${INPUT_BG_COLOR} text-white`}
+                  />
+                </td>
+              )}
+
+              {/* CPU Affinity Input */}
+              {showAffinity && (
+                <td className="px-4 py-2 whitespace-nowrap">
+                  <input
+                    type="number"
+                    min="1"
+                    value={p.affinity}
+                    onChange={(e) => onUpdate(i, "affinity", e.target.value)}
+                    placeholder="any"
+                    className={`w-24 p-2 border ${BORDER_COLOR} rounded-lg text-sm focus:ring-blue-500 focus:border-blue-500 transition-shadow ${INPUT_BG_COLOR} text-white`}
+                  />
+                </td>
+              )}
+
+              {/* Color Picker */}
+              <td className="px-4 py-2 whitespace-nowrap">
+                <div className="flex items-center gap-2">
+                  <span className={`inline-block h-5 w-5 rounded ${getProcessColor(p.pid, p.color || undefined)}`} />
+                  <select
+                    value={p.color}
+                    onChange={(e) => onUpdate(i, "color", e.target.value)}
+                    className={`p-2 border ${BORDER_COLOR} rounded-lg text-sm focus:ring-blue-500 focus:border-blue-500 ${INPUT_BG_COLOR} text-white`}
+                  >
+                    <option value="">Auto</option>
+                    {PROCESS_COLOR_NAMES.map((name) => (
+                      <option key={name} value={name}>{name[0].toUpperCase() + name.slice(1)}</option>
+                    ))}
+                  </select>
+                </div>
+              </td>
+
+              {/* Actions Column */}
+              <td className="px-4 py-2 whitespace-nowrap text-sm font-medium">
+                {processes.length > 1 && (
+                  <RemoveRowButton onClick={() => onRemove(i)} title="Remove Process" />
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import React from "react";
+import { MAX_TIME_UNIT } from "@/lib/scheduling";
+import { BORDER_COLOR, INPUT_BG_COLOR, LIGHT_TEXT_COLOR } from "./theme";
+
+/**
+ * Validates a Round Robin time quantum.
+ * @returns The message for the error box, or null when the quantum is usable.
+ */
+export function quantumError(quantum: number | ""): string | null {
+  if (quantum === "" || quantum <= 0 || quantum > MAX_TIME_UNIT) {
+    return `Time Quantum must be positive (max ${MAX_TIME_UNIT}).`;
+  }
+  return null;
+}
+
+interface QuantumInputProps {
+  quantum: number | "";
+  onChange: (quantum: number | "") => void;
+}
+
+/**
+ * Labelled numeric input for the Round Robin time quantum.
+ */
+export default function QuantumInput({ quantum, onChange }: QuantumInputProps) {
+  return (
+    <label className={`flex items-center gap-3 text-sm ${LIGHT_TEXT_COLOR}`}>
+      Time Quantum (q)
+      <input
+        type="number"
+        min="1"
+        value={quantum}
+        onChange={(e) => {
+          // Ensure only non-negative integers are entered
+          if (!/^\d*$/.test(e.target.value)) return;
+          onChange(e.target.value === "" ? "" : parseInt(e.target.value));
+        }}
+        className={`w-24 p-2 border ${BORDER_COLOR} rounded-lg text-sm focus:ring-blue-500 focus:border-blue-500 transition-shadow ${INPUT_BG_COLOR} text-white`}
+      />
+    </label>
+  );
+}
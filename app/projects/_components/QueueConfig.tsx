@@ -0,0 +1,150 @@
+import React from "react";
+import { DEFAULT_MLFQ, MAX_QUEUES, MAX_TIME_UNIT, type MlfqOptions } from "@/lib/scheduling";
+import RemoveRowButton from "./RemoveRowButton";
+import { BORDER_COLOR, INPUT_BG_COLOR, LIGHT_TEXT_COLOR, PRIMARY_BLUE_CLASS, PRIMARY_SHADOW } from "./theme";
+
+/** One queue row: Round Robin with a quantum, or FCFS. */
+export interface QueueRow {
+  policy: "rr" | "fcfs";
+  quantum: number | "";
+}
+
+/** Everything on the MLFQ settings panel; a blank boost interval or aging threshold turns it off. */
+export interface MlfqInput {
+  queues: QueueRow[];
+  demoteAfter: number | "";
+  boostInterval: number | "";
+  agingThreshold: number | "";
+}
+
+export const DEFAULT_MLFQ_INPUT: MlfqInput = {
+  queues: DEFAULT_MLFQ.queues.map((q) => (q.quantum === undefined ? { policy: "fcfs", quantum: "" } : { policy: "rr", quantum: q.quantum })),
+  demoteAfter: 1,
+  boostInterval: "",
+  agingThreshold: "",
+};
+
+/**
+ * Validates the MLFQ settings panel.
+ * @returns The scheduler options, or the message to show in the error box.
+ */
+export function parseMlfq(input: MlfqInput): { options: MlfqOptions } | { error: string } {
+  const badQueue = input.queues.findIndex(
+    (q) => q.policy === "rr" && (q.quantum === "" || q.quantum <= 0 || q.quantum > MAX_TIME_UNIT)
+  );
+  if (badQueue >= 0) {
+    return { error: `Q${badQueue}: Time Quantum must be positive (max ${MAX_TIME_UNIT}).` };
+  }
+  if (input.demoteAfter === "" || input.demoteAfter < 1) {
+    return { error: "Demote After must be at least 1 full time slice." };
+  }
+  if (input.boostInterval === 0 || input.agingThreshold === 0) {
+    return { error: "Boost Interval and Aging Threshold must be positive, or blank to turn them off." };
+  }
+
+  return {
+    options: {
+      queues: input.queues.map((q) => (q.policy === "rr" ? { quantum: q.quantum as number } : {})),
+      demoteAfter: input.demoteAfter,
+      ...(input.boostInterval !== "" && { boostInterval: input.boostInterval }),
+      ...(input.agingThreshold !== "" && { agingThreshold: input.agingThreshold }),
+    },
+  };
+}
+
+// Ensure only non-negative integers are entered
+const readCount = (value: string): number | "" | null =>
+  !/^\d*$/.test(value) ? null : value === "" ? "" : parseInt(value);
+
+const inputClass = `p-2 border ${BORDER_COLOR} rounded-lg text-sm focus:ring-blue-500 focus:border-blue-500 transition-shadow ${INPUT_BG_COLOR} text-white`;
+
+interface QueueConfigProps {
+  mlfq: MlfqInput;
+  onChange: (mlfq: MlfqInput) => void;
+}
+
+/**
+ * Editable list of MLFQ queues, highest priority first, plus the demotion, boost and aging rules.
+ */
+export default function QueueConfig({ mlfq, onChange }: QueueConfigProps) {
+  const { queues } = mlfq;
+
+  const updateQueue = (index: number, row: Partial<QueueRow>) =>
+    onChange({ ...mlfq, queues: queues.map((q, i) => (i === index ? { ...q, ...row } : q)) });
+
+  const updateRule = (field: "demoteAfter" | "boostInterval" | "agingThreshold", value: string) => {
+    const count = readCount(value);
+    if (count !== null) onChange({ ...mlfq, [field]: count });
+  };
+
+  const rules = [
+    { field: "demoteAfter", label: "Demote After (full slices)", placeholder: "1" },
+    { field: "boostInterval", label: "Priority Boost Every", placeholder: "off" },
+    { field: "agingThreshold", label: "Aging Threshold (wait)", placeholder: "off" },
+  ] as const;
+
+  return (
+    <div className="w-full space-y-4">
+      <p className={`text-sm font-semibold ${PRIMARY_BLUE_CLASS}`}>Queues (Q0 = Highest Priority)</p>
+      <div className="space-y-2">
+        {queues.map((q, i) => (
+          <div key={i} className="flex flex-wrap items-center gap-3">
+            <span className={`w-10 font-mono font-semibold ${PRIMARY_BLUE_CLASS}`}>Q{i}</span>
+            <select
+              value={q.policy}
+              onChange={(e) => updateQueue(i, { policy: e.target.value as QueueRow["policy"] })}
+              className={inputClass}
+            >
+              <option value="rr">Round Robin</option>
+              <option value="fcfs">FCFS</option>
+            </select>
+            {q.policy === "rr" && (
+              <label className={`flex items-center gap-2 text-sm ${LIGHT_TEXT_COLOR}`}>
+                q =
+                <input
+                  type="number"
+                  min="1"
+                  value={q.quantum}
+                  onChange={(e) => {
+                    const quantum = readCount(e.target.value);
+                    if (quantum !== null) updateQueue(i, { quantum });
+                  }}
+                  className={`w-20 ${inputClass}`}
+                />
+              </label>
+            )}
+            {queues.length > 1 && (
+              <RemoveRowButton
+                onClick={() => onChange({ ...mlfq, queues: queues.filter((_, j) => j !== i) })}
+                title={`Remove Queue Q${i}`}
+              />
+            )}
+          </div>
+        ))}
+      </div>
+      <button
+        onClick={() => onChange({ ...mlfq, queues: [...queues, { policy: "fcfs", quantum: "" }] })}
+        disabled={queues.length >= MAX_QUEUES}
+        className={`px-4 py-2 text-sm font-medium rounded-full text-blue-400 bg-gray-900 border border-blue-600 hover:bg-gray-700 transition-all disabled:opacity-50 ${PRIMARY_SHADOW}`}
+      >
+        <span className="text-xl inline-block mr-1 align-bottom">+</span> Add Queue
+      </button>
+
+      <div className="flex flex-wrap items-center gap-6">
+        {rules.map(({ field, label, placeholder }) => (
+          <label key={field} className={`flex items-center gap-3 text-sm ${LIGHT_TEXT_COLOR}`}>
+            {label}
+            <input
+              type="number"
+              min="1"
+              value={mlfq[field]}
+              placeholder={placeholder}
+              onChange={(e) => updateRule(field, e.target.value)}
+              className={`w-24 ${inputClass}`}
+            />
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
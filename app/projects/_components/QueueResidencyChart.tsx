@@ -0,0 +1,63 @@
+import React from "react";
+import type { QueueResidency } from "@/lib/scheduling";
+import { BORDER_COLOR, LIGHT_TEXT_COLOR, PRIMARY_BLUE_CLASS, TEXT_COLOR } from "./theme";
+
+// One colour per queue, from the highest (Q0) down
+const QUEUE_COLORS = [
+  "bg-sky-500",
+  "bg-emerald-500",
+  "bg-amber-500",
+  "bg-rose-500",
+  "bg-violet-500",
+  "bg-lime-500",
+  "bg-orange-500",
+  "bg-slate-500",
+];
+
+interface QueueResidencyChartProps {
+  residency: QueueResidency[];
+  queueCount: number;
+}
+
+/**
+ * One stacked bar per process splitting its turnaround time across the queues it sat in.
+ */
+export default function QueueResidencyChart({ residency, queueCount }: QueueResidencyChartProps) {
+  return (
+    <div className={`p-5 border ${BORDER_COLOR} rounded-lg bg-gray-900 space-y-3`}>
+      {residency.map(({ pid, time }) => {
+        const total = time.reduce((sum, t) => sum + t, 0);
+        return (
+          <div key={pid} className="flex items-center gap-3">
+            <span className={`w-16 shrink-0 text-right font-mono font-semibold ${PRIMARY_BLUE_CLASS}`}>{pid}</span>
+            <div className={`flex flex-1 h-7 rounded-md overflow-hidden border ${BORDER_COLOR} bg-gray-800`}>
+              {time.map((t, level) =>
+                t > 0 ? (
+                  <div
+                    key={level}
+                    className={`${QUEUE_COLORS[level % QUEUE_COLORS.length]} flex items-center justify-center overflow-hidden text-xs font-semibold text-gray-900`}
+                    style={{ width: `${(t / total) * 100}%` }}
+                    title={`${pid} spent ${t}ms in Q${level}`}
+                  >
+                    <span className="px-1 whitespace-nowrap select-none">Q{level}: {t}</span>
+                  </div>
+                ) : null
+              )}
+            </div>
+            <span className={`w-16 shrink-0 text-sm font-mono ${LIGHT_TEXT_COLOR}`}>{total}ms</span>
+          </div>
+        );
+      })}
+
+      {/* Legend */}
+      <div className={`flex flex-wrap gap-4 pt-2 text-sm ${TEXT_COLOR}`}>
+        {Array.from({ length: queueCount }, (_, level) => (
+          <span key={level} className="flex items-center gap-2">
+            <span className={`inline-block h-3 w-3 rounded-sm ${QUEUE_COLORS[level % QUEUE_COLORS.length]}`} />
+            Q{level}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+import React from "react";
+
+interface RemoveRowButtonProps {
+  onClick: () => void;
+  /** Tooltip, e.g. "Remove Process". */
+  title: string;
+}
+
+/**
+ * Trash-can button for deleting a row from an input table.
+ */
+export default function RemoveRowButton({ onClick, title }: RemoveRowButtonProps) {
+  return (
+    <button
+      onClick={onClick}
+      className="text-red-500 hover:text-red-300 transition-colors p-1 rounded-full hover:bg-red-900/40"
+      title={title}
+    >
+      <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+        <path fillRule="evenodd" d="M9 2a1 1 0 00-.894.553L7.382 4H4a1 1 0 000 2v10a2 2 0 002 2h8a2 2 0 002-2V6a1 1 0 000-2h-3.382l-.724-1.447A1 1 0 0011 2H9zM7 8a1 1 0 012 0v6a1 1 0 11-2 0V8zm4 0a1 1 0 10-2 0v6a1 1 0 102 0V8z" clipRule="evenodd" />
+        <path fillRule="evenodd" d="M5.293 5.293a1 1 0 011.414 0L10 8.586l3.293-3.293a1 1 0 111.414 1.414L11.414 10l3.293 3.293a1 1 0 01-1.414 1.414L10 11.414l-3.293 3.293a1 1 0 01-1.414-1.414L8.586 10 5.293 6.707a1 1 0 010-1.414z" clipRule="evenodd" />
+      </svg>
+    </button>
+  );
+}
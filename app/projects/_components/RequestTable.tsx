@@ -0,0 +1,120 @@
+import React, { useState } from "react";
+import { MAX_REQUESTS } from "@/lib/disk";
+import RemoveRowButton from "./RemoveRowButton";
+import { BORDER_COLOR, INPUT_BG_COLOR, LIGHT_TEXT_COLOR } from "./theme";
+
+/** Requested cylinder of one queue row (blank = not filled in yet). */
+export type Request = number | "";
+
+/**
+ * Validates the queue rows and returns the filled-in cylinders in queue order.
+ * @param rows Rows from the request table; blank rows are skipped.
+ * @param cylinders Disk size; every request must lie on `0..cylinders - 1`.
+ * @returns The cylinders, or the message to show in the error box.
+ */
+export function parseRequests(rows: Request[], cylinders: number): { requests: number[] } | { error: string } {
+  const filled = rows.flatMap((cylinder, i) => (cylinder === "" ? [] : [{ label: `R${i + 1}`, cylinder }]));
+  if (filled.length === 0) {
+    return { error: "Please enter a cylinder for at least one request." };
+  }
+  if (filled.length > MAX_REQUESTS) {
+    return { error: `The queue can have at most ${MAX_REQUESTS} requests.` };
+  }
+
+  const invalid = filled.find((r) => r.cylinder >= cylinders);
+  if (invalid) {
+    return { error: `${invalid.label}: Cylinder must be between 0 and ${cylinders - 1}.` };
+  }
+  return { requests: filled.map((r) => r.cylinder as number) };
+}
+
+/**
+ * State and row handlers for the request queue table.
+ * @param onEdit Called after a cell changes (e.g. to clear the error box).
+ * @param onResize Called after a row is added or removed (e.g. to clear stale results).
+ * @param initial Cylinders to start with.
+ */
+export function useRequestList(onEdit?: () => void, onResize?: () => void, initial: Request[] = ["", "", "", "", ""]) {
+  const [requests, setRequests] = useState<Request[]>(initial);
+
+  const updateRequest = (i: number, value: string) => {
+    // Ensure only non-negative integers are entered
+    if (!/^\d*$/.test(value)) return;
+    onEdit?.();
+    const updated = [...requests];
+    updated[i] = value === "" ? "" : parseInt(value);
+    setRequests(updated);
+  };
+
+  const addRequest = () => {
+    setRequests([...requests, ""]);
+    onResize?.();
+  };
+
+  /** Replaces every row, e.g. with an example queue. */
+  const loadRequests = (rows: Request[]) => {
+    setRequests(rows);
+    onResize?.();
+  };
+
+  const removeRequest = (i: number) => {
+    setRequests(requests.filter((_, index) => index !== i));
+    onResize?.();
+  };
+
+  return { requests, loadRequests, updateRequest, addRequest, removeRequest };
+}
+
+interface RequestTableProps {
+  requests: Request[];
+  onUpdate: (i: number, value: string) => void;
+  onRemove: (i: number) => void;
+}
+
+/**
+ * Editable disk request queue, styled like the process input table.
+ */
+export default function RequestTable({ requests, onUpdate, onRemove }: RequestTableProps) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full divide-y divide-gray-700">
+        <thead className="bg-gray-700">
+          <tr>
+            <th className={`px-4 py-3 text-left text-xs font-medium ${LIGHT_TEXT_COLOR} uppercase tracking-wider`}>
+              Request
+            </th>
+            <th className={`px-4 py-3 text-left text-xs font-medium ${LIGHT_TEXT_COLOR} uppercase tracking-wider`}>
+              Cylinder
+            </th>
+            <th className={`px-4 py-3 text-left text-xs font-medium ${LIGHT_TEXT_COLOR} uppercase tracking-wider`}>
+              Actions
+            </th>
+          </tr>
+        </thead>
+
+        <tbody className="divide-y divide-gray-700">
+          {requests.map((cylinder, i) => (
+            <tr key={i} className="hover:bg-gray-700 transition-colors bg-gray-800">
+              <td className="px-4 py-4 whitespace-nowrap text-sm font-semibold text-gray-100">R{i + 1}</td>
+
+              <td className="px-4 py-2 whitespace-nowrap">
+                <input
+                  type="number"
+                  min="0"
+                  value={cylinder}
+                  onChange={(e) => onUpdate(i, e.target.value)}
+                  placeholder="e.g., 98"
+                  className={`w-32 p-2 border ${BORDER_COLOR} rounded-lg text-sm focus:ring-blue-500 focus:border-blue-500 transition-shadow ${INPUT_BG_COLOR} text-white`}
+                />
+              </td>
+
+              <td className="px-4 py-2 whitespace-nowrap text-sm font-medium">
+                {requests.length > 1 && <RemoveRowButton onClick={() => onRemove(i)} title="Remove Request" />}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+import React from "react";
+import { processName, resourceName } from "@/lib/deadlock";
+import { LIGHT_TEXT_COLOR } from "./theme";
+
+interface ResourceGraphProps {
+  /** Instances held, per process and resource type (assignment edges). */
+  allocation: number[][];
+  /** Instances waited for, per process and resource type (request edges). */
+  request: number[][];
+  available: number[];
+  /** Processes drawn in red, with their edges. */
+  deadlocked: number[];
+}
+
+// Spacing of the nodes and the rows they sit on
+const SPACING = 110;
+const MARGIN = 50;
+const PROCESS_Y = 50;
+const RESOURCE_Y = 230;
+const PROCESS_RADIUS = 22;
+const RESOURCE_HALF = { width: 34, height: 22 };
+// Beyond this many instances a resource shows a count instead of dots
+const MAX_DOTS = 8;
+
+const COLORS = {
+  assignment: "#60a5fa",
+  request: "#fb923c",
+  deadlock: "#f87171",
+};
+
+/**
+ * Resource-allocation graph: processes as circles on top, resource types as boxes below with
+ * a dot per instance. Solid arrows run from a resource to the process holding it; dashed
+ * arrows from a process to the resource it waits for.
+ */
+export default function ResourceGraph({ allocation, request, available, deadlocked }: ResourceGraphProps) {
+  const processes = allocation.length;
+  const types = available.length;
+  const width = 2 * MARGIN + (Math.max(processes, types) - 1) * SPACING;
+  const height = RESOURCE_Y + RESOURCE_HALF.height + 30;
+  // Centre the shorter row under or over the longer one
+  const px = (i: number) => width / 2 + (i - (processes - 1) / 2) * SPACING;
+  const rx = (j: number) => width / 2 + (j - (types - 1) / 2) * SPACING;
+  const instances = (j: number) => available[j] + allocation.reduce((sum, row) => sum + row[j], 0);
+
+  const edges = allocation.flatMap((row, i) =>
+    row.flatMap((_, j) => {
+      const held = allocation[i][j];
+      const waiting = request[i][j];
+      // Side by side when a process both holds and waits for the same type
+      const offset = held > 0 && waiting > 0 ? 6 : 0;
+      const color = (kind: "assignment" | "request") => (deadlocked.includes(i) ? COLORS.deadlock : COLORS[kind]);
+      const list = [];
+      if (held > 0) {
+        list.push({ key: `a${i}-${j}`, from: { x: rx(j) - offset, y: RESOURCE_Y - RESOURCE_HALF.height }, to: { x: px(i) - offset, y: PROCESS_Y + PROCESS_RADIUS }, count: held, color: color("assignment"), dashed: false });
+      }
+      if (waiting > 0) {
+        list.push({ key: `r${i}-${j}`, from: { x: px(i) + offset, y: PROCESS_Y + PROCESS_RADIUS }, to: { x: rx(j) + offset, y: RESOURCE_Y - RESOURCE_HALF.height }, count: waiting, color: color("request"), dashed: true });
+      }
+      return list;
+    })
+  );
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto max-h-[420px]" role="img" aria-label="Resource-allocation graph">
+        <defs>
+          {Object.entries(COLORS).map(([kind, color]) => (
+            <marker key={kind} id={`rag-arrow-${color.slice(1)}`} viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+              <path d="M 0 0 L 10 5 L 0 10 z" fill={color} />
+            </marker>
+          ))}
+        </defs>
+
+        {/* Edges */}
+        {edges.map((e) => (
+          <g key={e.key}>
+            <line
+              x1={e.from.x}
+              y1={e.from.y}
+              x2={e.to.x}
+              y2={e.to.y}
+              stroke={e.color}
+              strokeWidth="2"
+              strokeDasharray={e.dashed ? "6 4" : undefined}
+              markerEnd={`url(#rag-arrow-${e.color.slice(1)})`}
+            />
+            {e.count > 1 && (
+              <text x={(e.from.x + e.to.x) / 2 + 8} y={(e.from.y + e.to.y) / 2} fontSize="11" fill={e.color}>
+                ×{e.count}
+              </text>
+            )}
+          </g>
+        ))}
+
+        {/* Processes */}
+        {allocation.map((_, i) => {
+          const stuck = deadlocked.includes(i);
+          return (
+            <g key={`p${i}`}>
+              <circle cx={px(i)} cy={PROCESS_Y} r={PROCESS_RADIUS} fill={stuck ? "#7f1d1d" : "#1f2937"} stroke={stuck ? COLORS.deadlock : "#9ca3af"} strokeWidth="2" />
+              <text x={px(i)} y={PROCESS_Y} textAnchor="middle" dominantBaseline="middle" fontSize="13" fontWeight="bold" fill="#f3f4f6">
+                {processName(i)}
+              </text>
+            </g>
+          );
+        })}
+
+        {/* Resource types, one dot per instance */}
+        {available.map((_, j) => {
+          const total = instances(j);
+          const dots = Math.min(total, MAX_DOTS);
+          return (
+            <g key={`r${j}`}>
+              <rect
+                x={rx(j) - RESOURCE_HALF.width}
+                y={RESOURCE_Y - RESOURCE_HALF.height}
+                width={2 * RESOURCE_HALF.width}
+                height={2 * RESOURCE_HALF.height}
+                rx="6"
+                fill="#111827"
+                stroke="#9ca3af"
+                strokeWidth="2"
+              />
+              {total <= MAX_DOTS ? (
+                Array.from({ length: dots }, (_, d) => (
+                  <circle key={d} cx={rx(j) + (d - (dots - 1) / 2) * 8} cy={RESOURCE_Y} r="3" fill="#d1d5db" />
+                ))
+              ) : (
+                <text x={rx(j)} y={RESOURCE_Y} textAnchor="middle" dominantBaseline="middle" fontSize="12" fill="#d1d5db">
+                  {total} inst.
+                </text>
+              )}
+              <text x={rx(j)} y={RESOURCE_Y + RESOURCE_HALF.height + 18} textAnchor="middle" fontSize="13" fontWeight="bold" fill="#f3f4f6">
+                {resourceName(j)}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+
+      {/* Legend */}
+      <div className={`flex flex-wrap justify-center gap-6 mt-2 text-sm ${LIGHT_TEXT_COLOR}`}>
+        <span className="flex items-center gap-2">
+          <span className="inline-block w-6 border-t-2" style={{ borderColor: COLORS.assignment }} /> Holds (resource → process)
+        </span>
+        <span className="flex items-center gap-2">
+          <span className="inline-block w-6 border-t-2 border-dashed" style={{ borderColor: COLORS.request }} /> Waits for (process → resource)
+        </span>
+        <span className="flex items-center gap-2">
+          <span className="inline-block w-3 h-3 rounded-full border-2" style={{ borderColor: COLORS.deadlock, backgroundColor: "#7f1d1d" }} /> Deadlocked
+        </span>
+      </div>
+    </div>
+  );
+}
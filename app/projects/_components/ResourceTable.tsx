@@ -0,0 +1,215 @@
+import React, { useState } from "react";
+import {
+  MAX_DEADLOCK_PROCESSES,
+  MAX_RESOURCE_TYPES,
+  processName,
+  resourceName,
+  resourceStateError,
+  type ResourceState,
+} from "@/lib/deadlock";
+import RemoveRowButton from "./RemoveRowButton";
+import { BORDER_COLOR, DIVIDER_COLOR, INPUT_BG_COLOR, LIGHT_TEXT_COLOR } from "./theme";
+
+/** One instance count (blank counts as 0). */
+export type Cell = number | "";
+
+export type Matrix = "allocation" | "max" | "request";
+
+/** One process row: a cell per resource type in each matrix. */
+export type ResourceRow = Record<Matrix, Cell[]>;
+
+export interface ResourceTableData {
+  rows: ResourceRow[];
+  available: Cell[];
+}
+
+const MATRICES: { key: Matrix; label: string; hint: string }[] = [
+  { key: "allocation", label: "Allocation", hint: "Instances the process holds" },
+  { key: "max", label: "Max", hint: "Most instances the process may ever need (Banker's algorithm)" },
+  { key: "request", label: "Waiting For", hint: "Instances the process is blocked on now (deadlock detection)" },
+];
+
+const blankRow = (types: number): ResourceRow => ({
+  allocation: Array(types).fill(""),
+  max: Array(types).fill(""),
+  request: Array(types).fill(""),
+});
+
+const toNumbers = (cells: Cell[]) => cells.map((c) => (c === "" ? 0 : c));
+
+/**
+ * Validates the table and converts it to numbers, with blank cells counting as 0.
+ * @returns The Banker's state plus the matrix of outstanding requests, or the message to show in the error box.
+ */
+export function parseResourceTable({ rows, available }: ResourceTableData): { state: ResourceState; request: number[][] } | { error: string } {
+  const state: ResourceState = {
+    allocation: rows.map((r) => toNumbers(r.allocation)),
+    max: rows.map((r) => toNumbers(r.max)),
+    available: toNumbers(available),
+  };
+  const error = resourceStateError(state);
+  return error ? { error } : { state, request: rows.map((r) => toNumbers(r.request)) };
+}
+
+/**
+ * State and row/column handlers for the resource table.
+ * @param onEdit Called after a cell changes (e.g. to clear the error box).
+ * @param onResize Called after a process or resource type is added or removed (e.g. to clear stale results).
+ * @param initial Table to start with.
+ */
+export function useResourceTable(onEdit?: () => void, onResize?: () => void, initial?: ResourceTableData) {
+  const [table, setTable] = useState<ResourceTableData>(
+    () => initial ?? { rows: [blankRow(3), blankRow(3), blankRow(3)], available: ["", "", ""] }
+  );
+  const types = table.available.length;
+
+  // Ensure only non-negative integers are entered
+  const parseCell = (value: string): Cell | null => (/^\d*$/.test(value) ? (value === "" ? "" : parseInt(value)) : null);
+
+  const updateCell = (i: number, matrix: Matrix, j: number, value: string) => {
+    const cell = parseCell(value);
+    if (cell === null) return;
+    onEdit?.();
+    setTable({
+      ...table,
+      rows: table.rows.map((row, r) => (r === i ? { ...row, [matrix]: row[matrix].map((c, t) => (t === j ? cell : c)) } : row)),
+    });
+  };
+
+  const updateAvailable = (j: number, value: string) => {
+    const cell = parseCell(value);
+    if (cell === null) return;
+    onEdit?.();
+    setTable({ ...table, available: table.available.map((c, t) => (t === j ? cell : c)) });
+  };
+
+  const addProcess = () => {
+    if (table.rows.length >= MAX_DEADLOCK_PROCESSES) return;
+    setTable({ ...table, rows: [...table.rows, blankRow(types)] });
+    onResize?.();
+  };
+
+  const removeProcess = (i: number) => {
+    // Rows are named by position, so the processes after it are renumbered
+    setTable({ ...table, rows: table.rows.filter((_, r) => r !== i) });
+    onResize?.();
+  };
+
+  const addResource = () => {
+    if (types >= MAX_RESOURCE_TYPES) return;
+    setTable({
+      rows: table.rows.map((row) => ({ allocation: [...row.allocation, ""], max: [...row.max, ""], request: [...row.request, ""] })),
+      available: [...table.available, ""],
+    });
+    onResize?.();
+  };
+
+  const removeResource = () => {
+    if (types <= 1) return;
+    setTable({
+      rows: table.rows.map((row) => ({ allocation: row.allocation.slice(0, -1), max: row.max.slice(0, -1), request: row.request.slice(0, -1) })),
+      available: table.available.slice(0, -1),
+    });
+    onResize?.();
+  };
+
+  /** Replaces the whole table, e.g. with an example or a granted request. */
+  const loadTable = (data: ResourceTableData) => {
+    setTable(data);
+    onResize?.();
+  };
+
+  return { table, types, loadTable, updateCell, updateAvailable, addProcess, removeProcess, addResource, removeResource };
+}
+
+interface ResourceTableProps {
+  table: ResourceTableData;
+  onUpdate: (i: number, matrix: Matrix, j: number, value: string) => void;
+  onUpdateAvailable: (j: number, value: string) => void;
+  onRemove: (i: number) => void;
+}
+
+/**
+ * Editable Allocation, Max and Waiting For matrices with an Available row.
+ */
+export default function ResourceTable({ table, onUpdate, onUpdateAvailable, onRemove }: ResourceTableProps) {
+  const { rows, available } = table;
+  const inputClass = `w-14 p-2 border ${BORDER_COLOR} rounded-lg text-sm text-center focus:ring-blue-500 focus:border-blue-500 transition-shadow ${INPUT_BG_COLOR} text-white`;
+  const headerClass = `px-2 py-2 text-center text-xs font-medium ${LIGHT_TEXT_COLOR} uppercase tracking-wider`;
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full divide-y divide-gray-700">
+        <thead className="bg-gray-700">
+          <tr>
+            <th rowSpan={2} className={`px-4 py-3 text-left text-xs font-medium ${LIGHT_TEXT_COLOR} uppercase tracking-wider`}>
+              Process
+            </th>
+            {MATRICES.map((m) => (
+              <th key={m.key} colSpan={available.length} title={m.hint} className={`${headerClass} border-l ${DIVIDER_COLOR}`}>
+                {m.label}
+              </th>
+            ))}
+            <th rowSpan={2} className={`px-4 py-3 text-left text-xs font-medium ${LIGHT_TEXT_COLOR} uppercase tracking-wider`}>
+              Actions
+            </th>
+          </tr>
+          <tr>
+            {MATRICES.map((m) =>
+              available.map((_, j) => (
+                <th key={`${m.key}${j}`} className={`${headerClass} ${j === 0 ? `border-l ${DIVIDER_COLOR}` : ""}`}>
+                  {resourceName(j)}
+                </th>
+              ))
+            )}
+          </tr>
+        </thead>
+
+        <tbody className="divide-y divide-gray-700">
+          {rows.map((row, i) => (
+            <tr key={i} className="hover:bg-gray-700 transition-colors bg-gray-800">
+              <td className="px-4 py-4 whitespace-nowrap text-sm font-semibold text-gray-100">{processName(i)}</td>
+              {MATRICES.map((m) =>
+                row[m.key].map((cell, j) => (
+                  <td key={`${m.key}${j}`} className={`px-1 py-2 ${j === 0 ? `border-l ${DIVIDER_COLOR}` : ""}`}>
+                    <input
+                      type="number"
+                      min="0"
+                      value={cell}
+                      onChange={(e) => onUpdate(i, m.key, j, e.target.value)}
+                      placeholder="0"
+                      aria-label={`${processName(i)} ${m.label} ${resourceName(j)}`}
+                      className={inputClass}
+                    />
+                  </td>
+                ))
+              )}
+              <td className="px-4 py-2 whitespace-nowrap text-sm font-medium">
+                {rows.length > 1 && <RemoveRowButton onClick={() => onRemove(i)} title="Remove Process" />}
+              </td>
+            </tr>
+          ))}
+
+          {/* Available row, under the Allocation columns */}
+          <tr className="bg-gray-900">
+            <td className="px-4 py-4 whitespace-nowrap text-sm font-semibold text-green-400">Available</td>
+            {available.map((cell, j) => (
+              <td key={j} className={`px-1 py-2 ${j === 0 ? `border-l ${DIVIDER_COLOR}` : ""}`}>
+                <input
+                  type="number"
+                  min="0"
+                  value={cell}
+                  onChange={(e) => onUpdateAvailable(j, e.target.value)}
+                  placeholder="0"
+                  aria-label={`Available ${resourceName(j)}`}
+                  className={inputClass}
+                />
+              </td>
+            ))}
+            <td colSpan={2 * available.length + 1} />
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+}
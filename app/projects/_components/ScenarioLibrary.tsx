@@ -0,0 +1,184 @@
+import React, { useState } from "react";
+import { ALGORITHMS, TEXTBOOK_SCENARIOS, type AlgorithmId, type ProcessResult, type Scenario } from "@/lib/scheduling";
+import { DEFAULT_PROCESS_DATA, type Process } from "./ProcessTable";
+import type { SimulatorInput } from "./permalink";
+import RemoveRowButton from "./RemoveRowButton";
+import { scenarioInput, useScenarioLibrary, type SavedScenario } from "./scenarioStore";
+import { BORDER_COLOR, INPUT_BG_COLOR, LIGHT_TEXT_COLOR, TEXT_COLOR } from "./theme";
+
+interface ScenarioLibraryProps {
+  /** Simulator the library is shown in; saved scenarios remember it. */
+  algorithm: AlgorithmId;
+  /** The input card, as it would be saved. */
+  input: SimulatorInput;
+  /** Metrics of the current input's last run, saved along with it. */
+  results?: ProcessResult[];
+  /** Called with a saved scenario's input card, which replaces the current one. */
+  onLoad: (input: SimulatorInput) => void;
+  /** Called with a textbook scenario's rows, which replace the input table. */
+  onImport: (rows: Process[]) => void;
+}
+
+const toRows = (scenario: Scenario): Process[] =>
+  scenario.processes.map((p) => ({ ...DEFAULT_PROCESS_DATA, pid: p.pid, arrival: p.arrival, burst: p.burst, priority: p.priority ?? "" }));
+
+// One line under a saved scenario's name: where it came from, its size and last averages
+function describe(scenario: SavedScenario) {
+  const count = scenarioInput(scenario)?.processes.length ?? 0;
+  const { results } = scenario;
+  const average = (field: "waiting" | "turnaround") => (results!.reduce((sum, r) => sum + r[field], 0) / results!.length).toFixed(2);
+  return [
+    ALGORITHMS[scenario.algorithm].name,
+    `${count} process${count === 1 ? "" : "es"}`,
+    ...(results && results.length > 0 ? [`Avg WT ${average("waiting")}`, `Avg TAT ${average("turnaround")}`] : []),
+    new Date(scenario.savedAt).toLocaleString(),
+  ].join(" · ");
+}
+
+/**
+ * Built-in textbook scenarios, plus named workloads saved in the browser with their options
+ * and last results, which can be loaded, renamed, duplicated and deleted.
+ */
+export default function ScenarioLibrary({ algorithm, input, results, onLoad, onImport }: ScenarioLibraryProps) {
+  const { scenarios, save, rename, duplicate, remove } = useScenarioLibrary();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+
+  // Shows the outcome of a library change: its error, or the notice on success
+  const report = (outcome: string | null, success: string) => {
+    setError(outcome ?? "");
+    setNotice(outcome ? "" : success);
+  };
+
+  const saveCurrent = () => {
+    const trimmed = name.trim();
+    if (trimmed === "") {
+      report("Name the scenario before saving it.", "");
+      return;
+    }
+    report(save(trimmed, algorithm, input, results), `Saved "${trimmed}".`);
+    setName("");
+  };
+
+  const finishRename = () => {
+    if (!renaming) return;
+    const trimmed = renaming.name.trim();
+    if (trimmed === "") {
+      report("A scenario needs a name.", "");
+      return;
+    }
+    report(rename(renaming.id, trimmed), `Renamed to "${trimmed}".`);
+    setRenaming(null);
+  };
+
+  const load = (scenario: SavedScenario) => {
+    const restored = scenarioInput(scenario);
+    if (!restored) {
+      report(`"${scenario.name}" has no processes to load.`, "");
+      return;
+    }
+    onLoad(restored);
+    report(null, `Loaded "${scenario.name}".`);
+  };
+
+  const loadTextbook = (scenario: Scenario) => {
+    onImport(toRows(scenario));
+    report(null, `Loaded "${scenario.name}".`);
+  };
+
+  const deleteScenario = (scenario: SavedScenario) => {
+    if (!window.confirm(`Delete the saved scenario "${scenario.name}"?`)) return;
+    report(remove(scenario.id), `Deleted "${scenario.name}".`);
+  };
+
+  const buttonClass = `px-3 py-1.5 text-xs font-medium rounded-full text-blue-400 bg-gray-900 border border-blue-600 hover:bg-gray-700 transition-all`;
+  const fieldClass = `p-2 border ${BORDER_COLOR} rounded-lg text-sm focus:ring-blue-500 focus:border-blue-500 ${INPUT_BG_COLOR} text-white`;
+
+  return (
+    <div className="mt-4 text-sm">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className={`${LIGHT_TEXT_COLOR} mr-1`}>Scenarios:</span>
+        {TEXTBOOK_SCENARIOS.map((scenario) => (
+          <button key={scenario.id} onClick={() => loadTextbook(scenario)} title={scenario.description} className={buttonClass}>
+            📖 {scenario.name}
+          </button>
+        ))}
+        <button onClick={() => setOpen(!open)} className={buttonClass}>
+          📚 Saved ({scenarios.length})
+        </button>
+        {notice && <span className="text-green-400 text-xs">{notice}</span>}
+      </div>
+
+      {open && (
+        <div className={`mt-4 p-4 border ${BORDER_COLOR} rounded-lg space-y-4`}>
+          <div className="flex flex-wrap items-center gap-3">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && saveCurrent()}
+              placeholder="Scenario name"
+              className={`w-64 ${fieldClass}`}
+            />
+            <button onClick={saveCurrent} className={buttonClass} title="Save the table, options and last results in this browser">
+              💾 Save Current
+            </button>
+            {scenarios.some((s) => s.name === name.trim()) && (
+              <span className={`${LIGHT_TEXT_COLOR} text-xs`}>Saving replaces the scenario with this name.</span>
+            )}
+          </div>
+
+          {scenarios.length === 0 ? (
+            <p className={LIGHT_TEXT_COLOR}>No saved scenarios yet. They are kept in this browser only.</p>
+          ) : (
+            <ul className={`divide-y ${BORDER_COLOR}`}>
+              {scenarios.map((scenario) => (
+                <li key={scenario.id} className="flex flex-wrap items-center gap-3 py-2">
+                  <div className="flex-1 min-w-48">
+                    {renaming?.id === scenario.id ? (
+                      <input
+                        type="text"
+                        value={renaming.name}
+                        onChange={(e) => setRenaming({ id: scenario.id, name: e.target.value })}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") finishRename();
+                          if (e.key === "Escape") setRenaming(null);
+                        }}
+                        autoFocus
+                        className={`w-full ${fieldClass}`}
+                      />
+                    ) : (
+                      <p className={`font-semibold ${TEXT_COLOR}`}>{scenario.name}</p>
+                    )}
+                    <p className={`${LIGHT_TEXT_COLOR} text-xs`}>{describe(scenario)}</p>
+                  </div>
+                  <button onClick={() => load(scenario)} className={buttonClass}>
+                    Load
+                  </button>
+                  {renaming?.id === scenario.id ? (
+                    <button onClick={finishRename} className={buttonClass}>
+                      Done
+                    </button>
+                  ) : (
+                    <button onClick={() => setRenaming({ id: scenario.id, name: scenario.name })} className={buttonClass}>
+                      Rename
+                    </button>
+                  )}
+                  <button onClick={() => report(duplicate(scenario.id), `Duplicated "${scenario.name}".`)} className={buttonClass}>
+                    Duplicate
+                  </button>
+                  <RemoveRowButton onClick={() => deleteScenario(scenario)} title="Delete Scenario" />
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {error && <p className="text-red-300" role="alert">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
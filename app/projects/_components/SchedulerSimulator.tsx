@@ -0,0 +1,478 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import {
+  ALGORITHMS,
+  MAX_CORES,
+  practiceWorkload,
+  summarize,
+  type AlgorithmId,
+  type AlgorithmInfo,
+  type ScheduleResult,
+  type SchedulerOptions,
+} from "@/lib/scheduling";
+import AlgorithmNav from "./AlgorithmNav";
+import ContextSwitchInput, { contextSwitchError } from "./ContextSwitchInput";
+import ProcessTable, {
+  DEFAULT_PROCESS_DATA,
+  parseProcesses,
+  processColors,
+  useProcessList,
+  type ParseOptions,
+  type Process,
+} from "./ProcessTable";
+import { copyInput, decodePermalink, DEFAULT_INPUT, encodePermalink, type QueryParams, type SimulatorInput } from "./permalink";
+import PracticePanel from "./PracticePanel";
+import PrintReport from "./PrintReport";
+import QuantumInput, { quantumError } from "./QuantumInput";
+import QueueConfig, { parseMlfq, type MlfqInput } from "./QueueConfig";
+import ScenarioLibrary from "./ScenarioLibrary";
+import { currentResults } from "./scenarioStore";
+import SimulationOutput, { ganttLanes } from "./SimulationOutput";
+import WorkloadGenerator from "./WorkloadGenerator";
+import WorkloadTransfer from "./WorkloadTransfer";
+import {
+  BACKGROUND_COLOR,
+  BORDER_COLOR,
+  CARD_BG_COLOR,
+  DIVIDER_COLOR,
+  INPUT_BG_COLOR,
+  LIGHT_TEXT_COLOR,
+  PRIMARY_BG_BLUE,
+  PRIMARY_BLUE_CLASS,
+  PRIMARY_HOVER_BLUE_BG,
+  PRIMARY_SHADOW,
+  TEXT_COLOR,
+} from "./theme";
+
+interface SimulatorProps {
+  algorithm: AlgorithmId;
+  /** The page's query parameters; a permalink in them is restored and run on load. */
+  query?: QueryParams;
+}
+
+/**
+ * Validation rules for the input table under the given algorithm and options.
+ */
+function parseOptionsFor(info: AlgorithmInfo, input: SimulatorInput): ParseOptions {
+  return {
+    priority: info.usesPriority ? "required" : input.withPriority ? "optional" : undefined,
+    io: input.withIo,
+    cores: input.cores,
+  };
+}
+
+/**
+ * Validates the input card and runs the algorithm on it.
+ * @returns The schedule, or the message to show in the error box.
+ */
+function runSimulation(info: AlgorithmInfo, input: SimulatorInput): { schedule: ScheduleResult } | { error: string } {
+  const { quantum, preemptive, cores, contextSwitch, mlfq } = input;
+
+  // Validation
+  const parsed = parseProcesses(input.processes, parseOptionsFor(info, input));
+  if ("error" in parsed) return parsed;
+
+  const qError = info.usesQuantum ? quantumError(quantum) : null;
+  if (qError) return { error: qError };
+
+  const csError = contextSwitchError(contextSwitch);
+  if (csError) return { error: csError };
+
+  const queues = info.usesQueues ? parseMlfq(mlfq) : null;
+  if (queues && "error" in queues) return queues;
+
+  const options: SchedulerOptions = {
+    ...(info.usesQuantum && { quantum: quantum as number }),
+    ...(info.preemptionToggle && { preemptive }),
+    cores,
+    contextSwitch: contextSwitch as number,
+    ...(queues && { mlfq: queues.options }),
+  };
+  try {
+    return { schedule: info.run(parsed.processes, options) };
+  } catch (e) {
+    console.error(e);
+    return { error: "An unexpected error occurred during calculation." };
+  }
+}
+
+/**
+ * Options a run used, one line each, for the header of its printable report.
+ */
+function reportSettings(info: AlgorithmInfo, input: SimulatorInput): string[] {
+  const { quantum, cores, contextSwitch, mlfq } = input;
+  return [
+    ...(info.usesQuantum ? [`Time Quantum: ${quantum}`] : []),
+    ...(cores > 1 ? [`CPU Cores: ${cores}`] : []),
+    ...(contextSwitch ? [`Context Switch: ${contextSwitch} ms`] : []),
+    ...(info.usesQueues
+      ? [
+          `Queues: ${mlfq.queues.map((q, i) => `Q${i} ${q.policy === "rr" ? `RR q=${q.quantum}` : "FCFS"}`).join(", ")}`,
+          ...(mlfq.demoteAfter !== "" ? [`Demote After: ${mlfq.demoteAfter} slice(s)`] : []),
+          ...(mlfq.boostInterval !== "" ? [`Priority Boost Every: ${mlfq.boostInterval} ms`] : []),
+          ...(mlfq.agingThreshold !== "" ? [`Aging After: ${mlfq.agingThreshold} ms`] : []),
+        ]
+      : []),
+  ];
+}
+
+/**
+ * Input table, options and output for a single CPU scheduling algorithm, on one or more cores.
+ * Every route under app/projects that simulates a scheduler renders this with its algorithm id.
+ */
+export default function SchedulerSimulator({ algorithm, query = {} }: SimulatorProps) {
+  const info = ALGORITHMS[algorithm];
+
+  // A permalink restores the input card and runs it straight away
+  const [restored] = useState(() => decodePermalink(query));
+  const [firstRun] = useState(() => restored && runSimulation(info, restored));
+  const initial = restored ?? DEFAULT_INPUT;
+
+  const [schedule, setSchedule] = useState<ScheduleResult | null>(firstRun && "schedule" in firstRun ? firstRun.schedule : null); // Metrics, Gantt data and event trace
+  const [quantum, setQuantum] = useState<number | "">(initial.quantum);
+  const [preemptive, setPreemptive] = useState(initial.preemptive);
+  const [withIo, setWithIo] = useState(initial.withIo); // Show the I/O burst column
+  const [withPriority, setWithPriority] = useState(initial.withPriority); // Show the Priority column where it is optional
+  const [cores, setCores] = useState(initial.cores);
+  const [contextSwitch, setContextSwitch] = useState<number | "">(initial.contextSwitch);
+  const [mlfq, setMlfq] = useState<MlfqInput>(initial.mlfq);
+  const [practice, setPractice] = useState(initial.practice);
+  const [revealed, setRevealed] = useState(false); // Practice answers shown
+  const [attempt, setAttempt] = useState(0); // Bumped per run so practice entries start blank
+  const [ranWith, setRanWith] = useState(firstRun && "schedule" in firstRun && restored ? copyInput(restored) : null); // Input behind the schedule, for its report
+  const [reportView, setReportView] = useState(false); // Printable report shown in place of the simulator
+  const [error, setError] = useState(firstRun && "error" in firstRun ? firstRun.error : "");
+  const [linkStatus, setLinkStatus] = useState("");
+
+  const { processes, loadProcesses, updateField, addProcess, removeProcess } = useProcessList(
+    () => setError(""),
+    () => setSchedule(null),
+    restored?.processes
+  );
+
+  const input: SimulatorInput = { processes, quantum, preemptive, withIo, withPriority, cores, contextSwitch, mlfq, practice };
+
+  const updateQuantum = (value: number | "") => {
+    setError("");
+    setQuantum(value);
+  };
+
+  const updateContextSwitch = (value: number | "") => {
+    setError("");
+    setContextSwitch(value);
+  };
+
+  const updateMlfq = (value: MlfqInput) => {
+    setError("");
+    setMlfq(value);
+    // The residency chart has one column per queue, so it would no longer line up
+    setSchedule(null);
+  };
+
+  const importRows = (rows: Process[]) => {
+    setError("");
+    loadProcesses(rows);
+    if (rows.some((p) => p.io !== "")) setWithIo(true);
+    if (rows.some((p) => p.priority !== "")) setWithPriority(true);
+  };
+
+  const calculate = (next = input) => {
+    const outcome = runSimulation(info, next);
+    if ("error" in outcome) {
+      setError(outcome.error);
+      setSchedule(null);
+      return;
+    }
+    setSchedule(outcome.schedule);
+    setRanWith(copyInput(next));
+    setRevealed(false);
+    setAttempt(attempt + 1);
+    setError("");
+  };
+
+  const switchMode = (toPractice: boolean) => {
+    setPractice(toPractice);
+    setRevealed(false);
+  };
+
+  // A fresh random workload per attempt, started straight away
+  const newPracticeWorkload = () => {
+    const rows = practiceWorkload(Math.floor(Math.random() * 1_000_000), info.usesPriority).map((p): Process => ({
+      ...DEFAULT_PROCESS_DATA,
+      pid: p.pid,
+      arrival: p.arrival,
+      burst: p.burst,
+      priority: p.priority ?? "",
+    }));
+    importRows(rows);
+    calculate({ ...input, processes: rows });
+  };
+
+  // Replaces the whole input card, e.g. with a saved scenario, and runs it to bring back its results
+  const loadInput = (saved: SimulatorInput) => {
+    loadProcesses(saved.processes);
+    setQuantum(saved.quantum);
+    setPreemptive(saved.preemptive);
+    setWithIo(saved.withIo);
+    setWithPriority(saved.withPriority);
+    setCores(saved.cores);
+    setContextSwitch(saved.contextSwitch);
+    setMlfq(saved.mlfq);
+    setPractice(saved.practice);
+    calculate(saved);
+  };
+
+  const copyLink = async () => {
+    const url = `${window.location.origin}${window.location.pathname}?${encodePermalink(input)}`;
+    // Also put it in the address bar so the page can be bookmarked as is
+    window.history.replaceState(null, "", url);
+    try {
+      await navigator.clipboard.writeText(url);
+      setLinkStatus("Link copied!");
+    } catch {
+      setLinkStatus("Link is in the address bar.");
+    }
+  };
+
+  // The copy-link status clears itself after a moment; the timer is dropped if the page goes first
+  useEffect(() => {
+    if (!linkStatus) return;
+    const id = setTimeout(() => setLinkStatus(""), 2000);
+    return () => clearTimeout(id);
+  }, [linkStatus]);
+
+  const metrics = schedule && summarize(schedule);
+  const quizzing = practice && !revealed;
+  const mode = info.preemptionToggle ? (preemptive ? "Preemptive" : "Non-Preemptive") : info.mode;
+
+  // Built from the input the schedule was run with, so edits made since don't leak into it
+  const report = schedule && ranWith && !quizzing && (
+    <PrintReport
+      title={`${info.name} Scheduling Report`}
+      subtitle={`${info.title} (${info.preemptionToggle ? (ranWith.preemptive ? "Preemptive" : "Non-Preemptive") : info.mode})`}
+      settings={reportSettings(info, ranWith)}
+      processes={ranWith.processes}
+      schedule={schedule}
+      lanes={ganttLanes(schedule.coreBlocks, schedule.ioBlocks)}
+      colors={processColors(ranWith.processes)}
+    />
+  );
+
+  if (reportView && report) {
+    return (
+      <div className="min-h-screen bg-gray-100 py-8 print:py-0">
+        <div className="max-w-4xl mx-auto mb-4 flex justify-between gap-4 print:hidden">
+          <button
+            onClick={() => setReportView(false)}
+            className="px-4 py-2 text-sm font-medium rounded-full text-blue-700 bg-white border border-blue-600 hover:bg-blue-50 transition-all"
+          >
+            ← Back to Simulator
+          </button>
+          <button
+            onClick={() => window.print()}
+            title="Use the print dialog's Save as PDF destination for a PDF"
+            className={`px-4 py-2 text-sm font-bold text-white rounded-full ${PRIMARY_BG_BLUE} ${PRIMARY_HOVER_BLUE_BG} transition-all`}
+          >
+            🖨️ Print / Save as PDF
+          </button>
+        </div>
+        {report}
+      </div>
+    );
+  }
+
+  return (
+    <div className={`min-h-screen p-4 md:p-8 ${BACKGROUND_COLOR} font-sans transition-colors duration-300 print:bg-white print:p-0`}>
+      <header className="mb-10 text-center print:hidden">
+        <h1 className={`text-4xl font-extrabold ${PRIMARY_BLUE_CLASS} mb-2`}>
+          {info.name} Scheduling Simulator
+        </h1>
+        <p className={`text-lg ${LIGHT_TEXT_COLOR}`}>
+          {info.title} ({mode}{info.usesPriority && " · Lower Number = Higher Priority"})
+        </p>
+        <AlgorithmNav current={algorithm} />
+
+        {/* Mode Tabs */}
+        <div className="flex justify-center gap-3 mt-6">
+          {([[false, "🧮 Simulate"], [true, "📝 Practice"]] as const).map(([value, label]) => (
+            <button
+              key={label}
+              onClick={() => switchMode(value)}
+              className={`px-5 py-2 text-sm font-semibold rounded-full border transition-all ${
+                practice === value
+                  ? `${PRIMARY_BG_BLUE} text-white border-blue-600`
+                  : "bg-gray-900 text-blue-400 border-blue-600 hover:bg-gray-700"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto space-y-12 print:hidden">
+        {/* Input Card */}
+        <section className={`p-6 md:p-8 ${CARD_BG_COLOR} rounded-2xl shadow-xl border ${BORDER_COLOR}`}>
+          <h2 className={`text-2xl font-bold ${TEXT_COLOR} mb-6 flex items-center border-b ${DIVIDER_COLOR} pb-3`}>
+            <span className="mr-3 text-3xl text-orange-400">⚙️</span> Process Input
+          </h2>
+
+          <ProcessTable
+            processes={processes}
+            showPriority={info.usesPriority || withPriority}
+            showIo={withIo}
+            showAffinity={cores > 1}
+            onUpdate={updateField}
+            onRemove={removeProcess}
+          />
+
+          {/* Algorithm Options */}
+          <div className={`flex flex-wrap items-center gap-6 mt-6 pt-4 border-t ${DIVIDER_COLOR}`}>
+            {info.usesQuantum && (
+              <QuantumInput quantum={quantum} onChange={updateQuantum} />
+            )}
+            <ContextSwitchInput contextSwitch={contextSwitch} onChange={updateContextSwitch} />
+            {info.preemptionToggle && (
+              <label className={`flex items-center gap-3 text-sm ${LIGHT_TEXT_COLOR}`}>
+                <input
+                  type="checkbox"
+                  checked={preemptive}
+                  onChange={(e) => setPreemptive(e.target.checked)}
+                  className="h-4 w-4 accent-blue-500"
+                />
+                Preemptive
+              </label>
+            )}
+            <label className={`flex items-center gap-3 text-sm ${LIGHT_TEXT_COLOR}`}>
+              <input
+                type="checkbox"
+                checked={withIo}
+                onChange={(e) => setWithIo(e.target.checked)}
+                className="h-4 w-4 accent-blue-500"
+              />
+              I/O Bursts (CPU–I/O–CPU)
+            </label>
+            {!info.usesPriority && (
+              <label className={`flex items-center gap-3 text-sm ${LIGHT_TEXT_COLOR}`}>
+                <input
+                  type="checkbox"
+                  checked={withPriority}
+                  onChange={(e) => setWithPriority(e.target.checked)}
+                  className="h-4 w-4 accent-blue-500"
+                />
+                Priority Column (not used by {info.name})
+              </label>
+            )}
+            <label className={`flex items-center gap-3 text-sm ${LIGHT_TEXT_COLOR}`}>
+              CPU Cores
+              <select
+                value={cores}
+                onChange={(e) => {
+                  setError("");
+                  setCores(parseInt(e.target.value));
+                }}
+                className={`p-2 border ${BORDER_COLOR} rounded-lg text-sm focus:ring-blue-500 focus:border-blue-500 ${INPUT_BG_COLOR} text-white`}
+              >
+                {Array.from({ length: MAX_CORES }, (_, i) => i + 1).map((n) => (
+                  <option key={n} value={n}>{n}</option>
+                ))}
+              </select>
+            </label>
+            {info.usesQueues && <QueueConfig mlfq={mlfq} onChange={updateMlfq} />}
+          </div>
+
+          <div className="flex flex-col sm:flex-row justify-between items-center mt-6 space-y-4 sm:space-y-0">
+            <button
+              onClick={addProcess}
+              className={`px-4 py-2 text-sm font-medium rounded-full text-blue-400 bg-gray-900 border border-blue-600 hover:bg-gray-700 transition-all ${PRIMARY_SHADOW}`}
+            >
+              <span className="text-xl inline-block mr-1 align-bottom">+</span> Add Process
+            </button>
+
+            <div className="flex items-center gap-4">
+              {linkStatus && <span className="text-green-400 text-sm">{linkStatus}</span>}
+              <button
+                onClick={copyLink}
+                title="Copy a link that restores this workload and runs it"
+                className={`px-4 py-2 text-sm font-medium rounded-full text-blue-400 bg-gray-900 border border-blue-600 hover:bg-gray-700 transition-all ${PRIMARY_SHADOW}`}
+              >
+                🔗 Copy link
+              </button>
+              {practice && (
+                <button
+                  onClick={newPracticeWorkload}
+                  title="Replace the table with a small random workload and start practicing on it"
+                  className={`px-4 py-2 text-sm font-medium rounded-full text-blue-400 bg-gray-900 border border-blue-600 hover:bg-gray-700 transition-all ${PRIMARY_SHADOW}`}
+                >
+                  🎲 New Random Workload
+                </button>
+              )}
+              <button
+                onClick={() => calculate()}
+                className={`px-8 py-3 text-lg font-bold text-white rounded-full ${PRIMARY_BG_BLUE} ${PRIMARY_HOVER_BLUE_BG} transition-transform transform hover:scale-[1.02] active:scale-95 shadow-lg shadow-blue-900/50`}
+              >
+                {practice ? "Start Practice 📝" : `Calculate ${info.name} 🚀`}
+              </button>
+            </div>
+          </div>
+
+          <WorkloadTransfer
+            processes={processes}
+            onImport={importRows}
+            parseOptions={parseOptionsFor(info, input)}
+            results={quizzing ? undefined : schedule?.results}
+            filePrefix={algorithm}
+          />
+          <WorkloadGenerator onGenerate={importRows} withPriority={info.usesPriority} />
+          <ScenarioLibrary
+            algorithm={algorithm}
+            input={input}
+            results={quizzing ? undefined : currentResults(ranWith, input, schedule?.results)}
+            onLoad={loadInput}
+            onImport={importRows}
+          />
+
+          {error && (
+            <div className="mt-6 p-4 bg-red-900/50 border border-red-700 text-red-300 rounded-lg" role="alert">
+              <p className="font-semibold">Input Error:</p>
+              <p>{error}</p>
+            </div>
+          )}
+        </section>
+
+        {/* Practice Card: the output stays hidden until the student asks for the solution */}
+        {schedule && quizzing && (
+          <PracticePanel key={attempt} schedule={schedule} algorithmName={info.name} onReveal={() => setRevealed(true)} />
+        )}
+
+        {/* Output Card */}
+        {schedule && ranWith && !quizzing && (
+          <SimulationOutput
+            results={schedule.results}
+            ganttData={schedule}
+            ioBlocks={schedule.ioBlocks}
+            playback
+            coreBlocks={schedule.coreBlocks}
+            events={schedule.events}
+            avgW={schedule.results.reduce((sum, p) => sum + p.waiting, 0) / schedule.results.length}
+            avgT={schedule.results.reduce((sum, p) => sum + p.turnaround, 0) / schedule.results.length}
+            ruleLabel={`${info.name} Rule: ${info.rule}`}
+            queueCount={info.usesQueues ? mlfq.queues.length : undefined}
+            colors={processColors(ranWith.processes)}
+            exportName={algorithm}
+            onReport={() => setReportView(true)}
+            switchStats={
+              metrics && metrics.switchOverhead > 0
+                ? { count: metrics.contextSwitches, overhead: metrics.switchOverhead }
+                : undefined
+            }
+          />
+        )}
+      </main>
+
+      {/* Printing the simulator page prints the report in place of the dark UI */}
+      {report && <div className="hidden print:block">{report}</div>}
+    </div>
+  );
+}
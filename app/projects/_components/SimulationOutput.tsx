@@ -0,0 +1,283 @@
+import React, { useState } from "react";
+import {
+  CONTEXT_SWITCH,
+  coreLoad,
+  queueResidency,
+  renderGanttSvg,
+  type GanttBlock,
+  type GanttData,
+  type ProcessColor,
+  type ProcessResult,
+  type ScheduleEvent,
+} from "@/lib/scheduling";
+import { downloadPng, downloadSvg } from "./chartExport";
+import EventLog from "./EventLog";
+import GanttViewer, { type GanttLane } from "./GanttViewer";
+import PlaybackPanel from "./PlaybackPanel";
+import ProcessLegend from "./ProcessLegend";
+import QueueResidencyChart from "./QueueResidencyChart";
+import {
+  BORDER_COLOR,
+  CARD_BG_COLOR,
+  DIVIDER_COLOR,
+  LIGHT_TEXT_COLOR,
+  PRIMARY_BG_BLUE,
+  PRIMARY_BLUE_CLASS,
+  SECONDARY_BG_ORANGE,
+  SECONDARY_ORANGE_CLASS,
+  TEXT_COLOR,
+} from "./theme";
+
+interface OutputProps {
+  results: ProcessResult[];
+  ganttData: GanttData;
+  avgW: number;
+  avgT: number;
+  /** Algorithm label and rule shown under the Gantt chart, e.g. "FCFS Rule: Sorted by Arrival Time". */
+  ruleLabel: string;
+  /** Show a step-through playback section over the core lanes. */
+  playback?: boolean;
+  /** One Gantt lane per core; with more than one core each is drawn on the shared time axis. */
+  coreBlocks?: GanttBlock[][];
+  /** Scheduler event trace; when given, it is shown as a log beside the Gantt chart. */
+  events?: ScheduleEvent[];
+  /** I/O device lane; drawn under the CPU lane when any process does I/O. */
+  ioBlocks?: GanttBlock[];
+  /** Context-switch totals; shown with the averages when switching has a cost. */
+  switchStats?: { count: number; overhead: number };
+  /** Queue count of a multilevel scheduler; shows how long each process spent in each queue (needs `events`). */
+  queueCount?: number;
+  /** Colors picked for processes, by PID; the rest get their default color. */
+  colors?: Record<string, ProcessColor>;
+  /** File name, without extension, for the exported Gantt chart (default "gantt"). */
+  exportName?: string;
+  /** Opens the printable report; when given, a Report button sits beside the image exports. */
+  onReport?: () => void;
+}
+
+/**
+ * Lanes of the Gantt chart: one per core (unlabelled for a lone CPU), plus the I/O device
+ * when any process does I/O.
+ */
+export function ganttLanes(coreBlocks: GanttBlock[][], ioBlocks?: GanttBlock[]): GanttLane[] {
+  const multiCore = coreBlocks.length > 1;
+  const hasIoLane = ioBlocks?.some((b) => b.process !== "IDLE") ?? false;
+  return [
+    ...coreBlocks.map((blocks, core) => ({ label: multiCore ? `CPU ${core + 1}` : hasIoLane ? "CPU" : undefined, blocks })),
+    ...(hasIoLane ? [{ label: "I/O Device", blocks: ioBlocks! }] : []),
+  ];
+}
+
+export default function SimulationOutput({ results, ganttData, avgW, avgT, ruleLabel, playback, coreBlocks, events, ioBlocks, switchStats, queueCount, colors, exportName = "gantt", onReport }: OutputProps) {
+    const [exportError, setExportError] = useState("");
+    const { ganttBlocks } = ganttData;
+    const lanes = coreBlocks && coreBlocks.length > 1 ? coreBlocks : [ganttBlocks];
+    const multiCore = lanes.length > 1;
+    const executionOrder = lanes
+      .flatMap((blocks, core) => blocks.map((b) => ({ ...b, core })))
+      .filter((b) => b.process !== "IDLE" && b.process !== CONTEXT_SWITCH)
+      .sort((a, b) => a.start - b.start || a.core - b.core)
+      .map((b) => (multiCore ? `${b.process}@CPU${b.core + 1}` : b.process));
+    const load = multiCore ? coreLoad({ coreBlocks: lanes, totalTime: ganttData.totalTime }) : null;
+    const showPriority = results.some((r) => r.priority !== undefined);
+    const showIo = results.some((r) => r.ioTime > 0);
+    const residency = queueCount && events ? queueResidency({ results, events }, queueCount) : null;
+    const chartLanes = ganttLanes(lanes, ioBlocks);
+
+    // The whole chart, unzoomed, as a standalone image
+    const chartSvg = () => renderGanttSvg(chartLanes, { totalTime: ganttData.totalTime, timeMarkers: ganttData.timeMarkers, colors });
+
+    const exportPng = async () => {
+      setExportError("");
+      try {
+        await downloadPng(exportName, chartSvg());
+      } catch (e) {
+        setExportError(e instanceof Error ? e.message : String(e));
+      }
+    };
+
+    const exportButtonClass = "px-3 py-1.5 text-xs font-medium rounded-full text-blue-400 bg-gray-900 border border-blue-600 hover:bg-gray-700 transition-all";
+
+    return (
+      <section className={`p-8 md:p-10 ${CARD_BG_COLOR} rounded-2xl shadow-xl border ${BORDER_COLOR} ${TEXT_COLOR}`}>
+        <div className={`flex items-center border-b ${DIVIDER_COLOR} pb-4 mb-8`}>
+          <h2 className={`text-3xl font-bold ${PRIMARY_BLUE_CLASS} flex items-center`}>
+            <span className="mr-3 text-4xl">📊</span> Simulation Output
+          </h2>
+
+        </div>
+
+        {/* Gantt Chart/Timeline */}
+        {ganttBlocks.length > 0 && (
+          <>
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-5">
+              <h3 className={`text-xl font-semibold ${TEXT_COLOR} flex items-center`}>
+                  <span className={`text-2xl mr-3 ${PRIMARY_BLUE_CLASS}`}>⏱️</span> Gantt Chart (CPU Timeline)
+              </h3>
+              <div className="flex flex-wrap items-center gap-2">
+                {exportError && <span className="text-red-300 text-xs" role="alert">{exportError}</span>}
+                <button onClick={() => downloadSvg(exportName, chartSvg())} className={exportButtonClass} title="Vector image of the whole chart">
+                  ⬇️ SVG
+                </button>
+                <button onClick={exportPng} className={exportButtonClass} title="Image of the whole chart at twice its size">
+                  ⬇️ PNG
+                </button>
+                {onReport && (
+                  <button onClick={onReport} className={exportButtonClass} title="Inputs, chart and metrics laid out for printing or saving as PDF">
+                    📄 Printable Report
+                  </button>
+                )}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-10">
+              {/* The Gantt Chart Container */}
+              <div className={`${events ? "lg:col-span-2" : "lg:col-span-3"} p-5 border ${BORDER_COLOR} rounded-lg bg-gray-900 overflow-x-auto shadow-inner shadow-black/20`}>
+                  {/* One lane per core plus the I/O device, all on the same time axis and markers */}
+                  <GanttViewer lanes={chartLanes} timeMarkers={ganttData.timeMarkers} totalTime={ganttData.totalTime} colors={colors} />
+                  <ProcessLegend pids={results.map((r) => r.pid)} lanes={chartLanes.map((lane) => lane.blocks)} colors={colors} />
+
+                  <p className={`mt-8 ${LIGHT_TEXT_COLOR} italic text-sm border-t ${DIVIDER_COLOR} pt-3`}>
+                      Execution Order ({ruleLabel}): <span className={`${TEXT_COLOR} font-mono`}>{executionOrder.join(" → ")}</span>
+                  </p>
+              </div>
+
+              {/* Event Trace */}
+              {events && <EventLog events={events} />}
+            </div>
+          </>
+        )}
+
+        {/* Step-Through Playback */}
+        {playback && ganttData.totalTime > 0 && (
+          <>
+            <h3 className={`text-xl font-semibold mb-5 ${TEXT_COLOR} flex items-center`}>
+                <span className={`text-2xl mr-3 ${PRIMARY_BLUE_CLASS}`}>▶️</span> Step-Through Execution
+            </h3>
+            <PlaybackPanel lanes={lanes} totalTime={ganttData.totalTime} results={results} events={events} colors={colors} />
+          </>
+        )}
+
+        <hr className={`${DIVIDER_COLOR} my-8`} />
+
+        {/* Process Metrics Table */}
+        <h3 className={`text-xl font-semibold mb-5 ${TEXT_COLOR} flex items-center`}>
+            <span className={`text-2xl mr-3 ${PRIMARY_BLUE_CLASS}`}>📋</span> Process Metrics
+        </h3>
+
+        <div className={`overflow-x-auto rounded-lg border ${BORDER_COLOR} shadow-sm`}>
+          <table className="min-w-full border-collapse rounded-lg overflow-hidden text-sm">
+            <thead>
+              <tr className={`bg-gray-700 border-b ${DIVIDER_COLOR}`}>
+                <th className={`px-4 py-3 border-r ${DIVIDER_COLOR} ${TEXT_COLOR}`}>P</th>
+                <th className={`px-4 py-3 border-r ${DIVIDER_COLOR} ${TEXT_COLOR}`}>Arrival (AT)</th>
+                <th className={`px-4 py-3 border-r ${DIVIDER_COLOR} ${TEXT_COLOR}`}>Burst (BT)</th>
+                {showPriority && (
+                  <th className={`px-4 py-3 border-r ${DIVIDER_COLOR} ${TEXT_COLOR}`}>Priority</th>
+                )}
+                {showIo && (
+                  <th className={`px-4 py-3 border-r ${DIVIDER_COLOR} ${TEXT_COLOR}`}>I/O Time</th>
+                )}
+                <th className={`px-4 py-3 border-r ${DIVIDER_COLOR} ${TEXT_COLOR}`}>Completion (CT)</th>
+                <th className={`px-4 py-3 border-r ${DIVIDER_COLOR} ${TEXT_COLOR}`}>Response (RT)</th>
+
+                {/* Turnaround column header: Secondary Orange */}
+                <th className={`px-4 py-3 border-r ${DIVIDER_COLOR} ${SECONDARY_BG_ORANGE} text-white`}>
+                  Turnaround (TAT = CT - AT)
+                </th>
+
+                {/* Waiting column header: Primary Blue */}
+                <th className={`px-4 py-3 ${DIVIDER_COLOR} ${PRIMARY_BG_BLUE} text-white`}>
+                  {showIo ? "Waiting (WT = TAT - BT - I/O)" : "Waiting (WT = TAT - BT)"}
+                </th>
+              </tr>
+            </thead>
+
+            <tbody>
+              {results.map((p) => (
+                <tr key={p.pid} className={`bg-gray-800 border-t ${DIVIDER_COLOR} hover:bg-gray-700 transition-colors`}>
+                  <td className={`p-3 border-r ${DIVIDER_COLOR} text-center font-semibold text-lg ${PRIMARY_BLUE_CLASS}`}>
+                    {p.pid}
+                  </td>
+                  <td className={`p-3 border-r ${DIVIDER_COLOR} text-center ${TEXT_COLOR} font-mono`}>
+                    {p.arrival}
+                  </td>
+                  <td className={`p-3 border-r ${DIVIDER_COLOR} text-center ${TEXT_COLOR} font-mono`}>
+                    {p.burst}
+                  </td>
+                  {showPriority && (
+                    <td className={`p-3 border-r ${DIVIDER_COLOR} text-center ${TEXT_COLOR} font-mono`}>
+                      {p.priority}
+                    </td>
+                  )}
+                  {showIo && (
+                    <td className={`p-3 border-r ${DIVIDER_COLOR} text-center ${TEXT_COLOR} font-mono`}>
+                      {p.ioTime}
+                    </td>
+                  )}
+                  <td className={`p-3 border-r ${DIVIDER_COLOR} text-center ${TEXT_COLOR} font-mono`}>
+                    {p.completion}
+                  </td>
+                  <td className={`p-3 border-r ${DIVIDER_COLOR} text-center ${TEXT_COLOR} font-mono`}>
+                    {p.response}
+                  </td>
+
+                  {/* Turnaround data: Secondary Orange highlight */}
+                  <td className={`p-3 border-r ${DIVIDER_COLOR} text-center bg-orange-900/40 text-orange-400 font-bold`}>
+                    {p.turnaround.toFixed(2)}
+                  </td>
+
+                  {/* Waiting data: Primary Blue highlight */}
+                  <td className={`p-3 ${DIVIDER_COLOR} text-center bg-blue-900/40 text-blue-400 font-bold`}>
+                    {p.waiting.toFixed(2)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className={`mt-12 p-6 border ${BORDER_COLOR} bg-blue-900/30 rounded-lg flex flex-col sm:flex-row justify-around text-lg font-semibold space-y-4 sm:space-y-0 shadow-md shadow-black/30`}>
+          <p className={`${TEXT_COLOR}`}>
+            Avg Waiting Time:{" "}
+            <span className={`${PRIMARY_BLUE_CLASS} font-bold text-2xl`}>{avgW.toFixed(2)} ms</span>
+          </p>
+          <p className={`${TEXT_COLOR}`}>
+            Avg Turnaround Time:{" "}
+            <span className={`${SECONDARY_ORANGE_CLASS} font-bold text-2xl`}>{avgT.toFixed(2)} ms</span>
+          </p>
+          {switchStats && (
+            <p className={`${TEXT_COLOR}`}>
+              Context Switches:{" "}
+              <span className="text-red-300 font-bold text-2xl">{switchStats.count}</span>{" "}
+              <span className={`${LIGHT_TEXT_COLOR} text-base`}>({switchStats.overhead} ms overhead)</span>
+            </p>
+          )}
+        </div>
+
+        {/* Per-core load (multi-core only) */}
+        {load && (
+          <div className={`mt-4 p-6 border ${BORDER_COLOR} bg-gray-900 rounded-lg flex flex-wrap justify-around gap-4 text-sm font-semibold shadow-md shadow-black/30`}>
+            {load.utilization.map((u, core) => (
+              <p key={core} className={TEXT_COLOR}>
+                CPU {core + 1} Utilization: <span className={`${PRIMARY_BLUE_CLASS} font-bold text-lg`}>{u.toFixed(1)}%</span>
+              </p>
+            ))}
+            <p className={TEXT_COLOR} title="How far the busiest core is above the mean core load">
+              Load Imbalance: <span className={`${SECONDARY_ORANGE_CLASS} font-bold text-lg`}>{load.imbalance.toFixed(1)}%</span>
+            </p>
+          </div>
+        )}
+
+        {/* Queue Residency (multilevel schedulers only) */}
+        {residency && (
+          <>
+            <h3 className={`text-xl font-semibold mt-12 mb-5 ${TEXT_COLOR} flex items-center`}>
+                <span className={`text-2xl mr-3 ${PRIMARY_BLUE_CLASS}`}>🪜</span> Queue Residency
+            </h3>
+            <QueueResidencyChart residency={residency} queueCount={queueCount!} />
+          </>
+        )}
+      </section>
+    );
+}
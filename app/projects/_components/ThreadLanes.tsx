@@ -0,0 +1,140 @@
+import React from "react";
+import { CONTEXT_SWITCH, getProcessColor } from "@/lib/scheduling";
+import type { SyncRun, ThreadStatus } from "@/lib/sync";
+import { BORDER_COLOR, LIGHT_TEXT_COLOR, PRIMARY_BLUE_CLASS } from "./theme";
+
+// Width of one step in pixels, and how often the time axis is labelled
+const STEP_WIDTH = 28;
+const MARKER_EVERY = 5;
+
+interface LaneBlock {
+  start: number;
+  end: number;
+  text: string;
+  className: string;
+  title: string;
+}
+
+interface Lane {
+  label: string;
+  blocks: LaneBlock[];
+}
+
+/** Merges consecutive steps with the same text and style into one block. */
+function mergeSteps(steps: Omit<LaneBlock, "start" | "end">[]): LaneBlock[] {
+  const blocks: LaneBlock[] = [];
+  steps.forEach((step, time) => {
+    const last = blocks[blocks.length - 1];
+    if (last && last.text === step.text && last.className === step.className) last.end = time + 1;
+    else blocks.push({ ...step, start: time, end: time + 1 });
+  });
+  return blocks;
+}
+
+// Running threads keep their own colour; blocked ones look like a context switch, ready ones like idle time
+const statusClass = (status: ThreadStatus, thread: number) =>
+  status === "running" ? getProcessColor(`P${thread + 1}`)
+  : status === "blocked" ? getProcessColor(CONTEXT_SWITCH)
+  : status === "ready" ? getProcessColor("IDLE")
+  : "bg-transparent";
+
+interface ThreadLanesProps {
+  run: SyncRun;
+}
+
+/**
+ * One Gantt-style lane per thread showing what it did at each step (running, ready, blocked or
+ * done), then a lane per semaphore and shared counter showing its value.
+ */
+export default function ThreadLanes({ run }: ThreadLanesProps) {
+  const { scenario, history } = run;
+  const steps = history.length;
+
+  const threadLanes: Lane[] = scenario.threads.map((thread, i) => ({
+    label: thread.name,
+    blocks: mergeSteps(
+      history.map((tick) => {
+        const { status, label } = tick.threads[i];
+        return { text: label, className: statusClass(status, i), title: `${thread.name}: ${status}${label ? ` (${label})` : ""}` };
+      })
+    ),
+  }));
+
+  const valueLanes: Lane[] = [
+    ...scenario.semaphores.map((s) => ({ name: s.name, semaphore: true })),
+    ...scenario.counters.map((c) => ({ name: c.name, semaphore: false })),
+  ].map(({ name, semaphore }) => ({
+    label: name,
+    blocks: mergeSteps(
+      history.map((tick) => {
+        const value = tick.values[name];
+        return {
+          text: `${value}`,
+          // A semaphore at 0 blocks the next wait on it
+          className: semaphore && value === 0 ? "bg-gray-900 text-red-300" : "bg-gray-700 text-gray-100",
+          title: `${name} = ${value}`,
+        };
+      })
+    ),
+  }));
+
+  const markers = Array.from({ length: Math.floor(steps / MARKER_EVERY) + 1 }, (_, k) => k * MARKER_EVERY);
+
+  const renderLane = (lane: Lane, height: number) => (
+    <div key={lane.label} className={`relative rounded-md overflow-hidden border ${BORDER_COLOR}`} style={{ height: `${height}px` }}>
+      {lane.blocks.map((block) => (
+        <div
+          key={block.start}
+          className={`absolute inset-y-0 flex items-center justify-center overflow-hidden border-r ${BORDER_COLOR} ${block.className}`}
+          style={{ left: `${block.start * STEP_WIDTH}px`, width: `${(block.end - block.start) * STEP_WIDTH}px` }}
+          title={`${block.title}, steps ${block.start}–${block.end}`}
+        >
+          <span className="text-xs font-semibold px-1 select-none whitespace-nowrap">{block.text}</span>
+        </div>
+      ))}
+    </div>
+  );
+
+  const labelClass = `flex items-center justify-end pr-3 text-sm font-semibold font-mono whitespace-nowrap`;
+
+  return (
+    <div className="flex">
+      {/* Lane Labels */}
+      <div className="shrink-0 space-y-2">
+        {threadLanes.map((lane) => (
+          <div key={lane.label} className={`${labelClass} ${PRIMARY_BLUE_CLASS} h-9`}>
+            {lane.label}
+          </div>
+        ))}
+        <div className="h-3" />
+        {valueLanes.map((lane) => (
+          <div key={lane.label} className={`${labelClass} ${LIGHT_TEXT_COLOR} h-7`}>
+            {lane.label}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex-1 overflow-x-auto pb-2">
+        <div className="space-y-2" style={{ width: `${Math.max(steps, 1) * STEP_WIDTH}px`, minWidth: "100%" }}>
+          {threadLanes.map((lane) => renderLane(lane, 36))}
+          <div className="h-3" />
+          {valueLanes.map((lane) => renderLane(lane, 28))}
+
+          {/* Time Markers */}
+          <div className="relative w-full h-4 mt-3">
+            {markers.map((time) => (
+              <div
+                key={time}
+                className="absolute top-0 text-xs text-gray-400 transform -translate-x-1/2"
+                style={{ left: `${time * STEP_WIDTH}px` }}
+              >
+                <span className={`h-2 w-px inline-block ${PRIMARY_BLUE_CLASS} absolute bottom-full left-1/2 -translate-x-1/2`}></span>
+                {time}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import React, { useState } from "react";
+import {
+  GENERATED_MAX_PRIORITY,
+  generateWorkload,
+  MAX_GENERATED,
+  type ArrivalDistribution,
+  type BurstDistribution,
+} from "@/lib/scheduling";
+import { DEFAULT_PROCESS_DATA, type Process } from "./ProcessTable";
+import { BORDER_COLOR, INPUT_BG_COLOR, LIGHT_TEXT_COLOR } from "./theme";
+
+const ARRIVALS: Record<ArrivalDistribution, string> = {
+  poisson: "Poisson",
+  uniform: "Uniform",
+};
+
+const BURSTS: Record<BurstDistribution, string> = {
+  exponential: "Exponential",
+  uniform: "Uniform",
+  bimodal: "Bimodal (short + long)",
+};
+
+interface WorkloadGeneratorProps {
+  /** Called with the generated rows, which replace the input table. */
+  onGenerate: (rows: Process[]) => void;
+  /** Give every process a priority. */
+  withPriority?: boolean;
+}
+
+/**
+ * Panel that fills the input table with a random workload drawn from a seed, so the same
+ * settings and seed always regenerate the same processes.
+ */
+export default function WorkloadGenerator({ onGenerate, withPriority = false }: WorkloadGeneratorProps) {
+  const [open, setOpen] = useState(false);
+  const [count, setCount] = useState<number | "">(10);
+  const [arrival, setArrival] = useState<ArrivalDistribution>("poisson");
+  const [meanGap, setMeanGap] = useState<number | "">(3);
+  const [burst, setBurst] = useState<BurstDistribution>("exponential");
+  const [meanBurst, setMeanBurst] = useState<number | "">(5);
+  const [seed, setSeed] = useState<number | "">(1);
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+
+  // Whole numbers only, like the other numeric inputs
+  const numeric = (set: (value: number | "") => void) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!/^\d*$/.test(e.target.value)) return;
+    set(e.target.value === "" ? "" : parseInt(e.target.value));
+    setError("");
+  };
+
+  const generate = () => {
+    if (count === "" || meanGap === "" || meanBurst === "" || seed === "") {
+      setError("Fill in every generator field.");
+      return;
+    }
+    try {
+      const processes = generateWorkload({
+        count,
+        seed,
+        arrival,
+        meanArrivalGap: meanGap,
+        burst,
+        meanBurst,
+        ...(withPriority && { maxPriority: GENERATED_MAX_PRIORITY }),
+      });
+      onGenerate(processes.map((p) => ({ ...DEFAULT_PROCESS_DATA, pid: p.pid, arrival: p.arrival, burst: p.burst, priority: p.priority ?? "" })));
+      setError("");
+      setNotice(`Generated ${processes.length} processes with seed ${seed}.`);
+    } catch (e) {
+      setError(e instanceof RangeError ? e.message : String(e));
+      setNotice("");
+    }
+  };
+
+  const buttonClass = `px-3 py-1.5 text-xs font-medium rounded-full text-blue-400 bg-gray-900 border border-blue-600 hover:bg-gray-700 transition-all`;
+  const fieldClass = `p-2 border ${BORDER_COLOR} rounded-lg text-sm focus:ring-blue-500 focus:border-blue-500 ${INPUT_BG_COLOR} text-white`;
+  const inputClass = `w-24 ${fieldClass}`;
+  const labelClass = `flex items-center gap-3 ${LIGHT_TEXT_COLOR}`;
+
+  return (
+    <div className="mt-4 text-sm">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className={`${LIGHT_TEXT_COLOR} mr-1`}>Generator:</span>
+        <button onClick={() => setOpen(!open)} className={buttonClass}>
+          🎲 Random Workload
+        </button>
+        {notice && <span className="text-green-400 text-xs">{notice}</span>}
+      </div>
+
+      {open && (
+        <div className={`mt-4 p-4 border ${BORDER_COLOR} rounded-lg flex flex-wrap items-center gap-6`}>
+          <label className={labelClass}>
+            Processes
+            <input type="number" min="1" max={MAX_GENERATED} value={count} onChange={numeric(setCount)} className={inputClass} />
+          </label>
+          <label className={labelClass}>
+            Arrivals
+            <select value={arrival} onChange={(e) => setArrival(e.target.value as ArrivalDistribution)} className={fieldClass}>
+              {Object.entries(ARRIVALS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </label>
+          <label className={labelClass} title="Average time between two arrivals">
+            Mean Gap
+            <input type="number" min="0" value={meanGap} onChange={numeric(setMeanGap)} className={inputClass} />
+          </label>
+          <label className={labelClass}>
+            Bursts
+            <select value={burst} onChange={(e) => setBurst(e.target.value as BurstDistribution)} className={fieldClass}>
+              {Object.entries(BURSTS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </label>
+          <label className={labelClass}>
+            Mean Burst
+            <input type="number" min="1" value={meanBurst} onChange={numeric(setMeanBurst)} className={inputClass} />
+          </label>
+          <label className={labelClass} title="Share the seed and settings to regenerate this exact workload">
+            Seed
+            <input type="number" min="0" value={seed} onChange={numeric(setSeed)} className={`${inputClass} font-mono`} />
+          </label>
+          <button onClick={() => setSeed(Math.floor(Math.random() * 1_000_000))} className={buttonClass} title="Pick a random seed">
+            🔀 New Seed
+          </button>
+          <button onClick={generate} className={`${buttonClass} ml-auto`}>
+            Generate
+          </button>
+
+          {error && <p className="w-full text-red-300" role="alert">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
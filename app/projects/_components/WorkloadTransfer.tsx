@@ -0,0 +1,123 @@
+import React, { useRef, useState } from "react";
+import type { ProcessResult } from "@/lib/scheduling";
+import type { ParseOptions, Process } from "./ProcessTable";
+import { BORDER_COLOR, INPUT_BG_COLOR, LIGHT_TEXT_COLOR } from "./theme";
+import { downloadText, exportResults, exportWorkload, importWorkload, type FileFormat } from "./workloadFile";
+
+// Only the first few row errors are listed; the rest are counted
+const MAX_LISTED_ERRORS = 8;
+
+interface WorkloadTransferProps {
+  processes: Process[];
+  /** Called with the rows of a successfully imported workload. */
+  onImport: (rows: Process[]) => void;
+  /** Validation rules for imported rows, as used by the Calculate button. */
+  parseOptions?: ParseOptions;
+  /** Computed metrics; when given, they can be exported too. */
+  results?: ProcessResult[];
+  /** Base name of downloaded files, e.g. "fcfs". */
+  filePrefix: string;
+}
+
+/**
+ * Import (file or paste) and export of the input table as CSV or JSON, plus export of
+ * computed metrics.
+ */
+export default function WorkloadTransfer({ processes, onImport, parseOptions, results, filePrefix }: WorkloadTransferProps) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [pasting, setPasting] = useState(false);
+  const [pasted, setPasted] = useState("");
+  const [errors, setErrors] = useState<string[]>([]);
+  const [notice, setNotice] = useState("");
+
+  const load = (text: string) => {
+    const imported = importWorkload(text, parseOptions);
+    if ("errors" in imported) {
+      setErrors(imported.errors);
+      setNotice("");
+      return;
+    }
+    setErrors([]);
+    setNotice(`Imported ${imported.processes.length} processes.`);
+    setPasting(false);
+    setPasted("");
+    onImport(imported.processes);
+  };
+
+  const readFile = async (file: File | undefined) => {
+    if (!file) return;
+    load(await file.text());
+    // Allow picking the same file again after fixing it
+    if (fileInput.current) fileInput.current.value = "";
+  };
+
+  const exportInput = (format: FileFormat) => downloadText(`${filePrefix}-workload`, exportWorkload(processes, format), format);
+  const exportMetrics = (format: FileFormat) => downloadText(`${filePrefix}-results`, exportResults(results!, format), format);
+
+  const buttonClass = `px-3 py-1.5 text-xs font-medium rounded-full text-blue-400 bg-gray-900 border border-blue-600 hover:bg-gray-700 transition-all`;
+
+  return (
+    <div className={`mt-6 pt-4 border-t ${BORDER_COLOR} text-sm`}>
+      <div className="flex flex-wrap items-center gap-3">
+        <span className={`${LIGHT_TEXT_COLOR} mr-1`}>Workload:</span>
+        <button onClick={() => fileInput.current?.click()} className={buttonClass}>
+          📂 Import File
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          className="hidden"
+          onChange={(e) => readFile(e.target.files?.[0])}
+        />
+        <button onClick={() => setPasting(!pasting)} className={buttonClass}>
+          📋 Paste
+        </button>
+        <button onClick={() => exportInput("csv")} className={buttonClass}>
+          ⬇ Input CSV
+        </button>
+        <button onClick={() => exportInput("json")} className={buttonClass}>
+          ⬇ Input JSON
+        </button>
+        {results && (
+          <>
+            <button onClick={() => exportMetrics("csv")} className={buttonClass}>
+              ⬇ Results CSV
+            </button>
+            <button onClick={() => exportMetrics("json")} className={buttonClass}>
+              ⬇ Results JSON
+            </button>
+          </>
+        )}
+        {notice && <span className="text-green-400 text-xs">{notice}</span>}
+      </div>
+
+      {pasting && (
+        <div className="mt-4">
+          <textarea
+            value={pasted}
+            onChange={(e) => setPasted(e.target.value)}
+            rows={6}
+            placeholder={"pid,arrival,burst\nP1,0,5\nP2,1,3\n\nor JSON: [{ \"pid\": \"P1\", \"arrival\": 0, \"burst\": 5 }]"}
+            className={`w-full p-3 border ${BORDER_COLOR} rounded-lg font-mono text-xs focus:ring-blue-500 focus:border-blue-500 ${INPUT_BG_COLOR} text-white`}
+          />
+          <button onClick={() => load(pasted)} disabled={pasted.trim() === ""} className={`${buttonClass} mt-2 disabled:opacity-40`}>
+            Load Pasted Workload
+          </button>
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <div className="mt-4 p-4 bg-red-900/50 border border-red-700 text-red-300 rounded-lg" role="alert">
+          <p className="font-semibold">Import Error:</p>
+          <ul className="list-disc list-inside">
+            {errors.slice(0, MAX_LISTED_ERRORS).map((message) => (
+              <li key={message}>{message}</li>
+            ))}
+          </ul>
+          {errors.length > MAX_LISTED_ERRORS && <p className="mt-1">…and {errors.length - MAX_LISTED_ERRORS} more.</p>}
+        </div>
+      )}
+    </div>
+  );
+}
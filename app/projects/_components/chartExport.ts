@@ -0,0 +1,39 @@
+import { downloadBlob } from "./download";
+
+// Pixel density of exported PNGs, so they stay sharp when scaled into documents
+const PNG_SCALE = 2;
+
+/**
+ * Saves SVG markup as an .svg file.
+ */
+export function downloadSvg(filename: string, svg: string) {
+  downloadBlob(`${filename}.svg`, new Blob([svg], { type: "image/svg+xml" }));
+}
+
+/**
+ * Rasterizes SVG markup on a canvas and saves it as a .png file at twice its size.
+ */
+export async function downloadPng(filename: string, svg: string) {
+  const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml" }));
+  try {
+    const image = new Image();
+    await new Promise((resolve, reject) => {
+      image.onload = resolve;
+      image.onerror = () => reject(new Error("The chart image could not be rendered."));
+      image.src = url;
+    });
+
+    const canvas = document.createElement("canvas");
+    canvas.width = image.width * PNG_SCALE;
+    canvas.height = image.height * PNG_SCALE;
+    const context = canvas.getContext("2d")!;
+    context.scale(PNG_SCALE, PNG_SCALE);
+    context.drawImage(image, 0, 0);
+
+    const png = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/png"));
+    if (!png) throw new Error("The chart is too large to save as a PNG.");
+    downloadBlob(`${filename}.png`, png);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
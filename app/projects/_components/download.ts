@@ -0,0 +1,12 @@
+/**
+ * Saves a blob through the browser's download mechanism.
+ * @param filename Name to save under, including its extension.
+ */
+export function downloadBlob(filename: string, blob: Blob) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
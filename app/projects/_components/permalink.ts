@@ -0,0 +1,155 @@
+import { DEFAULT_QUANTUM, MAX_CORES, MAX_QUEUES, PROCESS_COLOR_NAMES, type ProcessColor } from "@/lib/scheduling";
+import { DEFAULT_PROCESS_DATA, type Process } from "./ProcessTable";
+import { DEFAULT_MLFQ_INPUT, type MlfqInput, type QueueRow } from "./QueueConfig";
+
+/** Everything on the simulator's input card. */
+export interface SimulatorInput {
+  processes: Process[];
+  quantum: number | "";
+  preemptive: boolean;
+  withIo: boolean;
+  /** Show the Priority column for an algorithm that ignores priorities. */
+  withPriority: boolean;
+  cores: number;
+  contextSwitch: number | "";
+  mlfq: MlfqInput;
+  /** Practice mode: the student works out the results before seeing them. */
+  practice: boolean;
+}
+
+export const DEFAULT_INPUT: Omit<SimulatorInput, "processes"> = {
+  quantum: DEFAULT_QUANTUM,
+  preemptive: false,
+  withIo: false,
+  withPriority: false,
+  cores: 1,
+  contextSwitch: 0,
+  mlfq: DEFAULT_MLFQ_INPUT,
+  practice: false,
+};
+
+/**
+ * Copies the input card down to its rows and queues, so a record of it (e.g. the input of
+ * the last run) is unaffected by later edits.
+ */
+export function copyInput(input: SimulatorInput): SimulatorInput {
+  return {
+    ...input,
+    processes: input.processes.map((p) => ({ ...p })),
+    mlfq: { ...input.mlfq, queues: input.mlfq.queues.map((q) => ({ ...q })) },
+  };
+}
+
+/** Query parameters as Next.js passes them to a page. */
+export type QueryParams = Record<string, string | string[] | undefined>;
+
+/** Props Next.js passes to a simulator route's page. */
+export interface SimulatorPageProps {
+  searchParams: Promise<QueryParams>;
+}
+
+// Fields of one process inside the `w` parameter, separated by ":"
+const FIELDS = ["pid", "arrival", "burst", "priority", "io", "affinity", "color"] as const;
+
+// Keep the separators readable in the address bar; everything else is percent-encoded
+const encodeValue = (value: string) =>
+  encodeURIComponent(value).replace(/%2C/g, ",").replace(/%3A/g, ":");
+
+const toNumber = (value: string | undefined): number | "" => (value && /^\d+$/.test(value) ? parseInt(value) : "");
+
+// MLFQ queues inside the `mq` parameter, e.g. "2-4-f": RR time slices, "f" for FCFS
+const encodeQueues = (mlfq: MlfqInput) => mlfq.queues.map((q) => (q.policy === "fcfs" ? "f" : String(q.quantum))).join("-");
+
+/**
+ * Encodes the input card as a compact query string, e.g. `w=P1:0:8,P2:1:4&q=4`.
+ * Rows without arrival and burst are left out, as are options at their defaults.
+ * @returns The query string without the leading "?".
+ */
+export function encodePermalink(input: SimulatorInput): string {
+  const workload = input.processes
+    .filter((p) => p.arrival !== "" && p.burst !== "")
+    .map((p) => {
+      const fields = FIELDS.map((field) =>
+        field === "pid" ? encodeURIComponent(p.pid)
+        : field === "io" ? p.io.trim().split(/[\s,]+/).filter(Boolean).join("-")
+        : String(p[field])
+      );
+      // Trailing blank fields are implied
+      while (fields.at(-1) === "") fields.pop();
+      return fields.join(":");
+    })
+    .join(",");
+
+  const params: [string, string][] = [["w", workload]];
+  if (input.quantum !== DEFAULT_INPUT.quantum) params.push(["q", String(input.quantum)]);
+  if (input.preemptive) params.push(["pre", "1"]);
+  if (input.withIo) params.push(["io", "1"]);
+  if (input.withPriority) params.push(["pr", "1"]);
+  if (input.cores !== DEFAULT_INPUT.cores) params.push(["c", String(input.cores)]);
+  if (input.contextSwitch !== DEFAULT_INPUT.contextSwitch) params.push(["cs", String(input.contextSwitch)]);
+  const { mlfq } = input;
+  if (encodeQueues(mlfq) !== encodeQueues(DEFAULT_INPUT.mlfq)) params.push(["mq", encodeQueues(mlfq)]);
+  if (mlfq.demoteAfter !== DEFAULT_INPUT.mlfq.demoteAfter) params.push(["md", String(mlfq.demoteAfter)]);
+  if (mlfq.boostInterval !== "") params.push(["mb", String(mlfq.boostInterval)]);
+  if (mlfq.agingThreshold !== "") params.push(["ma", String(mlfq.agingThreshold)]);
+  if (input.practice) params.push(["pm", "1"]);
+
+  return params.map(([key, value]) => `${key}=${encodeValue(value)}`).join("&");
+}
+
+/**
+ * Restores the input card from a permalink's query parameters.
+ * Malformed numbers become blank cells so the usual validation reports them.
+ * @returns The restored input, or null when the URL carries no workload.
+ */
+export function decodePermalink(query: QueryParams): SimulatorInput | null {
+  const param = (key: string) => {
+    const value = query[key];
+    return Array.isArray(value) ? value[0] : value;
+  };
+
+  const workload = param("w");
+  if (!workload) return null;
+
+  const processes = workload.split(",").map((entry, i): Process => {
+    const [pid, arrival, burst, priority, io, affinity, color] = entry.split(":");
+    let name = pid;
+    try {
+      name = decodeURIComponent(pid);
+    } catch {
+      // Keep the raw text when the PID is not valid percent-encoding
+    }
+    return {
+      ...DEFAULT_PROCESS_DATA,
+      pid: name || `P${i + 1}`,
+      arrival: toNumber(arrival),
+      burst: toNumber(burst),
+      priority: toNumber(priority),
+      io: (io ?? "").split("-").join(" "),
+      affinity: toNumber(affinity),
+      color: PROCESS_COLOR_NAMES.includes(color as ProcessColor) ? (color as ProcessColor) : "",
+    };
+  });
+
+  const cores = toNumber(param("c"));
+  const queues = param("mq")
+    ?.split("-")
+    .slice(0, MAX_QUEUES)
+    .map((q): QueueRow => (q === "f" ? { policy: "fcfs", quantum: "" } : { policy: "rr", quantum: toNumber(q) }));
+  return {
+    processes,
+    quantum: param("q") === undefined ? DEFAULT_INPUT.quantum : toNumber(param("q")),
+    preemptive: param("pre") === "1",
+    withIo: param("io") === "1" || processes.some((p) => p.io !== ""),
+    withPriority: param("pr") === "1" || processes.some((p) => p.priority !== ""),
+    cores: cores !== "" && cores >= 1 && cores <= MAX_CORES ? cores : DEFAULT_INPUT.cores,
+    contextSwitch: param("cs") === undefined ? DEFAULT_INPUT.contextSwitch : toNumber(param("cs")),
+    mlfq: {
+      queues: queues ?? DEFAULT_INPUT.mlfq.queues,
+      demoteAfter: param("md") === undefined ? DEFAULT_INPUT.mlfq.demoteAfter : toNumber(param("md")),
+      boostInterval: toNumber(param("mb")),
+      agingThreshold: toNumber(param("ma")),
+    },
+    practice: param("pm") === "1",
+  };
+}
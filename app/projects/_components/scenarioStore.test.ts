@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { copyInput, DEFAULT_INPUT, type SimulatorInput } from "./permalink";
+import { DEFAULT_PROCESS_DATA, updateProcess } from "./ProcessTable";
+import { currentResults } from "./scenarioStore";
+
+const INPUT: SimulatorInput = {
+  ...DEFAULT_INPUT,
+  processes: [
+    { ...DEFAULT_PROCESS_DATA, pid: "P1", arrival: 0, burst: 5 },
+    { ...DEFAULT_PROCESS_DATA, pid: "P2", arrival: 1, burst: 3 },
+  ],
+};
+const RESULTS = [
+  { pid: "P1", arrival: 0, burst: 5, completion: 5, turnaround: 5, waiting: 0, response: 0, ioTime: 0 },
+  { pid: "P2", arrival: 1, burst: 3, completion: 8, turnaround: 7, waiting: 4, response: 4, ioTime: 0 },
+];
+
+describe("currentResults", () => {
+  it("keeps the results of an unchanged input", () => {
+    expect(currentResults(copyInput(INPUT), INPUT, RESULTS)).toBe(RESULTS);
+  });
+
+  it("drops the results once a cell is edited after the run", () => {
+    const input = copyInput(INPUT);
+    const ran = copyInput(input);
+    const edited = { ...input, processes: updateProcess(input.processes, 1, "burst", "9")! };
+    expect(currentResults(ran, edited, RESULTS)).toBeUndefined();
+  });
+
+  it("is not fooled by a row changed in place", () => {
+    const input = copyInput(INPUT);
+    const ran = copyInput(input);
+    input.processes[0].arrival = 2;
+    expect(currentResults(ran, input, RESULTS)).toBeUndefined();
+  });
+
+  it("has nothing to save without a run", () => {
+    expect(currentResults(null, INPUT, RESULTS)).toBeUndefined();
+  });
+});
@@ -0,0 +1,151 @@
+import { useSyncExternalStore } from "react";
+import { ALGORITHM_IDS, type AlgorithmId, type ProcessResult } from "@/lib/scheduling";
+import { decodePermalink, encodePermalink, type SimulatorInput } from "./permalink";
+
+/** A named workload kept in the browser's scenario library. */
+export interface SavedScenario {
+  id: string;
+  name: string;
+  /** Simulator it was saved from. */
+  algorithm: AlgorithmId;
+  /** The input card, encoded like a permalink's query string. */
+  query: string;
+  /** Metrics of the run on screen when it was saved, if any. */
+  results?: ProcessResult[];
+  /** Milliseconds since the epoch. */
+  savedAt: number;
+}
+
+// Versioned so a later change of format can tell old entries apart
+const STORAGE_KEY = "os-simulator.scenarios.v1";
+
+const NO_SCENARIOS: SavedScenario[] = [];
+
+// Same-tab subscribers; other tabs are heard through the storage event
+const listeners = new Set<() => void>();
+
+// Last list read, so unchanged storage yields the same array and React skips the render
+let cache: { raw: string | null; scenarios: SavedScenario[] } = { raw: null, scenarios: NO_SCENARIOS };
+
+const isSavedScenario = (value: unknown): value is SavedScenario => {
+  const s = value as SavedScenario;
+  return (
+    typeof s === "object" && s !== null &&
+    typeof s.id === "string" &&
+    typeof s.name === "string" &&
+    ALGORITHM_IDS.includes(s.algorithm) &&
+    typeof s.query === "string" &&
+    typeof s.savedAt === "number" &&
+    (s.results === undefined || Array.isArray(s.results))
+  );
+};
+
+/**
+ * Reads the library from localStorage. Malformed entries are dropped, and storage that is
+ * corrupt or disabled reads as an empty library.
+ */
+function readScenarios(): SavedScenario[] {
+  let raw: string | null;
+  try {
+    raw = localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return NO_SCENARIOS;
+  }
+  if (raw === cache.raw) return cache.scenarios;
+
+  let parsed: unknown = null;
+  try {
+    parsed = raw === null ? null : JSON.parse(raw);
+  } catch {
+    // Corrupt JSON: treat as empty, and the next save starts afresh
+  }
+  cache = { raw, scenarios: Array.isArray(parsed) ? parsed.filter(isSavedScenario) : NO_SCENARIOS };
+  return cache.scenarios;
+}
+
+/**
+ * Stores the library and notifies this tab's subscribers.
+ * @returns An error message, or null on success.
+ */
+function writeScenarios(scenarios: SavedScenario[]): string | null {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(scenarios));
+  } catch {
+    return "The browser refused to store the library; its storage may be full or disabled.";
+  }
+  listeners.forEach((listener) => listener());
+  return null;
+}
+
+function subscribe(listener: () => void) {
+  const onStorage = (e: StorageEvent) => {
+    if (e.key === STORAGE_KEY) listener();
+  };
+  listeners.add(listener);
+  window.addEventListener("storage", onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", onStorage);
+  };
+}
+
+const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Restores the input card of a saved scenario.
+ * @returns The input, or null when the saved workload is empty.
+ */
+export function scenarioInput(scenario: SavedScenario): SimulatorInput | null {
+  return decodePermalink(Object.fromEntries(new URLSearchParams(scenario.query)));
+}
+
+/**
+ * Results of the last run, as long as they still belong to the input card; after an edit
+ * they would be saved alongside a workload they were not computed for.
+ * @param ran Input of the last run.
+ */
+export function currentResults(ran: SimulatorInput | null, input: SimulatorInput, results?: ProcessResult[]) {
+  return ran && results && encodePermalink(ran) === encodePermalink(input) ? results : undefined;
+}
+
+/**
+ * The saved scenario library, kept in localStorage and in sync across tabs.
+ * Every change returns an error message, or null once it is stored.
+ */
+export function useScenarioLibrary() {
+  // The server has no storage, so the page first renders with an empty library
+  const scenarios = useSyncExternalStore(subscribe, readScenarios, () => NO_SCENARIOS);
+
+  /** Saves the input card under a name, replacing any scenario already called that. */
+  const save = (name: string, algorithm: AlgorithmId, input: SimulatorInput, results?: ProcessResult[]) => {
+    const scenario: SavedScenario = {
+      id: newId(),
+      name,
+      algorithm,
+      query: encodePermalink(input),
+      ...(results && { results }),
+      savedAt: Date.now(),
+    };
+    const current = readScenarios();
+    const existing = current.findIndex((s) => s.name === name);
+    return writeScenarios(
+      existing === -1 ? [...current, scenario] : current.map((s, i) => (i === existing ? { ...scenario, id: s.id } : s))
+    );
+  };
+
+  const rename = (id: string, name: string) =>
+    writeScenarios(readScenarios().map((s) => (s.id === id ? { ...s, name } : s)));
+
+  /** Copies a scenario to just below it, as "<name> (copy)". */
+  const duplicate = (id: string) => {
+    const current = readScenarios();
+    const i = current.findIndex((s) => s.id === id);
+    if (i === -1) return null;
+    const copy = { ...current[i], id: newId(), name: `${current[i].name} (copy)`, savedAt: Date.now() };
+    return writeScenarios([...current.slice(0, i + 1), copy, ...current.slice(i + 1)]);
+  };
+
+  const remove = (id: string) => writeScenarios(readScenarios().filter((s) => s.id !== id));
+
+  return { scenarios, save, rename, duplicate, remove };
+}
@@ -0,0 +1,22 @@
+// --- THEME CONFIGURATION (Dark / Blacky Light Theme) ---
+// Shared by every OS simulator under app/projects.
+
+// Base Theme
+export const BACKGROUND_COLOR = "bg-gray-950"; // Very Dark Gray/Off-Black (Main Background)
+export const CARD_BG_COLOR = "bg-gray-800";     // Dark Gray (Card/Section Background)
+export const INPUT_BG_COLOR = "bg-gray-900";    // Slightly darker for inputs/fields
+export const TEXT_COLOR = "text-gray-100";      // Light Gray (General text color)
+export const LIGHT_TEXT_COLOR = "text-gray-400"; // Muted text for descriptions/labels
+export const BORDER_COLOR = "border-gray-700";   // Subtle border color
+export const DIVIDER_COLOR = "border-gray-700"; // For hr and table dividers
+
+// Primary Accent: Calm Blue
+export const PRIMARY_BLUE_CLASS = "text-blue-400";
+export const PRIMARY_BG_BLUE = "bg-blue-600";
+export const PRIMARY_HOVER_BLUE_BG = "hover:bg-blue-500";
+export const PRIMARY_SHADOW = "shadow-lg shadow-black/50"; // Prominent shadow for depth
+
+// Secondary Accent: Warm Orange
+export const SECONDARY_ORANGE_CLASS = "text-orange-400";
+export const SECONDARY_BG_ORANGE = "bg-orange-600";
+export const SECONDARY_HOVER_ORANGE_BG = "hover:bg-orange-500";
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { exportWorkload, importWorkload } from "./workloadFile";
+
+const affinities = (result: ReturnType<typeof importWorkload>) =>
+  "processes" in result ? result.processes.map((p) => p.affinity) : result.errors;
+
+describe("importWorkload", () => {
+  it("reads affinity as a 0-based core and cpu as 1-based, like the API", () => {
+    expect(affinities(importWorkload("pid,arrival,burst,affinity\nP1,0,5,0\nP2,1,3,3", { cores: 4 }))).toEqual([1, 4]);
+    expect(affinities(importWorkload("pid,arrival,burst,cpu\nP1,0,5,1\nP2,1,3,4", { cores: 4 }))).toEqual([1, 4]);
+    const json = JSON.stringify([
+      { pid: "P1", arrival: 0, burst: 5, affinity: 1 },
+      { pid: "P2", arrival: 1, burst: 3, cpu: 1 },
+    ]);
+    expect(affinities(importWorkload(json, { cores: 2 }))).toEqual([2, 1]);
+  });
+
+  it("round-trips exported affinities", () => {
+    const imported = importWorkload("pid,arrival,burst,affinity\nP1,0,5,1", { cores: 2 });
+    if (!("processes" in imported)) throw new Error(imported.errors.join("\n"));
+    for (const format of ["csv", "json"] as const) {
+      expect(affinities(importWorkload(exportWorkload(imported.processes, format), { cores: 2 }))).toEqual([2]);
+    }
+  });
+});
@@ -0,0 +1,198 @@
+import { parseCsv, PROCESS_COLOR_NAMES, toCsv, type ProcessColor, type ProcessResult } from "@/lib/scheduling";
+import { downloadBlob } from "./download";
+import { rowError, type ParseOptions, type Process } from "./ProcessTable";
+
+export type FileFormat = "csv" | "json";
+
+type Column = keyof Process;
+// Imported fields: the table's columns, plus "cpu" as the 1-based spelling of the affinity
+type Field = Column | "cpu";
+type NumericField = "arrival" | "burst" | "priority" | "affinity" | "cpu";
+
+const COLUMN_ORDER: Column[] = ["pid", "arrival", "burst", "priority", "io", "affinity", "color"];
+
+// Exported header per column; affinity is written as "cpu" because the table numbers CPUs from 1
+const exportName = (column: Column) => (column === "affinity" ? "cpu" : column);
+
+// Header spellings accepted on import (compared lowercase, without spaces or punctuation)
+const COLUMN_ALIASES: Record<string, Field> = {
+  pid: "pid",
+  process: "pid",
+  processid: "pid",
+  arrival: "arrival",
+  arrivaltime: "arrival",
+  at: "arrival",
+  burst: "burst",
+  bursttime: "burst",
+  bt: "burst",
+  priority: "priority",
+  io: "io",
+  iobursts: "io",
+  affinity: "affinity",
+  cpu: "cpu",
+  color: "color",
+  colour: "color",
+};
+
+const COLUMN_LABELS: Record<NumericField, string> = {
+  arrival: "Arrival Time",
+  burst: "Burst Time",
+  priority: "Priority",
+  affinity: "Core affinity",
+  cpu: "CPU",
+};
+
+/**
+ * Converts one imported record into a table row.
+ * @returns The row, or the problem with it.
+ */
+function toRow(record: Partial<Record<Field, unknown>>, index: number): Process | string {
+  const row: Process = {
+    pid: record.pid === undefined || String(record.pid).trim() === "" ? `P${index + 1}` : String(record.pid).trim(),
+    arrival: "",
+    burst: "",
+    priority: "",
+    io: "",
+    affinity: "",
+    color: "",
+  };
+
+  for (const field of Object.keys(COLUMN_LABELS) as NumericField[]) {
+    const value = record[field];
+    if (value === undefined || value === null || String(value).trim() === "") continue;
+    if (!/^\d+$/.test(String(value).trim())) {
+      return `${COLUMN_LABELS[field]} must be a non-negative whole number (got "${value}").`;
+    }
+    const n = parseInt(String(value));
+    // "affinity" is a 0-based core, as in the API and CLI; "cpu" already matches the table's 1-based column
+    if (field === "affinity") row.affinity = n + 1;
+    else if (field === "cpu") row.affinity = n;
+    else row[field] = n;
+  }
+
+  // JSON may list I/O bursts as numbers or as { io, cpu } pairs instead of the table's text form
+  const io = record.io;
+  if (Array.isArray(io)) {
+    row.io = io.flatMap((b) => (typeof b === "object" && b !== null ? [b.io, b.cpu] : [b])).join(" ");
+  } else if (io !== undefined && io !== null) {
+    row.io = String(io).trim();
+  }
+
+  const color = record.color === undefined || record.color === null ? "" : String(record.color).trim().toLowerCase();
+  if (color !== "") {
+    if (!PROCESS_COLOR_NAMES.includes(color as ProcessColor)) {
+      return `Color must be one of ${PROCESS_COLOR_NAMES.join(", ")} (got "${record.color}").`;
+    }
+    row.color = color as ProcessColor;
+  }
+
+  return row;
+}
+
+/**
+ * Reads a workload from CSV (with a header row) or JSON (an array of process objects).
+ * Every row is checked with the same rules as the Calculate button. A pinned core may be
+ * given as a 0-based `affinity` or a 1-based `cpu`, the same as for the API and CLI.
+ * @param text File contents or pasted text; the format is detected from the first character.
+ * @param options Rules for the optional columns, as for `parseProcesses`.
+ * @returns The table rows, or one message per invalid row (rows numbered from 1, header excluded).
+ */
+export function importWorkload(
+  text: string,
+  options: ParseOptions = {}
+): { processes: Process[] } | { errors: string[] } {
+  let records: Partial<Record<Field, unknown>>[];
+
+  if (/^\s*[[{]/.test(text)) {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      return { errors: ["The JSON could not be parsed."] };
+    }
+    // Accept a bare array or { "processes": [...] }
+    const list = Array.isArray(data) ? data : (data as { processes?: unknown })?.processes;
+    if (!Array.isArray(list) || list.some((r) => typeof r !== "object" || r === null)) {
+      return { errors: ["JSON must be an array of process objects."] };
+    }
+    records = list;
+  } else {
+    const [header, ...lines] = parseCsv(text);
+    const columns = (header ?? []).map((h) => COLUMN_ALIASES[h.toLowerCase().replace(/[^a-z]/g, "")]);
+    if (!columns.includes("arrival") || !columns.includes("burst")) {
+      return { errors: ["CSV needs a header row with at least arrival and burst columns."] };
+    }
+    records = lines.map((cells) =>
+      Object.fromEntries(columns.flatMap((column, i) => (column ? [[column, cells[i]]] : [])))
+    );
+  }
+
+  if (records.length === 0) {
+    return { errors: ["The file has no processes."] };
+  }
+
+  const errors: string[] = [];
+  const processes: Process[] = [];
+  const seen = new Set<string>();
+  records.forEach((record, i) => {
+    const row = toRow(record, i);
+    if (typeof row === "string") {
+      errors.push(`Row ${i + 1}: ${row}`);
+      return;
+    }
+    const problem = seen.has(row.pid) ? `Duplicate process ID ${row.pid}.` : rowError(row, { ...options, io: true });
+    if (problem) {
+      errors.push(`Row ${i + 1}: ${problem}`);
+      return;
+    }
+    seen.add(row.pid);
+    processes.push(row);
+  });
+
+  return errors.length > 0 ? { errors } : { processes };
+}
+
+/**
+ * Serializes the filled-in rows of the input table so they can be imported again.
+ */
+export function exportWorkload(processes: Process[], format: FileFormat): string {
+  const filled = processes.filter((p) => p.arrival !== "" && p.burst !== "");
+  const columns = COLUMN_ORDER.filter((c) => c === "arrival" || c === "burst" || c === "pid" || filled.some((p) => p[c] !== ""));
+
+  if (format === "json") {
+    const rows = filled.map((p) => Object.fromEntries(columns.filter((c) => p[c] !== "").map((c) => [exportName(c), p[c]])));
+    return JSON.stringify(rows, null, 2) + "\n";
+  }
+  return toCsv(columns.map(exportName), filled.map((p) => columns.map((c) => p[c])));
+}
+
+/**
+ * Serializes computed per-process metrics for offline grading.
+ */
+export function exportResults(results: ProcessResult[], format: FileFormat): string {
+  if (format === "json") return JSON.stringify(results, null, 2) + "\n";
+
+  const withPriority = results.some((r) => r.priority !== undefined);
+  const columns = ["pid", "arrival", "burst", ...(withPriority ? ["priority"] : []), "ioTime", "completion", "response", "turnaround", "waiting"];
+  return toCsv(
+    columns,
+    results.map((r) => [
+      r.pid,
+      r.arrival,
+      r.burst,
+      ...(withPriority ? [r.priority ?? ""] : []),
+      r.ioTime,
+      r.completion,
+      r.response,
+      r.turnaround,
+      r.waiting,
+    ])
+  );
+}
+
+/**
+ * Saves text as a file through the browser's download mechanism.
+ */
+export function downloadText(filename: string, text: string, format: FileFormat) {
+  downloadBlob(`${filename}.${format}`, new Blob([text], { type: format === "json" ? "application/json" : "text/csv" }));
+}
@@ -0,0 +1,315 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  ALGORITHMS,
+  DEFAULT_QUANTUM,
+  summarize,
+  type AlgorithmId,
+  type ScheduleMetrics,
+  type ScheduleResult,
+  type SchedulerOptions,
+} from "@/lib/scheduling";
+import AlgorithmNav from "../_components/AlgorithmNav";
+import ContextSwitchInput, { contextSwitchError } from "../_components/ContextSwitchInput";
+import GanttViewer from "../_components/GanttViewer";
+import ProcessLegend from "../_components/ProcessLegend";
+import ProcessTable, { parseProcesses, processColors, useProcessList, type Process } from "../_components/ProcessTable";
+import QuantumInput, { quantumError } from "../_components/QuantumInput";
+import WorkloadGenerator from "../_components/WorkloadGenerator";
+import WorkloadTransfer from "../_components/WorkloadTransfer";
+import {
+  BACKGROUND_COLOR,
+  BORDER_COLOR,
+  CARD_BG_COLOR,
+  DIVIDER_COLOR,
+  LIGHT_TEXT_COLOR,
+  PRIMARY_BG_BLUE,
+  PRIMARY_BLUE_CLASS,
+  PRIMARY_HOVER_BLUE_BG,
+  PRIMARY_SHADOW,
+  TEXT_COLOR,
+} from "../_components/theme";
+
+interface Variant {
+  key: string;
+  label: string;
+  algorithm: AlgorithmId;
+  options?: SchedulerOptions;
+}
+
+// Every algorithm is run once (MLFQ with its default queues); Priority is run in both modes.
+const VARIANTS: Variant[] = [
+  { key: "fcfs", label: "FCFS", algorithm: "fcfs" },
+  { key: "sjf", label: "SJF", algorithm: "sjf" },
+  { key: "srtf", label: "SRTF", algorithm: "srtf" },
+  { key: "priority-np", label: "Priority (NP)", algorithm: "priority", options: { preemptive: false } },
+  { key: "priority-p", label: "Priority (P)", algorithm: "priority", options: { preemptive: true } },
+  { key: "rr", label: "Round Robin", algorithm: "rr" },
+  { key: "hrrn", label: "HRRN", algorithm: "hrrn" },
+  { key: "mlfq", label: "MLFQ", algorithm: "mlfq" },
+];
+
+interface MetricColumn {
+  key: keyof ScheduleMetrics;
+  label: string;
+  /** Whether a lower value is better. */
+  lowerIsBetter: boolean;
+  format: (value: number) => string;
+}
+
+const METRIC_COLUMNS: MetricColumn[] = [
+  { key: "avgWaiting", label: "Avg Waiting", lowerIsBetter: true, format: (v) => `${v.toFixed(2)} ms` },
+  { key: "avgTurnaround", label: "Avg Turnaround", lowerIsBetter: true, format: (v) => `${v.toFixed(2)} ms` },
+  { key: "avgResponse", label: "Avg Response", lowerIsBetter: true, format: (v) => `${v.toFixed(2)} ms` },
+  { key: "throughput", label: "Throughput", lowerIsBetter: false, format: (v) => `${v.toFixed(3)} /ms` },
+  { key: "cpuUtilization", label: "CPU Utilization", lowerIsBetter: false, format: (v) => `${v.toFixed(1)}%` },
+  { key: "contextSwitches", label: "Context Switches", lowerIsBetter: true, format: (v) => `${v}` },
+];
+
+interface Comparison {
+  variant: Variant;
+  schedule: ScheduleResult;
+  metrics: ScheduleMetrics;
+}
+
+export default function ComparisonDashboard() {
+  const [comparisons, setComparisons] = useState<Comparison[] | null>(null);
+  const [quantum, setQuantum] = useState<number | "">(DEFAULT_QUANTUM);
+  const [withIo, setWithIo] = useState(false); // Show the I/O burst column
+  const [contextSwitch, setContextSwitch] = useState<number | "">(0);
+  const [error, setError] = useState("");
+
+  const { processes, loadProcesses, updateField, addProcess, removeProcess } = useProcessList(
+    () => setError(""),
+    () => setComparisons(null)
+  );
+
+  const importRows = (rows: Process[]) => {
+    setError("");
+    loadProcesses(rows);
+    if (rows.some((p) => p.io !== "")) setWithIo(true);
+  };
+
+  const fail = (message: string) => {
+    setError(message);
+    setComparisons(null);
+  };
+
+  const compareAll = () => {
+    // Validation (blank priorities count as 0 so the table works without them)
+    const parsed = parseProcesses(processes, { priority: "default", io: withIo });
+    if ("error" in parsed) {
+      fail(parsed.error);
+      return;
+    }
+
+    const qError = quantumError(quantum);
+    if (qError) {
+      fail(qError);
+      return;
+    }
+
+    const csError = contextSwitchError(contextSwitch);
+    if (csError) {
+      fail(csError);
+      return;
+    }
+
+    try {
+      setComparisons(
+        VARIANTS.map((variant) => {
+          const schedule = ALGORITHMS[variant.algorithm].run(parsed.processes, {
+            ...variant.options,
+            quantum: quantum as number,
+            contextSwitch: contextSwitch as number,
+          });
+          return { variant, schedule, metrics: summarize(schedule) };
+        })
+      );
+      setError("");
+    } catch (e) {
+      console.error(e);
+      setError("An unexpected error occurred during calculation.");
+    }
+  };
+
+  // Shared axis so every chart uses the same time-to-pixel scale
+  const axisTime = comparisons ? Math.max(...comparisons.map((c) => c.schedule.totalTime)) : 0;
+  const timeMarkers = comparisons ? [...new Set(comparisons.flatMap((c) => c.schedule.timeMarkers))].sort((x, y) => x - y) : [];
+
+  const isBest = (column: MetricColumn, value: number) => {
+    const values = comparisons!.map((c) => c.metrics[column.key]);
+    const best = column.lowerIsBetter ? Math.min(...values) : Math.max(...values);
+    return Math.abs(value - best) < 1e-9;
+  };
+
+  return (
+    <div className={`min-h-screen p-4 md:p-8 ${BACKGROUND_COLOR} font-sans transition-colors duration-300`}>
+      <header className="mb-10 text-center">
+        <h1 className={`text-4xl font-extrabold ${PRIMARY_BLUE_CLASS} mb-2`}>
+          Scheduling Algorithm Comparison
+        </h1>
+        <p className={`text-lg ${LIGHT_TEXT_COLOR}`}>
+          One workload, every algorithm, on the same time axis
+        </p>
+        <AlgorithmNav current="compare" />
+      </header>
+
+      <main className="max-w-6xl mx-auto space-y-12">
+        {/* Input Card */}
+        <section className={`p-6 md:p-8 ${CARD_BG_COLOR} rounded-2xl shadow-xl border ${BORDER_COLOR}`}>
+          <h2 className={`text-2xl font-bold ${TEXT_COLOR} mb-6 flex items-center border-b ${DIVIDER_COLOR} pb-3`}>
+            <span className="mr-3 text-3xl text-orange-400">⚙️</span> Process Input
+          </h2>
+
+          <ProcessTable
+            processes={processes}
+            showPriority
+            showIo={withIo}
+            onUpdate={updateField}
+            onRemove={removeProcess}
+          />
+
+          <div className={`flex flex-wrap items-center gap-6 mt-6 pt-4 border-t ${DIVIDER_COLOR}`}>
+            <QuantumInput
+              quantum={quantum}
+              onChange={(q) => {
+                setError("");
+                setQuantum(q);
+                setComparisons(null);
+              }}
+            />
+            <ContextSwitchInput
+              contextSwitch={contextSwitch}
+              onChange={(cs) => {
+                setError("");
+                setContextSwitch(cs);
+                setComparisons(null);
+              }}
+            />
+            <label className={`flex items-center gap-3 text-sm ${LIGHT_TEXT_COLOR}`}>
+              <input
+                type="checkbox"
+                checked={withIo}
+                onChange={(e) => setWithIo(e.target.checked)}
+                className="h-4 w-4 accent-blue-500"
+              />
+              I/O Bursts (CPU–I/O–CPU)
+            </label>
+            <p className={`text-sm ${LIGHT_TEXT_COLOR}`}>Blank priorities count as 0 (lower number = higher priority).</p>
+          </div>
+
+          <div className="flex flex-col sm:flex-row justify-between items-center mt-6 space-y-4 sm:space-y-0">
+            <button
+              onClick={addProcess}
+              className={`px-4 py-2 text-sm font-medium rounded-full text-blue-400 bg-gray-900 border border-blue-600 hover:bg-gray-700 transition-all ${PRIMARY_SHADOW}`}
+            >
+              <span className="text-xl inline-block mr-1 align-bottom">+</span> Add Process
+            </button>
+
+            <button
+              onClick={compareAll}
+              className={`px-8 py-3 text-lg font-bold text-white rounded-full ${PRIMARY_BG_BLUE} ${PRIMARY_HOVER_BLUE_BG} transition-transform transform hover:scale-[1.02] active:scale-95 shadow-lg shadow-blue-900/50`}
+            >
+              Compare All 🚀
+            </button>
+          </div>
+
+          <WorkloadTransfer
+            processes={processes}
+            onImport={importRows}
+            parseOptions={{ priority: "default" }}
+            filePrefix="compare"
+          />
+          <WorkloadGenerator onGenerate={importRows} withPriority />
+
+          {error && (
+            <div className="mt-6 p-4 bg-red-900/50 border border-red-700 text-red-300 rounded-lg" role="alert">
+              <p className="font-semibold">Input Error:</p>
+              <p>{error}</p>
+            </div>
+          )}
+        </section>
+
+        {/* Output Card */}
+        {comparisons && (
+          <section className={`p-8 md:p-10 ${CARD_BG_COLOR} rounded-2xl shadow-xl border ${BORDER_COLOR} ${TEXT_COLOR}`}>
+            <div className={`flex items-center border-b ${DIVIDER_COLOR} pb-4 mb-8`}>
+              <h2 className={`text-3xl font-bold ${PRIMARY_BLUE_CLASS} flex items-center`}>
+                <span className="mr-3 text-4xl">📊</span> Comparison
+              </h2>
+            </div>
+
+            {/* Stacked Gantt Charts */}
+            <h3 className={`text-xl font-semibold mb-5 ${TEXT_COLOR} flex items-center`}>
+              <span className={`text-2xl mr-3 ${PRIMARY_BLUE_CLASS}`}>⏱️</span> Gantt Charts
+            </h3>
+
+            <div className={`p-5 mb-10 border ${BORDER_COLOR} rounded-lg bg-gray-900 overflow-x-auto shadow-inner shadow-black/20`}>
+              <GanttViewer
+                lanes={comparisons.map(({ variant, schedule }) => ({ label: variant.label, blocks: schedule.ganttBlocks }))}
+                timeMarkers={timeMarkers}
+                totalTime={axisTime}
+                colors={processColors(processes)}
+              />
+              <ProcessLegend
+                pids={comparisons[0].schedule.results.map((r) => r.pid)}
+                lanes={comparisons.map(({ schedule }) => schedule.ganttBlocks)}
+                colors={processColors(processes)}
+              />
+            </div>
+
+            <hr className={`${DIVIDER_COLOR} my-8`} />
+
+            {/* Summary Table */}
+            <h3 className={`text-xl font-semibold mb-5 ${TEXT_COLOR} flex items-center`}>
+              <span className={`text-2xl mr-3 ${PRIMARY_BLUE_CLASS}`}>📋</span> Summary
+            </h3>
+
+            <div className={`overflow-x-auto rounded-lg border ${BORDER_COLOR} shadow-sm`}>
+              <table className="min-w-full border-collapse rounded-lg overflow-hidden text-sm">
+                <thead>
+                  <tr className={`bg-gray-700 border-b ${DIVIDER_COLOR}`}>
+                    <th className={`px-4 py-3 border-r ${DIVIDER_COLOR} ${TEXT_COLOR}`}>Algorithm</th>
+                    {METRIC_COLUMNS.map((column) => (
+                      <th key={column.key} className={`px-4 py-3 border-r ${DIVIDER_COLOR} ${TEXT_COLOR}`}>
+                        {column.label} {column.lowerIsBetter ? "↓" : "↑"}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+
+                <tbody>
+                  {comparisons.map(({ variant, metrics }) => (
+                    <tr key={variant.key} className={`bg-gray-800 border-t ${DIVIDER_COLOR} hover:bg-gray-700 transition-colors`}>
+                      <td className={`p-3 border-r ${DIVIDER_COLOR} text-center font-semibold ${PRIMARY_BLUE_CLASS}`}>
+                        {variant.label}
+                      </td>
+                      {METRIC_COLUMNS.map((column) => (
+                        <td
+                          key={column.key}
+                          className={`p-3 border-r ${DIVIDER_COLOR} text-center font-mono ${
+                            isBest(column, metrics[column.key])
+                              ? "bg-green-900/40 text-green-400 font-bold"
+                              : TEXT_COLOR
+                          }`}
+                        >
+                          {column.format(metrics[column.key])}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <p className={`mt-4 ${LIGHT_TEXT_COLOR} italic text-sm`}>
+              Best value in each column is highlighted. Round Robin uses q = {quantum}.
+            </p>
+          </section>
+        )}
+      </main>
+    </div>
+  );
+}
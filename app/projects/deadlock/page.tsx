@@ -0,0 +1,390 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  checkSafety,
+  computeNeed,
+  detectDeadlock,
+  processName,
+  requestResources,
+  resourceName,
+  type DetectionResult,
+  type RequestOutcome,
+  type ResourceState,
+  type SafetyResult,
+  type SafetyStep,
+} from "@/lib/deadlock";
+import ResourceGraph from "../_components/ResourceGraph";
+import ResourceTable, { parseResourceTable, useResourceTable, type Cell, type ResourceTableData } from "../_components/ResourceTable";
+import {
+  BACKGROUND_COLOR,
+  BORDER_COLOR,
+  CARD_BG_COLOR,
+  DIVIDER_COLOR,
+  INPUT_BG_COLOR,
+  LIGHT_TEXT_COLOR,
+  PRIMARY_BG_BLUE,
+  PRIMARY_BLUE_CLASS,
+  PRIMARY_HOVER_BLUE_BG,
+  PRIMARY_SHADOW,
+  TEXT_COLOR,
+} from "../_components/theme";
+
+const fromMatrices = (allocation: number[][], max: number[][], request: number[][], available: number[]): ResourceTableData => ({
+  rows: allocation.map((row, i) => ({ allocation: row, max: max[i], request: request[i] })),
+  available,
+});
+
+// Silberschatz, Operating System Concepts: the Banker's example (safe, sequence exists) and
+// the detection example after P2 asks for one more C (P1–P4 deadlocked)
+const BANKER_EXAMPLE = fromMatrices(
+  [[0, 1, 0], [2, 0, 0], [3, 0, 2], [2, 1, 1], [0, 0, 2]],
+  [[7, 5, 3], [3, 2, 2], [9, 0, 2], [2, 2, 2], [4, 3, 3]],
+  [[0, 0, 0], [0, 0, 0], [0, 0, 0], [0, 0, 0], [0, 0, 0]],
+  [3, 3, 2]
+);
+const DEADLOCK_EXAMPLE = fromMatrices(
+  [[0, 1, 0], [2, 0, 0], [3, 0, 3], [2, 1, 1], [0, 0, 2]],
+  [[0, 1, 0], [4, 0, 2], [3, 0, 4], [3, 1, 1], [0, 0, 4]],
+  [[0, 0, 0], [2, 0, 2], [0, 0, 1], [1, 0, 0], [0, 0, 2]],
+  [0, 0, 0]
+);
+
+interface Analysis {
+  state: ResourceState;
+  request: number[][];
+  need: number[][];
+  safety: SafetyResult;
+  detection: DetectionResult;
+}
+
+const analyze = (state: ResourceState, request: number[][]): Analysis => ({
+  state,
+  request,
+  need: computeNeed(state),
+  safety: checkSafety(state),
+  detection: detectDeadlock(state.allocation, request, state.available),
+});
+
+const vector = (values: number[]) => values.join(" ");
+const sequence = (processes: number[]) => `⟨${processes.map(processName).join(", ")}⟩`;
+
+interface SafetyStepsProps {
+  steps: SafetyStep[];
+  allocation: number[][];
+  /** Header for the demand column, e.g. "Need". */
+  demandLabel: string;
+}
+
+/**
+ * Every check made while looking for a finishing order, with Work before and after.
+ */
+function SafetySteps({ steps, allocation, demandLabel }: SafetyStepsProps) {
+  return (
+    <div className={`overflow-x-auto rounded-lg border ${BORDER_COLOR} shadow-sm`}>
+      <table className="min-w-full border-collapse rounded-lg overflow-hidden text-sm">
+        <thead>
+          <tr className={`bg-gray-700 border-b ${DIVIDER_COLOR}`}>
+            {["Check", "Process", "Work", `${demandLabel} ≤ Work?`, "Work After"].map((label) => (
+              <th key={label} className={`px-4 py-3 border-r ${DIVIDER_COLOR} ${TEXT_COLOR}`}>{label}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {steps.map((step, n) => (
+            <tr key={n} className={`bg-gray-800 border-t ${DIVIDER_COLOR} hover:bg-gray-700 transition-colors`}>
+              <td className={`p-3 border-r ${DIVIDER_COLOR} text-center`}>{n + 1}</td>
+              <td className={`p-3 border-r ${DIVIDER_COLOR} text-center font-semibold ${PRIMARY_BLUE_CLASS}`}>{processName(step.process)}</td>
+              <td className={`p-3 border-r ${DIVIDER_COLOR} text-center font-mono`}>{vector(step.work)}</td>
+              <td
+                className={`p-3 border-r ${DIVIDER_COLOR} text-center font-mono ${
+                  step.canFinish ? "bg-green-900/40 text-green-400 font-bold" : "text-red-300"
+                }`}
+              >
+                {vector(step.demand)} {step.canFinish ? "✓" : "✗"}
+              </td>
+              <td className={`p-3 text-center font-mono ${step.canFinish ? TEXT_COLOR : LIGHT_TEXT_COLOR}`}>
+                {step.canFinish ? vector(step.work.map((free, j) => free + allocation[step.process][j])) : "—"}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function DeadlockWorkbench() {
+  const [analysis, setAnalysis] = useState<Analysis | null>(null);
+  const [error, setError] = useState("");
+  const [requester, setRequester] = useState(0);
+  const [requestCells, setRequestCells] = useState<Cell[]>([]);
+  const [outcome, setOutcome] = useState<RequestOutcome | null>(null);
+
+  const clearResults = () => {
+    setAnalysis(null);
+    setOutcome(null);
+  };
+
+  const { table, types, loadTable, updateCell, updateAvailable, addProcess, removeProcess, addResource, removeResource } =
+    useResourceTable(
+      () => {
+        setError("");
+        clearResults();
+      },
+      clearResults,
+      BANKER_EXAMPLE
+    );
+
+  const loadExample = (data: ResourceTableData) => {
+    setError("");
+    setRequester(0);
+    setRequestCells([]);
+    loadTable(data);
+  };
+
+  const calculate = () => {
+    const parsed = parseResourceTable(table);
+    if ("error" in parsed) {
+      setError(parsed.error);
+      clearResults();
+      return;
+    }
+    setAnalysis(analyze(parsed.state, parsed.request));
+    setOutcome(null);
+    setError("");
+  };
+
+  // The request form keeps one cell per resource type, even after columns change
+  const requestVector = Array.from({ length: types }, (_, j) => requestCells[j] ?? "");
+  const process = Math.min(requester, table.rows.length - 1);
+
+  const testRequest = () => {
+    if (!analysis) return;
+    setOutcome(requestResources(analysis.state, process, requestVector.map((c) => (c === "" ? 0 : c))));
+  };
+
+  const applyGrant = () => {
+    if (!analysis || !outcome?.granted || !outcome.state) return;
+    const { allocation, max, available } = outcome.state;
+    loadTable(fromMatrices(allocation, max, analysis.request, available));
+    setAnalysis(analyze(outcome.state, analysis.request));
+  };
+
+  const buttonClass = `px-4 py-2 text-sm font-medium rounded-full text-blue-400 bg-gray-900 border border-blue-600 hover:bg-gray-700 transition-all ${PRIMARY_SHADOW}`;
+  const verdictClass = (good: boolean) =>
+    `p-4 rounded-lg border font-semibold ${good ? "bg-green-900/40 border-green-700 text-green-400" : "bg-red-900/50 border-red-700 text-red-300"}`;
+
+  return (
+    <div className={`min-h-screen p-4 md:p-8 ${BACKGROUND_COLOR} font-sans transition-colors duration-300`}>
+      <header className="mb-10 text-center">
+        <h1 className={`text-4xl font-extrabold ${PRIMARY_BLUE_CLASS} mb-2`}>
+          Banker&apos;s Algorithm &amp; Deadlock Workbench
+        </h1>
+        <p className={`text-lg ${LIGHT_TEXT_COLOR}`}>
+          Safety checks, resource requests and deadlock detection on one resource table
+        </p>
+      </header>
+
+      <main className="max-w-6xl mx-auto space-y-12">
+        {/* Input Card */}
+        <section className={`p-6 md:p-8 ${CARD_BG_COLOR} rounded-2xl shadow-xl border ${BORDER_COLOR}`}>
+          <h2 className={`text-2xl font-bold ${TEXT_COLOR} mb-6 flex items-center border-b ${DIVIDER_COLOR} pb-3`}>
+            <span className="mr-3 text-3xl text-orange-400">⚙️</span> Resource Table
+          </h2>
+
+          <ResourceTable table={table} onUpdate={updateCell} onUpdateAvailable={updateAvailable} onRemove={removeProcess} />
+
+          <p className={`mt-4 text-sm ${LIGHT_TEXT_COLOR}`}>
+            Blank cells count as 0. Max is used by the Banker&apos;s algorithm, Waiting For by deadlock detection.
+          </p>
+
+          <div className="flex flex-col sm:flex-row justify-between items-center mt-6 space-y-4 sm:space-y-0">
+            <div className="flex flex-wrap gap-3">
+              <button onClick={addProcess} className={buttonClass}>
+                <span className="text-xl inline-block mr-1 align-bottom">+</span> Add Process
+              </button>
+              <button onClick={addResource} className={buttonClass}>
+                <span className="text-xl inline-block mr-1 align-bottom">+</span> Add Resource
+              </button>
+              {types > 1 && (
+                <button onClick={removeResource} className={buttonClass}>
+                  <span className="text-xl inline-block mr-1 align-bottom">−</span> Remove {resourceName(types - 1)}
+                </button>
+              )}
+              <button onClick={() => loadExample(BANKER_EXAMPLE)} className={buttonClass}>
+                Banker&apos;s Example
+              </button>
+              <button onClick={() => loadExample(DEADLOCK_EXAMPLE)} className={buttonClass}>
+                Deadlock Example
+              </button>
+            </div>
+
+            <button
+              onClick={calculate}
+              className={`px-8 py-3 text-lg font-bold text-white rounded-full ${PRIMARY_BG_BLUE} ${PRIMARY_HOVER_BLUE_BG} transition-transform transform hover:scale-[1.02] active:scale-95 shadow-lg shadow-blue-900/50`}
+            >
+              Analyze 🚀
+            </button>
+          </div>
+
+          {error && (
+            <div className="mt-6 p-4 bg-red-900/50 border border-red-700 text-red-300 rounded-lg" role="alert">
+              <p className="font-semibold">Input Error:</p>
+              <p>{error}</p>
+            </div>
+          )}
+        </section>
+
+        {/* Output Card */}
+        {analysis && (
+          <section className={`p-8 md:p-10 ${CARD_BG_COLOR} rounded-2xl shadow-xl border ${BORDER_COLOR} ${TEXT_COLOR}`}>
+            <div className={`flex items-center border-b ${DIVIDER_COLOR} pb-4 mb-8`}>
+              <h2 className={`text-3xl font-bold ${PRIMARY_BLUE_CLASS} flex items-center`}>
+                <span className="mr-3 text-4xl">📊</span> Analysis
+              </h2>
+            </div>
+
+            {/* Need Matrix */}
+            <h3 className={`text-xl font-semibold mb-5 ${TEXT_COLOR} flex items-center`}>
+              <span className={`text-2xl mr-3 ${PRIMARY_BLUE_CLASS}`}>🧮</span> Need = Max − Allocation
+            </h3>
+
+            <div className={`overflow-x-auto rounded-lg border ${BORDER_COLOR} shadow-sm`}>
+              <table className="min-w-full border-collapse rounded-lg overflow-hidden text-sm">
+                <thead>
+                  <tr className={`bg-gray-700 border-b ${DIVIDER_COLOR}`}>
+                    <th className={`px-4 py-3 border-r ${DIVIDER_COLOR} ${TEXT_COLOR}`}>Process</th>
+                    {analysis.state.available.map((_, j) => (
+                      <th key={j} className={`px-4 py-3 border-r ${DIVIDER_COLOR} ${TEXT_COLOR}`}>{resourceName(j)}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {analysis.need.map((row, i) => (
+                    <tr key={i} className={`bg-gray-800 border-t ${DIVIDER_COLOR} hover:bg-gray-700 transition-colors`}>
+                      <td className={`p-3 border-r ${DIVIDER_COLOR} text-center font-semibold ${PRIMARY_BLUE_CLASS}`}>{processName(i)}</td>
+                      {row.map((need, j) => (
+                        <td key={j} className={`p-3 border-r ${DIVIDER_COLOR} text-center font-mono`}>{need}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <hr className={`${DIVIDER_COLOR} my-8`} />
+
+            {/* Safety Algorithm */}
+            <h3 className={`text-xl font-semibold mb-5 ${TEXT_COLOR} flex items-center`}>
+              <span className={`text-2xl mr-3 ${PRIMARY_BLUE_CLASS}`}>🛡️</span> Safety Algorithm
+            </h3>
+
+            <div className={`mb-5 ${verdictClass(analysis.safety.safe)}`}>
+              {analysis.safety.safe
+                ? `Safe: every process can finish in the order ${sequence(analysis.safety.sequence)}.`
+                : `Unsafe: ${analysis.state.allocation
+                    .map((_, i) => i)
+                    .filter((i) => !analysis.safety.sequence.includes(i))
+                    .map(processName)
+                    .join(", ")} cannot be guaranteed to finish.`}
+            </div>
+
+            <SafetySteps steps={analysis.safety.steps} allocation={analysis.state.allocation} demandLabel="Need" />
+
+            <hr className={`${DIVIDER_COLOR} my-8`} />
+
+            {/* Resource Request */}
+            <h3 className={`text-xl font-semibold mb-5 ${TEXT_COLOR} flex items-center`}>
+              <span className={`text-2xl mr-3 ${PRIMARY_BLUE_CLASS}`}>📨</span> Resource Request
+            </h3>
+
+            <div className="flex flex-wrap items-center gap-4 text-sm">
+              <label className={`flex items-center gap-3 ${LIGHT_TEXT_COLOR}`}>
+                Process
+                <select
+                  value={process}
+                  onChange={(e) => {
+                    setRequester(parseInt(e.target.value));
+                    setOutcome(null);
+                  }}
+                  className={`p-2 border ${BORDER_COLOR} rounded-lg text-sm focus:ring-blue-500 focus:border-blue-500 ${INPUT_BG_COLOR} text-white`}
+                >
+                  {table.rows.map((_, i) => (
+                    <option key={i} value={i}>{processName(i)}</option>
+                  ))}
+                </select>
+              </label>
+              <span className={LIGHT_TEXT_COLOR}>asks for</span>
+              {requestVector.map((cell, j) => (
+                <label key={j} className={`flex items-center gap-2 ${LIGHT_TEXT_COLOR}`}>
+                  {resourceName(j)}
+                  <input
+                    type="number"
+                    min="0"
+                    value={cell}
+                    placeholder="0"
+                    onChange={(e) => {
+                      // Ensure only non-negative integers are entered
+                      if (!/^\d*$/.test(e.target.value)) return;
+                      setRequestCells(requestVector.map((c, t) => (t === j ? (e.target.value === "" ? "" : parseInt(e.target.value)) : c)));
+                      setOutcome(null);
+                    }}
+                    className={`w-16 p-2 border ${BORDER_COLOR} rounded-lg text-sm text-center focus:ring-blue-500 focus:border-blue-500 ${INPUT_BG_COLOR} text-white`}
+                  />
+                </label>
+              ))}
+              <button onClick={testRequest} className={buttonClass}>
+                Test Request
+              </button>
+            </div>
+
+            {outcome && (
+              <div className="mt-5 space-y-5">
+                <div className={`flex flex-wrap items-center justify-between gap-4 ${verdictClass(outcome.granted)}`}>
+                  <span>{outcome.message}</span>
+                  {outcome.granted && (
+                    <button onClick={applyGrant} className={buttonClass}>
+                      Apply to Table
+                    </button>
+                  )}
+                </div>
+                {outcome.safety && (
+                  <SafetySteps steps={outcome.safety.steps} allocation={outcome.state!.allocation} demandLabel="Need" />
+                )}
+              </div>
+            )}
+
+            <hr className={`${DIVIDER_COLOR} my-8`} />
+
+            {/* Deadlock Detection */}
+            <h3 className={`text-xl font-semibold mb-5 ${TEXT_COLOR} flex items-center`}>
+              <span className={`text-2xl mr-3 ${PRIMARY_BLUE_CLASS}`}>🔗</span> Deadlock Detection
+            </h3>
+
+            <div className={`mb-5 ${verdictClass(analysis.detection.deadlocked.length === 0)}`}>
+              {analysis.detection.deadlocked.length === 0
+                ? `No deadlock: the waiting processes can finish in the order ${sequence(analysis.detection.sequence)}.`
+                : `Deadlock: ${analysis.detection.deadlocked.map(processName).join(", ")} are waiting on each other and can never finish.`}
+            </div>
+
+            <div className={`p-5 mb-5 border ${BORDER_COLOR} rounded-lg bg-gray-900 shadow-inner shadow-black/20`}>
+              <ResourceGraph
+                allocation={analysis.state.allocation}
+                request={analysis.request}
+                available={analysis.state.available}
+                deadlocked={analysis.detection.deadlocked}
+              />
+            </div>
+
+            <SafetySteps steps={analysis.detection.steps} allocation={analysis.state.allocation} demandLabel="Waiting For" />
+
+            <p className={`mt-4 ${LIGHT_TEXT_COLOR} italic text-sm`}>
+              Processes holding nothing cannot be part of a deadlock and are skipped.
+            </p>
+          </section>
+        )}
+      </main>
+    </div>
+  );
+}
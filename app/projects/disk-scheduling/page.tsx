@@ -0,0 +1,327 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  DISK_ALGORITHM_IDS,
+  DISK_ALGORITHMS,
+  MAX_CYLINDERS,
+  scheduleDisk,
+  type DiskAlgorithmId,
+  type DiskResult,
+  type DiskSettings,
+  type HeadDirection,
+} from "@/lib/disk";
+import LineChart from "../_components/LineChart";
+import RequestTable, { parseRequests, useRequestList } from "../_components/RequestTable";
+import {
+  BACKGROUND_COLOR,
+  BORDER_COLOR,
+  CARD_BG_COLOR,
+  DIVIDER_COLOR,
+  INPUT_BG_COLOR,
+  LIGHT_TEXT_COLOR,
+  PRIMARY_BG_BLUE,
+  PRIMARY_BLUE_CLASS,
+  PRIMARY_HOVER_BLUE_BG,
+  PRIMARY_SHADOW,
+  TEXT_COLOR,
+} from "../_components/theme";
+
+// Silberschatz's example: 200 cylinders, head on 53
+const TEXTBOOK_QUEUE = [98, 183, 37, 122, 14, 124, 65, 67];
+const TEXTBOOK_HEAD = 53;
+const TEXTBOOK_CYLINDERS = 200;
+
+const DIRECTIONS: Record<HeadDirection, string> = {
+  up: "Towards higher cylinders",
+  down: "Towards lower cylinders",
+};
+
+interface Simulation {
+  settings: DiskSettings;
+  results: Record<DiskAlgorithmId, DiskResult>;
+}
+
+export default function DiskSchedulingSimulator() {
+  const [head, setHead] = useState<number | "">(TEXTBOOK_HEAD);
+  const [cylinders, setCylinders] = useState<number | "">(TEXTBOOK_CYLINDERS);
+  const [direction, setDirection] = useState<HeadDirection>("up");
+  const [selected, setSelected] = useState<DiskAlgorithmId>("fcfs");
+  const [simulation, setSimulation] = useState<Simulation | null>(null);
+  const [error, setError] = useState("");
+
+  const { requests, loadRequests, updateRequest, addRequest, removeRequest } = useRequestList(
+    () => setError(""),
+    () => setSimulation(null),
+    TEXTBOOK_QUEUE
+  );
+
+  const edit = () => {
+    setError("");
+    setSimulation(null);
+  };
+
+  // Whole numbers only, like the other numeric inputs
+  const numeric = (set: (value: number | "") => void) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!/^\d*$/.test(e.target.value)) return;
+    set(e.target.value === "" ? "" : parseInt(e.target.value));
+    edit();
+  };
+
+  const loadExample = () => {
+    loadRequests(TEXTBOOK_QUEUE);
+    setHead(TEXTBOOK_HEAD);
+    setCylinders(TEXTBOOK_CYLINDERS);
+    setDirection("up");
+    setError("");
+  };
+
+  const fail = (message: string) => {
+    setError(message);
+    setSimulation(null);
+  };
+
+  const calculate = () => {
+    if (cylinders === "" || cylinders < 1 || cylinders > MAX_CYLINDERS) {
+      fail(`Cylinder count must be between 1 and ${MAX_CYLINDERS}.`);
+      return;
+    }
+    if (head === "" || head >= cylinders) {
+      fail(`Head position must be between 0 and ${cylinders - 1}.`);
+      return;
+    }
+
+    const parsed = parseRequests(requests, cylinders);
+    if ("error" in parsed) {
+      fail(parsed.error);
+      return;
+    }
+
+    const settings: DiskSettings = { head, direction, cylinders };
+    setSimulation({
+      settings,
+      results: Object.fromEntries(
+        DISK_ALGORITHM_IDS.map((id) => [id, scheduleDisk(parsed.requests, settings, id)])
+      ) as Simulation["results"],
+    });
+    setError("");
+  };
+
+  const info = DISK_ALGORITHMS[selected];
+  const result = simulation?.results[selected];
+  const totals = simulation ? DISK_ALGORITHM_IDS.map((id) => simulation.results[id].totalSeek) : [];
+
+  // Time on the chart is the distance moved so far, as if the head moved at a constant speed
+  const pathPoints = (stops: DiskResult["stops"]) => {
+    let moved = 0;
+    return stops.map((stop) => {
+      moved += stop.distance;
+      return { x: stop.cylinder, y: moved };
+    });
+  };
+
+  const describeStop = (stop: DiskResult["stops"][number]) =>
+    stop.request !== undefined ? `R${stop.request + 1}${stop.wrap ? " (after return)" : ""}`
+    : stop.wrap ? "Return sweep"
+    : "Disk edge";
+
+  const inputClass = `w-24 p-2 border ${BORDER_COLOR} rounded-lg text-sm focus:ring-blue-500 focus:border-blue-500 transition-shadow ${INPUT_BG_COLOR} text-white`;
+  const labelClass = `flex items-center gap-3 text-sm ${LIGHT_TEXT_COLOR}`;
+
+  return (
+    <div className={`min-h-screen p-4 md:p-8 ${BACKGROUND_COLOR} font-sans transition-colors duration-300`}>
+      <header className="mb-10 text-center">
+        <h1 className={`text-4xl font-extrabold ${PRIMARY_BLUE_CLASS} mb-2`}>
+          Disk Scheduling Simulator
+        </h1>
+        <p className={`text-lg ${LIGHT_TEXT_COLOR}`}>
+          FCFS · SSTF · SCAN · C-SCAN · LOOK · C-LOOK on one request queue
+        </p>
+      </header>
+
+      <main className="max-w-6xl mx-auto space-y-12">
+        {/* Input Card */}
+        <section className={`p-6 md:p-8 ${CARD_BG_COLOR} rounded-2xl shadow-xl border ${BORDER_COLOR}`}>
+          <h2 className={`text-2xl font-bold ${TEXT_COLOR} mb-6 flex items-center border-b ${DIVIDER_COLOR} pb-3`}>
+            <span className="mr-3 text-3xl text-orange-400">⚙️</span> Request Queue
+          </h2>
+
+          <RequestTable requests={requests} onUpdate={updateRequest} onRemove={removeRequest} />
+
+          <div className={`flex flex-wrap items-center gap-6 mt-6 pt-4 border-t ${DIVIDER_COLOR}`}>
+            <label className={labelClass}>
+              Head Start
+              <input type="number" min="0" value={head} onChange={numeric(setHead)} className={inputClass} />
+            </label>
+            <label className={labelClass}>
+              Cylinders
+              <input type="number" min="1" max={MAX_CYLINDERS} value={cylinders} onChange={numeric(setCylinders)} className={inputClass} />
+            </label>
+            <label className={labelClass}>
+              Direction
+              <select
+                value={direction}
+                onChange={(e) => {
+                  setDirection(e.target.value as HeadDirection);
+                  edit();
+                }}
+                className={`p-2 border ${BORDER_COLOR} rounded-lg text-sm focus:ring-blue-500 focus:border-blue-500 ${INPUT_BG_COLOR} text-white`}
+              >
+                {Object.entries(DIRECTIONS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div className="flex flex-col sm:flex-row justify-between items-center mt-6 space-y-4 sm:space-y-0">
+            <div className="flex flex-wrap gap-3">
+              <button
+                onClick={addRequest}
+                className={`px-4 py-2 text-sm font-medium rounded-full text-blue-400 bg-gray-900 border border-blue-600 hover:bg-gray-700 transition-all ${PRIMARY_SHADOW}`}
+              >
+                <span className="text-xl inline-block mr-1 align-bottom">+</span> Add Request
+              </button>
+              <button
+                onClick={loadExample}
+                className={`px-4 py-2 text-sm font-medium rounded-full text-blue-400 bg-gray-900 border border-blue-600 hover:bg-gray-700 transition-all ${PRIMARY_SHADOW}`}
+              >
+                Textbook Example
+              </button>
+            </div>
+
+            <button
+              onClick={calculate}
+              className={`px-8 py-3 text-lg font-bold text-white rounded-full ${PRIMARY_BG_BLUE} ${PRIMARY_HOVER_BLUE_BG} transition-transform transform hover:scale-[1.02] active:scale-95 shadow-lg shadow-blue-900/50`}
+            >
+              Simulate 🚀
+            </button>
+          </div>
+
+          {error && (
+            <div className="mt-6 p-4 bg-red-900/50 border border-red-700 text-red-300 rounded-lg" role="alert">
+              <p className="font-semibold">Input Error:</p>
+              <p>{error}</p>
+            </div>
+          )}
+        </section>
+
+        {/* Output Card */}
+        {simulation && result && (
+          <section className={`p-8 md:p-10 ${CARD_BG_COLOR} rounded-2xl shadow-xl border ${BORDER_COLOR} ${TEXT_COLOR}`}>
+            <div className={`flex items-center border-b ${DIVIDER_COLOR} pb-4 mb-8`}>
+              <h2 className={`text-3xl font-bold ${PRIMARY_BLUE_CLASS} flex items-center`}>
+                <span className="mr-3 text-4xl">📊</span> Simulation Output
+              </h2>
+            </div>
+
+            {/* Head Path */}
+            <h3 className={`text-xl font-semibold mb-5 ${TEXT_COLOR} flex items-center`}>
+              <span className={`text-2xl mr-3 ${PRIMARY_BLUE_CLASS}`}>💽</span> Head Movement
+            </h3>
+
+            <div className="flex flex-wrap gap-2 mb-4">
+              {DISK_ALGORITHM_IDS.map((id) => (
+                <button
+                  key={id}
+                  onClick={() => setSelected(id)}
+                  className={`px-4 py-1.5 text-sm font-semibold rounded-full border transition-all ${
+                    id === selected ? `${PRIMARY_BG_BLUE} text-white border-blue-600` : `bg-gray-900 text-blue-400 border-blue-600 hover:bg-gray-700`
+                  }`}
+                >
+                  {DISK_ALGORITHMS[id].name}
+                </button>
+              ))}
+            </div>
+
+            <div className={`p-5 border ${BORDER_COLOR} rounded-lg bg-gray-900 shadow-inner shadow-black/20`}>
+              <LineChart
+                series={[{ label: info.name, color: "#60a5fa", points: pathPoints(result.stops) }]}
+                xLabel="Cylinder"
+                yLabel="Cylinders Moved (time ↓)"
+                flipY
+                zeroBased
+                xDomain={[0, simulation.settings.cylinders - 1]}
+              />
+            </div>
+
+            <p className={`mt-4 ${LIGHT_TEXT_COLOR} italic text-sm`}>
+              {info.title} Rule: {info.rule}. Total seek distance: {result.totalSeek} cylinders.
+            </p>
+
+            <div className={`mt-6 overflow-x-auto rounded-lg border ${BORDER_COLOR} shadow-sm`}>
+              <table className="min-w-full border-collapse rounded-lg overflow-hidden text-sm">
+                <thead>
+                  <tr className={`bg-gray-700 border-b ${DIVIDER_COLOR}`}>
+                    {["Step", "From", "To", "Serves", "Seek"].map((label) => (
+                      <th key={label} className={`px-4 py-3 border-r ${DIVIDER_COLOR} ${TEXT_COLOR}`}>{label}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.stops.slice(1).map((stop, i) => (
+                    <tr key={i} className={`bg-gray-800 border-t ${DIVIDER_COLOR} hover:bg-gray-700 transition-colors`}>
+                      <td className={`p-3 border-r ${DIVIDER_COLOR} text-center`}>{i + 1}</td>
+                      <td className={`p-3 border-r ${DIVIDER_COLOR} text-center font-mono`}>{result.stops[i].cylinder}</td>
+                      <td className={`p-3 border-r ${DIVIDER_COLOR} text-center font-mono`}>{stop.cylinder}</td>
+                      <td
+                        className={`p-3 border-r ${DIVIDER_COLOR} text-center ${
+                          stop.request !== undefined ? `font-semibold ${PRIMARY_BLUE_CLASS}` : `italic ${LIGHT_TEXT_COLOR}`
+                        }`}
+                      >
+                        {describeStop(stop)}
+                      </td>
+                      <td className="p-3 text-center font-mono">{stop.distance}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <hr className={`${DIVIDER_COLOR} my-8`} />
+
+            {/* Per-Algorithm Summary */}
+            <h3 className={`text-xl font-semibold mb-5 ${TEXT_COLOR} flex items-center`}>
+              <span className={`text-2xl mr-3 ${PRIMARY_BLUE_CLASS}`}>📋</span> Summary
+            </h3>
+
+            <div className={`overflow-x-auto rounded-lg border ${BORDER_COLOR} shadow-sm`}>
+              <table className="min-w-full border-collapse rounded-lg overflow-hidden text-sm">
+                <thead>
+                  <tr className={`bg-gray-700 border-b ${DIVIDER_COLOR}`}>
+                    <th className={`px-4 py-3 border-r ${DIVIDER_COLOR} ${TEXT_COLOR}`}>Algorithm</th>
+                    <th className={`px-4 py-3 border-r ${DIVIDER_COLOR} ${TEXT_COLOR}`}>Total Seek ↓</th>
+                    <th className={`px-4 py-3 border-r ${DIVIDER_COLOR} ${TEXT_COLOR}`}>Avg Seek per Request ↓</th>
+                    <th className={`px-4 py-3 ${TEXT_COLOR}`}>Service Order</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {DISK_ALGORITHM_IDS.map((id) => {
+                    const r = simulation.results[id];
+                    const bestClass = r.totalSeek === Math.min(...totals) ? "bg-green-900/40 text-green-400 font-bold" : TEXT_COLOR;
+                    return (
+                      <tr key={id} className={`bg-gray-800 border-t ${DIVIDER_COLOR} hover:bg-gray-700 transition-colors`}>
+                        <td className={`p-3 border-r ${DIVIDER_COLOR} text-center font-semibold ${PRIMARY_BLUE_CLASS}`}>
+                          {DISK_ALGORITHMS[id].name}
+                        </td>
+                        <td className={`p-3 border-r ${DIVIDER_COLOR} text-center font-mono ${bestClass}`}>{r.totalSeek}</td>
+                        <td className={`p-3 border-r ${DIVIDER_COLOR} text-center font-mono ${bestClass}`}>{r.averageSeek.toFixed(2)}</td>
+                        <td className={`p-3 font-mono text-xs ${LIGHT_TEXT_COLOR}`}>
+                          {r.stops.map((s) => `${s.wrap ? "⤺ " : ""}${s.cylinder}`).join(" → ")}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            <p className={`mt-4 ${LIGHT_TEXT_COLOR} italic text-sm`}>
+              Lowest total seek is highlighted. C-SCAN and C-LOOK count the return sweep (⤺) in their seek distance.
+            </p>
+          </section>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,377 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  FIT_STRATEGIES,
+  FIT_STRATEGY_IDS,
+  MAX_MEMORY,
+  simulateAllocation,
+  type AllocationResult,
+  type FitStrategy,
+  type MemoryJob,
+  type MemorySnapshot,
+} from "@/lib/memory";
+import AddressTranslator from "../_components/AddressTranslator";
+import LineChart from "../_components/LineChart";
+import MemoryBar from "../_components/MemoryBar";
+import MemoryJobTable, { parseJobs, useJobList, type JobRow } from "../_components/MemoryJobTable";
+import {
+  BACKGROUND_COLOR,
+  BORDER_COLOR,
+  CARD_BG_COLOR,
+  DIVIDER_COLOR,
+  INPUT_BG_COLOR,
+  LIGHT_TEXT_COLOR,
+  PRIMARY_BG_BLUE,
+  PRIMARY_BLUE_CLASS,
+  PRIMARY_HOVER_BLUE_BG,
+  PRIMARY_SHADOW,
+  TEXT_COLOR,
+} from "../_components/theme";
+
+type Mode = "contiguous" | "translation";
+
+const MODES: Record<Mode, string> = {
+  contiguous: "📦 Contiguous Allocation",
+  translation: "🧭 Paging & Segmentation",
+};
+
+// Line colour per strategy in the fragmentation chart
+const SERIES_COLORS: Record<FitStrategy, string> = {
+  first: "#60a5fa",
+  best: "#4ade80",
+  worst: "#fb923c",
+  next: "#c084fc",
+};
+
+// Five jobs fill 900 KB; P1 and P3 leave at t = 5, opening holes of 300, 150 and 100 KB,
+// so each strategy places P6–P8 differently and only best fit avoids a wait
+const EXAMPLE_MEMORY = 1000;
+const EXAMPLE_JOBS: JobRow[] = [
+  { pid: "P1", arrival: 0, duration: 5, size: 300 },
+  { pid: "P2", arrival: 0, duration: 20, size: 100 },
+  { pid: "P3", arrival: 0, duration: 5, size: 150 },
+  { pid: "P4", arrival: 0, duration: 20, size: 100 },
+  { pid: "P5", arrival: 0, duration: 20, size: 250 },
+  { pid: "P6", arrival: 6, duration: 10, size: 90 },
+  { pid: "P7", arrival: 7, duration: 8, size: 140 },
+  { pid: "P8", arrival: 8, duration: 6, size: 200 },
+];
+
+interface Simulation {
+  jobs: MemoryJob[];
+  memorySize: number;
+  results: Record<FitStrategy, AllocationResult>;
+}
+
+const describeSnapshot = (s: MemorySnapshot) =>
+  s.kind === "allocate" ? `${s.pid} allocated`
+  : s.kind === "release" ? `${s.pid} released`
+  : s.kind === "wait" ? `${s.pid} waits: no hole is big enough`
+  : "Memory compacted";
+
+export default function MemoryAllocationSimulator() {
+  const [mode, setMode] = useState<Mode>("contiguous");
+  const [memorySize, setMemorySize] = useState<number | "">(EXAMPLE_MEMORY);
+  const [compaction, setCompaction] = useState(false);
+  const [selected, setSelected] = useState<FitStrategy>("first");
+  const [step, setStep] = useState(0);
+  const [simulation, setSimulation] = useState<Simulation | null>(null);
+  const [error, setError] = useState("");
+
+  const { jobs, loadJobs, updateJob, addJob, removeJob } = useJobList(
+    () => setError(""),
+    () => setSimulation(null),
+    EXAMPLE_JOBS
+  );
+
+  const calculate = () => {
+    if (memorySize === "" || memorySize < 1 || memorySize > MAX_MEMORY) {
+      setError(`Memory size must be between 1 and ${MAX_MEMORY} KB.`);
+      setSimulation(null);
+      return;
+    }
+    const parsed = parseJobs(jobs, memorySize);
+    if ("error" in parsed) {
+      setError(parsed.error);
+      setSimulation(null);
+      return;
+    }
+
+    setSimulation({
+      jobs: parsed.jobs,
+      memorySize,
+      results: Object.fromEntries(
+        FIT_STRATEGY_IDS.map((id) => [id, simulateAllocation(parsed.jobs, { memorySize, strategy: id, compaction })])
+      ) as Simulation["results"],
+    });
+    setStep(0);
+    setError("");
+  };
+
+  const result = simulation?.results[selected];
+  const snapshot = result?.snapshots[Math.min(step, result.snapshots.length - 1)];
+
+  // Average time from arrival to placement, per strategy
+  const averageWait = (r: AllocationResult) => {
+    const arrival = new Map(simulation!.jobs.map((j) => [j.pid, j.arrival]));
+    return r.placements.reduce((sum, p) => sum + p.allocatedAt - arrival.get(p.pid)!, 0) / r.placements.length;
+  };
+  const peakFragmentation = (r: AllocationResult) => Math.max(0, ...r.snapshots.map((s) => s.fragmentation));
+
+  const columns = simulation
+    ? [
+        { label: "Avg Wait ↓", value: averageWait, format: (v: number) => v.toFixed(2) },
+        { label: "Peak Fragmentation ↓", value: peakFragmentation, format: (v: number) => `${(v * 100).toFixed(1)}%` },
+        { label: "Finish Time ↓", value: (r: AllocationResult) => r.endTime, format: (v: number) => `${v}` },
+        { label: "Compactions", value: (r: AllocationResult) => r.compactions, format: (v: number) => `${v}` },
+      ]
+    : [];
+
+  return (
+    <div className={`min-h-screen p-4 md:p-8 ${BACKGROUND_COLOR} font-sans transition-colors duration-300`}>
+      <header className="mb-10 text-center">
+        <h1 className={`text-4xl font-extrabold ${PRIMARY_BLUE_CLASS} mb-2`}>
+          Memory Management Simulator
+        </h1>
+        <p className={`text-lg ${LIGHT_TEXT_COLOR}`}>
+          Contiguous allocation with fragmentation and compaction, plus paging and segmentation
+        </p>
+      </header>
+
+      <main className="max-w-6xl mx-auto space-y-12">
+        <nav className="flex flex-wrap justify-center gap-3">
+          {Object.entries(MODES).map(([id, label]) => (
+            <button
+              key={id}
+              onClick={() => setMode(id as Mode)}
+              className={`px-5 py-2 text-sm font-semibold rounded-full border transition-all ${
+                id === mode ? `${PRIMARY_BG_BLUE} text-white border-blue-600` : `bg-gray-900 text-blue-400 border-blue-600 hover:bg-gray-700`
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </nav>
+
+        {mode === "translation" && (
+          <section className={`p-6 md:p-8 ${CARD_BG_COLOR} rounded-2xl shadow-xl border ${BORDER_COLOR}`}>
+            <h2 className={`text-2xl font-bold ${TEXT_COLOR} mb-6 flex items-center border-b ${DIVIDER_COLOR} pb-3`}>
+              <span className="mr-3 text-3xl text-orange-400">⚙️</span> Address Translation
+            </h2>
+            <AddressTranslator />
+          </section>
+        )}
+
+        {/* Input Card */}
+        {mode === "contiguous" && (
+          <section className={`p-6 md:p-8 ${CARD_BG_COLOR} rounded-2xl shadow-xl border ${BORDER_COLOR}`}>
+            <h2 className={`text-2xl font-bold ${TEXT_COLOR} mb-6 flex items-center border-b ${DIVIDER_COLOR} pb-3`}>
+              <span className="mr-3 text-3xl text-orange-400">⚙️</span> Job Input
+            </h2>
+
+            <MemoryJobTable jobs={jobs} onUpdate={updateJob} onRemove={removeJob} />
+
+            <div className={`flex flex-wrap items-center gap-6 mt-6 pt-4 border-t ${DIVIDER_COLOR}`}>
+              <label className={`flex items-center gap-3 text-sm ${LIGHT_TEXT_COLOR}`}>
+                Memory Size (KB)
+                <input
+                  type="number"
+                  min="1"
+                  max={MAX_MEMORY}
+                  value={memorySize}
+                  onChange={(e) => {
+                    // Ensure only non-negative integers are entered
+                    if (!/^\d*$/.test(e.target.value)) return;
+                    setMemorySize(e.target.value === "" ? "" : parseInt(e.target.value));
+                    setError("");
+                    setSimulation(null);
+                  }}
+                  className={`w-28 p-2 border ${BORDER_COLOR} rounded-lg text-sm focus:ring-blue-500 focus:border-blue-500 transition-shadow ${INPUT_BG_COLOR} text-white`}
+                />
+              </label>
+              <label className={`flex items-center gap-3 text-sm ${LIGHT_TEXT_COLOR}`}>
+                <input
+                  type="checkbox"
+                  checked={compaction}
+                  onChange={(e) => {
+                    setCompaction(e.target.checked);
+                    setSimulation(null);
+                  }}
+                  className="h-4 w-4 accent-blue-500"
+                />
+                Compact memory when a waiting job would fit
+              </label>
+            </div>
+
+            <div className="flex flex-col sm:flex-row justify-between items-center mt-6 space-y-4 sm:space-y-0">
+              <div className="flex flex-wrap gap-3">
+                <button
+                  onClick={addJob}
+                  className={`px-4 py-2 text-sm font-medium rounded-full text-blue-400 bg-gray-900 border border-blue-600 hover:bg-gray-700 transition-all ${PRIMARY_SHADOW}`}
+                >
+                  <span className="text-xl inline-block mr-1 align-bottom">+</span> Add Job
+                </button>
+                <button
+                  onClick={() => {
+                    setError("");
+                    setMemorySize(EXAMPLE_MEMORY);
+                    loadJobs(EXAMPLE_JOBS);
+                  }}
+                  className={`px-4 py-2 text-sm font-medium rounded-full text-blue-400 bg-gray-900 border border-blue-600 hover:bg-gray-700 transition-all ${PRIMARY_SHADOW}`}
+                >
+                  Load Example
+                </button>
+              </div>
+
+              <button
+                onClick={calculate}
+                className={`px-8 py-3 text-lg font-bold text-white rounded-full ${PRIMARY_BG_BLUE} ${PRIMARY_HOVER_BLUE_BG} transition-transform transform hover:scale-[1.02] active:scale-95 shadow-lg shadow-blue-900/50`}
+              >
+                Simulate 🚀
+              </button>
+            </div>
+
+            {error && (
+              <div className="mt-6 p-4 bg-red-900/50 border border-red-700 text-red-300 rounded-lg" role="alert">
+                <p className="font-semibold">Input Error:</p>
+                <p>{error}</p>
+              </div>
+            )}
+          </section>
+        )}
+
+        {/* Output Card */}
+        {mode === "contiguous" && simulation && result && snapshot && (
+          <section className={`p-8 md:p-10 ${CARD_BG_COLOR} rounded-2xl shadow-xl border ${BORDER_COLOR} ${TEXT_COLOR}`}>
+            <div className={`flex items-center border-b ${DIVIDER_COLOR} pb-4 mb-8`}>
+              <h2 className={`text-3xl font-bold ${PRIMARY_BLUE_CLASS} flex items-center`}>
+                <span className="mr-3 text-4xl">📊</span> Simulation Output
+              </h2>
+            </div>
+
+            {/* Memory Layout */}
+            <h3 className={`text-xl font-semibold mb-5 ${TEXT_COLOR} flex items-center`}>
+              <span className={`text-2xl mr-3 ${PRIMARY_BLUE_CLASS}`}>🧱</span> Memory Layout
+            </h3>
+
+            <div className="flex flex-wrap gap-2 mb-4">
+              {FIT_STRATEGY_IDS.map((id) => (
+                <button
+                  key={id}
+                  onClick={() => setSelected(id)}
+                  className={`px-4 py-1.5 text-sm font-semibold rounded-full border transition-all ${
+                    id === selected ? `${PRIMARY_BG_BLUE} text-white border-blue-600` : `bg-gray-900 text-blue-400 border-blue-600 hover:bg-gray-700`
+                  }`}
+                >
+                  {FIT_STRATEGIES[id].name}
+                </button>
+              ))}
+            </div>
+
+            <div className={`p-5 border ${BORDER_COLOR} rounded-lg bg-gray-900 overflow-x-auto shadow-inner shadow-black/20`}>
+              <div className="flex flex-wrap items-center gap-4 mb-4 text-sm">
+                <input
+                  type="range"
+                  min={0}
+                  max={result.snapshots.length - 1}
+                  value={Math.min(step, result.snapshots.length - 1)}
+                  onChange={(e) => setStep(parseInt(e.target.value))}
+                  className="flex-1 min-w-[200px] accent-blue-500"
+                  aria-label="Event"
+                />
+                <span className={`font-mono ${PRIMARY_BLUE_CLASS}`}>t = {snapshot.time}</span>
+                <span className={snapshot.kind === "wait" ? "text-red-300" : TEXT_COLOR}>{describeSnapshot(snapshot)}</span>
+              </div>
+
+              <MemoryBar blocks={snapshot.blocks} memorySize={simulation.memorySize} />
+
+              <div className={`flex flex-wrap gap-6 mt-4 text-sm ${LIGHT_TEXT_COLOR}`}>
+                <span>Free: <span className="font-mono text-gray-100">{snapshot.freeTotal} KB</span></span>
+                <span>Largest Hole: <span className="font-mono text-gray-100">{snapshot.largestHole} KB</span></span>
+                <span>
+                  External Fragmentation: <span className="font-mono text-gray-100">{(snapshot.fragmentation * 100).toFixed(1)}%</span>
+                </span>
+                <span>Waiting: <span className="font-mono text-gray-100">{snapshot.waiting.join(", ") || "—"}</span></span>
+              </div>
+            </div>
+
+            <p className={`mt-4 ${LIGHT_TEXT_COLOR} italic text-sm`}>
+              {FIT_STRATEGIES[selected].name} Rule: {FIT_STRATEGIES[selected].rule}. Fragmentation is the share of free memory outside the largest hole.
+            </p>
+
+            <hr className={`${DIVIDER_COLOR} my-8`} />
+
+            {/* Fragmentation Over Time */}
+            <h3 className={`text-xl font-semibold mb-5 ${TEXT_COLOR} flex items-center`}>
+              <span className={`text-2xl mr-3 ${PRIMARY_BLUE_CLASS}`}>📈</span> External Fragmentation Over Time
+            </h3>
+
+            <div className={`p-5 border ${BORDER_COLOR} rounded-lg bg-gray-900 shadow-inner shadow-black/20`}>
+              <LineChart
+                series={FIT_STRATEGY_IDS.map((id) => ({
+                  label: FIT_STRATEGIES[id].name,
+                  color: SERIES_COLORS[id],
+                  points: simulation.results[id].snapshots.map((s) => ({ x: s.time, y: Math.round(s.fragmentation * 100) })),
+                }))}
+                xLabel="Time"
+                yLabel="Fragmentation (%)"
+                zeroBased
+              />
+            </div>
+
+            <hr className={`${DIVIDER_COLOR} my-8`} />
+
+            {/* Summary Table */}
+            <h3 className={`text-xl font-semibold mb-5 ${TEXT_COLOR} flex items-center`}>
+              <span className={`text-2xl mr-3 ${PRIMARY_BLUE_CLASS}`}>📋</span> Summary
+            </h3>
+
+            <div className={`overflow-x-auto rounded-lg border ${BORDER_COLOR} shadow-sm`}>
+              <table className="min-w-full border-collapse rounded-lg overflow-hidden text-sm">
+                <thead>
+                  <tr className={`bg-gray-700 border-b ${DIVIDER_COLOR}`}>
+                    <th className={`px-4 py-3 border-r ${DIVIDER_COLOR} ${TEXT_COLOR}`}>Strategy</th>
+                    {columns.map((c) => (
+                      <th key={c.label} className={`px-4 py-3 border-r ${DIVIDER_COLOR} ${TEXT_COLOR}`}>{c.label}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {FIT_STRATEGY_IDS.map((id) => {
+                    const r = simulation.results[id];
+                    return (
+                      <tr key={id} className={`bg-gray-800 border-t ${DIVIDER_COLOR} hover:bg-gray-700 transition-colors`}>
+                        <td className={`p-3 border-r ${DIVIDER_COLOR} text-center font-semibold ${PRIMARY_BLUE_CLASS}`}>
+                          {FIT_STRATEGIES[id].name}
+                        </td>
+                        {columns.map((c) => {
+                          const best = Math.min(...FIT_STRATEGY_IDS.map((other) => c.value(simulation.results[other])));
+                          const isBest = c.label.endsWith("↓") && Math.abs(c.value(r) - best) < 1e-9;
+                          return (
+                            <td
+                              key={c.label}
+                              className={`p-3 border-r ${DIVIDER_COLOR} text-center font-mono ${
+                                isBest ? "bg-green-900/40 text-green-400 font-bold" : TEXT_COLOR
+                              }`}
+                            >
+                              {c.format(c.value(r))}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            <p className={`mt-4 ${LIGHT_TEXT_COLOR} italic text-sm`}>
+              Best value in each ↓ column is highlighted. Jobs that do not fit wait, and smaller jobs behind them may go first.
+            </p>
+          </section>
+        )}
+      </main>
+    </div>
+  );
+}
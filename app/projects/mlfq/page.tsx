@@ -0,0 +1,6 @@
+import type { SimulatorPageProps } from "../_components/permalink";
+import SchedulerSimulator from "../_components/SchedulerSimulator";
+
+export default async function MLFQSimulator({ searchParams }: SimulatorPageProps) {
+  return <SchedulerSimulator algorithm="mlfq" query={await searchParams} />;
+}
@@ -0,0 +1,367 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  beladyAnomalies,
+  faultCurve,
+  MAX_FRAMES,
+  parseReferenceString,
+  REPLACEMENT_ALGORITHM_IDS,
+  REPLACEMENT_ALGORITHMS,
+  simulatePaging,
+  type PagingResult,
+  type ReplacementAlgorithmId,
+} from "@/lib/paging";
+import LineChart from "../_components/LineChart";
+import {
+  BACKGROUND_COLOR,
+  BORDER_COLOR,
+  CARD_BG_COLOR,
+  DIVIDER_COLOR,
+  INPUT_BG_COLOR,
+  LIGHT_TEXT_COLOR,
+  PRIMARY_BG_BLUE,
+  PRIMARY_BLUE_CLASS,
+  PRIMARY_HOVER_BLUE_BG,
+  PRIMARY_SHADOW,
+  TEXT_COLOR,
+} from "../_components/theme";
+
+// Line colour per algorithm in the faults-vs-frames chart
+const SERIES_COLORS: Record<ReplacementAlgorithmId, string> = {
+  fifo: "#60a5fa",
+  lru: "#fb923c",
+  opt: "#4ade80",
+  clock: "#c084fc",
+  lfu: "#facc15",
+};
+
+// Silberschatz's example string, and the classic string that shows Belady's anomaly under FIFO
+const TEXTBOOK_EXAMPLE = "7 0 1 2 0 3 0 4 2 3 0 3 2 1 2 0 1 7 0 1";
+const BELADY_EXAMPLE = "1 2 3 4 1 2 5 1 2 3 4 5";
+
+interface Simulation {
+  reference: number[];
+  results: Record<ReplacementAlgorithmId, PagingResult>;
+  /** Frame counts plotted, from 1. */
+  curves: Record<ReplacementAlgorithmId, number[]>;
+}
+
+/**
+ * Runs every algorithm on the reference string, plus the fault curve up to the point
+ * where every distinct page fits.
+ */
+function simulateAll(reference: number[], frameCount: number): Simulation {
+  const maxFrames = Math.min(MAX_FRAMES, Math.max(frameCount, new Set(reference).size));
+  const entries = REPLACEMENT_ALGORITHM_IDS.map((id) => [id, simulatePaging(reference, frameCount, id), faultCurve(reference, id, maxFrames)] as const);
+  return {
+    reference,
+    results: Object.fromEntries(entries.map(([id, result]) => [id, result])) as Simulation["results"],
+    curves: Object.fromEntries(entries.map(([id, , curve]) => [id, curve])) as Simulation["curves"],
+  };
+}
+
+export default function PageReplacementSimulator() {
+  const [referenceText, setReferenceText] = useState(TEXTBOOK_EXAMPLE);
+  const [frameCount, setFrameCount] = useState<number | "">(3);
+  const [selected, setSelected] = useState<ReplacementAlgorithmId>("fifo");
+  const [simulation, setSimulation] = useState<Simulation | null>(null);
+  const [error, setError] = useState("");
+
+  const edit = () => {
+    setError("");
+    setSimulation(null);
+  };
+
+  const loadExample = (text: string, frames: number) => {
+    setReferenceText(text);
+    setFrameCount(frames);
+    edit();
+  };
+
+  const calculate = () => {
+    const parsed = parseReferenceString(referenceText);
+    if ("error" in parsed) {
+      setError(parsed.error);
+      setSimulation(null);
+      return;
+    }
+    if (frameCount === "" || frameCount < 1 || frameCount > MAX_FRAMES) {
+      setError(`Frame count must be between 1 and ${MAX_FRAMES}.`);
+      setSimulation(null);
+      return;
+    }
+    setSimulation(simulateAll(parsed.reference, frameCount));
+    setError("");
+  };
+
+  const isBest = (values: number[], value: number, lowerIsBetter: boolean) =>
+    value === (lowerIsBetter ? Math.min(...values) : Math.max(...values));
+
+  const info = REPLACEMENT_ALGORITHMS[selected];
+  const result = simulation?.results[selected];
+  const anomalies = simulation
+    ? REPLACEMENT_ALGORITHM_IDS.flatMap((id) =>
+        beladyAnomalies(simulation.curves[id]).map((frames) => ({ id, frames, curve: simulation.curves[id] }))
+      )
+    : [];
+
+  const buttonClass = `px-4 py-2 text-sm font-medium rounded-full text-blue-400 bg-gray-900 border border-blue-600 hover:bg-gray-700 transition-all ${PRIMARY_SHADOW}`;
+
+  return (
+    <div className={`min-h-screen p-4 md:p-8 ${BACKGROUND_COLOR} font-sans transition-colors duration-300`}>
+      <header className="mb-10 text-center">
+        <h1 className={`text-4xl font-extrabold ${PRIMARY_BLUE_CLASS} mb-2`}>
+          Page Replacement Simulator
+        </h1>
+        <p className={`text-lg ${LIGHT_TEXT_COLOR}`}>
+          FIFO · LRU · OPT · Clock · LFU on one reference string
+        </p>
+      </header>
+
+      <main className="max-w-6xl mx-auto space-y-12">
+        {/* Input Card */}
+        <section className={`p-6 md:p-8 ${CARD_BG_COLOR} rounded-2xl shadow-xl border ${BORDER_COLOR}`}>
+          <h2 className={`text-2xl font-bold ${TEXT_COLOR} mb-6 flex items-center border-b ${DIVIDER_COLOR} pb-3`}>
+            <span className="mr-3 text-3xl text-orange-400">⚙️</span> Memory Input
+          </h2>
+
+          <label className={`block text-sm ${LIGHT_TEXT_COLOR} mb-2`} htmlFor="reference">
+            Reference String (pages separated by spaces or commas)
+          </label>
+          <input
+            id="reference"
+            type="text"
+            value={referenceText}
+            onChange={(e) => {
+              setReferenceText(e.target.value);
+              edit();
+            }}
+            className={`w-full p-3 border ${BORDER_COLOR} rounded-lg font-mono text-sm focus:ring-blue-500 focus:border-blue-500 ${INPUT_BG_COLOR} text-white`}
+          />
+
+          <div className={`flex flex-wrap items-center gap-6 mt-6 pt-4 border-t ${DIVIDER_COLOR}`}>
+            <label className={`flex items-center gap-3 text-sm ${LIGHT_TEXT_COLOR}`}>
+              Frames
+              <input
+                type="number"
+                min="1"
+                max={MAX_FRAMES}
+                value={frameCount}
+                onChange={(e) => {
+                  // Ensure only non-negative integers are entered
+                  if (!/^\d*$/.test(e.target.value)) return;
+                  setFrameCount(e.target.value === "" ? "" : parseInt(e.target.value));
+                  edit();
+                }}
+                className={`w-24 p-2 border ${BORDER_COLOR} rounded-lg text-sm focus:ring-blue-500 focus:border-blue-500 transition-shadow ${INPUT_BG_COLOR} text-white`}
+              />
+            </label>
+            <button onClick={() => loadExample(TEXTBOOK_EXAMPLE, 3)} className={buttonClass}>
+              Textbook Example
+            </button>
+            <button onClick={() => loadExample(BELADY_EXAMPLE, 3)} className={buttonClass}>
+              Belady Example
+            </button>
+          </div>
+
+          <div className="flex justify-end mt-6">
+            <button
+              onClick={calculate}
+              className={`px-8 py-3 text-lg font-bold text-white rounded-full ${PRIMARY_BG_BLUE} ${PRIMARY_HOVER_BLUE_BG} transition-transform transform hover:scale-[1.02] active:scale-95 shadow-lg shadow-blue-900/50`}
+            >
+              Simulate 🚀
+            </button>
+          </div>
+
+          {error && (
+            <div className="mt-6 p-4 bg-red-900/50 border border-red-700 text-red-300 rounded-lg" role="alert">
+              <p className="font-semibold">Input Error:</p>
+              <p>{error}</p>
+            </div>
+          )}
+        </section>
+
+        {/* Output Card */}
+        {simulation && result && (
+          <section className={`p-8 md:p-10 ${CARD_BG_COLOR} rounded-2xl shadow-xl border ${BORDER_COLOR} ${TEXT_COLOR}`}>
+            <div className={`flex items-center border-b ${DIVIDER_COLOR} pb-4 mb-8`}>
+              <h2 className={`text-3xl font-bold ${PRIMARY_BLUE_CLASS} flex items-center`}>
+                <span className="mr-3 text-4xl">📊</span> Simulation Output
+              </h2>
+            </div>
+
+            {/* Frame-by-Time Table */}
+            <h3 className={`text-xl font-semibold mb-5 ${TEXT_COLOR} flex items-center`}>
+              <span className={`text-2xl mr-3 ${PRIMARY_BLUE_CLASS}`}>🧮</span> Frames Over Time
+            </h3>
+
+            <div className="flex flex-wrap gap-2 mb-4">
+              {REPLACEMENT_ALGORITHM_IDS.map((id) => (
+                <button
+                  key={id}
+                  onClick={() => setSelected(id)}
+                  className={`px-4 py-1.5 text-sm font-semibold rounded-full border transition-all ${
+                    id === selected ? `${PRIMARY_BG_BLUE} text-white border-blue-600` : `bg-gray-900 text-blue-400 border-blue-600 hover:bg-gray-700`
+                  }`}
+                >
+                  {REPLACEMENT_ALGORITHMS[id].name}
+                </button>
+              ))}
+            </div>
+
+            <div className={`overflow-x-auto rounded-lg border ${BORDER_COLOR} shadow-sm`}>
+              <table className="min-w-full border-collapse text-sm">
+                <thead>
+                  <tr className={`bg-gray-700 border-b ${DIVIDER_COLOR}`}>
+                    <th className={`px-4 py-3 border-r ${DIVIDER_COLOR} ${TEXT_COLOR} text-left whitespace-nowrap`}>Reference</th>
+                    {result.steps.map((step, t) => (
+                      <th key={t} className={`px-3 py-3 border-r ${DIVIDER_COLOR} ${TEXT_COLOR} font-mono`}>
+                        {step.page}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {Array.from({ length: result.frameCount }, (_, frame) => (
+                    <tr key={frame} className={`bg-gray-800 border-t ${DIVIDER_COLOR}`}>
+                      <td className={`px-4 py-2 border-r ${DIVIDER_COLOR} font-semibold ${PRIMARY_BLUE_CLASS} whitespace-nowrap`}>
+                        Frame {frame + 1}
+                      </td>
+                      {result.steps.map((step, t) => {
+                        const page = step.frames[frame];
+                        const loaded = !step.hit && step.frame === frame;
+                        const hit = step.hit && page === step.page;
+                        return (
+                          <td
+                            key={t}
+                            className={`px-3 py-2 border-r ${DIVIDER_COLOR} text-center font-mono ${
+                              loaded ? "bg-red-900/40 text-red-300 font-bold"
+                              : hit ? "bg-green-900/40 text-green-400 font-bold"
+                              : TEXT_COLOR
+                            } ${step.hand === frame ? "underline decoration-purple-400 decoration-2" : ""}`}
+                            title={step.referenceBits ? `Reference bit ${step.referenceBits[frame] ? 1 : 0}` : undefined}
+                          >
+                            {page ?? ""}
+                            {step.referenceBits?.[frame] && page !== null && <sup className="text-purple-300">*</sup>}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                  <tr className={`bg-gray-900 border-t ${DIVIDER_COLOR}`}>
+                    <td className={`px-4 py-2 border-r ${DIVIDER_COLOR} ${LIGHT_TEXT_COLOR} whitespace-nowrap`}>Hit / Fault</td>
+                    {result.steps.map((step, t) => (
+                      <td
+                        key={t}
+                        className={`px-3 py-2 border-r ${DIVIDER_COLOR} text-center font-bold ${step.hit ? "text-green-400" : "text-red-400"}`}
+                      >
+                        {step.hit ? "H" : "F"}
+                      </td>
+                    ))}
+                  </tr>
+                  <tr className={`bg-gray-900 border-t ${DIVIDER_COLOR}`}>
+                    <td className={`px-4 py-2 border-r ${DIVIDER_COLOR} ${LIGHT_TEXT_COLOR} whitespace-nowrap`}>Evicted</td>
+                    {result.steps.map((step, t) => (
+                      <td key={t} className={`px-3 py-2 border-r ${DIVIDER_COLOR} text-center font-mono ${LIGHT_TEXT_COLOR}`}>
+                        {step.evicted ?? ""}
+                      </td>
+                    ))}
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+
+            <p className={`mt-4 ${LIGHT_TEXT_COLOR} italic text-sm`}>
+              {info.title} Rule: {info.rule}.{" "}
+              <span className="text-red-300 not-italic font-semibold">Red</span> = page loaded on a fault,{" "}
+              <span className="text-green-400 not-italic font-semibold">green</span> = hit
+              {selected === "clock" && (
+                <>
+                  , <span className="text-purple-300 not-italic">*</span> = reference bit set, underline = clock hand
+                </>
+              )}
+              .
+            </p>
+
+            <hr className={`${DIVIDER_COLOR} my-8`} />
+
+            {/* Per-Algorithm Summary */}
+            <h3 className={`text-xl font-semibold mb-5 ${TEXT_COLOR} flex items-center`}>
+              <span className={`text-2xl mr-3 ${PRIMARY_BLUE_CLASS}`}>📋</span> Summary ({result.frameCount} Frames)
+            </h3>
+
+            <div className={`overflow-x-auto rounded-lg border ${BORDER_COLOR} shadow-sm`}>
+              <table className="min-w-full border-collapse rounded-lg overflow-hidden text-sm">
+                <thead>
+                  <tr className={`bg-gray-700 border-b ${DIVIDER_COLOR}`}>
+                    <th className={`px-4 py-3 border-r ${DIVIDER_COLOR} ${TEXT_COLOR}`}>Algorithm</th>
+                    <th className={`px-4 py-3 border-r ${DIVIDER_COLOR} ${TEXT_COLOR}`}>Page Faults ↓</th>
+                    <th className={`px-4 py-3 border-r ${DIVIDER_COLOR} ${TEXT_COLOR}`}>Hits ↑</th>
+                    <th className={`px-4 py-3 ${TEXT_COLOR}`}>Hit Ratio ↑</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {REPLACEMENT_ALGORITHM_IDS.map((id) => {
+                    const r = simulation.results[id];
+                    const faults = REPLACEMENT_ALGORITHM_IDS.map((other) => simulation.results[other].faults);
+                    const best = isBest(faults, r.faults, true);
+                    const bestClass = best ? "bg-green-900/40 text-green-400 font-bold" : TEXT_COLOR;
+                    return (
+                      <tr key={id} className={`bg-gray-800 border-t ${DIVIDER_COLOR} hover:bg-gray-700 transition-colors`}>
+                        <td className={`p-3 border-r ${DIVIDER_COLOR} text-center font-semibold ${PRIMARY_BLUE_CLASS}`}>
+                          {REPLACEMENT_ALGORITHMS[id].name}
+                        </td>
+                        <td className={`p-3 border-r ${DIVIDER_COLOR} text-center font-mono ${bestClass}`}>{r.faults}</td>
+                        <td className={`p-3 border-r ${DIVIDER_COLOR} text-center font-mono ${bestClass}`}>{r.hits}</td>
+                        <td className={`p-3 text-center font-mono ${bestClass}`}>{(r.hitRatio * 100).toFixed(1)}%</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            <hr className={`${DIVIDER_COLOR} my-8`} />
+
+            {/* Faults vs. Frames */}
+            <h3 className={`text-xl font-semibold mb-5 ${TEXT_COLOR} flex items-center`}>
+              <span className={`text-2xl mr-3 ${PRIMARY_BLUE_CLASS}`}>📉</span> Page Faults vs. Frame Count
+            </h3>
+
+            <div className={`p-5 border ${BORDER_COLOR} rounded-lg bg-gray-900 shadow-inner shadow-black/20`}>
+              <LineChart
+                series={REPLACEMENT_ALGORITHM_IDS.map((id) => ({
+                  label: REPLACEMENT_ALGORITHMS[id].name,
+                  color: SERIES_COLORS[id],
+                  points: simulation.curves[id].map((faults, i) => ({ x: i + 1, y: faults })),
+                  marked: beladyAnomalies(simulation.curves[id]),
+                }))}
+                xLabel="Frames"
+                yLabel="Page Faults"
+                zeroBased
+              />
+            </div>
+
+            <div className={`mt-4 text-sm ${anomalies.length > 0 ? "text-red-300" : LIGHT_TEXT_COLOR}`}>
+              {anomalies.length > 0 ? (
+                <ul className="list-disc list-inside">
+                  {anomalies.map(({ id, frames, curve }) => (
+                    <li key={`${id}-${frames}`}>
+                      Belady&apos;s anomaly: {REPLACEMENT_ALGORITHMS[id].name} makes {curve[frames - 1]} faults with {frames} frames,
+                      but only {curve[frames - 2]} with {frames - 1}.
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="italic">
+                  No Belady&apos;s anomaly here: more frames never caused more faults. Try the Belady example with FIFO.
+                </p>
+              )}
+            </div>
+          </section>
+        )}
+      </main>
+    </div>
+  );
+}
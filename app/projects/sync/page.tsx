@@ -0,0 +1,410 @@
+"use client";
+
+import React, { useState } from "react";
+import { CONTEXT_SWITCH, getProcessColor } from "@/lib/scheduling";
+import {
+  buildScenario,
+  createRun,
+  describeInstruction,
+  MAX_SYNC_STEPS,
+  nextInstruction,
+  readyThreads,
+  simulateRandom,
+  stepRun,
+  SYNC_PROBLEMS,
+  SYNC_PROBLEM_IDS,
+  type SyncProblem,
+  type SyncRun,
+} from "@/lib/sync";
+import ThreadLanes from "../_components/ThreadLanes";
+import {
+  BACKGROUND_COLOR,
+  BORDER_COLOR,
+  CARD_BG_COLOR,
+  DIVIDER_COLOR,
+  INPUT_BG_COLOR,
+  LIGHT_TEXT_COLOR,
+  PRIMARY_BG_BLUE,
+  PRIMARY_BLUE_CLASS,
+  PRIMARY_HOVER_BLUE_BG,
+  PRIMARY_SHADOW,
+  TEXT_COLOR,
+} from "../_components/theme";
+
+type Cell = number | "";
+type Policy = "random" | "manual";
+
+const POLICIES: Record<Policy, string> = {
+  random: "🎲 Random (seeded)",
+  manual: "🖐️ Manual Stepping",
+};
+
+const defaultCounts = (problem: SyncProblem): Cell[] => SYNC_PROBLEMS[problem].roles.map((r) => r.defaultCount);
+
+const LEGEND = [
+  { label: "Running", className: getProcessColor("P1") },
+  { label: "Ready", className: getProcessColor("IDLE") },
+  { label: "Blocked", className: getProcessColor(CONTEXT_SWITCH) },
+  { label: "Done", className: `bg-transparent border ${BORDER_COLOR}` },
+];
+
+/** Steps each thread spent in each state, for the summary table. */
+function threadSummary(run: SyncRun, thread: number) {
+  let running = 0;
+  let blocked = 0;
+  let longestBlock = 0;
+  let streak = 0;
+  for (const tick of run.history) {
+    const { status } = tick.threads[thread];
+    if (status === "running") running++;
+    streak = status === "blocked" ? streak + 1 : 0;
+    if (status === "blocked") blocked++;
+    longestBlock = Math.max(longestBlock, streak);
+  }
+  return { iterations: run.threads[thread].iteration, running, blocked, longestBlock };
+}
+
+export default function SynchronizationPlayground() {
+  const [problem, setProblem] = useState<SyncProblem>("producer-consumer");
+  const [variant, setVariant] = useState(SYNC_PROBLEMS["producer-consumer"].variants[0].id);
+  const [counts, setCounts] = useState<Cell[]>(() => defaultCounts("producer-consumer"));
+  const [bufferSize, setBufferSize] = useState<Cell>(2);
+  const [iterations, setIterations] = useState<Cell>(3);
+  const [policy, setPolicy] = useState<Policy>("random");
+  const [seed, setSeed] = useState<Cell>(1);
+  // Earlier runs in manual mode, so a step can be undone
+  const [runs, setRuns] = useState<SyncRun[]>([]);
+  const [error, setError] = useState("");
+
+  const info = SYNC_PROBLEMS[problem];
+  const run = runs[runs.length - 1];
+
+  const clear = () => {
+    setRuns([]);
+    setError("");
+  };
+
+  // Whole numbers only, like the other numeric inputs
+  const numeric = (set: (value: Cell) => void) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!/^\d*$/.test(e.target.value)) return;
+    set(e.target.value === "" ? "" : parseInt(e.target.value));
+    clear();
+  };
+
+  const selectProblem = (id: SyncProblem) => {
+    setProblem(id);
+    setVariant(SYNC_PROBLEMS[id].variants[0].id);
+    setCounts(defaultCounts(id));
+    clear();
+  };
+
+  const start = () => {
+    const needsBuffer = problem === "producer-consumer";
+    if (counts.some((c) => c === "") || iterations === "" || (needsBuffer && bufferSize === "") || (policy === "random" && seed === "")) {
+      setError(`Please fill in every thread count, Iterations${needsBuffer ? ", Buffer Size" : ""}${policy === "random" ? " and Seed" : ""}.`);
+      setRuns([]);
+      return;
+    }
+    try {
+      const scenario = buildScenario({ problem, variant, counts: counts as number[], iterations, bufferSize: bufferSize === "" ? undefined : bufferSize });
+      setRuns([policy === "random" ? simulateRandom(scenario, { seed: seed as number }) : createRun(scenario)]);
+      setError("");
+    } catch (e) {
+      setError(e instanceof RangeError ? e.message : String(e));
+      setRuns([]);
+    }
+  };
+
+  const step = (thread: number) => setRuns([...runs, stepRun(run, thread)]);
+
+  const status = !run
+    ? ""
+    : run.issues.some((i) => i.kind === "deadlock") ? `Deadlocked at step ${run.time}`
+    : run.over ? `Every thread finished in ${run.time} steps`
+    : run.time >= MAX_SYNC_STEPS ? `Stopped after ${MAX_SYNC_STEPS} steps`
+    : `Step ${run.time}: pick the next thread to run`;
+
+  const inputClass = `w-20 p-2 border ${BORDER_COLOR} rounded-lg text-sm focus:ring-blue-500 focus:border-blue-500 transition-shadow ${INPUT_BG_COLOR} text-white`;
+  const labelClass = `flex items-center gap-3 text-sm ${LIGHT_TEXT_COLOR}`;
+  const tabClass = (active: boolean) =>
+    `px-4 py-1.5 text-sm font-semibold rounded-full border transition-all ${
+      active ? `${PRIMARY_BG_BLUE} text-white border-blue-600` : `bg-gray-900 text-blue-400 border-blue-600 hover:bg-gray-700`
+    }`;
+  const secondaryButtonClass = `px-4 py-2 text-sm font-medium rounded-full text-blue-400 bg-gray-900 border border-blue-600 hover:bg-gray-700 transition-all ${PRIMARY_SHADOW}`;
+
+  return (
+    <div className={`min-h-screen p-4 md:p-8 ${BACKGROUND_COLOR} font-sans transition-colors duration-300`}>
+      <header className="mb-10 text-center">
+        <h1 className={`text-4xl font-extrabold ${PRIMARY_BLUE_CLASS} mb-2`}>
+          Process Synchronization Playground
+        </h1>
+        <p className={`text-lg ${LIGHT_TEXT_COLOR}`}>
+          Semaphores and mutexes in producer-consumer, readers-writers and dining philosophers
+        </p>
+      </header>
+
+      <main className="max-w-6xl mx-auto space-y-12">
+        {/* Input Card */}
+        <section className={`p-6 md:p-8 ${CARD_BG_COLOR} rounded-2xl shadow-xl border ${BORDER_COLOR}`}>
+          <h2 className={`text-2xl font-bold ${TEXT_COLOR} mb-6 flex items-center border-b ${DIVIDER_COLOR} pb-3`}>
+            <span className="mr-3 text-3xl text-orange-400">⚙️</span> Scenario
+          </h2>
+
+          <div className="flex flex-wrap gap-2 mb-4">
+            {SYNC_PROBLEM_IDS.map((id) => (
+              <button key={id} onClick={() => selectProblem(id)} className={tabClass(id === problem)}>
+                {SYNC_PROBLEMS[id].name}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <span className={`text-sm mr-1 ${LIGHT_TEXT_COLOR}`}>Solution</span>
+            {info.variants.map((v) => (
+              <button
+                key={v.id}
+                onClick={() => {
+                  setVariant(v.id);
+                  clear();
+                }}
+                className={`px-3 py-1 text-xs font-semibold rounded-full border transition-all ${
+                  v.id === variant ? "bg-gray-700 text-white border-gray-500" : `bg-gray-900 ${LIGHT_TEXT_COLOR} ${BORDER_COLOR} hover:bg-gray-700`
+                }`}
+              >
+                {v.name}
+              </button>
+            ))}
+          </div>
+          <p className={`mt-3 ${LIGHT_TEXT_COLOR} italic text-sm`}>
+            {info.variants.find((v) => v.id === variant)?.rule}.
+          </p>
+
+          <div className={`flex flex-wrap items-center gap-6 mt-6 pt-4 border-t ${DIVIDER_COLOR}`}>
+            {info.roles.map((role, r) => (
+              <label key={role.label} className={labelClass}>
+                {role.label}
+                <input
+                  type="number"
+                  min={role.min}
+                  value={counts[r]}
+                  onChange={numeric((value) => setCounts(counts.map((c, k) => (k === r ? value : c))))}
+                  className={inputClass}
+                />
+              </label>
+            ))}
+            {problem === "producer-consumer" && (
+              <label className={labelClass}>
+                Buffer Size
+                <input type="number" min="1" value={bufferSize} onChange={numeric(setBufferSize)} className={inputClass} />
+              </label>
+            )}
+            <label className={labelClass} title="Loops per thread; with unequal producers and consumers, the smaller role loops more so every item is consumed">
+              Iterations
+              <input type="number" min="1" value={iterations} onChange={numeric(setIterations)} className={inputClass} />
+            </label>
+          </div>
+
+          <div className="flex flex-col sm:flex-row justify-between items-center mt-6 space-y-4 sm:space-y-0">
+            <div className="flex flex-wrap items-center gap-3">
+              {Object.entries(POLICIES).map(([id, label]) => (
+                <button
+                  key={id}
+                  onClick={() => {
+                    setPolicy(id as Policy);
+                    clear();
+                  }}
+                  className={tabClass(id === policy)}
+                >
+                  {label}
+                </button>
+              ))}
+              {policy === "random" && (
+                <label className={labelClass}>
+                  Seed
+                  <input type="number" min="0" value={seed} onChange={numeric(setSeed)} className={inputClass} />
+                </label>
+              )}
+            </div>
+
+            <button
+              onClick={start}
+              className={`px-8 py-3 text-lg font-bold text-white rounded-full ${PRIMARY_BG_BLUE} ${PRIMARY_HOVER_BLUE_BG} transition-transform transform hover:scale-[1.02] active:scale-95 shadow-lg shadow-blue-900/50`}
+            >
+              {policy === "random" ? "Simulate 🚀" : "Start 🚀"}
+            </button>
+          </div>
+
+          {error && (
+            <div className="mt-6 p-4 bg-red-900/50 border border-red-700 text-red-300 rounded-lg" role="alert">
+              <p className="font-semibold">Input Error:</p>
+              <p>{error}</p>
+            </div>
+          )}
+        </section>
+
+        {/* Output Card */}
+        {run && (
+          <section className={`p-8 md:p-10 ${CARD_BG_COLOR} rounded-2xl shadow-xl border ${BORDER_COLOR} ${TEXT_COLOR}`}>
+            <div className={`flex items-center border-b ${DIVIDER_COLOR} pb-4 mb-8`}>
+              <h2 className={`text-3xl font-bold ${PRIMARY_BLUE_CLASS} flex items-center`}>
+                <span className="mr-3 text-4xl">📊</span> Simulation Output
+              </h2>
+            </div>
+
+            {/* Deadlock and Starvation Flags */}
+            {run.issues.length > 0 && (
+              <div className="space-y-3 mb-8">
+                {run.issues.map((issue) => (
+                  <div
+                    key={`${issue.kind}${issue.time}${issue.threads.join()}`}
+                    className={`p-4 rounded-lg border ${
+                      issue.kind === "deadlock" ? "bg-red-900/50 border-red-700 text-red-300" : "bg-yellow-900/40 border-yellow-700 text-yellow-300"
+                    }`}
+                    role="alert"
+                  >
+                    <p className="font-semibold">
+                      {issue.kind === "deadlock" ? "💀 Deadlock" : "⏳ Starvation"} at step {issue.time}
+                    </p>
+                    <p className="text-sm mt-1">{issue.message}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Manual Stepping */}
+            {policy === "manual" && (
+              <>
+                <h3 className={`text-xl font-semibold mb-5 ${TEXT_COLOR} flex items-center`}>
+                  <span className={`text-2xl mr-3 ${PRIMARY_BLUE_CLASS}`}>🖐️</span> Next Step
+                </h3>
+                <div className="flex flex-wrap items-center gap-3">
+                  {readyThreads(run).map((t) => (
+                    <button key={t} onClick={() => step(t)} className={secondaryButtonClass}>
+                      <span className="font-semibold">{run.scenario.threads[t].name}</span>
+                      <span className="font-mono text-xs text-gray-300"> → {describeInstruction(nextInstruction(run, t))}</span>
+                    </button>
+                  ))}
+                  {readyThreads(run).length > 0 && (
+                    <button
+                      onClick={() => {
+                        const ready = readyThreads(run);
+                        step(ready[Math.floor(Math.random() * ready.length)]);
+                      }}
+                      className={secondaryButtonClass}
+                    >
+                      🎲 Random Step
+                    </button>
+                  )}
+                  <button onClick={() => setRuns(runs.slice(0, -1))} disabled={runs.length < 2} className={`${secondaryButtonClass} disabled:opacity-40`}>
+                    ↩ Undo
+                  </button>
+                </div>
+                <hr className={`${DIVIDER_COLOR} my-8`} />
+              </>
+            )}
+
+            {/* Thread States */}
+            <h3 className={`text-xl font-semibold mb-5 ${TEXT_COLOR} flex items-center`}>
+              <span className={`text-2xl mr-3 ${PRIMARY_BLUE_CLASS}`}>🧵</span> Thread States &amp; Semaphore Values
+            </h3>
+
+            <div className={`p-5 border ${BORDER_COLOR} rounded-lg bg-gray-900 shadow-inner shadow-black/20`}>
+              <p className={`mb-4 text-sm font-semibold ${run.issues.some((i) => i.kind === "deadlock") ? "text-red-300" : PRIMARY_BLUE_CLASS}`}>{status}</p>
+              {run.history.length > 0 ? (
+                <ThreadLanes run={run} />
+              ) : (
+                <p className={`text-sm ${LIGHT_TEXT_COLOR}`}>No steps yet.</p>
+              )}
+              <div className={`flex flex-wrap gap-4 mt-4 text-xs ${LIGHT_TEXT_COLOR}`}>
+                {LEGEND.map((item) => (
+                  <span key={item.label} className="flex items-center gap-2">
+                    <span className={`inline-block w-4 h-4 rounded ${item.className}`} />
+                    {item.label}
+                  </span>
+                ))}
+              </div>
+            </div>
+
+            <p className={`mt-4 ${LIGHT_TEXT_COLOR} italic text-sm`}>
+              One thread runs one operation per step. A wait on a semaphore at 0 (shown in red) blocks, and a signal wakes the longest-waiting thread.
+            </p>
+
+            <hr className={`${DIVIDER_COLOR} my-8`} />
+
+            {/* Step Log */}
+            <h3 className={`text-xl font-semibold mb-5 ${TEXT_COLOR} flex items-center`}>
+              <span className={`text-2xl mr-3 ${PRIMARY_BLUE_CLASS}`}>📜</span> Step Log
+            </h3>
+
+            <div className={`max-h-80 overflow-y-auto rounded-lg border ${BORDER_COLOR} shadow-sm`}>
+              <table className="min-w-full border-collapse text-sm">
+                <thead className="sticky top-0">
+                  <tr className={`bg-gray-700 border-b ${DIVIDER_COLOR}`}>
+                    {["Step", "Thread", "Operation"].map((label) => (
+                      <th key={label} className={`px-4 py-3 border-r ${DIVIDER_COLOR} ${TEXT_COLOR}`}>{label}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {run.history.map((tick) => (
+                    <tr key={tick.time} className={`bg-gray-800 border-t ${DIVIDER_COLOR}`}>
+                      <td className={`p-2 border-r ${DIVIDER_COLOR} text-center font-mono`}>{tick.time}</td>
+                      <td className={`p-2 border-r ${DIVIDER_COLOR} text-center font-semibold ${PRIMARY_BLUE_CLASS}`}>
+                        {run.scenario.threads[tick.thread].name}
+                      </td>
+                      <td className={`p-2 border-r ${DIVIDER_COLOR} font-mono ${tick.action.includes("blocked") ? "text-red-300" : TEXT_COLOR}`}>
+                        {tick.action}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <hr className={`${DIVIDER_COLOR} my-8`} />
+
+            {/* Thread Summary */}
+            <h3 className={`text-xl font-semibold mb-5 ${TEXT_COLOR} flex items-center`}>
+              <span className={`text-2xl mr-3 ${PRIMARY_BLUE_CLASS}`}>📋</span> Thread Summary
+            </h3>
+
+            <div className={`overflow-x-auto rounded-lg border ${BORDER_COLOR} shadow-sm`}>
+              <table className="min-w-full border-collapse rounded-lg overflow-hidden text-sm">
+                <thead>
+                  <tr className={`bg-gray-700 border-b ${DIVIDER_COLOR}`}>
+                    {["Thread", "Iterations Done", "Steps Running", "Steps Blocked", "Longest Block"].map((label) => (
+                      <th key={label} className={`px-4 py-3 border-r ${DIVIDER_COLOR} ${TEXT_COLOR}`}>{label}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {run.scenario.threads.map((thread, i) => {
+                    const summary = threadSummary(run, i);
+                    const starved = run.issues.some((issue) => issue.threads.includes(i));
+                    return (
+                      <tr key={thread.name} className={`bg-gray-800 border-t ${DIVIDER_COLOR} hover:bg-gray-700 transition-colors`}>
+                        <td className={`p-3 border-r ${DIVIDER_COLOR} text-center font-semibold ${PRIMARY_BLUE_CLASS}`}>{thread.name}</td>
+                        <td className={`p-3 border-r ${DIVIDER_COLOR} text-center font-mono`}>
+                          {summary.iterations} / {thread.iterations ?? run.scenario.iterations}
+                        </td>
+                        <td className={`p-3 border-r ${DIVIDER_COLOR} text-center font-mono`}>{summary.running}</td>
+                        <td className={`p-3 border-r ${DIVIDER_COLOR} text-center font-mono`}>{summary.blocked}</td>
+                        <td className={`p-3 border-r ${DIVIDER_COLOR} text-center font-mono ${starved ? "text-red-300 font-bold" : ""}`}>
+                          {summary.longestBlock}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            <p className={`mt-4 ${LIGHT_TEXT_COLOR} italic text-sm`}>
+              A thread blocked for {run.starvationLimit} steps while others run is flagged as starving. Threads involved in a flagged issue are shown in red.
+            </p>
+          </section>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { clientIp, rateLimitKey } from "./client";
+
+describe("clientIp", () => {
+  it("takes the hop appended by the proxy, not the ones the client sent", () => {
+    const headers = new Headers({ "x-forwarded-for": "1.2.3.4, 10.0.0.1,203.0.113.7" });
+    expect(clientIp(headers)).toBe("203.0.113.7");
+  });
+
+  it("reads a configured header instead", () => {
+    const headers = new Headers({ "x-forwarded-for": "1.2.3.4", "cf-connecting-ip": "198.51.100.2" });
+    expect(clientIp(headers, "cf-connecting-ip")).toBe("198.51.100.2");
+    expect(clientIp(new Headers())).toBeUndefined();
+  });
+});
+
+describe("rateLimitKey", () => {
+  it("falls back to the browser's signature rather than one shared key", () => {
+    const firefox = new Headers({ "user-agent": "Firefox", "accept-language": "en" });
+    const chrome = new Headers({ "user-agent": "Chrome", "accept-language": "en" });
+    expect(rateLimitKey(firefox)).not.toBe(rateLimitKey(chrome));
+    expect(rateLimitKey(new Headers({ "x-forwarded-for": "203.0.113.7" }))).toBe("ip:203.0.113.7");
+  });
+});
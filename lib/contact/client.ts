@@ -0,0 +1,22 @@
+/** Header the reverse proxy in front of the app records the client address in, unless CONTACT_IP_HEADER says otherwise. */
+export const DEFAULT_IP_HEADER = "x-forwarded-for";
+
+/**
+ * Reads the client address from a header set by the reverse proxy in front of the app.
+ * Every proxy appends the address it received the request from, so only the last entry was
+ * written by ours; anything before it came from the client and could be forged.
+ * @param header Lowercase header name, e.g. "x-forwarded-for" or "cf-connecting-ip".
+ */
+export function clientIp(headers: Headers, header = DEFAULT_IP_HEADER): string | undefined {
+  const hops = (headers.get(header) ?? "").split(",").map((hop) => hop.trim()).filter(Boolean);
+  return hops.at(-1);
+}
+
+/**
+ * Key to rate-limit a request by: the client address, or without one (no proxy in front)
+ * the browser's user agent and languages, so visitors do not all share a single bucket.
+ */
+export function rateLimitKey(headers: Headers, header = DEFAULT_IP_HEADER): string {
+  const ip = clientIp(headers, header);
+  return ip ? `ip:${ip}` : `agent:${headers.get("user-agent") ?? ""}|${headers.get("accept-language") ?? ""}`;
+}
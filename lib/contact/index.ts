@@ -0,0 +1,7 @@
+export * from "./types";
+export { CONTACT_LIMITS, HONEYPOT_FIELD, validateContact } from "./validate";
+export { clientIp, DEFAULT_IP_HEADER, rateLimitKey } from "./client";
+export { createRateLimiter, type RateLimitOptions, type RateLimitResult } from "./rateLimit";
+export { fileOutbox } from "./outbox";
+export { formatMail, smtpTransport, type SmtpOptions } from "./smtp";
+export { DEFAULT_OUTBOX, transportFromEnv } from "./transport";
@@ -0,0 +1,31 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { fileOutbox } from "./outbox";
+import type { ContactMessage } from "./types";
+
+const MESSAGE: ContactMessage = {
+  name: "Ada Lovelace",
+  email: "ada@example.com",
+  subject: "Hello",
+  message: "Loved the simulators.",
+  receivedAt: "2026-01-02T03:04:05.000Z",
+};
+
+describe("fileOutbox", () => {
+  it("appends one JSON line per message, creating the folder", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "outbox-"));
+    try {
+      const path = join(dir, "nested", "outbox.jsonl");
+      const outbox = fileOutbox(path);
+      await outbox.send(MESSAGE);
+      await outbox.send({ ...MESSAGE, name: "Grace Hopper" });
+
+      const lines = (await readFile(path, "utf8")).trim().split("\n");
+      expect(lines.map((line) => JSON.parse(line).name)).toEqual(["Ada Lovelace", "Grace Hopper"]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,19 @@
+import { appendFile, mkdir } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { ContactTransport } from "./types";
+
+/**
+ * Transport that appends each message as one JSON line to a local file, creating the file
+ * and its folder on first use. The default when no SMTP server is configured: nothing is
+ * lost, and the outbox can be read or replayed later.
+ * @param path File to append to, e.g. ".data/contact-outbox.jsonl".
+ */
+export function fileOutbox(path: string): ContactTransport {
+  return {
+    name: "file",
+    async send(message) {
+      await mkdir(dirname(path), { recursive: true });
+      await appendFile(path, `${JSON.stringify(message)}\n`, "utf8");
+    },
+  };
+}
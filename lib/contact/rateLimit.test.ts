@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest";
+import { createRateLimiter } from "./rateLimit";
+
+describe("createRateLimiter", () => {
+  it("allows `limit` requests per sliding window, per key", () => {
+    const limiter = createRateLimiter({ limit: 2, windowMs: 1000 });
+    expect(limiter.hit("a", 0)).toEqual({ allowed: true });
+    expect(limiter.hit("a", 400)).toEqual({ allowed: true });
+    expect(limiter.hit("a", 500)).toEqual({ allowed: false, retryAfterMs: 500 });
+    expect(limiter.hit("b", 500)).toEqual({ allowed: true });
+    // The first request has left the window, the second has not
+    expect(limiter.hit("a", 1000)).toEqual({ allowed: true });
+    expect(limiter.hit("a", 1100)).toEqual({ allowed: false, retryAfterMs: 300 });
+  });
+
+  it("rejects a limit below one", () => {
+    expect(() => createRateLimiter({ limit: 0, windowMs: 1000 })).toThrow(RangeError);
+  });
+});
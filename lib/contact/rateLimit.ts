@@ -0,0 +1,47 @@
+export interface RateLimitOptions {
+  /** Most requests one key may make per window. */
+  limit: number;
+  /** Window length in milliseconds. */
+  windowMs: number;
+}
+
+export type RateLimitResult = { allowed: true } | { allowed: false; retryAfterMs: number };
+
+// Past this many tracked keys, each hit first forgets the ones whose window has passed
+const PRUNE_THRESHOLD = 1000;
+
+/**
+ * Creates an in-memory sliding-window rate limiter: a key (e.g. a client IP) may make
+ * `limit` requests in any `windowMs` span. State lives in this process only, so each
+ * server instance counts on its own.
+ */
+export function createRateLimiter({ limit, windowMs }: RateLimitOptions) {
+  if (!Number.isInteger(limit) || limit < 1) throw new RangeError("limit must be a positive integer.");
+  if (!(windowMs > 0)) throw new RangeError("windowMs must be positive.");
+
+  // Times of each key's requests within the window, oldest first
+  const hits = new Map<string, number[]>();
+
+  /**
+   * Records a request by `key` if it is within the limit.
+   * @param now Current time in milliseconds; defaults to the clock.
+   */
+  const hit = (key: string, now = Date.now()): RateLimitResult => {
+    if (hits.size > PRUNE_THRESHOLD) {
+      for (const [k, times] of hits) {
+        if (times[times.length - 1] <= now - windowMs) hits.delete(k);
+      }
+    }
+
+    const recent = (hits.get(key) ?? []).filter((time) => time > now - windowMs);
+    if (recent.length >= limit) {
+      hits.set(key, recent);
+      return { allowed: false, retryAfterMs: recent[0] + windowMs - now };
+    }
+    recent.push(now);
+    hits.set(key, recent);
+    return { allowed: true };
+  };
+
+  return { hit };
+}
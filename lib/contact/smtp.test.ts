@@ -0,0 +1,93 @@
+import { once } from "node:events";
+import net from "node:net";
+import { afterEach, describe, expect, it } from "vitest";
+import { smtpTransport } from "./smtp";
+import type { ContactMessage } from "./types";
+
+const MESSAGE: ContactMessage = {
+  name: "Ada Lovelace",
+  email: "ada@example.com",
+  subject: "Résumé",
+  message: "Hello!\r\n.\r\nA line with only a dot.",
+  receivedAt: "2026-01-02T03:04:05.000Z",
+  ip: "203.0.113.7",
+};
+
+const servers: net.Server[] = [];
+afterEach(() => servers.splice(0).forEach((server) => server.close()));
+
+/**
+ * Starts a scripted SMTP server on a free port. `reply` answers each command line;
+ * every line received is recorded in `lines`.
+ */
+async function fakeSmtp(reply: (line: string) => string | null) {
+  const lines: string[] = [];
+  const server = net.createServer((socket) => {
+    let buffer = "";
+    let inData = false;
+    socket.write("220 fake.example ESMTP\r\n");
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString();
+      let end: number;
+      while ((end = buffer.indexOf("\r\n")) !== -1) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        lines.push(line);
+        if (inData) {
+          if (line === ".") {
+            inData = false;
+            socket.write("250 Queued\r\n");
+          }
+          continue;
+        }
+        if (line === "DATA") inData = true;
+        const answer = reply(line);
+        if (answer) socket.write(`${answer}\r\n`);
+        if (line === "QUIT") socket.end();
+      }
+    });
+  });
+  servers.push(server);
+  server.listen(0, "127.0.0.1");
+  await once(server, "listening");
+  return { port: (server.address() as net.AddressInfo).port, lines };
+}
+
+const happyPath = (line: string) =>
+  line.startsWith("EHLO") ? "250-fake.example\r\n250 AUTH PLAIN"
+  : line.startsWith("AUTH") ? "235 OK"
+  : line === "DATA" ? "354 Go ahead"
+  : line === "QUIT" ? "221 Bye"
+  : "250 OK";
+
+describe("smtpTransport", () => {
+  it("sends the mail with the visitor as Reply-To", async () => {
+    const { port, lines } = await fakeSmtp(happyPath);
+    const transport = smtpTransport({ host: "127.0.0.1", port, secure: false, from: "site@example.com", to: "me@example.com" });
+    await transport.send(MESSAGE);
+
+    expect(lines.some((line) => line.startsWith("AUTH"))).toBe(false);
+    expect(lines).toContain("MAIL FROM:<site@example.com>");
+    expect(lines).toContain("RCPT TO:<me@example.com>");
+    expect(lines).toContain(`Reply-To: =?UTF-8?B?${Buffer.from("Ada Lovelace").toString("base64")}?= <ada@example.com>`);
+
+    // The body is base64 between the blank line after the headers and the final dot
+    const data = lines.slice(lines.indexOf("DATA") + 1, lines.lastIndexOf("."));
+    const body = Buffer.from(data.slice(data.indexOf("") + 1).join(""), "base64").toString();
+    expect(body).toContain("IP: 203.0.113.7");
+    expect(body).toContain(MESSAGE.message);
+  });
+
+  it("refuses to log in when the server offers no STARTTLS", async () => {
+    const { port, lines } = await fakeSmtp(happyPath);
+    const transport = smtpTransport({ host: "127.0.0.1", port, secure: false, user: "site", pass: "secret", from: "site@example.com", to: "me@example.com" });
+    await expect(transport.send(MESSAGE)).rejects.toThrow("did not offer STARTTLS");
+    expect(lines.some((line) => line.startsWith("AUTH") || line.startsWith("MAIL"))).toBe(false);
+  });
+
+  it("rejects when the server refuses a step", async () => {
+    const { port } = await fakeSmtp((line) => (line.startsWith("RCPT") ? "550 No such user" : happyPath(line)));
+    const transport = smtpTransport({ host: "127.0.0.1", port, secure: false, from: "site@example.com", to: "nobody@example.com" });
+    await expect(transport.send(MESSAGE)).rejects.toThrow("SMTP server refused the recipient: 550 No such user");
+  });
+});
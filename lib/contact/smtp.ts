@@ -0,0 +1,188 @@
+import { once } from "node:events";
+import net from "node:net";
+import { hostname } from "node:os";
+import tls from "node:tls";
+import type { ContactMessage, ContactTransport } from "./types";
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  /** Connect over TLS from the start (usually port 465); otherwise STARTTLS is used when offered. */
+  secure: boolean;
+  /** Login for AUTH PLAIN, only ever sent over TLS; omit for a server that relays without one. */
+  user?: string;
+  pass?: string;
+  /** Envelope and From: address, e.g. "site@example.com". */
+  from: string;
+  /** Where messages are delivered. */
+  to: string;
+  /** Milliseconds to wait for any one server reply (default 10 s). */
+  timeout?: number;
+}
+
+interface Reply {
+  code: number;
+  text: string;
+}
+
+/**
+ * Collects the server's replies on a socket, joining multi-line ones ("250-...", "250 ...").
+ * `next` resolves with the next reply, or rejects once the socket fails, closes or times out.
+ */
+function readReplies(socket: net.Socket, timeout: number) {
+  const replies: Reply[] = [];
+  let waiter: { resolve: (reply: Reply) => void; reject: (error: Error) => void } | null = null;
+  let failure: Error | null = null;
+  let buffer = "";
+  let lines: string[] = [];
+
+  const fail = (error: Error) => {
+    failure ??= error;
+    waiter?.reject(failure);
+    waiter = null;
+  };
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString("utf8");
+    let end: number;
+    while ((end = buffer.indexOf("\n")) !== -1) {
+      const line = buffer.slice(0, end).replace(/\r$/, "");
+      buffer = buffer.slice(end + 1);
+      lines.push(line);
+      if (line[3] === "-") continue;
+
+      const reply = { code: parseInt(line.slice(0, 3)), text: lines.map((l) => l.slice(4)).join("\n") };
+      lines = [];
+      if (waiter) {
+        waiter.resolve(reply);
+        waiter = null;
+      } else {
+        replies.push(reply);
+      }
+    }
+  };
+  const onClose = () => fail(new Error("The SMTP server closed the connection."));
+  const onTimeout = () => {
+    fail(new Error("The SMTP server did not reply in time."));
+    socket.destroy();
+  };
+
+  socket.on("data", onData);
+  socket.on("error", fail);
+  socket.on("close", onClose);
+  socket.setTimeout(timeout, onTimeout);
+
+  return {
+    next: (): Promise<Reply> =>
+      replies.length > 0 ? Promise.resolve(replies.shift()!)
+      : failure ? Promise.reject(failure)
+      : new Promise((resolve, reject) => (waiter = { resolve, reject })),
+    /** Stops reading, e.g. before the socket is handed to TLS. */
+    detach: () => {
+      socket.off("data", onData);
+      socket.off("error", fail);
+      socket.off("close", onClose);
+      socket.setTimeout(0);
+    },
+  };
+}
+
+// RFC 2047 encoded word, so header text may hold any character
+const encodeHeader = (text: string) => `=?UTF-8?B?${Buffer.from(text, "utf8").toString("base64")}?=`;
+
+/**
+ * Builds the mail: headers, then a base64 plain-text body (which also spares the body
+ * from dot-stuffing and line-length limits).
+ */
+export function formatMail(message: ContactMessage, from: string, to: string): string {
+  const body = [
+    `From: ${message.name} <${message.email}>`,
+    ...(message.ip ? [`IP: ${message.ip}`] : []),
+    `Received: ${message.receivedAt}`,
+    "",
+    message.message,
+  ].join("\r\n");
+
+  return [
+    `From: ${encodeHeader("Contact Form")} <${from}>`,
+    `To: <${to}>`,
+    `Reply-To: ${encodeHeader(message.name)} <${message.email}>`,
+    `Subject: ${encodeHeader(`[Contact] ${message.subject}`)}`,
+    `Date: ${new Date(message.receivedAt).toUTCString()}`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    ...(Buffer.from(body, "utf8").toString("base64").match(/.{1,76}/g) ?? []),
+  ].join("\r\n");
+}
+
+/**
+ * Sends one message over SMTP: EHLO, STARTTLS when offered, AUTH PLAIN, then the mail.
+ * Credentials are only sent once the connection is encrypted (`secure`, or after STARTTLS).
+ * @throws Error naming the command the server refused, why the connection failed, or that
+ * a login was configured but the server offered no way to encrypt it.
+ */
+async function deliver(options: SmtpOptions, message: ContactMessage) {
+  const { host, port, secure, user, pass, from, to, timeout = 10_000 } = options;
+  let socket: net.Socket = secure ? tls.connect({ host, port, servername: host }) : net.connect({ host, port });
+  let replies = readReplies(socket, timeout);
+  let encrypted = secure;
+
+  const expect = async (step: string, ...codes: number[]) => {
+    const reply = await replies.next();
+    if (!codes.includes(reply.code)) {
+      throw new Error(`SMTP server refused ${step}: ${reply.code} ${reply.text}`);
+    }
+    return reply;
+  };
+  const command = (line: string, step: string, ...codes: number[]) => {
+    socket.write(`${line}\r\n`);
+    return expect(step, ...codes);
+  };
+
+  try {
+    await expect("the connection", 220);
+    const capabilities = await command(`EHLO ${hostname()}`, "EHLO", 250);
+
+    if (!secure && /^STARTTLS\b/im.test(capabilities.text)) {
+      await command("STARTTLS", "STARTTLS", 220);
+      replies.detach();
+      socket = tls.connect({ socket, servername: host });
+      replies = readReplies(socket, timeout);
+      await once(socket, "secureConnect");
+      await command(`EHLO ${hostname()}`, "EHLO", 250);
+      encrypted = true;
+    }
+
+    if (user) {
+      // Without TLS the password would cross the network in the clear (or a stripped STARTTLS would expose it)
+      if (!encrypted) {
+        throw new Error("The SMTP server did not offer STARTTLS, so the login was not sent over an unencrypted connection.");
+      }
+      const credentials = Buffer.from(`\0${user}\0${pass ?? ""}`, "utf8").toString("base64");
+      await command(`AUTH PLAIN ${credentials}`, "the login", 235);
+    }
+    await command(`MAIL FROM:<${from}>`, "the sender", 250);
+    await command(`RCPT TO:<${to}>`, "the recipient", 250, 251);
+    await command("DATA", "DATA", 354);
+    await command(`${formatMail(message, from, to)}\r\n.`, "the message", 250);
+    socket.write("QUIT\r\n");
+  } finally {
+    replies.detach();
+    // Nothing reads the socket from here on, and a late error on it must not crash the server
+    socket.on("error", () => {});
+    socket.end();
+  }
+}
+
+/**
+ * Transport that sends each message by email through an SMTP server, with `Reply-To`
+ * set to the visitor so answering the mail answers them.
+ */
+export function smtpTransport(options: SmtpOptions): ContactTransport {
+  return {
+    name: "smtp",
+    send: (message) => deliver(options, message),
+  };
+}
@@ -0,0 +1,17 @@
+import { describe, expect, it } from "vitest";
+import { transportFromEnv } from "./transport";
+
+const SMTP = { SMTP_HOST: "smtp.example.com", SMTP_FROM: "site@example.com", CONTACT_TO: "me@example.com" };
+
+describe("transportFromEnv", () => {
+  it("picks the outbox file without an SMTP host, and SMTP with one", () => {
+    expect(transportFromEnv({}).name).toBe("file");
+    expect(transportFromEnv(SMTP).name).toBe("smtp");
+  });
+
+  it("rejects an SMTP port that is not a port number", () => {
+    expect(() => transportFromEnv({ ...SMTP, SMTP_PORT: "smtp" })).toThrow('SMTP_PORT must be a port number from 1 to 65535 (got "smtp").');
+    expect(() => transportFromEnv({ ...SMTP, SMTP_PORT: "70000" })).toThrow(Error);
+    expect(transportFromEnv({ ...SMTP, SMTP_PORT: "2525" }).name).toBe("smtp");
+  });
+});
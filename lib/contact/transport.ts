@@ -0,0 +1,37 @@
+import { join } from "node:path";
+import { fileOutbox } from "./outbox";
+import { smtpTransport } from "./smtp";
+import type { ContactTransport } from "./types";
+
+/** Outbox file used when neither SMTP nor CONTACT_OUTBOX is configured; .data/ is git-ignored. */
+export const DEFAULT_OUTBOX = join(".data", "contact-outbox.jsonl");
+
+/**
+ * Picks the transport from environment variables. With `SMTP_HOST` set, messages are
+ * emailed to `CONTACT_TO` from `SMTP_FROM`, logging in as `SMTP_USER`/`SMTP_PASS` if given;
+ * `SMTP_SECURE=true` selects TLS from the start, and `SMTP_PORT` defaults to 465 or 587 to
+ * match. Otherwise messages are appended to the `CONTACT_OUTBOX` file.
+ * @throws Error when SMTP is configured without a recipient or sender, or with an invalid port.
+ */
+export function transportFromEnv(env: Record<string, string | undefined> = process.env): ContactTransport {
+  if (!env.SMTP_HOST) return fileOutbox(env.CONTACT_OUTBOX || DEFAULT_OUTBOX);
+
+  const secure = env.SMTP_SECURE === "true";
+  const from = env.SMTP_FROM || env.SMTP_USER;
+  if (!env.CONTACT_TO || !from) {
+    throw new Error("SMTP_HOST is set, so CONTACT_TO and SMTP_FROM (or SMTP_USER) must be set too.");
+  }
+  const port = env.SMTP_PORT ? Number(env.SMTP_PORT) : secure ? 465 : 587;
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new Error(`SMTP_PORT must be a port number from 1 to 65535 (got "${env.SMTP_PORT}").`);
+  }
+  return smtpTransport({
+    host: env.SMTP_HOST,
+    port,
+    secure,
+    user: env.SMTP_USER,
+    pass: env.SMTP_PASS,
+    from,
+    to: env.CONTACT_TO,
+  });
+}
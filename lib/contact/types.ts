@@ -0,0 +1,33 @@
+// Shared types for the contact form and its delivery.
+
+/** Fields of the contact form, as typed by the visitor. */
+export interface ContactInput {
+  name: string;
+  email: string;
+  subject: string;
+  message: string;
+}
+
+export type ContactField = keyof ContactInput;
+
+/** One problem with a submission; `body` covers the request as a whole. */
+export interface ContactError {
+  field: ContactField | "body";
+  message: string;
+}
+
+/** An accepted submission, ready to deliver. */
+export interface ContactMessage extends ContactInput {
+  /** ISO 8601 time the server accepted it. */
+  receivedAt: string;
+  /** Sender's address as reported by the proxy in front of the server, if any. */
+  ip?: string;
+}
+
+/** Delivers accepted messages, e.g. to a file outbox or over SMTP. */
+export interface ContactTransport {
+  /** Short name for logs, e.g. "smtp". */
+  name: string;
+  /** Resolves once the message is stored or handed over; rejects if it could not be. */
+  send(message: ContactMessage): Promise<void>;
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { validateContact } from "./validate";
+
+const VALID = { name: "Ada Lovelace", email: "ada@example.com", subject: "Scheduling demo", message: "Loved the MLFQ simulator!" };
+
+describe("validateContact", () => {
+  it("trims and accepts a complete submission", () => {
+    expect(validateContact({ ...VALID, name: "  Ada Lovelace ", extra: "ignored" })).toEqual({ contact: VALID });
+  });
+
+  it("reports each bad field", () => {
+    const outcome = validateContact({ name: "", email: "ada@", subject: 42, message: "Hi" });
+    expect("errors" in outcome && outcome.errors.map((e) => e.field)).toEqual(["name", "email", "subject", "message"]);
+  });
+
+  it("rejects line breaks that could inject mail headers", () => {
+    const outcome = validateContact({ ...VALID, subject: "Hello\r\nBcc: everyone@example.com" });
+    expect(outcome).toEqual({ errors: [{ field: "subject", message: "Subject must fit on one line." }] });
+  });
+
+  it("rejects a body that is not an object", () => {
+    expect(validateContact([VALID])).toEqual({ errors: [{ field: "body", message: "Request body must be a JSON object." }] });
+  });
+});
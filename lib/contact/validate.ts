@@ -0,0 +1,64 @@
+import type { ContactError, ContactField, ContactInput } from "./types";
+
+/** Length limits per field, after trimming; shared with the form's `maxLength` attributes. */
+export const CONTACT_LIMITS: Record<ContactField, { min: number; max: number }> = {
+  name: { min: 2, max: 100 },
+  email: { min: 3, max: 254 },
+  subject: { min: 3, max: 150 },
+  message: { min: 10, max: 5000 },
+};
+
+/** Hidden form field people never see; bots that fill in every input give themselves away. */
+export const HONEYPOT_FIELD = "website";
+
+const LABELS: Record<ContactField, string> = {
+  name: "Name",
+  email: "Email",
+  subject: "Subject",
+  message: "Message",
+};
+
+// Deliberately loose: one @, a dot in the domain, and nothing that could break a mail header
+const EMAIL_PATTERN = /^[^\s@<>()[\]",;:\\]+@[^\s@<>()[\]",;:\\]+\.[^\s@<>()[\]",;:\\]+$/;
+
+// Line breaks in the name or subject could inject extra mail headers
+const LINE_BREAK = /[\r\n]/;
+
+/**
+ * Validates an untrusted contact form submission (parsed JSON or the form's own state).
+ * Every field is trimmed, must be a string within CONTACT_LIMITS, and the name and
+ * subject must fit on one line.
+ * @returns The trimmed fields, or one error per bad field.
+ */
+export function validateContact(input: unknown): { contact: ContactInput } | { errors: ContactError[] } {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    return { errors: [{ field: "body", message: "Request body must be a JSON object." }] };
+  }
+
+  const body = input as Record<string, unknown>;
+  const errors: ContactError[] = [];
+  const contact = {} as ContactInput;
+
+  for (const field of Object.keys(CONTACT_LIMITS) as ContactField[]) {
+    const value = body[field];
+    const label = LABELS[field];
+    const { min, max } = CONTACT_LIMITS[field];
+    const text = typeof value === "string" ? value.trim() : "";
+
+    if (typeof value !== "string" && value !== undefined) {
+      errors.push({ field, message: `${label} must be text.` });
+    } else if (text === "") {
+      errors.push({ field, message: `${label} is required.` });
+    } else if (field === "email" && !EMAIL_PATTERN.test(text)) {
+      errors.push({ field, message: "Email must be a valid address, like name@example.com." });
+    } else if (text.length < min || text.length > max) {
+      errors.push({ field, message: `${label} must be ${min}–${max} characters long.` });
+    } else if ((field === "name" || field === "subject") && LINE_BREAK.test(text)) {
+      errors.push({ field, message: `${label} must fit on one line.` });
+    } else {
+      contact[field] = text;
+    }
+  }
+
+  return errors.length > 0 ? { errors } : { contact };
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { checkSafety, computeNeed, detectDeadlock, requestResources, resourceStateError } from "./banker";
+import type { ResourceState } from "./types";
+
+// Silberschatz, Operating System Concepts: five processes, resource types A B C
+const TEXTBOOK: ResourceState = {
+  allocation: [[0, 1, 0], [2, 0, 0], [3, 0, 2], [2, 1, 1], [0, 0, 2]],
+  max: [[7, 5, 3], [3, 2, 2], [9, 0, 2], [2, 2, 2], [4, 3, 3]],
+  available: [3, 3, 2],
+};
+
+describe("banker's algorithm", () => {
+  it("computes Need as Max minus Allocation", () => {
+    expect(computeNeed(TEXTBOOK)).toEqual([[7, 4, 3], [1, 2, 2], [6, 0, 0], [0, 1, 1], [4, 3, 1]]);
+  });
+
+  it("finds a safe sequence and records every check", () => {
+    const result = checkSafety(TEXTBOOK);
+    expect(result.safe).toBe(true);
+    expect(result.sequence).toEqual([1, 3, 4, 0, 2]);
+    expect(result.steps[0]).toEqual({ process: 0, work: [3, 3, 2], demand: [7, 4, 3], canFinish: false });
+    expect(result.steps[1]).toMatchObject({ process: 1, canFinish: true });
+    expect(result.steps[2].work).toEqual([5, 3, 2]);
+  });
+
+  it("reports an unsafe state", () => {
+    const result = checkSafety({ ...TEXTBOOK, available: [0, 0, 0] });
+    expect(result).toMatchObject({ safe: false, sequence: [] });
+  });
+
+  it("grants a request only when it leaves the system safe", () => {
+    const granted = requestResources(TEXTBOOK, 1, [1, 0, 2]);
+    expect(granted.granted).toBe(true);
+    expect(granted.state!.available).toEqual([2, 3, 0]);
+    expect(granted.state!.allocation[1]).toEqual([3, 0, 2]);
+
+    const after = granted.state!;
+    const unavailable = requestResources(after, 4, [3, 3, 0]);
+    expect(unavailable.granted).toBe(false);
+    expect(unavailable.state).toBeUndefined();
+    expect(requestResources(after, 0, [0, 2, 0])).toMatchObject({ granted: false, safety: { safe: false } });
+    expect(requestResources(TEXTBOOK, 3, [1, 0, 0]).message).toMatch(/more than its remaining Need/);
+  });
+
+  it("rejects allocations above the maximum and mismatched matrices", () => {
+    expect(resourceStateError(TEXTBOOK)).toBeNull();
+    expect(resourceStateError({ ...TEXTBOOK, max: [[0, 0, 0], ...TEXTBOOK.max.slice(1)] })).toBe(
+      "P0: Allocation of B (1) exceeds its Max (0)."
+    );
+    expect(resourceStateError({ ...TEXTBOOK, available: [3, 3] })).not.toBeNull();
+  });
+});
+
+describe("detectDeadlock", () => {
+  const allocation = [[0, 1, 0], [2, 0, 0], [3, 0, 3], [2, 1, 1], [0, 0, 2]];
+  const request = [[0, 0, 0], [2, 0, 2], [0, 0, 0], [1, 0, 0], [0, 0, 2]];
+
+  it("finds no deadlock when every process can finish", () => {
+    const result = detectDeadlock(allocation, request, [0, 0, 0]);
+    expect(result.deadlocked).toEqual([]);
+    expect(result.sequence).toEqual([0, 2, 3, 4, 1]);
+  });
+
+  it("reports the processes that can never finish", () => {
+    const blocked = request.map((row, i) => (i === 2 ? [0, 0, 1] : row));
+    expect(detectDeadlock(allocation, blocked, [0, 0, 0]).deadlocked).toEqual([1, 2, 3, 4]);
+  });
+
+  it("never counts a process that holds nothing as deadlocked", () => {
+    expect(detectDeadlock([[0], [1]], [[5], [0]], [0]).deadlocked).toEqual([]);
+  });
+});
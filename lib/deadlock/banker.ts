@@ -0,0 +1,122 @@
+import { MAX_DEADLOCK_PROCESSES, MAX_INSTANCES, MAX_RESOURCE_TYPES, type DetectionResult, type RequestOutcome, type ResourceState, type SafetyResult, type SafetyStep } from "./types";
+
+/** Name of a resource type: A, B, C, … */
+export const resourceName = (j: number) => String.fromCharCode(65 + j);
+
+/** Name of a process, numbered from 0 as in most textbooks. */
+export const processName = (i: number) => `P${i}`;
+
+const fits = (demand: number[], work: number[]) => demand.every((d, j) => d <= work[j]);
+const isCount = (value: number) => Number.isInteger(value) && value >= 0 && value <= MAX_INSTANCES;
+
+/**
+ * Checks that the matrices line up and every process holds no more than its maximum.
+ * @returns The message for the error box, or null when the state is usable.
+ */
+export function resourceStateError({ allocation, max, available }: ResourceState): string | null {
+  const types = available.length;
+  if (types < 1 || types > MAX_RESOURCE_TYPES) {
+    return `There must be 1 to ${MAX_RESOURCE_TYPES} resource types.`;
+  }
+  if (allocation.length < 1 || allocation.length > MAX_DEADLOCK_PROCESSES || max.length !== allocation.length) {
+    return `There must be 1 to ${MAX_DEADLOCK_PROCESSES} processes.`;
+  }
+  if (![available, ...allocation, ...max].every((row) => row.length === types && row.every(isCount))) {
+    return `Every cell must be a whole number from 0 to ${MAX_INSTANCES}.`;
+  }
+  for (let i = 0; i < allocation.length; i++) {
+    const j = allocation[i].findIndex((held, r) => held > max[i][r]);
+    if (j !== -1) {
+      return `${processName(i)}: Allocation of ${resourceName(j)} (${allocation[i][j]}) exceeds its Max (${max[i][j]}).`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Need = Max − Allocation, per process and resource type.
+ */
+export function computeNeed({ allocation, max }: ResourceState): number[][] {
+  return allocation.map((row, i) => row.map((held, j) => max[i][j] - held));
+}
+
+/**
+ * Repeatedly sweeps the processes in index order, letting any process whose demand fits in
+ * the free instances finish and release its allocation, until a sweep frees nobody.
+ */
+function findFinishOrder(allocation: number[][], demand: number[][], available: number[], finished: boolean[]) {
+  const work = [...available];
+  const sequence: number[] = [];
+  const steps: SafetyStep[] = [];
+  let progress = true;
+  while (progress) {
+    progress = false;
+    for (let i = 0; i < allocation.length; i++) {
+      if (finished[i]) continue;
+      const canFinish = fits(demand[i], work);
+      steps.push({ process: i, work: [...work], demand: demand[i], canFinish });
+      if (canFinish) {
+        allocation[i].forEach((held, j) => (work[j] += held));
+        finished[i] = true;
+        sequence.push(i);
+        progress = true;
+      }
+    }
+  }
+  return { sequence, steps };
+}
+
+/**
+ * Banker's safety algorithm: the state is safe when every process can finish in some order,
+ * each getting its full remaining Need from what the earlier ones released.
+ * @returns Whether the state is safe, the finishing order found, and every check made.
+ */
+export function checkSafety(state: ResourceState): SafetyResult {
+  const finished = state.allocation.map(() => false);
+  const { sequence, steps } = findFinishOrder(state.allocation, computeNeed(state), state.available, finished);
+  return { safe: finished.every(Boolean), sequence, steps };
+}
+
+/**
+ * Banker's resource-request algorithm: grants the request only if it is within the process's
+ * Need, is available now, and leaves the system in a safe state.
+ * @param process Index of the requesting process.
+ * @param request Instances asked for, per resource type.
+ */
+export function requestResources(state: ResourceState, process: number, request: number[]): RequestOutcome {
+  const name = processName(process);
+  if (!fits(request, computeNeed(state)[process])) {
+    return { granted: false, message: `${name} asked for more than its remaining Need, which is an error.` };
+  }
+  if (!fits(request, state.available)) {
+    return { granted: false, message: `${name} must wait: not enough instances are available.` };
+  }
+
+  // Pretend to grant it, then check the resulting state
+  const granted: ResourceState = {
+    allocation: state.allocation.map((row, i) => (i === process ? row.map((held, j) => held + request[j]) : row)),
+    max: state.max,
+    available: state.available.map((free, j) => free - request[j]),
+  };
+  const safety = checkSafety(granted);
+  return safety.safe
+    ? { granted: true, message: `${name}'s request is granted: the resulting state is safe.`, state: granted, safety }
+    : { granted: false, message: `${name} must wait: granting the request would leave the system unsafe.`, state: granted, safety };
+}
+
+/**
+ * Deadlock detection for resources with several instances: processes that hold nothing
+ * cannot be deadlocked; the rest finish only if their outstanding requests can be met.
+ * @param allocation Instances held, per process and resource type.
+ * @param request Instances each process is currently waiting for.
+ * @param available Free instances per resource type.
+ */
+export function detectDeadlock(allocation: number[][], request: number[][], available: number[]): DetectionResult {
+  const finished = allocation.map((row) => row.every((held) => held === 0));
+  const { sequence, steps } = findFinishOrder(allocation, request, available, finished);
+  return {
+    deadlocked: finished.flatMap((done, i) => (done ? [] : [i])),
+    sequence,
+    steps,
+  };
+}
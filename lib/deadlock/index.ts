@@ -0,0 +1,10 @@
+export * from "./types";
+export {
+  checkSafety,
+  computeNeed,
+  detectDeadlock,
+  processName,
+  requestResources,
+  resourceName,
+  resourceStateError,
+} from "./banker";
@@ -0,0 +1,55 @@
+// Shared types for the Banker's algorithm and deadlock detection.
+
+/** Most processes a resource table may have. */
+export const MAX_DEADLOCK_PROCESSES = 12;
+
+/** Most resource types a resource table may have. */
+export const MAX_RESOURCE_TYPES = 6;
+
+/** Largest instance count accepted in any cell. */
+export const MAX_INSTANCES = 999;
+
+/**
+ * Rows are processes and columns resource types; `available` has one entry per type.
+ */
+export interface ResourceState {
+  allocation: number[][];
+  max: number[][];
+  available: number[];
+}
+
+/** One check of a process while looking for an order in which every process can finish. */
+export interface SafetyStep {
+  process: number;
+  /** Free instances before the check. */
+  work: number[];
+  /** What the process still needs (safety) or is waiting for (detection). */
+  demand: number[];
+  /** `demand <= work`: the process can finish and release its allocation. */
+  canFinish: boolean;
+}
+
+export interface SafetyResult {
+  safe: boolean;
+  /** Processes in the order they finish; every process when safe. */
+  sequence: number[];
+  steps: SafetyStep[];
+}
+
+export interface RequestOutcome {
+  granted: boolean;
+  /** Why the request was granted or refused, for display. */
+  message: string;
+  /** State after granting; unset when the request was refused before the safety check. */
+  state?: ResourceState;
+  /** Safety check of `state`. */
+  safety?: SafetyResult;
+}
+
+export interface DetectionResult {
+  /** Processes that can never finish. */
+  deadlocked: number[];
+  /** Processes in the order they can finish. */
+  sequence: number[];
+  steps: SafetyStep[];
+}
@@ -0,0 +1,7 @@
+export * from "./types";
+export { scheduleDisk } from "./simulate";
+export {
+  DISK_ALGORITHMS,
+  DISK_ALGORITHM_IDS,
+  type DiskAlgorithmInfo,
+} from "./registry";
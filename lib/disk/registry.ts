@@ -0,0 +1,21 @@
+import type { DiskAlgorithmId } from "./types";
+
+export interface DiskAlgorithmInfo {
+  id: DiskAlgorithmId;
+  /** Short label used on buttons and in tables, e.g. "SSTF". */
+  name: string;
+  title: string;
+  /** How the next request is chosen, shown under the head path. */
+  rule: string;
+}
+
+export const DISK_ALGORITHMS: Record<DiskAlgorithmId, DiskAlgorithmInfo> = {
+  fcfs: { id: "fcfs", name: "FCFS", title: "First-Come, First-Served", rule: "Serve requests in the order they arrived" },
+  sstf: { id: "sstf", name: "SSTF", title: "Shortest Seek Time First", rule: "Serve the request closest to the head" },
+  scan: { id: "scan", name: "SCAN", title: "SCAN (Elevator)", rule: "Sweep to the disk edge serving requests, then reverse" },
+  cscan: { id: "cscan", name: "C-SCAN", title: "Circular SCAN", rule: "Sweep to the disk edge, return to the other edge, and sweep the same way again" },
+  look: { id: "look", name: "LOOK", title: "LOOK", rule: "Sweep only as far as the last request, then reverse" },
+  clook: { id: "clook", name: "C-LOOK", title: "Circular LOOK", rule: "Sweep to the last request, jump back to the furthest request behind, and sweep the same way again" },
+};
+
+export const DISK_ALGORITHM_IDS = Object.keys(DISK_ALGORITHMS) as DiskAlgorithmId[];
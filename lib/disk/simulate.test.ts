@@ -0,0 +1,91 @@
+import fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import { scheduleDisk } from "./simulate";
+import { DISK_ALGORITHM_IDS } from "./registry";
+import type { DiskAlgorithmId, DiskSettings } from "./types";
+
+// Silberschatz, Operating System Concepts: 200 cylinders, head on 53
+const QUEUE = [98, 183, 37, 122, 14, 124, 65, 67];
+const UP: DiskSettings = { head: 53, direction: "up", cylinders: 200 };
+const DOWN: DiskSettings = { ...UP, direction: "down" };
+
+const path = (algorithm: DiskAlgorithmId, settings: DiskSettings, requests = QUEUE) =>
+  scheduleDisk(requests, settings, algorithm).stops.map((s) => s.cylinder);
+
+describe("scheduleDisk", () => {
+  it("matches the textbook seek distances", () => {
+    expect(scheduleDisk(QUEUE, UP, "fcfs").totalSeek).toBe(640);
+    expect(scheduleDisk(QUEUE, UP, "sstf").totalSeek).toBe(236);
+    expect(scheduleDisk(QUEUE, DOWN, "scan").totalSeek).toBe(236);
+  });
+
+  it("sweeps to the edge and back under SCAN", () => {
+    expect(path("scan", DOWN)).toEqual([53, 37, 14, 0, 65, 67, 98, 122, 124, 183]);
+    expect(path("scan", UP)).toEqual([53, 65, 67, 98, 122, 124, 183, 199, 37, 14]);
+    expect(scheduleDisk(QUEUE, UP, "scan").totalSeek).toBe(331);
+  });
+
+  it("turns at the last request under LOOK", () => {
+    expect(path("look", UP)).toEqual([53, 65, 67, 98, 122, 124, 183, 37, 14]);
+    expect(scheduleDisk(QUEUE, UP, "look").totalSeek).toBe(299);
+  });
+
+  it("counts the return sweep of C-SCAN and C-LOOK", () => {
+    const cscan = scheduleDisk(QUEUE, UP, "cscan");
+    expect(cscan.stops.map((s) => s.cylinder)).toEqual([53, 65, 67, 98, 122, 124, 183, 199, 0, 14, 37]);
+    expect(cscan.stops[8]).toMatchObject({ distance: 199, wrap: true });
+    expect(cscan.totalSeek).toBe(382);
+
+    const clook = scheduleDisk(QUEUE, UP, "clook");
+    expect(clook.stops.map((s) => s.cylinder)).toEqual([53, 65, 67, 98, 122, 124, 183, 14, 37]);
+    expect(clook.stops[7]).toMatchObject({ request: 4, wrap: true });
+    expect(clook.totalSeek).toBe(322);
+  });
+
+  it("only sweeps to an edge while requests are waiting", () => {
+    expect(path("scan", UP, [60, 90])).toEqual([53, 60, 90]);
+    expect(path("cscan", UP, [60, 90])).toEqual([53, 60, 90]);
+  });
+
+  it("serves a request on the head's cylinder first, and equal distances in queue order", () => {
+    expect(path("scan", DOWN, [70, 53, 10])).toEqual([53, 53, 10, 0, 70]);
+    expect(scheduleDisk([63, 43], UP, "sstf").stops[1]).toMatchObject({ cylinder: 63, request: 0 });
+  });
+
+  it("rejects settings off the disk", () => {
+    expect(() => scheduleDisk(QUEUE, { ...UP, cylinders: 0 }, "fcfs")).toThrow(RangeError);
+    expect(() => scheduleDisk(QUEUE, { ...UP, head: 200 }, "fcfs")).toThrow(RangeError);
+    expect(() => scheduleDisk([200], UP, "fcfs")).toThrow(RangeError);
+  });
+
+  it("serves every request exactly once with a consistent seek total", () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 500 }).chain((cylinders) =>
+          fc.record({
+            cylinders: fc.constant(cylinders),
+            head: fc.integer({ min: 0, max: cylinders - 1 }),
+            direction: fc.constantFrom("up" as const, "down" as const),
+            requests: fc.array(fc.integer({ min: 0, max: cylinders - 1 }), { maxLength: 30 }),
+          })
+        ),
+        fc.constantFrom(...DISK_ALGORITHM_IDS),
+        ({ requests, ...settings }, algorithm) => {
+          const result = scheduleDisk(requests, settings, algorithm);
+          const served = result.stops.flatMap((s) => (s.request === undefined ? [] : [s.request]));
+          expect([...served].sort((a, b) => a - b)).toEqual(requests.map((_, i) => i));
+          for (const stop of result.stops) {
+            if (stop.request !== undefined) expect(stop.cylinder).toBe(requests[stop.request]);
+          }
+          const moved = result.stops.slice(1).reduce((sum, s, i) => sum + Math.abs(s.cylinder - result.stops[i].cylinder), 0);
+          expect(result.totalSeek).toBe(moved);
+          // LOOK crosses the span of the head and requests at most twice
+          if (algorithm === "look") {
+            const all = [settings.head, ...requests];
+            expect(result.totalSeek).toBeLessThanOrEqual(2 * (Math.max(...all) - Math.min(...all)));
+          }
+        }
+      )
+    );
+  });
+});
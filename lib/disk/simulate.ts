@@ -0,0 +1,96 @@
+import { MAX_CYLINDERS, MAX_REQUESTS, type DiskAlgorithmId, type DiskResult, type DiskSettings, type DiskStop } from "./types";
+
+/**
+ * Serves a queue of cylinder requests and records the path the head takes.
+ *
+ * - FCFS serves requests in queue order.
+ * - SSTF always serves the closest request next.
+ * - SCAN serves everything in the starting direction, runs on to the disk edge, then
+ *   reverses.
+ * - C-SCAN serves everything in the starting direction, runs on to the disk edge, returns
+ *   to the opposite edge, and carries on in the same direction.
+ * - LOOK and C-LOOK do the same as SCAN and C-SCAN but turn at the last request instead of
+ *   the disk edge.
+ *
+ * A request on the head's starting cylinder counts as lying ahead of it. Requests at equal
+ * distance (SSTF) or on the same cylinder are served in queue order. The head only sweeps to
+ * an edge or returns when requests are still waiting, and the return sweep of C-SCAN and
+ * C-LOOK counts towards the seek distance.
+ * @param requests Requested cylinders in queue order.
+ * @param settings Head position, starting direction and disk size.
+ * @param algorithm Scheduling policy.
+ * @returns Every stop of the head and the total seek distance.
+ */
+export function scheduleDisk(requests: number[], settings: DiskSettings, algorithm: DiskAlgorithmId): DiskResult {
+  const { head, direction, cylinders } = settings;
+  if (!Number.isInteger(cylinders) || cylinders < 1 || cylinders > MAX_CYLINDERS) {
+    throw new RangeError(`Cylinder count must be an integer from 1 to ${MAX_CYLINDERS}.`);
+  }
+  const onDisk = (cylinder: number) => Number.isInteger(cylinder) && cylinder >= 0 && cylinder < cylinders;
+  if (!onDisk(head)) {
+    throw new RangeError(`Head position must be a cylinder from 0 to ${cylinders - 1}.`);
+  }
+  if (requests.length > MAX_REQUESTS || !requests.every(onDisk)) {
+    throw new RangeError(`Requests must be at most ${MAX_REQUESTS} cylinders from 0 to ${cylinders - 1}.`);
+  }
+
+  const stops: DiskStop[] = [{ cylinder: head, distance: 0 }];
+  let position = head;
+  const moveTo = (cylinder: number, stop: Partial<DiskStop> = {}) => {
+    stops.push({ cylinder, distance: Math.abs(cylinder - position), ...stop });
+    position = cylinder;
+  };
+  const serve = (request: number, wrap = false) => moveTo(requests[request], { request, ...(wrap && { wrap }) });
+
+  // Requests sorted for each sweep direction, with ties in queue order
+  const indexes = requests.map((_, i) => i);
+  const ascending = [...indexes].sort((a, b) => requests[a] - requests[b] || a - b);
+  const descending = [...indexes].sort((a, b) => requests[b] - requests[a] || a - b);
+  const up = direction === "up";
+  const ahead = up ? ascending.filter((i) => requests[i] >= head) : descending.filter((i) => requests[i] <= head);
+  // Behind the head, nearest first (after reversing) and furthest first (after wrapping round)
+  const behind = up ? descending.filter((i) => requests[i] < head) : ascending.filter((i) => requests[i] > head);
+  const wrapped = up ? ascending.filter((i) => requests[i] < head) : descending.filter((i) => requests[i] > head);
+  const [edge, oppositeEdge] = up ? [cylinders - 1, 0] : [0, cylinders - 1];
+
+  switch (algorithm) {
+    case "fcfs":
+      indexes.forEach((i) => serve(i));
+      break;
+    case "sstf": {
+      const waiting = [...indexes];
+      while (waiting.length > 0) {
+        const next = waiting.reduce((a, b) => (Math.abs(requests[b] - position) < Math.abs(requests[a] - position) ? b : a));
+        waiting.splice(waiting.indexOf(next), 1);
+        serve(next);
+      }
+      break;
+    }
+    case "scan":
+    case "look":
+      ahead.forEach((i) => serve(i));
+      if (behind.length > 0 && algorithm === "scan" && position !== edge) moveTo(edge);
+      behind.forEach((i) => serve(i));
+      break;
+    case "cscan":
+      ahead.forEach((i) => serve(i));
+      if (wrapped.length > 0) {
+        if (position !== edge) moveTo(edge);
+        moveTo(oppositeEdge, { wrap: true });
+      }
+      wrapped.forEach((i) => serve(i));
+      break;
+    case "clook":
+      ahead.forEach((i) => serve(i));
+      wrapped.forEach((i, n) => serve(i, n === 0));
+      break;
+  }
+
+  const totalSeek = stops.reduce((sum, stop) => sum + stop.distance, 0);
+  return {
+    algorithm,
+    stops,
+    totalSeek,
+    averageSeek: requests.length > 0 ? totalSeek / requests.length : 0,
+  };
+}
@@ -0,0 +1,41 @@
+// Shared types for every disk scheduling algorithm.
+
+/** Largest disk, in cylinders, a simulation may use. */
+export const MAX_CYLINDERS = 100_000;
+
+/** Longest request queue accepted. */
+export const MAX_REQUESTS = 200;
+
+export type DiskAlgorithmId = "fcfs" | "sstf" | "scan" | "cscan" | "look" | "clook";
+
+/** Which way the head is moving at the start: towards higher or lower cylinders. */
+export type HeadDirection = "up" | "down";
+
+export interface DiskSettings {
+  /** Cylinder the head starts on. */
+  head: number;
+  direction: HeadDirection;
+  /** Cylinders on the disk, numbered `0..cylinders - 1`. */
+  cylinders: number;
+}
+
+/** One position the head moves to. */
+export interface DiskStop {
+  cylinder: number;
+  /** Index of the request served here; unset for the start and for sweeps to a disk edge. */
+  request?: number;
+  /** Cylinders moved to get here from the previous stop. */
+  distance: number;
+  /** Reached by the C-SCAN / C-LOOK return sweep. */
+  wrap?: boolean;
+}
+
+export interface DiskResult {
+  algorithm: DiskAlgorithmId;
+  /** Head path, starting with the head's initial position. */
+  stops: DiskStop[];
+  /** Total head movement in cylinders, including any return sweep. */
+  totalSeek: number;
+  /** Total seek per request served. */
+  averageSeek: number;
+}
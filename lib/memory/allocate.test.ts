@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { simulateAllocation } from "./allocate";
+import { translatePaged, translateSegmented } from "./translate";
+import type { FitStrategy, MemoryJob } from "./types";
+
+// A leaves at 5, opening a 10 KB hole below B; C then chooses between it and the 80 KB hole above
+const TWO_HOLES: MemoryJob[] = [
+  { pid: "A", arrival: 0, duration: 5, size: 10 },
+  { pid: "B", arrival: 0, duration: 100, size: 10 },
+  { pid: "C", arrival: 6, duration: 10, size: 5 },
+];
+
+const placedAt = (jobs: MemoryJob[], strategy: FitStrategy, compaction = false) =>
+  Object.fromEntries(
+    simulateAllocation(jobs, { memorySize: 100, strategy, compaction }).placements.map((p) => [p.pid, [p.start, p.allocatedAt]])
+  );
+
+describe("simulateAllocation", () => {
+  it("places each job in the hole its strategy picks", () => {
+    expect(placedAt(TWO_HOLES, "first").C).toEqual([0, 6]);
+    expect(placedAt(TWO_HOLES, "best").C).toEqual([0, 6]);
+    expect(placedAt(TWO_HOLES, "worst").C).toEqual([20, 6]);
+    // The previous allocation (B) ended at 20, so next fit searches on from there
+    expect(placedAt(TWO_HOLES, "next").C).toEqual([20, 6]);
+  });
+
+  it("measures external fragmentation after every event", () => {
+    const result = simulateAllocation(TWO_HOLES, { memorySize: 100, strategy: "first" });
+    const release = result.snapshots.find((s) => s.kind === "release" && s.pid === "A")!;
+    expect(release).toMatchObject({ time: 5, freeTotal: 90, largestHole: 80 });
+    expect(release.fragmentation).toBeCloseTo(1 / 9);
+    expect(release.blocks).toEqual([
+      { start: 0, size: 10, pid: null },
+      { start: 10, size: 10, pid: "B" },
+      { start: 20, size: 80, pid: null },
+    ]);
+    expect(result.endTime).toBe(100);
+  });
+
+  // A and C leave two 40 KB holes either side of B; D needs 60 KB
+  const SPLIT: MemoryJob[] = [
+    { pid: "A", arrival: 0, duration: 5, size: 40 },
+    { pid: "B", arrival: 0, duration: 100, size: 20 },
+    { pid: "C", arrival: 0, duration: 5, size: 40 },
+    { pid: "D", arrival: 5, duration: 10, size: 60 },
+    { pid: "E", arrival: 5, duration: 10, size: 30 },
+  ];
+
+  it("keeps a job waiting until a hole fits, letting smaller jobs go ahead", () => {
+    const result = simulateAllocation(SPLIT, { memorySize: 100, strategy: "first" });
+    const placed = placedAt(SPLIT, "first");
+    expect(placed.D).toEqual([0, 100]);
+    expect(placed.E).toEqual([0, 5]);
+    expect(result.snapshots.find((s) => s.kind === "wait")).toMatchObject({ pid: "D", waiting: ["D"] });
+    expect(result.compactions).toBe(0);
+  });
+
+  it("compacts when the free memory would fit a waiting job", () => {
+    const result = simulateAllocation(SPLIT, { memorySize: 100, strategy: "first", compaction: true });
+    expect(placedAt(SPLIT, "first", true).D).toEqual([20, 5]);
+    expect(result.compactions).toBe(1);
+    const compacted = result.snapshots.find((s) => s.kind === "compact")!;
+    expect(compacted.blocks).toEqual([
+      { start: 0, size: 20, pid: "B" },
+      { start: 20, size: 80, pid: null },
+    ]);
+    expect(compacted.fragmentation).toBe(0);
+  });
+
+  it("rejects jobs larger than memory", () => {
+    expect(() => simulateAllocation([{ pid: "A", arrival: 0, duration: 1, size: 101 }], { memorySize: 100, strategy: "first" })).toThrow(RangeError);
+  });
+});
+
+describe("address translation", () => {
+  // Silberschatz: 4-byte pages, 32-byte memory
+  it("splits a logical address into page and offset", () => {
+    expect(translatePaged(13, 4, [5, 6, 1, 2])).toEqual({ page: 3, offset: 1, frame: 2, physical: 9 });
+    expect(translatePaged(0, 4, [5, 6, 1, 2]).physical).toBe(20);
+    expect(translatePaged(5, 4, [5, null]).error).toMatch(/Page fault/);
+    expect(translatePaged(16, 4, [5, 6, 1, 2]).error).toMatch(/outside/);
+  });
+
+  it("checks the offset against the segment limit", () => {
+    const table = [
+      { base: 1400, limit: 1000 },
+      { base: 6300, limit: 400 },
+      { base: 4300, limit: 400 },
+      { base: 3200, limit: 1100 },
+      { base: 4700, limit: 1000 },
+    ];
+    expect(translateSegmented(2, 53, table).physical).toBe(4353);
+    expect(translateSegmented(3, 852, table).physical).toBe(4052);
+    expect(translateSegmented(0, 1222, table).error).toMatch(/Trap/);
+    expect(translateSegmented(5, 0, table).error).toMatch(/does not exist/);
+  });
+});
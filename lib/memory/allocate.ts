@@ -0,0 +1,165 @@
+import {
+  MAX_MEMORY,
+  MAX_MEMORY_JOBS,
+  type AllocationOptions,
+  type AllocationResult,
+  type MemoryBlock,
+  type MemoryEventKind,
+  type MemoryJob,
+  type Placement,
+} from "./types";
+
+interface Region {
+  pid: string;
+  start: number;
+  size: number;
+  releaseAt: number;
+}
+
+/**
+ * Lays the held regions out from address 0 with the holes between them.
+ * @param regions Held regions sorted by address.
+ */
+function layout(regions: Region[], memorySize: number): MemoryBlock[] {
+  const blocks: MemoryBlock[] = [];
+  let address = 0;
+  for (const { pid, start, size } of regions) {
+    if (start > address) blocks.push({ start: address, size: start - address, pid: null });
+    blocks.push({ start, size, pid });
+    address = start + size;
+  }
+  if (address < memorySize) blocks.push({ start: address, size: memorySize - address, pid: null });
+  return blocks;
+}
+
+/**
+ * Simulates contiguous memory allocation over time. At each moment, departing jobs free
+ * their regions first, then arriving jobs join the waiting list, then every waiting job
+ * that fits is placed, in arrival order (a large job does not hold up smaller ones behind it).
+ *
+ * A job goes at the start of the hole chosen by the strategy:
+ * - first: the lowest-addressed hole that fits;
+ * - best: the smallest hole that fits;
+ * - worst: the largest hole;
+ * - next: the first fit, searching on from where the previous allocation ended and wrapping round.
+ *
+ * Ties go to the lowest address. With `compaction`, a job that fits in the total free memory
+ * but in no single hole triggers a compaction that slides every region down to address 0.
+ * Each job holds its region for `duration` from the moment it is placed.
+ * @param jobs Jobs in any order.
+ * @param options Memory size, placement strategy and whether to compact.
+ * @returns A snapshot of memory after every event, plus where and when each job ran.
+ */
+export function simulateAllocation(jobs: MemoryJob[], options: AllocationOptions): AllocationResult {
+  const { memorySize, strategy, compaction = false } = options;
+  if (!Number.isInteger(memorySize) || memorySize < 1 || memorySize > MAX_MEMORY) {
+    throw new RangeError(`Memory size must be an integer from 1 to ${MAX_MEMORY}.`);
+  }
+  if (jobs.length > MAX_MEMORY_JOBS) {
+    throw new RangeError(`At most ${MAX_MEMORY_JOBS} jobs can be simulated.`);
+  }
+  for (const job of jobs) {
+    if (!Number.isInteger(job.size) || job.size < 1 || job.size > memorySize) {
+      throw new RangeError(`${job.pid}: Size must be an integer from 1 to the memory size (${memorySize}).`);
+    }
+    if (!Number.isInteger(job.arrival) || job.arrival < 0 || !Number.isInteger(job.duration) || job.duration < 1) {
+      throw new RangeError(`${job.pid}: Arrival must be a non-negative integer and Duration a positive one.`);
+    }
+  }
+
+  const arrivals = [...jobs].sort((a, b) => a.arrival - b.arrival);
+  let regions: Region[] = [];
+  let waiting: MemoryJob[] = [];
+  const placements: Placement[] = [];
+  const snapshots: AllocationResult["snapshots"] = [];
+  let compactions = 0;
+  let nextFit = 0;
+  let time = 0;
+
+  const holes = () => layout(regions, memorySize).filter((b) => b.pid === null);
+  const record = (kind: MemoryEventKind, pid?: string) => {
+    const free = holes();
+    const freeTotal = free.reduce((sum, h) => sum + h.size, 0);
+    const largestHole = Math.max(0, ...free.map((h) => h.size));
+    snapshots.push({
+      time,
+      kind,
+      ...(pid !== undefined && { pid }),
+      blocks: layout(regions, memorySize),
+      freeTotal,
+      largestHole,
+      fragmentation: freeTotal > 0 ? 1 - largestHole / freeTotal : 0,
+      waiting: waiting.map((j) => j.pid),
+    });
+  };
+
+  const chooseHole = (size: number): MemoryBlock | undefined => {
+    const fitting = holes().filter((h) => h.size >= size);
+    switch (strategy) {
+      case "first":
+        return fitting[0];
+      case "best":
+        return fitting.reduce<MemoryBlock | undefined>((best, h) => (!best || h.size < best.size ? h : best), undefined);
+      case "worst":
+        return fitting.reduce<MemoryBlock | undefined>((worst, h) => (!worst || h.size > worst.size ? h : worst), undefined);
+      case "next":
+        return fitting.find((h) => h.start + h.size > nextFit) ?? fitting[0];
+    }
+  };
+
+  const compact = () => {
+    let address = 0;
+    regions = regions.map((r) => {
+      const moved = { ...r, start: address };
+      address += r.size;
+      return moved;
+    });
+    nextFit = address;
+    compactions++;
+    record("compact");
+  };
+
+  const placeWaiting = () => {
+    for (const job of [...waiting]) {
+      let hole = chooseHole(job.size);
+      if (!hole && compaction && holes().reduce((sum, h) => sum + h.size, 0) >= job.size) {
+        compact();
+        hole = chooseHole(job.size);
+      }
+      if (!hole) continue;
+
+      regions = [...regions, { pid: job.pid, start: hole.start, size: job.size, releaseAt: time + job.duration }].sort((a, b) => a.start - b.start);
+      nextFit = hole.start + job.size;
+      waiting = waiting.filter((j) => j !== job);
+      placements.push({ pid: job.pid, start: hole.start, allocatedAt: time, releasedAt: time + job.duration });
+      record("allocate", job.pid);
+    }
+  };
+
+  let next = 0;
+  while (next < arrivals.length || regions.length > 0) {
+    time = Math.min(next < arrivals.length ? arrivals[next].arrival : Infinity, ...regions.map((r) => r.releaseAt));
+
+    for (const region of regions.filter((r) => r.releaseAt === time)) {
+      regions = regions.filter((r) => r !== region);
+      record("release", region.pid);
+    }
+
+    const arrived: MemoryJob[] = [];
+    while (next < arrivals.length && arrivals[next].arrival === time) arrived.push(arrivals[next++]);
+    waiting = [...waiting, ...arrived];
+
+    placeWaiting();
+    for (const job of arrived) {
+      if (waiting.includes(job)) record("wait", job.pid);
+    }
+  }
+
+  return {
+    strategy,
+    snapshots,
+    placements,
+    compactions,
+    endTime: Math.max(0, ...placements.map((p) => p.releasedAt)),
+  };
+}
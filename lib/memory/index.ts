@@ -0,0 +1,8 @@
+export * from "./types";
+export { simulateAllocation } from "./allocate";
+export { translatePaged, translateSegmented } from "./translate";
+export {
+  FIT_STRATEGIES,
+  FIT_STRATEGY_IDS,
+  type FitStrategyInfo,
+} from "./registry";
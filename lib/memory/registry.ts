@@ -0,0 +1,18 @@
+import type { FitStrategy } from "./types";
+
+export interface FitStrategyInfo {
+  id: FitStrategy;
+  /** Short label used on buttons and in tables, e.g. "Best Fit". */
+  name: string;
+  /** Which hole a job is placed in, shown under the memory bar. */
+  rule: string;
+}
+
+export const FIT_STRATEGIES: Record<FitStrategy, FitStrategyInfo> = {
+  first: { id: "first", name: "First Fit", rule: "Use the lowest-addressed hole that is big enough" },
+  best: { id: "best", name: "Best Fit", rule: "Use the smallest hole that is big enough" },
+  worst: { id: "worst", name: "Worst Fit", rule: "Use the largest hole" },
+  next: { id: "next", name: "Next Fit", rule: "Use the first hole big enough, searching on from the previous allocation" },
+};
+
+export const FIT_STRATEGY_IDS = Object.keys(FIT_STRATEGIES) as FitStrategy[];
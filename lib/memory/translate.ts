@@ -0,0 +1,36 @@
+import type { PagedTranslation, Segment, SegmentedTranslation } from "./types";
+
+/**
+ * Translates a logical address through a page table: page = address ÷ page size,
+ * offset = the remainder, physical = frame × page size + offset.
+ * @param logical Logical address.
+ * @param pageSize Bytes per page (and frame).
+ * @param pageTable Frame of each page, or null for a page not in memory.
+ */
+export function translatePaged(logical: number, pageSize: number, pageTable: (number | null)[]): PagedTranslation {
+  const page = Math.floor(logical / pageSize);
+  const offset = logical % pageSize;
+  if (page >= pageTable.length) {
+    return { page, offset, error: `Address ${logical} is outside the ${pageTable.length}-page logical address space.` };
+  }
+  const frame = pageTable[page];
+  if (frame === null) {
+    return { page, offset, error: `Page fault: page ${page} is not in memory.` };
+  }
+  return { page, offset, frame, physical: frame * pageSize + offset };
+}
+
+/**
+ * Translates a (segment, offset) pair through a segment table: the offset must be below the
+ * segment's limit, and physical = base + offset.
+ */
+export function translateSegmented(segment: number, offset: number, table: Segment[]): SegmentedTranslation {
+  if (segment >= table.length) {
+    return { segment, offset, error: `Segment ${segment} does not exist.` };
+  }
+  const { base, limit } = table[segment];
+  if (offset >= limit) {
+    return { segment, offset, error: `Trap: offset ${offset} is beyond segment ${segment}'s limit of ${limit}.` };
+  }
+  return { segment, offset, physical: base + offset };
+}
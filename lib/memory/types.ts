@@ -0,0 +1,92 @@
+// Shared types for contiguous allocation and address translation.
+
+/** Largest memory, in KB, a simulation may use. */
+export const MAX_MEMORY = 1_000_000;
+
+/** Most jobs a contiguous allocation run may have. */
+export const MAX_MEMORY_JOBS = 50;
+
+export type FitStrategy = "first" | "best" | "worst" | "next";
+
+/** A process that arrives, asks for a contiguous region, holds it for a while and leaves. */
+export interface MemoryJob {
+  pid: string;
+  arrival: number;
+  /** Time the job holds its region once placed. */
+  duration: number;
+  /** KB requested. */
+  size: number;
+}
+
+export interface AllocationOptions {
+  /** Total memory in KB. */
+  memorySize: number;
+  strategy: FitStrategy;
+  /** Slide every region down to close the holes when a waiting job would then fit. */
+  compaction?: boolean;
+}
+
+/** A region of memory: held by a job, or a hole when `pid` is null. */
+export interface MemoryBlock {
+  start: number;
+  size: number;
+  pid: string | null;
+}
+
+export type MemoryEventKind = "allocate" | "release" | "compact" | "wait";
+
+/** Memory just after one event. */
+export interface MemorySnapshot {
+  time: number;
+  kind: MemoryEventKind;
+  /** Job the event is about; unset for compaction. */
+  pid?: string;
+  /** Layout from address 0 upwards, adjacent holes merged. */
+  blocks: MemoryBlock[];
+  freeTotal: number;
+  largestHole: number;
+  /** External fragmentation: share of free memory outside the largest hole, 0 to 1. */
+  fragmentation: number;
+  /** Jobs that arrived but have no region yet, in arrival order. */
+  waiting: string[];
+}
+
+export interface Placement {
+  pid: string;
+  /** Address the region was first placed at (compaction may move it later). */
+  start: number;
+  allocatedAt: number;
+  releasedAt: number;
+}
+
+export interface AllocationResult {
+  strategy: FitStrategy;
+  snapshots: MemorySnapshot[];
+  placements: Placement[];
+  compactions: number;
+  /** Time the last job left. */
+  endTime: number;
+}
+
+export interface PagedTranslation {
+  page: number;
+  offset: number;
+  /** Frame from the page table; unset when the page is not in memory. */
+  frame?: number;
+  physical?: number;
+  /** Why translation failed (page fault or address out of range). */
+  error?: string;
+}
+
+/** One segment-table entry. */
+export interface Segment {
+  base: number;
+  limit: number;
+}
+
+export interface SegmentedTranslation {
+  segment: number;
+  offset: number;
+  physical?: number;
+  error?: string;
+}
@@ -0,0 +1,8 @@
+export * from "./types";
+export { simulatePaging, faultCurve, beladyAnomalies } from "./simulate";
+export { parseReferenceString } from "./parse";
+export {
+  REPLACEMENT_ALGORITHMS,
+  REPLACEMENT_ALGORITHM_IDS,
+  type ReplacementAlgorithmInfo,
+} from "./registry";
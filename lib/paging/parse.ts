@@ -0,0 +1,19 @@
+import { MAX_REFERENCES } from "./types";
+
+/**
+ * Parses a reference string such as "7 0 1 2 0 3" (spaces and/or commas between pages).
+ * @returns The page numbers, or a message for the error box.
+ */
+export function parseReferenceString(text: string): { reference: number[] } | { error: string } {
+  const tokens = text.trim().split(/[\s,]+/).filter((t) => t !== "");
+  if (tokens.length === 0) {
+    return { error: "Enter a reference string, e.g. 7 0 1 2 0 3." };
+  }
+  if (tokens.some((t) => !/^\d+$/.test(t))) {
+    return { error: "Pages must be non-negative whole numbers separated by spaces or commas." };
+  }
+  if (tokens.length > MAX_REFERENCES) {
+    return { error: `The reference string can have at most ${MAX_REFERENCES} pages.` };
+  }
+  return { reference: tokens.map(Number) };
+}
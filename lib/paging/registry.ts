@@ -0,0 +1,20 @@
+import type { ReplacementAlgorithmId } from "./types";
+
+export interface ReplacementAlgorithmInfo {
+  id: ReplacementAlgorithmId;
+  /** Short label used on buttons and in tables, e.g. "LRU". */
+  name: string;
+  title: string;
+  /** Which page is evicted, shown under the frame table. */
+  rule: string;
+}
+
+export const REPLACEMENT_ALGORITHMS: Record<ReplacementAlgorithmId, ReplacementAlgorithmInfo> = {
+  fifo: { id: "fifo", name: "FIFO", title: "First-In, First-Out", rule: "Evict the page loaded earliest" },
+  lru: { id: "lru", name: "LRU", title: "Least Recently Used", rule: "Evict the page unused for the longest time" },
+  opt: { id: "opt", name: "OPT", title: "Optimal (Belady's MIN)", rule: "Evict the page needed furthest in the future" },
+  clock: { id: "clock", name: "Clock", title: "Clock (Second Chance)", rule: "Skip pages with their reference bit set, clearing it" },
+  lfu: { id: "lfu", name: "LFU", title: "Least Frequently Used", rule: "Evict the page used least often since it was loaded" },
+};
+
+export const REPLACEMENT_ALGORITHM_IDS = Object.keys(REPLACEMENT_ALGORITHMS) as ReplacementAlgorithmId[];
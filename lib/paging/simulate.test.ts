@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { parseReferenceString } from "./parse";
+import { beladyAnomalies, faultCurve, simulatePaging } from "./simulate";
+import { REPLACEMENT_ALGORITHM_IDS } from "./registry";
+
+// Silberschatz, Operating System Concepts, with 3 frames
+const TEXTBOOK = [7, 0, 1, 2, 0, 3, 0, 4, 2, 3, 0, 3, 2, 1, 2, 0, 1, 7, 0, 1];
+// The classic string on which FIFO faults more with 4 frames than with 3
+const BELADY = [1, 2, 3, 4, 1, 2, 5, 1, 2, 3, 4, 5];
+
+const framesAt = (reference: number[], frameCount: number, algorithm: Parameters<typeof simulatePaging>[2]) =>
+  simulatePaging(reference, frameCount, algorithm).steps.map((s) => s.frames.join(","));
+
+describe("simulatePaging", () => {
+  it("matches the textbook fault counts", () => {
+    expect(simulatePaging(TEXTBOOK, 3, "fifo").faults).toBe(15);
+    expect(simulatePaging(TEXTBOOK, 3, "lru").faults).toBe(12);
+    expect(simulatePaging(TEXTBOOK, 3, "opt").faults).toBe(9);
+  });
+
+  it("fills empty frames in order, then replaces the oldest page under FIFO", () => {
+    expect(framesAt([1, 2, 3, 4], 3, "fifo")).toEqual(["1,,", "1,2,", "1,2,3", "4,2,3"]);
+    const last = simulatePaging([1, 2, 3, 4], 3, "fifo").steps.at(-1)!;
+    expect(last).toMatchObject({ page: 4, hit: false, frame: 0, evicted: 1 });
+  });
+
+  it("gives a second chance to pages with their reference bit set", () => {
+    // After 1 2 3 fill the frames, every bit is set; the hit on 1 keeps it set,
+    // so the sweep clears all bits and evicts at the hand (frame 0)
+    const result = simulatePaging([1, 2, 3, 1, 4, 5], 3, "clock");
+    expect(result.steps[4]).toMatchObject({ frames: [4, 2, 3], evicted: 1, referenceBits: [true, false, false], hand: 1 });
+    expect(result.steps[5]).toMatchObject({ frames: [4, 5, 3], evicted: 2, hand: 2 });
+  });
+
+  it("evicts the least frequently used page under LFU, oldest first on ties", () => {
+    const result = simulatePaging([1, 1, 2, 3, 4], 3, "lfu");
+    expect(result.steps.at(-1)).toMatchObject({ frames: [1, 4, 3], evicted: 2 });
+  });
+
+  it("counts hits and the hit ratio", () => {
+    const result = simulatePaging([1, 2, 1, 2], 2, "lru");
+    expect(result).toMatchObject({ faults: 2, hits: 2, hitRatio: 0.5 });
+    expect(result.steps.map((s) => s.hit)).toEqual([false, false, true, true]);
+  });
+
+  it("never faults more than once per distinct page with enough frames", () => {
+    for (const algorithm of REPLACEMENT_ALGORITHM_IDS) {
+      expect(simulatePaging(TEXTBOOK, 6, algorithm).faults).toBe(new Set(TEXTBOOK).size);
+    }
+  });
+
+  it("rejects an invalid frame count", () => {
+    expect(() => simulatePaging(TEXTBOOK, 0, "fifo")).toThrow(RangeError);
+    expect(() => simulatePaging(TEXTBOOK, 17, "fifo")).toThrow(RangeError);
+  });
+});
+
+describe("faultCurve and beladyAnomalies", () => {
+  it("shows Belady's anomaly for FIFO but not for the stack algorithms", () => {
+    const fifo = faultCurve(BELADY, "fifo", 5);
+    expect(fifo.slice(2, 4)).toEqual([9, 10]);
+    expect(beladyAnomalies(fifo)).toEqual([4]);
+    expect(beladyAnomalies(faultCurve(BELADY, "lru", 5))).toEqual([]);
+    expect(beladyAnomalies(faultCurve(BELADY, "opt", 5))).toEqual([]);
+  });
+});
+
+describe("parseReferenceString", () => {
+  it("accepts spaces and commas", () => {
+    expect(parseReferenceString(" 7, 0 1,2 ")).toEqual({ reference: [7, 0, 1, 2] });
+  });
+
+  it("rejects blanks, non-numbers and overly long strings", () => {
+    expect(parseReferenceString("  ")).toHaveProperty("error");
+    expect(parseReferenceString("1 -2 3")).toHaveProperty("error");
+    expect(parseReferenceString("1 ".repeat(201))).toHaveProperty("error");
+  });
+});
@@ -0,0 +1,119 @@
+import { MAX_FRAMES, type PagingResult, type PagingStep, type ReplacementAlgorithmId } from "./types";
+
+/**
+ * Runs a reference string through `frameCount` page frames. Empty frames are filled in
+ * order before anything is evicted; when several frames qualify as the victim, the page
+ * loaded earliest goes.
+ *
+ * - FIFO evicts the page loaded earliest.
+ * - LRU evicts the page used least recently.
+ * - OPT evicts the page whose next use is furthest away (or never comes).
+ * - Clock (second chance) sweeps a hand over the frames, clearing reference bits, and
+ *   evicts the first page whose bit is already clear.
+ * - LFU evicts the page used least often since it was loaded.
+ * @param reference Page numbers in the order they are referenced.
+ * @param frameCount Number of frames, 1 to MAX_FRAMES.
+ * @param algorithm Replacement policy.
+ * @returns The frame contents after every reference, plus fault and hit totals.
+ */
+export function simulatePaging(reference: number[], frameCount: number, algorithm: ReplacementAlgorithmId): PagingResult {
+  if (!Number.isInteger(frameCount) || frameCount < 1 || frameCount > MAX_FRAMES) {
+    throw new RangeError(`Frame count must be an integer from 1 to ${MAX_FRAMES}.`);
+  }
+
+  const frames: (number | null)[] = Array(frameCount).fill(null);
+  // Per frame: when its page was loaded and last used, how often it was used, and its reference bit
+  const loadedAt: number[] = Array(frameCount).fill(-1);
+  const lastUsed: number[] = Array(frameCount).fill(-1);
+  const uses: number[] = Array(frameCount).fill(0);
+  const bits: boolean[] = Array(frameCount).fill(false);
+  let hand = 0;
+
+  const all = frames.map((_, i) => i);
+  const oldest = (candidates: number[]) => candidates.reduce((a, b) => (loadedAt[b] < loadedAt[a] ? b : a));
+  const victim = (time: number): number => {
+    switch (algorithm) {
+      case "fifo":
+        return oldest(all);
+      case "lru":
+        return all.reduce((a, b) => (lastUsed[b] < lastUsed[a] ? b : a));
+      case "opt": {
+        const nextUse = all.map((i) => {
+          const next = reference.indexOf(frames[i]!, time + 1);
+          return next === -1 ? Infinity : next;
+        });
+        const furthest = Math.max(...nextUse);
+        return oldest(all.filter((i) => nextUse[i] === furthest));
+      }
+      case "clock":
+        while (bits[hand]) {
+          bits[hand] = false;
+          hand = (hand + 1) % frameCount;
+        }
+        return hand;
+      case "lfu": {
+        const fewest = Math.min(...uses);
+        return oldest(all.filter((i) => uses[i] === fewest));
+      }
+    }
+  };
+
+  const steps: PagingStep[] = [];
+  let faults = 0;
+  reference.forEach((page, time) => {
+    let frame = frames.indexOf(page);
+    const hit = frame !== -1;
+    let evicted: number | undefined;
+    if (!hit) {
+      faults++;
+      frame = frames.indexOf(null);
+      if (frame === -1) {
+        frame = victim(time);
+        evicted = frames[frame]!;
+      }
+      frames[frame] = page;
+      loadedAt[frame] = time;
+      uses[frame] = 0;
+      hand = (frame + 1) % frameCount;
+    }
+    lastUsed[frame] = time;
+    uses[frame]++;
+    bits[frame] = true;
+
+    steps.push({
+      page,
+      frames: [...frames],
+      hit,
+      ...(!hit && { frame }),
+      ...(evicted !== undefined && { evicted }),
+      ...(algorithm === "clock" && { referenceBits: [...bits], hand }),
+    });
+  });
+
+  return {
+    algorithm,
+    frameCount,
+    steps,
+    faults,
+    hits: reference.length - faults,
+    hitRatio: reference.length > 0 ? (reference.length - faults) / reference.length : 0,
+  };
+}
+
+/**
+ * Fault counts for 1 to `maxFrames` frames, for plotting faults against memory size.
+ * @returns `curve[n - 1]` is the number of faults with `n` frames.
+ */
+export function faultCurve(reference: number[], algorithm: ReplacementAlgorithmId, maxFrames = MAX_FRAMES): number[] {
+  return Array.from({ length: maxFrames }, (_, i) => simulatePaging(reference, i + 1, algorithm).faults);
+}
+
+/**
+ * Finds Belady's anomaly in a fault curve: frame counts that cause more faults than one
+ * frame fewer.
+ * @param curve Output of `faultCurve`.
+ * @returns The offending frame counts (numbered from 1).
+ */
+export function beladyAnomalies(curve: number[]): number[] {
+  return curve.flatMap((faults, i) => (i > 0 && faults > curve[i - 1] ? [i + 1] : []));
+}
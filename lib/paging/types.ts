@@ -0,0 +1,35 @@
+// Shared types for every page replacement algorithm.
+
+/** Most page frames a simulation may use. */
+export const MAX_FRAMES = 16;
+
+/** Longest reference string accepted. */
+export const MAX_REFERENCES = 200;
+
+export type ReplacementAlgorithmId = "fifo" | "lru" | "opt" | "clock" | "lfu";
+
+export interface PagingStep {
+  /** Page referenced at this step. */
+  page: number;
+  /** Frame contents after the reference; null = still empty. */
+  frames: (number | null)[];
+  hit: boolean;
+  /** Frame the page was loaded into; only set on a fault. */
+  frame?: number;
+  /** Page evicted to make room, if any. */
+  evicted?: number;
+  /** Clock only: each frame's reference bit after the step. */
+  referenceBits?: boolean[];
+  /** Clock only: frame the hand points at after the step. */
+  hand?: number;
+}
+
+export interface PagingResult {
+  algorithm: ReplacementAlgorithmId;
+  frameCount: number;
+  steps: PagingStep[];
+  faults: number;
+  hits: number;
+  /** Hits per reference, from 0 to 1. */
+  hitRatio: number;
+}
@@ -0,0 +1,208 @@
+import { describe, expect, it } from "vitest";
+import { fcfs } from "./fcfs";
+import { hrrn } from "./hrrn";
+import { queueResidency } from "./metrics";
+import { mlfq } from "./mlfq";
+import { priority } from "./priority";
+import { roundRobin } from "./roundRobin";
+import { sjf } from "./sjf";
+import { srtf } from "./srtf";
+import type { ScheduleResult, SchedulerProcess } from "./types";
+
+/** Gantt lane as "P1[0-4] P2[4-7]" for compact golden comparisons. */
+const lane = (schedule: ScheduleResult) =>
+  schedule.ganttBlocks.map((b) => `${b.process}[${b.start}-${b.end}]`).join(" ");
+
+/** Waiting time per PID, independent of result order. */
+const waiting = (schedule: ScheduleResult) =>
+  Object.fromEntries(schedule.results.map((r) => [r.pid, r.waiting]));
+
+const p = (pid: string, arrival: number, burst: number, prio?: number): SchedulerProcess => ({
+  pid,
+  arrival,
+  burst,
+  ...(prio !== undefined && { priority: prio }),
+});
+
+// Silberschatz, Operating System Concepts: three processes arriving together
+const CONVOY = [p("P1", 0, 24), p("P2", 0, 3), p("P3", 0, 3)];
+
+describe("fcfs", () => {
+  it("serves the textbook convoy in arrival order", () => {
+    const schedule = fcfs(CONVOY);
+    expect(lane(schedule)).toBe("P1[0-24] P2[24-27] P3[27-30]");
+    expect(waiting(schedule)).toEqual({ P1: 0, P2: 24, P3: 27 });
+    expect(schedule.totalTime).toBe(30);
+  });
+
+  it("inserts an IDLE block when the CPU waits for the next arrival", () => {
+    const schedule = fcfs([p("P1", 0, 2), p("P2", 5, 3)]);
+    expect(lane(schedule)).toBe("P1[0-2] IDLE[2-5] P2[5-8]");
+    expect(waiting(schedule)).toEqual({ P1: 0, P2: 0 });
+    expect(schedule.timeMarkers).toEqual([0, 2, 5, 8]);
+  });
+
+  it("starts with IDLE when the first arrival is late", () => {
+    expect(lane(fcfs([p("P1", 3, 2)]))).toBe("IDLE[0-3] P1[3-5]");
+  });
+
+  it("breaks arrival ties by PID, not input order", () => {
+    expect(lane(fcfs([p("P2", 0, 1), p("P1", 0, 1)]))).toBe("P1[0-1] P2[1-2]");
+  });
+
+  it("merges consecutive units of the same process into one block", () => {
+    const schedule = fcfs([p("P1", 0, 3), p("P2", 3, 2)]);
+    expect(schedule.ganttBlocks).toEqual([
+      { process: "P1", start: 0, end: 3 },
+      { process: "P2", start: 3, end: 5 },
+    ]);
+  });
+
+  it("charges context-switch time between different processes", () => {
+    const schedule = fcfs([p("P1", 0, 5), p("P2", 1, 3), p("P3", 2, 1)], { contextSwitch: 1 });
+    expect(lane(schedule)).toBe("P1[0-5] CS[5-6] P2[6-9] CS[9-10] P3[10-11]");
+    expect(waiting(schedule)).toEqual({ P1: 0, P2: 5, P3: 8 });
+  });
+
+  it("runs other work while a process is blocked on I/O", () => {
+    const schedule = fcfs([{ ...p("P1", 0, 2), io: [{ io: 3, cpu: 1 }] }, p("P2", 0, 4)]);
+    expect(lane(schedule)).toBe("P1[0-2] P2[2-6] P1[6-7]");
+    expect(schedule.ioBlocks).toEqual([
+      { process: "IDLE", start: 0, end: 2 },
+      { process: "P1", start: 2, end: 5 },
+      { process: "IDLE", start: 5, end: 7 },
+    ]);
+    expect(schedule.results.find((r) => r.pid === "P1")).toMatchObject({ burst: 3, ioTime: 3, waiting: 1 });
+  });
+
+  it("spreads work over several cores", () => {
+    const schedule = fcfs([p("P1", 0, 4), p("P2", 0, 2), p("P3", 1, 2)], { cores: 2 });
+    expect(schedule.coreBlocks.map((blocks) => blocks.map((b) => b.process))).toEqual([["P1"], ["P2", "P3"]]);
+    expect(schedule.totalTime).toBe(4);
+  });
+});
+
+describe("sjf", () => {
+  it("runs the shortest job first when all arrive together", () => {
+    const schedule = sjf([p("P1", 0, 6), p("P2", 0, 8), p("P3", 0, 7), p("P4", 0, 3)]);
+    expect(lane(schedule)).toBe("P4[0-3] P1[3-9] P3[9-16] P2[16-24]");
+    expect(waiting(schedule)).toEqual({ P1: 3, P2: 16, P3: 9, P4: 0 });
+  });
+});
+
+describe("srtf", () => {
+  it("preempts when a shorter job arrives", () => {
+    const schedule = srtf([p("P1", 0, 8), p("P2", 1, 4), p("P3", 2, 9), p("P4", 3, 5)]);
+    expect(lane(schedule)).toBe("P1[0-1] P2[1-5] P4[5-10] P1[10-17] P3[17-26]");
+    expect(waiting(schedule)).toEqual({ P1: 9, P2: 0, P3: 15, P4: 2 });
+  });
+});
+
+describe("priority", () => {
+  const workload = [p("P1", 0, 10, 3), p("P2", 0, 1, 1), p("P3", 0, 2, 4), p("P4", 0, 1, 5), p("P5", 0, 5, 2)];
+
+  it("runs the highest priority (lowest number) first", () => {
+    const schedule = priority(workload);
+    expect(lane(schedule)).toBe("P2[0-1] P5[1-6] P1[6-16] P3[16-18] P4[18-19]");
+    expect(waiting(schedule)).toEqual({ P1: 6, P2: 0, P3: 16, P4: 18, P5: 1 });
+  });
+
+  it("preempts for a higher-priority arrival only when preemptive", () => {
+    const staggered = [p("P1", 0, 8, 3), p("P2", 1, 4, 1), p("P3", 2, 9, 4), p("P4", 3, 5, 2)];
+    expect(lane(priority(staggered, { preemptive: true }))).toBe("P1[0-1] P2[1-5] P4[5-10] P1[10-17] P3[17-26]");
+    expect(lane(priority(staggered))).toBe("P1[0-8] P2[8-12] P4[12-17] P3[17-26]");
+  });
+});
+
+describe("roundRobin", () => {
+  it("cycles the ready queue with the given quantum", () => {
+    const schedule = roundRobin(CONVOY, { quantum: 4 });
+    expect(lane(schedule)).toBe("P1[0-4] P2[4-7] P3[7-10] P1[10-30]");
+    expect(waiting(schedule)).toEqual({ P1: 6, P2: 4, P3: 7 });
+  });
+
+  it("queues new arrivals ahead of the preempted process", () => {
+    const schedule = roundRobin([p("P1", 0, 4), p("P2", 2, 2)], { quantum: 2 });
+    expect(lane(schedule)).toBe("P1[0-2] P2[2-4] P1[4-6]");
+  });
+
+  it("rejects a quantum that is not a positive integer", () => {
+    expect(() => roundRobin(CONVOY, { quantum: 0 })).toThrow(RangeError);
+    expect(() => roundRobin(CONVOY, { quantum: 1.5 })).toThrow(RangeError);
+  });
+});
+
+describe("hrrn", () => {
+  it("matches the Stallings example", () => {
+    const schedule = hrrn([p("A", 0, 3), p("B", 2, 6), p("C", 4, 4), p("D", 6, 5), p("E", 8, 2)]);
+    expect(lane(schedule)).toBe("A[0-3] B[3-9] C[9-13] E[13-15] D[15-20]");
+  });
+});
+
+describe("mlfq", () => {
+  /** Lane with each block's queue level, e.g. "P1@0[0-2]". */
+  const levels = (schedule: ScheduleResult) =>
+    schedule.ganttBlocks.map((b) => `${b.process}@${b.level}[${b.start}-${b.end}]`).join(" ");
+
+  // A long job, then a short job arriving every 2 units
+  const STREAM = [p("P1", 0, 12), p("P2", 2, 3), p("P3", 4, 3), p("P4", 6, 3), p("P5", 8, 3), p("P6", 10, 3)];
+  const TWO_SLICES = { queues: [{ quantum: 2 }, { quantum: 2 }, {}] };
+
+  it("demotes jobs that use a full slice, down to the FCFS queue", () => {
+    expect(levels(mlfq(CONVOY))).toBe("P1@0[0-2] P2@0[2-4] P3@0[4-6] P1@1[6-10] P2@1[10-11] P3@1[11-12] P1@2[12-30]");
+  });
+
+  it("lets a new arrival preempt a job from a lower queue", () => {
+    const schedule = mlfq([p("P1", 0, 10), p("P2", 5, 2)]);
+    expect(levels(schedule)).toBe("P1@0[0-2] P1@1[2-5] P2@0[5-7] P1@1[7-11] P1@2[11-12]");
+    expect(schedule.events.filter((e) => e.type === "demote").map((e) => [e.pid, e.time, e.level])).toEqual([
+      ["P1", 2, 1],
+      ["P1", 11, 2],
+    ]);
+    expect(queueResidency(schedule, 3)).toEqual([
+      { pid: "P2", time: [2, 0, 0] },
+      { pid: "P1", time: [2, 9, 1] },
+    ]);
+  });
+
+  it("waits for demoteAfter full slices before demoting", () => {
+    const schedule = mlfq([p("P1", 0, 10), p("P2", 0, 10)], { mlfq: { queues: [{ quantum: 2 }, {}], demoteAfter: 2 } });
+    expect(levels(schedule)).toBe("P1@0[0-2] P2@0[2-4] P1@0[4-6] P2@0[6-8] P1@1[8-14] P2@1[14-20]");
+  });
+
+  it("keeps a long job waiting behind a stream of short ones without a boost", () => {
+    expect(lane(mlfq(STREAM, { mlfq: TWO_SLICES })).endsWith("P1[19-27]")).toBe(true);
+  });
+
+  it("boosts every job to the top queue periodically", () => {
+    const schedule = mlfq(STREAM, { mlfq: { ...TWO_SLICES, boostInterval: 8 } });
+    expect(levels(schedule).startsWith("P1@0[0-2] P2@0[2-4] P3@0[4-6] P4@0[6-8] P1@0[8-10]")).toBe(true);
+    expect(schedule.events.filter((e) => e.type === "promote" && e.time === 8).map((e) => e.pid)).toEqual(["P1", "P2", "P3"]);
+  });
+
+  it("gives a running job a fresh top-queue slice when it is boosted", () => {
+    const schedule = mlfq([p("A", 0, 20)], { mlfq: { queues: [{ quantum: 2 }, { quantum: 8 }, {}], boostInterval: 5 } });
+    expect(levels(schedule)).toBe("A@0[0-2] A@1[2-5] A@0[5-7] A@1[7-10] A@0[10-12] A@1[12-15] A@0[15-17] A@1[17-20]");
+    expect(schedule.events.filter((e) => e.type === "demote" || e.type === "promote").map((e) => `${e.type} ${e.time}`)).toEqual([
+      "demote 2",
+      "promote 5",
+      "demote 7",
+      "promote 10",
+      "demote 12",
+      "promote 15",
+      "demote 17",
+    ]);
+  });
+
+  it("promotes a job that waits past the aging threshold", () => {
+    const schedule = mlfq(STREAM, { mlfq: { ...TWO_SLICES, agingThreshold: 5 } });
+    expect(schedule.events.find((e) => e.type === "promote")).toMatchObject({ pid: "P1", time: 7, level: 0 });
+    expect(levels(schedule).startsWith("P1@0[0-2] P2@0[2-4] P3@0[4-6] P4@0[6-8] P1@0[8-10]")).toBe(true);
+  });
+
+  it("rejects invalid queue settings", () => {
+    expect(() => mlfq(CONVOY, { mlfq: { queues: [] } })).toThrow(RangeError);
+    expect(() => mlfq(CONVOY, { mlfq: { queues: [{ quantum: 0 }] } })).toThrow(RangeError);
+    expect(() => mlfq(CONVOY, { mlfq: { queues: [{}], boostInterval: 1.5 } })).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { defaultProcessColor, getProcessColor, PROCESS_COLORS } from "./colors";
+
+describe("getProcessColor", () => {
+  it("keeps the original colors for P1 to P6", () => {
+    expect(["P1", "P2", "P3", "P4", "P5", "P6"].map((pid) => defaultProcessColor(pid))).toEqual([
+      "blue",
+      "green",
+      "purple",
+      "yellow",
+      "pink",
+      "teal",
+    ]);
+  });
+
+  it("gives numbered PIDs distinct colors up to the palette size", () => {
+    const colors = Array.from({ length: Object.keys(PROCESS_COLORS).length }, (_, i) => defaultProcessColor(`P${i + 1}`));
+    expect(new Set(colors).size).toBe(colors.length);
+  });
+
+  it("gives any name a palette color, and a chosen color wins", () => {
+    for (const pid of ["init", "Job-7", "", "ñandú"]) {
+      expect(Object.values(PROCESS_COLORS)).toContain(getProcessColor(pid));
+    }
+    expect(getProcessColor("init", "rose")).toBe(PROCESS_COLORS.rose);
+    expect(getProcessColor("IDLE", "rose")).not.toBe(PROCESS_COLORS.rose);
+  });
+});
@@ -0,0 +1,69 @@
+import { CONTEXT_SWITCH } from "./types";
+
+/** Gantt chart palette, by name; a process gets one from its PID unless the user picks one. */
+export const PROCESS_COLORS = {
+    blue: "bg-blue-600 text-white shadow-sm shadow-blue-900",
+    green: "bg-green-600 text-white shadow-sm shadow-green-900",
+    purple: "bg-purple-600 text-white shadow-sm shadow-purple-900",
+    yellow: "bg-yellow-500 text-gray-900 shadow-sm shadow-yellow-900",
+    pink: "bg-pink-600 text-white shadow-sm shadow-pink-900",
+    teal: "bg-teal-600 text-white shadow-sm shadow-teal-900",
+    orange: "bg-orange-500 text-gray-900 shadow-sm shadow-orange-900",
+    cyan: "bg-cyan-500 text-gray-900 shadow-sm shadow-cyan-900",
+    indigo: "bg-indigo-500 text-white shadow-sm shadow-indigo-900",
+    lime: "bg-lime-500 text-gray-900 shadow-sm shadow-lime-900",
+    rose: "bg-rose-700 text-white shadow-sm shadow-rose-900",
+    sky: "bg-sky-700 text-white shadow-sm shadow-sky-900",
+} as const;
+
+export type ProcessColor = keyof typeof PROCESS_COLORS;
+
+/** The same palette as plain colors (fill and label), for exported images outside the page's CSS. */
+export const PROCESS_COLOR_HEX: Record<ProcessColor, { fill: string; text: string }> = {
+    blue: { fill: "#2563eb", text: "#ffffff" },
+    green: { fill: "#16a34a", text: "#ffffff" },
+    purple: { fill: "#9333ea", text: "#ffffff" },
+    yellow: { fill: "#eab308", text: "#111827" },
+    pink: { fill: "#db2777", text: "#ffffff" },
+    teal: { fill: "#0d9488", text: "#ffffff" },
+    orange: { fill: "#f97316", text: "#111827" },
+    cyan: { fill: "#06b6d4", text: "#111827" },
+    indigo: { fill: "#6366f1", text: "#ffffff" },
+    lime: { fill: "#84cc16", text: "#111827" },
+    rose: { fill: "#be123c", text: "#ffffff" },
+    sky: { fill: "#0369a1", text: "#ffffff" },
+};
+
+export const PROCESS_COLOR_NAMES = Object.keys(PROCESS_COLORS) as ProcessColor[];
+
+// Shifts the palette so P1..P6 keep the colors they had when PIDs were numbered by index
+const HASH_OFFSET = 3;
+
+/**
+ * Picks a palette color from the PID alone, so a process keeps its color whatever other
+ * processes are added or removed. A trailing number is added to the hash of the rest of the
+ * name, so numbered PIDs ("P1", "P2", ...) step through the palette without repeats.
+ */
+export function defaultProcessColor(pid: string): ProcessColor {
+    const [, prefix, number] = /^(.*?)(\d*)$/.exec(pid)!;
+    let hash = 0;
+    for (let i = 0; i < prefix.length; i++) {
+        hash = (hash * 31 + prefix.charCodeAt(i)) | 0;
+    }
+    const count = PROCESS_COLOR_NAMES.length;
+    const index = (hash % count) + (number === "" ? 0 : Number(number) % count) + HASH_OFFSET;
+    return PROCESS_COLOR_NAMES[((index % count) + count) % count];
+}
+
+/**
+ * Provides a distinct color class for each process for the Gantt Chart.
+ * @param pid Process ID, "IDLE" or CONTEXT_SWITCH.
+ * @param color Color the user picked for the process; defaults to one derived from the PID.
+ * @returns Tailwind CSS class string.
+ */
+export function getProcessColor(pid: string | "IDLE", color?: ProcessColor): string {
+    if (pid === "IDLE") return "bg-gray-700 text-gray-400 border border-dashed border-gray-600";
+    if (pid === CONTEXT_SWITCH) return "bg-red-950 text-red-300 border border-dashed border-red-700";
+
+    return PROCESS_COLORS[color ?? defaultProcessColor(pid)];
+}
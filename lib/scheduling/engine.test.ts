@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { compressTimeline, simulate, sortByArrival } from "./engine";
+
+describe("compressTimeline", () => {
+  it("merges runs of the same entry into blocks", () => {
+    expect(compressTimeline(["P1", "P1", "IDLE", "P2", "P2", "P2"])).toEqual([
+      { process: "P1", start: 0, end: 2 },
+      { process: "IDLE", start: 2, end: 3 },
+      { process: "P2", start: 3, end: 6 },
+    ]);
+  });
+
+  it("returns no blocks for an empty timeline", () => {
+    expect(compressTimeline([])).toEqual([]);
+  });
+});
+
+describe("sortByArrival", () => {
+  it("sorts copies by arrival, then PID, leaving the input untouched", () => {
+    const input = [
+      { pid: "P3", arrival: 1, burst: 1 },
+      { pid: "P2", arrival: 0, burst: 1 },
+      { pid: "P1", arrival: 1, burst: 1 },
+    ];
+    const sorted = sortByArrival(input);
+    expect(sorted.map((p) => p.pid)).toEqual(["P2", "P1", "P3"]);
+    expect(input[0].pid).toBe("P3");
+    expect(sorted[2]).not.toBe(input[0]);
+  });
+});
+
+describe("simulate", () => {
+  const workload = [{ pid: "P1", arrival: 0, burst: 2 }];
+
+  it("rejects invalid core counts, switch times and affinities", () => {
+    expect(() => simulate(workload, {}, { cores: 0 })).toThrow(RangeError);
+    expect(() => simulate(workload, {}, { contextSwitch: -1 })).toThrow(RangeError);
+    expect(() => simulate([{ ...workload[0], affinity: 2 }], {}, { cores: 2 })).toThrow(RangeError);
+  });
+
+  it("keeps a pinned process on its core", () => {
+    const schedule = simulate(
+      [
+        { pid: "P1", arrival: 0, burst: 2, affinity: 1 },
+        { pid: "P2", arrival: 0, burst: 2, affinity: 1 },
+      ],
+      {},
+      { cores: 2 }
+    );
+    expect(schedule.coreBlocks[0]).toEqual([{ process: "IDLE", start: 0, end: 4 }]);
+    expect(schedule.coreBlocks[1].map((b) => b.process)).toEqual(["P1", "P2"]);
+  });
+
+  it("moves a preempted job straight to an idle core", () => {
+    const schedule = simulate(
+      [
+        { pid: "P1", arrival: 0, burst: 4 },
+        { pid: "P2", arrival: 1, burst: 1, affinity: 0 },
+      ],
+      { key: (job) => job.remaining, preemptive: true },
+      { cores: 2 }
+    );
+    expect(schedule.coreBlocks[1]).toEqual([
+      { process: "IDLE", start: 0, end: 1 },
+      { process: "P1", start: 1, end: 4 },
+    ]);
+  });
+
+  it("handles bursts in the millions without per-unit work", () => {
+    const schedule = simulate([
+      { pid: "P1", arrival: 0, burst: 3_000_000 },
+      { pid: "P2", arrival: 5_000_000, burst: 2_000_000 },
+    ]);
+    expect(schedule.ganttBlocks).toEqual([
+      { process: "P1", start: 0, end: 3_000_000 },
+      { process: "IDLE", start: 3_000_000, end: 5_000_000 },
+      { process: "P2", start: 5_000_000, end: 7_000_000 },
+    ]);
+    expect(schedule.ioBlocks).toEqual([{ process: "IDLE", start: 0, end: 7_000_000 }]);
+  });
+
+  it("records a dispatch and a completion event for every process", () => {
+    const { events } = simulate([...workload, { pid: "P2", arrival: 1, burst: 1 }]);
+    expect(events.filter((e) => e.type === "dispatch").map((e) => e.pid)).toEqual(["P1", "P2"]);
+    expect(events.filter((e) => e.type === "complete").map((e) => [e.pid, e.time])).toEqual([
+      ["P1", 2],
+      ["P2", 3],
+    ]);
+  });
+});
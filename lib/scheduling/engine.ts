@@ -0,0 +1,389 @@
+import { createTrace } from "./trace";
+import { appendBlock } from "./timeline";
+import { CONTEXT_SWITCH, MAX_CORES } from "./types";
+import type { GanttBlock, ProcessResult, ScheduleEvent, ScheduleResult, SchedulerOptions, SchedulerProcess } from "./types";
+
+/** Live state of a process while it is being scheduled. */
+export interface Job {
+  pid: string;
+  arrival: number;
+  priority?: number;
+  /** Core the job is pinned to, if any. */
+  affinity?: number;
+  /** Alternating CPU and I/O burst lengths, starting and ending with CPU. */
+  bursts: number[];
+  /** Index into `bursts`; even = CPU burst, odd = I/O burst. */
+  index: number;
+  /** Time left in the current burst. */
+  remaining: number;
+  /** When the job last entered the ready queue. */
+  readySince: number;
+  firstStart: number | null;
+  /** Time blocked on I/O so far, including waiting for the device. */
+  ioTime: number;
+}
+
+/**
+ * How a scheduler picks the next job. Without a `key` the ready queue is served
+ * in FIFO order (FCFS, Round Robin).
+ */
+export interface Policy {
+  /** Lower runs first; ties go to the job that has been ready longest, then arrival, then PID. */
+  key?: (job: Job, time: number) => number;
+  /**
+   * Re-evaluate `key` at every event and preempt when a ready job beats the running one.
+   * Between events the order must not change on its own (a running job may only improve).
+   */
+  preemptive?: boolean;
+  /**
+   * Time slice after which the running job goes to the back of the ready queue. A function
+   * gives each job its own slice, or none (undefined) to let it run until its burst ends.
+   */
+  quantum?: number | ((job: Job) => number | undefined);
+  /** Queue a job is in (multilevel schedulers); tags its Gantt blocks and its demote/promote events. */
+  level?: (job: Job) => number;
+  /** Called when the running job uses up its time slice, before anything replaces it (e.g. to demote it). */
+  onQuantumExpired?: (job: Job, time: number) => void;
+  /**
+   * Rules that change jobs' keys as time passes, such as a priority boost or aging.
+   * `apply` runs at every instant, after arrivals; `next` is the first instant after `time`
+   * at which it could change anything, so the simulation stops there.
+   */
+  timed?: {
+    next: (time: number, ready: readonly Job[]) => number;
+    apply: (time: number, ready: readonly Job[], others: readonly Job[]) => void;
+  };
+}
+
+/**
+ * Copies and sorts processes by arrival time, using the PID as a stable tie-breaker.
+ * @param processes Processes in input order.
+ * @returns A new, sorted array of copies.
+ */
+export function sortByArrival<T extends SchedulerProcess>(processes: T[]): T[] {
+  return processes
+    .map((p) => ({ ...p }))
+    .sort((a, b) => a.arrival - b.arrival || a.pid.localeCompare(b.pid));
+}
+
+/**
+ * Compresses a per-time-unit timeline into Gantt blocks (consecutive equal entries merge).
+ * @param uncompressedTimeline One entry (PID or "IDLE") per time unit.
+ */
+export function compressTimeline(uncompressedTimeline: (string | "IDLE")[]): GanttBlock[] {
+  const blocks: GanttBlock[] = [];
+  uncompressedTimeline.forEach((process, t) => appendBlock(blocks, process, t, t + 1));
+  return blocks;
+}
+
+/**
+ * Builds the common output shape from per-core and I/O Gantt lanes.
+ * @param coreBlocks One contiguous lane per core, starting at time 0.
+ * @param results Per-process metrics, in the order they should be displayed.
+ * @param events Event trace recorded while scheduling.
+ * @param ioBlocks I/O device lane; idle until the end of the schedule by default.
+ * @returns The common output shape shared by every scheduler.
+ */
+export function buildSchedule(
+  coreBlocks: GanttBlock[][],
+  results: ProcessResult[],
+  events: ScheduleEvent[] = [],
+  ioBlocks: GanttBlock[] = []
+): ScheduleResult {
+  const allBlocks = coreBlocks.flat();
+
+  // Generate unique time markers for the chart's axis, shared by every core lane
+  const timeMarkers = Array.from(new Set(allBlocks.map((b) => b.start).concat(allBlocks.map((b) => b.end)))).sort((a, b) => a - b);
+  const totalTime = timeMarkers[timeMarkers.length - 1] || 0;
+
+  // Every lane spans the whole schedule, idle where it ran out of work
+  const pad = (blocks: GanttBlock[]) => {
+    const padded = blocks.map((b) => ({ ...b }));
+    appendBlock(padded, "IDLE", padded.at(-1)?.end ?? 0, totalTime);
+    return padded;
+  };
+  const lanes = coreBlocks.map(pad);
+
+  return {
+    ganttBlocks: lanes[0] ?? [],
+    timeMarkers,
+    totalTime,
+    results,
+    coreBlocks: lanes,
+    ioBlocks: pad(ioBlocks),
+    events,
+  };
+}
+
+/**
+ * Builds the metrics row for a job that finished at `completion`.
+ */
+function finish(job: Job, completion: number): ProcessResult {
+  const cpu = job.bursts.filter((_, i) => i % 2 === 0).reduce((sum, b) => sum + b, 0);
+  const turnaround = completion - job.arrival;
+  return {
+    pid: job.pid,
+    arrival: job.arrival,
+    burst: cpu,
+    ...(job.priority !== undefined && { priority: job.priority }),
+    completion,
+    turnaround,
+    waiting: turnaround - cpu - job.ioTime,
+    response: (job.firstStart ?? job.arrival) - job.arrival,
+    ioTime: job.ioTime,
+  };
+}
+
+/**
+ * Simulates one or more CPU cores sharing a ready queue, plus a single FCFS I/O device.
+ * Time jumps straight to the next event (arrival, end of a burst, switch or quantum), and
+ * each lane is recorded as intervals, so a schedule's cost grows with its number of
+ * events rather than its length.
+ *
+ * At each instant, in order: finished I/O returns its job to the ready queue, new
+ * arrivals join it, timed rules (boost, aging) apply, expired quanta are preempted, idle cores are dispatched, and then
+ * (under a preemptive key) busy cores are preempted by better ready jobs, worst running
+ * job first, and idle cores may pick up the preempted jobs. A job whose CPU burst ends either completes or blocks on I/O. A job with an
+ * `affinity` only ever runs on that core.
+ *
+ * Dispatching a different process than the one that last ran on a core first costs
+ * `contextSwitch` units of CONTEXT_SWITCH time on that core. The switch cannot be
+ * interrupted, and the job's response time and quantum start once it is over.
+ * @param processes Processes with arrival times and bursts.
+ * @param policy Selection rule, preemption and quantum.
+ * @param options `cores` is the number of CPU cores (defaults to 1); `contextSwitch` is the switch cost (defaults to 0).
+ * @returns Results including metrics, Gantt data and the event trace.
+ */
+export function simulate(
+  processes: SchedulerProcess[],
+  policy: Policy = {},
+  options: Pick<SchedulerOptions, "cores" | "contextSwitch"> = {}
+): ScheduleResult {
+  const { cores = 1, contextSwitch = 0 } = options;
+  if (!Number.isInteger(cores) || cores < 1 || cores > MAX_CORES) {
+    throw new RangeError(`Core count must be an integer from 1 to ${MAX_CORES}.`);
+  }
+  if (!Number.isInteger(contextSwitch) || contextSwitch < 0) {
+    throw new RangeError("Context switch time must be a non-negative integer.");
+  }
+  const pending: Job[] = sortByArrival(processes).map((p) => {
+    if (p.affinity !== undefined && !(Number.isInteger(p.affinity) && p.affinity >= 0 && p.affinity < cores)) {
+      throw new RangeError(`${p.pid} is pinned to core ${p.affinity}, but only cores 0 to ${cores - 1} exist.`);
+    }
+    const bursts = [p.burst, ...(p.io ?? []).flatMap((b) => [b.io, b.cpu])];
+    return {
+      pid: p.pid,
+      arrival: p.arrival,
+      ...(p.priority !== undefined && { priority: p.priority }),
+      ...(p.affinity !== undefined && { affinity: p.affinity }),
+      bursts,
+      index: 0,
+      remaining: bursts[0],
+      readySince: p.arrival,
+      firstStart: null,
+      ioTime: 0,
+    };
+  });
+  const total = pending.length;
+  const ready: Job[] = [];
+  const ioQueue: Job[] = [];
+  const blockedSince = new Map<Job, number>();
+  const done: ProcessResult[] = [];
+  const coreBlocks: GanttBlock[][] = Array.from({ length: cores }, () => []);
+  const ioBlocks: GanttBlock[] = [];
+  const trace = createTrace();
+  const running: (Job | null)[] = Array(cores).fill(null);
+  const slices: number[] = Array(cores).fill(0);
+  const idle: boolean[] = Array(cores).fill(false);
+  // Switch time left before the job in `running` starts, and the PID that last ran, per core
+  const switching: number[] = Array(cores).fill(0);
+  const lastPid: (string | null)[] = Array(cores).fill(null);
+  let time = 0;
+
+  const { key, preemptive, quantum, level, onQuantumExpired, timed } = policy;
+  const sliceFor = (job: Job) => (typeof quantum === "function" ? quantum(job) : quantum);
+  const compare = (a: Job, b: Job) =>
+    (key ? key(a, time) - key(b, time) : 0) || a.readySince - b.readySince || a.arrival - b.arrival || a.pid.localeCompare(b.pid);
+  // Single-core traces stay untagged so they read exactly as before
+  const tag = (core: number) => (cores > 1 ? core : undefined);
+  const pick = (core: number): Job | null => {
+    const eligible = ready.filter((j) => j.affinity === undefined || j.affinity === core);
+    if (eligible.length === 0) return null;
+    return key ? eligible.reduce((best, j) => (compare(j, best) < 0 ? j : best)) : eligible[0];
+  };
+
+  const makeReady = (job: Job) => {
+    job.readySince = time;
+    ready.push(job);
+  };
+  const preempt = (core: number) => {
+    const job = running[core]!;
+    makeReady(job);
+    trace.record("preempt", time, job.pid, ready, tag(core));
+    running[core] = null;
+  };
+  const start = (core: number, job: Job) => {
+    job.firstStart ??= time;
+    slices[core] = 0;
+    lastPid[core] = job.pid;
+    trace.record("dispatch", time, job.pid, ready, tag(core));
+  };
+  const dispatch = (core: number, job: Job) => {
+    ready.splice(ready.indexOf(job), 1);
+    running[core] = job;
+    if (contextSwitch > 0 && lastPid[core] !== null && lastPid[core] !== job.pid) {
+      switching[core] = contextSwitch;
+      trace.record("switch", time, job.pid, ready, tag(core));
+    } else {
+      start(core, job);
+    }
+  };
+
+  // Runs a policy hook, records a demote or promote event for every job it moves between queues,
+  // and returns the jobs it moved
+  const trackLevels = (jobs: Job[], change: () => void): Job[] => {
+    const before = level ? jobs.map(level) : [];
+    change();
+    if (!level) return [];
+    return jobs.filter((job, i) => {
+      const after = level(job);
+      if (after === before[i]) return false;
+      trace.record(after > before[i] ? "demote" : "promote", time, job.pid, ready, undefined, after);
+      return true;
+    });
+  };
+
+  const fillIdleCores = () => {
+    for (let core = 0; core < cores; core++) {
+      if (running[core]) continue;
+      const job = pick(core);
+      if (job) {
+        if (idle[core]) {
+          trace.record("idle-end", time, null, ready, tag(core));
+          idle[core] = false;
+        }
+        dispatch(core, job);
+      } else if (!idle[core]) {
+        trace.record("idle-start", time, null, ready, tag(core));
+        idle[core] = true;
+      }
+    }
+  };
+
+  while (done.length < total) {
+    // 1. I/O completion puts the job back in the ready queue
+    const io = ioQueue[0];
+    if (io && io.remaining === 0) {
+      ioQueue.shift();
+      io.ioTime += time - blockedSince.get(io)!;
+      io.index++;
+      io.remaining = io.bursts[io.index];
+      makeReady(io);
+      trace.record("io-complete", time, io.pid, ready);
+    }
+
+    // 2. Arrivals
+    while (pending.length > 0 && pending[0].arrival <= time) {
+      const job = pending.shift()!;
+      makeReady(job);
+      trace.record("arrival", time, job.pid, ready);
+    }
+
+    // 2b. Timed rules (e.g. a priority boost or aging) may move jobs between queues
+    if (timed) {
+      const others = [...running.filter((job): job is Job => job !== null), ...ioQueue];
+      const moved = trackLevels([...ready, ...others], () => timed.apply(time, ready, others));
+      // A running job that changes queue starts a fresh slice there, rather than carrying over
+      // the time it ran under the old queue's quantum
+      running.forEach((job, core) => {
+        if (job && moved.includes(job)) slices[core] = 0;
+      });
+    }
+
+    // 3. Quantum expiry; if nobody else could take the core (or, under a key, only jobs that
+    // rank lower), the slice just restarts
+    for (let core = 0; core < cores; core++) {
+      const job = running[core];
+      const slice = job && !switching[core] ? sliceFor(job) : undefined;
+      if (job && slice !== undefined && slices[core] >= slice) {
+        if (onQuantumExpired) trackLevels([job], () => onQuantumExpired(job, time));
+        const next = pick(core);
+        if (next && (!key || key(next, time) <= key(job, time))) preempt(core);
+        else slices[core] = 0;
+      }
+    }
+
+    // 4. Dispatch idle cores
+    fillIdleCores();
+
+    // 5. Preemptive key: a better ready job takes over a busy core, worst running job first;
+    // a job preempted here can still move straight to a core that is idle
+    if (preemptive && key !== undefined) {
+      const busy = running
+        .map((job, core) => ({ job, core }))
+        .filter((c): c is { job: Job; core: number } => c.job !== null && !switching[c.core])
+        .sort((a, b) => compare(b.job, a.job));
+      for (const { job, core } of busy) {
+        const best = pick(core);
+        if (best && compare(best, job) < 0) {
+          preempt(core);
+          dispatch(core, best);
+        }
+      }
+      fillIdleCores();
+    }
+
+    // 6. Advance to the next instant anything can change: an arrival, a timed rule, or the
+    // end of an I/O burst, CPU burst, context switch or quantum
+    let step = Infinity;
+    if (pending.length > 0) step = pending[0].arrival - time;
+    if (ioQueue[0]) step = Math.min(step, ioQueue[0].remaining);
+    if (timed) step = Math.min(step, timed.next(time, ready) - time);
+    running.forEach((job, core) => {
+      if (!job) return;
+      step = Math.min(step, switching[core] || job.remaining);
+      const slice = switching[core] ? undefined : sliceFor(job);
+      if (slice !== undefined) step = Math.min(step, slice - slices[core]);
+    });
+    step = Math.max(1, step);
+
+    running.forEach((job, core) => {
+      if (!job) appendBlock(coreBlocks[core], "IDLE", time, time + step);
+      else if (switching[core]) appendBlock(coreBlocks[core], CONTEXT_SWITCH, time, time + step);
+      else appendBlock(coreBlocks[core], job.pid, time, time + step, level?.(job));
+    });
+    appendBlock(ioBlocks, ioQueue[0] ? ioQueue[0].pid : "IDLE", time, time + step);
+    if (ioQueue[0]) ioQueue[0].remaining -= step;
+    const switched: number[] = [];
+    running.forEach((job, core) => {
+      if (!job) return;
+      if (switching[core]) {
+        switching[core] -= step;
+        if (switching[core] === 0) switched.push(core);
+        return;
+      }
+      job.remaining -= step;
+      slices[core] += step;
+    });
+    time += step;
+
+    // 7. A finished switch starts its job; the end of a CPU burst completes or blocks on I/O
+    switched.forEach((core) => start(core, running[core]!));
+    running.forEach((job, core) => {
+      if (!job || switching[core] || job.remaining > 0) return;
+      if (job.index === job.bursts.length - 1) {
+        done.push(finish(job, time));
+        trace.record("complete", time, job.pid, ready, tag(core));
+      } else {
+        job.index++;
+        job.remaining = job.bursts[job.index];
+        blockedSince.set(job, time);
+        ioQueue.push(job);
+        trace.record("block", time, job.pid, ready, tag(core));
+      }
+      running[core] = null;
+    });
+  }
+
+  return buildSchedule(coreBlocks, done, trace.events, ioBlocks);
+}
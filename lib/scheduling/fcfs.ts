@@ -0,0 +1,13 @@
+import { simulate } from "./engine";
+import type { SchedulerOptions, SchedulerProcess } from "./types";
+
+/**
+ * Executes the First-Come, First-Served (FCFS) scheduling algorithm.
+ * The ready queue is served strictly in the order processes entered it (ties broken by PID).
+ * @param processes Array of processes with arrival and burst times.
+ * @param options `cores` is the number of CPU cores (defaults to 1).
+ * @returns Results including metrics and Gantt chart data.
+ */
+export function fcfs(processes: SchedulerProcess[], options: SchedulerOptions = {}) {
+  return simulate(processes, {}, options);
+}
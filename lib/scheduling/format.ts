@@ -0,0 +1,98 @@
+import { summarize } from "./metrics";
+import { downsampleBlocks } from "./timeline";
+import { CONTEXT_SWITCH, type GanttBlock, type ScheduleResult } from "./types";
+
+// Widest a single time unit may be drawn, so long schedules stay printable
+const MAX_UNIT_WIDTH = 4;
+// Widest a lane may be drawn; longer schedules are scaled down and their short blocks merged
+const MAX_LANE_WIDTH = 160;
+
+const pad = (text: string, width: number) => text.padStart(width);
+
+/**
+ * Renders the per-process metrics and their averages as a fixed-width text table.
+ * @param schedule Output of any scheduler.
+ */
+export function formatMetricsTable(schedule: ScheduleResult): string {
+  const { results } = schedule;
+  const withPriority = results.some((r) => r.priority !== undefined);
+  const withIo = results.some((r) => r.ioTime > 0);
+
+  const header = ["PID", "AT", "BT", ...(withPriority ? ["PR"] : []), ...(withIo ? ["IO"] : []), "CT", "RT", "TAT", "WT"];
+  const rows = results.map((r) => [
+    r.pid,
+    String(r.arrival),
+    String(r.burst),
+    ...(withPriority ? [String(r.priority ?? "")] : []),
+    ...(withIo ? [String(r.ioTime)] : []),
+    String(r.completion),
+    String(r.response),
+    String(r.turnaround),
+    String(r.waiting),
+  ]);
+
+  const widths = header.map((h, c) => Math.max(h.length, ...rows.map((r) => r[c].length)));
+  const line = (cells: string[]) => cells.map((cell, c) => pad(cell, widths[c])).join("  ");
+  const rule = widths.map((w) => "-".repeat(w)).join("  ");
+
+  const m = summarize(schedule);
+  const averages = [
+    `Avg WT: ${m.avgWaiting.toFixed(2)}   Avg TAT: ${m.avgTurnaround.toFixed(2)}   Avg RT: ${m.avgResponse.toFixed(2)}`,
+    `Throughput: ${m.throughput.toFixed(3)}/unit   CPU utilization: ${m.cpuUtilization.toFixed(1)}%`,
+    ...(m.contextSwitches > 0 ? [`Context switches: ${m.contextSwitches} (${m.switchOverhead} units overhead)`] : []),
+  ];
+
+  return [line(header), rule, ...rows.map(line), rule, ...averages].join("\n");
+}
+
+/**
+ * Renders a schedule as an ASCII Gantt chart: one lane per core, plus the I/O device
+ * when it was used. All lanes share one time scale, shrunk to fit MAX_LANE_WIDTH columns.
+ * @param schedule Output of any scheduler.
+ */
+export function formatGantt(schedule: ScheduleResult): string {
+  const lanes: [string, GanttBlock[]][] = schedule.coreBlocks.map((blocks, core) => [
+    schedule.coreBlocks.length > 1 ? `CPU${core + 1}` : "CPU",
+    blocks,
+  ]);
+  if (schedule.ioBlocks.some((b) => b.process !== "IDLE")) lanes.push(["I/O", schedule.ioBlocks]);
+
+  const label = (block: GanttBlock) => (block.process === "IDLE" ? "" : block.process === CONTEXT_SWITCH ? "cs" : block.process);
+  // Characters per time unit: enough for the tightest label, within MAX_UNIT_WIDTH
+  const unit = Math.min(
+    MAX_UNIT_WIDTH,
+    Math.max(1, ...lanes.flatMap(([, blocks]) => blocks.map((b) => Math.ceil((label(b).length + 1) / (b.end - b.start)))))
+  );
+  const scale = Math.min(unit, MAX_LANE_WIDTH / Math.max(1, schedule.totalTime));
+  const gutter = Math.max(...lanes.map(([name]) => name.length)) + 1;
+  const x = (time: number) => Math.round(time * scale);
+
+  const out: string[] = [];
+  for (const [name, lane] of lanes) {
+    // Blocks narrower than two columns cannot show a border and a label
+    const blocks = scale < unit ? downsampleBlocks(lane, 0, schedule.totalTime, 2 / scale) : lane;
+    let border = "+";
+    let body = "|";
+    for (const block of blocks) {
+      if (x(block.end) === x(block.start)) continue;
+      const width = x(block.end) - x(block.start) - 1;
+      const text = label(block).slice(0, width);
+      const fill = block.process === "IDLE" ? "." : " ";
+      const left = Math.floor((width - text.length) / 2);
+      border += "-".repeat(width) + "+";
+      body += fill.repeat(left) + text + fill.repeat(width - left - text.length) + "|";
+    }
+    out.push(" ".repeat(gutter) + border, name.padEnd(gutter) + body, " ".repeat(gutter) + border);
+  }
+
+  // Time axis: each marker under its boundary, skipped when it would overlap the previous one
+  let axis = "";
+  for (const time of schedule.timeMarkers) {
+    const at = x(time);
+    if (axis.length > 0 && at <= axis.length) continue;
+    axis = axis.padEnd(at) + time;
+  }
+  out.push(" ".repeat(gutter) + axis);
+
+  return out.join("\n");
+}
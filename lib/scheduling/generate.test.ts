@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { createRng, generateWorkload, type WorkloadSpec } from "./generate";
+import { validateWorkload } from "./validate";
+
+const SPEC: WorkloadSpec = { count: 200, seed: 42, arrival: "poisson", meanArrivalGap: 4, burst: "exponential", meanBurst: 6 };
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+describe("createRng", () => {
+  it("repeats the same sequence for the same seed", () => {
+    const a = createRng(7);
+    const b = createRng(7);
+    const c = createRng(8);
+    const first = Array.from({ length: 5 }, a);
+    expect(Array.from({ length: 5 }, b)).toEqual(first);
+    expect(Array.from({ length: 5 }, c)).not.toEqual(first);
+    expect(first.every((x) => x >= 0 && x < 1)).toBe(true);
+  });
+});
+
+describe("generateWorkload", () => {
+  it("is reproducible from the seed", () => {
+    expect(generateWorkload(SPEC)).toEqual(generateWorkload(SPEC));
+    expect(generateWorkload({ ...SPEC, seed: 43 })).not.toEqual(generateWorkload(SPEC));
+  });
+
+  it("produces valid workloads numbered in arrival order", () => {
+    for (const arrival of ["poisson", "uniform"] as const) {
+      for (const burst of ["exponential", "uniform", "bimodal"] as const) {
+        const processes = generateWorkload({ ...SPEC, arrival, burst, maxPriority: 5 });
+        expect(processes).toHaveLength(SPEC.count);
+        expect(validateWorkload(processes, { requirePriority: true })).toEqual({ processes });
+        expect(processes.map((p) => p.pid)).toEqual(processes.map((_, i) => `P${i + 1}`));
+        processes.slice(1).forEach((p, i) => expect(p.arrival).toBeGreaterThanOrEqual(processes[i].arrival));
+        expect(processes.every((p) => p.priority! >= 1 && p.priority! <= 5)).toBe(true);
+      }
+    }
+  });
+
+  it("starts Poisson arrivals at 0 and roughly matches the requested means", () => {
+    for (const burst of ["exponential", "uniform", "bimodal"] as const) {
+      const processes = generateWorkload({ ...SPEC, count: 2000, burst });
+      expect(processes[0].arrival).toBe(0);
+      expect(processes.at(-1)!.arrival / (processes.length - 1)).toBeCloseTo(SPEC.meanArrivalGap, 0);
+      expect(mean(processes.map((p) => p.burst))).toBeGreaterThan(SPEC.meanBurst * 0.85);
+      expect(mean(processes.map((p) => p.burst))).toBeLessThan(SPEC.meanBurst * 1.15);
+    }
+  });
+
+  it("leaves priorities out unless asked for", () => {
+    expect(generateWorkload(SPEC).some((p) => "priority" in p)).toBe(false);
+  });
+
+  it("rejects out-of-range specs", () => {
+    expect(() => generateWorkload({ ...SPEC, count: 0 })).toThrow(RangeError);
+    expect(() => generateWorkload({ ...SPEC, meanBurst: 0 })).toThrow(RangeError);
+    expect(() => generateWorkload({ ...SPEC, meanArrivalGap: -1 })).toThrow(RangeError);
+  });
+});
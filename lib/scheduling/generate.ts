@@ -0,0 +1,110 @@
+import { MAX_TIME_UNIT, type SchedulerProcess } from "./types";
+
+/** Largest workload the generator will produce. */
+export const MAX_GENERATED = 5000;
+
+/** Top priority for generated workloads that have priorities, which then run from 1 to this. */
+export const GENERATED_MAX_PRIORITY = 5;
+
+export type ArrivalDistribution = "poisson" | "uniform";
+export type BurstDistribution = "exponential" | "uniform" | "bimodal";
+
+export interface WorkloadSpec {
+  /** Number of processes, 1 to MAX_GENERATED. */
+  count: number;
+  /** Same seed and spec = same workload. */
+  seed: number;
+  /**
+   * "poisson": exponential gaps between arrivals (the first arrives at 0).
+   * "uniform": arrivals spread evenly at random over `0..count * meanArrivalGap`.
+   */
+  arrival: ArrivalDistribution;
+  meanArrivalGap: number;
+  /**
+   * "exponential": many short bursts and a few long ones.
+   * "uniform": any length from 1 to about twice the mean.
+   * "bimodal": 80% short bursts and 20% bursts four times longer, like a mix of
+   * I/O-bound and CPU-bound jobs.
+   */
+  burst: BurstDistribution;
+  meanBurst: number;
+  /** Draw priorities from 1 to this; omit for processes without a priority. */
+  maxPriority?: number;
+}
+
+// Share of long jobs in a bimodal workload, and how much longer they are than short ones
+const LONG_SHARE = 0.2;
+const LONG_FACTOR = 4;
+
+/**
+ * Seeded pseudo-random generator (mulberry32), so a workload can be regenerated exactly.
+ * @returns A function giving numbers in `[0, 1)`.
+ */
+export function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Generates a random workload from a seed. PIDs are numbered in arrival order.
+ * @param spec Process count, seed and distributions.
+ * @returns Processes sorted by arrival.
+ */
+export function generateWorkload(spec: WorkloadSpec): SchedulerProcess[] {
+  const { count, seed, arrival, meanArrivalGap, burst, meanBurst, maxPriority } = spec;
+  if (!Number.isInteger(count) || count < 1 || count > MAX_GENERATED) {
+    throw new RangeError(`Process count must be an integer from 1 to ${MAX_GENERATED}.`);
+  }
+  if (!(meanArrivalGap >= 0)) {
+    throw new RangeError("Mean arrival gap must be non-negative.");
+  }
+  if (!(meanBurst >= 1 && meanBurst <= MAX_TIME_UNIT)) {
+    throw new RangeError(`Mean burst must be from 1 to ${MAX_TIME_UNIT}.`);
+  }
+
+  const random = createRng(seed);
+  const exponential = (mean: number) => -mean * Math.log(1 - random());
+  const between = (min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+  const clampBurst = (value: number) => Math.min(MAX_TIME_UNIT, Math.max(1, Math.round(value)));
+
+  const arrivals: number[] = [];
+  if (arrival === "poisson") {
+    let time = 0;
+    for (let i = 0; i < count; i++) {
+      if (i > 0) time += exponential(meanArrivalGap);
+      arrivals.push(Math.round(time));
+    }
+  } else {
+    const horizon = Math.round(count * meanArrivalGap);
+    for (let i = 0; i < count; i++) arrivals.push(between(0, horizon));
+    arrivals.sort((a, b) => a - b);
+  }
+
+  // Short jobs are sized so the bimodal mean still matches `meanBurst`
+  const shortBurst = meanBurst / (1 - LONG_SHARE + LONG_SHARE * LONG_FACTOR);
+  const drawBurst = (): number => {
+    switch (burst) {
+      case "exponential":
+        return clampBurst(exponential(meanBurst));
+      case "uniform":
+        return between(1, clampBurst(2 * meanBurst - 1));
+      case "bimodal": {
+        const center = random() < LONG_SHARE ? shortBurst * LONG_FACTOR : shortBurst;
+        return clampBurst(center * (0.5 + random()));
+      }
+    }
+  };
+
+  return arrivals.map((at, i) => ({
+    pid: `P${i + 1}`,
+    arrival: at,
+    burst: drawBurst(),
+    ...(maxPriority !== undefined && { priority: between(1, maxPriority) }),
+  }));
+}
@@ -0,0 +1,16 @@
+import { simulate } from "./engine";
+import type { SchedulerOptions, SchedulerProcess } from "./types";
+
+/**
+ * Executes Highest Response Ratio Next (HRRN) scheduling.
+ * When the CPU is free, every ready process gets a ratio of (waiting + burst) / burst
+ * and the highest one runs to the end of its burst, so long jobs age their way to the front.
+ * @param processes Array of processes with arrival and burst times.
+ * @param options `cores` is the number of CPU cores (defaults to 1).
+ * @returns Results including metrics and Gantt chart data.
+ */
+export function hrrn(processes: SchedulerProcess[], options: SchedulerOptions = {}) {
+  return simulate(processes, {
+    key: (job, time) => -((time - job.readySince + job.remaining) / job.remaining),
+  }, options);
+}
@@ -0,0 +1,46 @@
+export * from "./types";
+export { buildSchedule, compressTimeline } from "./engine";
+export { appendBlock, blockIndexAt, clipBlocks, downsampleBlocks } from "./timeline";
+export { fcfs } from "./fcfs";
+export { sjf } from "./sjf";
+export { srtf } from "./srtf";
+export { priority } from "./priority";
+export { roundRobin, DEFAULT_QUANTUM } from "./roundRobin";
+export { hrrn } from "./hrrn";
+export { mlfq, DEFAULT_MLFQ } from "./mlfq";
+export { ALGORITHMS, ALGORITHM_IDS, type AlgorithmId, type AlgorithmInfo } from "./registry";
+export { summarize, coreLoad, queueResidency, type ScheduleMetrics, type CoreLoad, type QueueResidency } from "./metrics";
+export { describeEvent } from "./trace";
+export {
+  defaultProcessColor,
+  getProcessColor,
+  PROCESS_COLOR_HEX,
+  PROCESS_COLOR_NAMES,
+  PROCESS_COLORS,
+  type ProcessColor,
+} from "./colors";
+export { renderGanttSvg, type GanttSvgOptions, type SvgLane } from "./svg";
+export { parseCsv, toCsv } from "./csv";
+export { validateOptions, validateWorkload, type FieldError } from "./validate";
+export { formatGantt, formatMetricsTable } from "./format";
+export {
+  ganttOrder,
+  gradeQuiz,
+  parseOrder,
+  practiceWorkload,
+  PRACTICE_WORKLOAD,
+  QUIZ_FIELDS,
+  type QuizAnswer,
+  type QuizField,
+  type QuizGrade,
+} from "./quiz";
+export { TEXTBOOK_SCENARIOS, type Scenario } from "./scenarios";
+export {
+  createRng,
+  GENERATED_MAX_PRIORITY,
+  generateWorkload,
+  MAX_GENERATED,
+  type ArrivalDistribution,
+  type BurstDistribution,
+  type WorkloadSpec,
+} from "./generate";
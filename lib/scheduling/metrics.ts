@@ -0,0 +1,105 @@
+import { CONTEXT_SWITCH, type GanttBlock, type ScheduleResult } from "./types";
+
+export interface ScheduleMetrics {
+  avgWaiting: number;
+  avgTurnaround: number;
+  avgResponse: number;
+  /** Completed processes per time unit. */
+  throughput: number;
+  /** Percentage of the timeline the CPU spent running processes (averaged over all cores). */
+  cpuUtilization: number;
+  /** Number of context switches across all cores. */
+  contextSwitches: number;
+  /** Total time spent switching context, summed over all cores. */
+  switchOverhead: number;
+}
+
+export interface CoreLoad {
+  /** Busy percentage of each core over the whole schedule. */
+  utilization: number[];
+  /** How far the busiest core is above the mean load, as a percentage (0 = perfectly balanced). */
+  imbalance: number;
+}
+
+export interface QueueResidency {
+  pid: string;
+  /** Time spent in each queue, highest first. */
+  time: number[];
+}
+
+const duration = (blocks: GanttBlock[]) => blocks.reduce((sum, b) => sum + (b.end - b.start), 0);
+
+/** Time spent running processes; idle and context-switch time do not count. */
+const busyTime = (blocks: GanttBlock[]) =>
+  duration(blocks.filter((b) => b.process !== "IDLE" && b.process !== CONTEXT_SWITCH));
+
+/**
+ * Aggregates a schedule into the averages used to compare algorithms.
+ * @param schedule Output of any scheduler.
+ * @returns Averages, throughput, utilization and switch overhead (all 0 for an empty schedule).
+ */
+export function summarize(schedule: ScheduleResult): ScheduleMetrics {
+  const { results, coreBlocks, totalTime, events } = schedule;
+  const n = results.length;
+  if (n === 0 || totalTime === 0) {
+    return { avgWaiting: 0, avgTurnaround: 0, avgResponse: 0, throughput: 0, cpuUtilization: 0, contextSwitches: 0, switchOverhead: 0 };
+  }
+
+  const busy = coreBlocks.reduce((sum, blocks) => sum + busyTime(blocks), 0);
+  // Back-to-back switches merge into one block, so count them from the trace
+  const switchBlocks = coreBlocks.flat().filter((b) => b.process === CONTEXT_SWITCH);
+
+  return {
+    avgWaiting: results.reduce((sum, p) => sum + p.waiting, 0) / n,
+    avgTurnaround: results.reduce((sum, p) => sum + p.turnaround, 0) / n,
+    avgResponse: results.reduce((sum, p) => sum + p.response, 0) / n,
+    throughput: n / totalTime,
+    cpuUtilization: (busy / (totalTime * coreBlocks.length)) * 100,
+    contextSwitches: events.filter((e) => e.type === "switch").length,
+    switchOverhead: duration(switchBlocks),
+  };
+}
+
+/**
+ * Per-core utilization and load imbalance of a (multi-core) schedule.
+ * @param schedule Output of any scheduler (only the core lanes and total time are read).
+ * @returns One utilization figure per core and the imbalance across them.
+ */
+export function coreLoad(schedule: Pick<ScheduleResult, "coreBlocks" | "totalTime">): CoreLoad {
+  const { coreBlocks, totalTime } = schedule;
+  const busy = coreBlocks.map(busyTime);
+  const mean = busy.reduce((sum, b) => sum + b, 0) / busy.length;
+  return {
+    utilization: busy.map((b) => (totalTime === 0 ? 0 : (b / totalTime) * 100)),
+    imbalance: mean === 0 ? 0 : ((Math.max(...busy) - mean) / mean) * 100,
+  };
+}
+
+/**
+ * Time each process spent in each queue of a multilevel schedule, from its arrival (in the
+ * top queue) to its completion, whether running, waiting or blocked on I/O.
+ * @param schedule Output of a multilevel scheduler (only the results and event trace are read).
+ * @param queueCount Number of queues.
+ * @returns Time per queue for each process, in the order of `schedule.results`.
+ */
+export function queueResidency(schedule: Pick<ScheduleResult, "results" | "events">, queueCount: number): QueueResidency[] {
+  const moves = new Map<string, { time: number; level: number }[]>();
+  for (const event of schedule.events) {
+    if ((event.type === "demote" || event.type === "promote") && event.pid !== undefined) {
+      moves.set(event.pid, [...(moves.get(event.pid) ?? []), { time: event.time, level: event.level! }]);
+    }
+  }
+
+  return schedule.results.map(({ pid, arrival, completion }) => {
+    const time: number[] = Array(queueCount).fill(0);
+    let level = 0;
+    let since = arrival;
+    for (const move of moves.get(pid) ?? []) {
+      time[level] += move.time - since;
+      level = move.level;
+      since = move.time;
+    }
+    time[level] += completion - since;
+    return { pid, time };
+  });
+}
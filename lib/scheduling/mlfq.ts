@@ -0,0 +1,87 @@
+import { simulate, type Job } from "./engine";
+import { MAX_QUEUES, type MlfqOptions, type SchedulerOptions, type SchedulerProcess } from "./types";
+
+/** Three queues: RR with slices of 2 and 4, then FCFS at the bottom. */
+export const DEFAULT_MLFQ: MlfqOptions = { queues: [{ quantum: 2 }, { quantum: 4 }, {}] };
+
+const isPositive = (n: number | undefined) => n === undefined || (Number.isInteger(n) && n >= 1);
+
+/**
+ * Executes Multilevel Feedback Queue (MLFQ) scheduling. Every job starts in the top queue,
+ * and the highest non-empty queue always runs, preempting a job from a lower one. A job that
+ * uses `demoteAfter` full time slices in a queue drops to the next; one that blocks or is
+ * preempted first keeps its level (and gets a fresh slice next time).
+ *
+ * Every `boostInterval` units all jobs move back to the top queue, and a job that waits
+ * `agingThreshold` units in a ready queue is promoted one level. A promoted job joins the
+ * back of its new queue; jobs boosted together queue up in arrival order.
+ * @param processes Array of processes with arrival and burst times.
+ * @param options `mlfq` sets the queues and rules (defaults to DEFAULT_MLFQ); `cores` sets the core count.
+ * @returns Results including metrics and Gantt chart data, with each block tagged with its queue.
+ */
+export function mlfq(processes: SchedulerProcess[], options: SchedulerOptions = {}) {
+  const { queues, demoteAfter = 1, boostInterval, agingThreshold } = options.mlfq ?? DEFAULT_MLFQ;
+  if (queues.length < 1 || queues.length > MAX_QUEUES) {
+    throw new RangeError(`MLFQ needs from 1 to ${MAX_QUEUES} queues.`);
+  }
+  if (!queues.every((q) => isPositive(q.quantum))) {
+    throw new RangeError("Every queue's time quantum must be a positive integer.");
+  }
+  if (!isPositive(demoteAfter) || !isPositive(boostInterval) || !isPositive(agingThreshold)) {
+    throw new RangeError("Demotion, boost and aging settings must be positive integers.");
+  }
+
+  const levels = new Map<Job, number>();
+  // Full slices each job has used in its current queue
+  const slicesUsed = new Map<Job, number>();
+  const level = (job: Job) => levels.get(job) ?? 0;
+  const move = (job: Job, to: number) => {
+    levels.set(job, to);
+    slicesUsed.set(job, 0);
+  };
+
+  const timed = boostInterval !== undefined || agingThreshold !== undefined;
+
+  return simulate(processes, {
+    key: level,
+    preemptive: true,
+    quantum: (job) => queues[level(job)].quantum,
+    level,
+    onQuantumExpired: (job) => {
+      const used = (slicesUsed.get(job) ?? 0) + 1;
+      if (used >= demoteAfter && level(job) < queues.length - 1) move(job, level(job) + 1);
+      else slicesUsed.set(job, used);
+    },
+    ...(timed && {
+      timed: {
+        next: (time, ready) => {
+          let next = boostInterval ? (Math.floor(time / boostInterval) + 1) * boostInterval : Infinity;
+          if (agingThreshold) {
+            for (const job of ready) {
+              if (level(job) > 0) next = Math.min(next, job.readySince + agingThreshold);
+            }
+          }
+          return next;
+        },
+        apply: (time, ready, others) => {
+          if (boostInterval && time > 0 && time % boostInterval === 0) {
+            for (const job of [...ready, ...others]) {
+              if (level(job) === 0) continue;
+              move(job, 0);
+              // Only waiting jobs rejoin a queue; a running job carries on
+              if (ready.includes(job)) job.readySince = time;
+            }
+          }
+          if (agingThreshold) {
+            for (const job of ready) {
+              if (level(job) > 0 && time - job.readySince >= agingThreshold) {
+                move(job, level(job) - 1);
+                job.readySince = time;
+              }
+            }
+          }
+        },
+      },
+    }),
+  }, options);
+}
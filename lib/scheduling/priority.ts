@@ -0,0 +1,13 @@
+import { simulate } from "./engine";
+import type { SchedulerOptions, SchedulerProcess } from "./types";
+
+/**
+ * Executes Priority scheduling. A lower number means a higher priority; processes without
+ * a priority are treated as priority 0.
+ * @param processes Array of processes with arrival, burst and priority.
+ * @param options `preemptive` lets a higher-priority arrival take the CPU immediately; `cores` sets the core count.
+ * @returns Results including metrics and Gantt chart data.
+ */
+export function priority(processes: SchedulerProcess[], options: SchedulerOptions = {}) {
+  return simulate(processes, { key: (job) => job.priority ?? 0, preemptive: options.preemptive }, options);
+}
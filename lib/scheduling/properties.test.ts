@@ -0,0 +1,95 @@
+import fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import { ALGORITHM_IDS, ALGORITHMS } from "./registry";
+import { CONTEXT_SWITCH, type SchedulerOptions, type SchedulerProcess } from "./types";
+
+// Narrow ranges make simultaneous arrivals, equal bursts and idle gaps common, and keep failing cases small enough to read
+const workloadArb: fc.Arbitrary<SchedulerProcess[]> = fc
+  .array(
+    fc.record(
+      {
+        arrival: fc.integer({ min: 0, max: 20 }),
+        burst: fc.integer({ min: 1, max: 10 }),
+        priority: fc.integer({ min: 0, max: 5 }),
+        io: fc.array(fc.record({ io: fc.integer({ min: 1, max: 5 }), cpu: fc.integer({ min: 1, max: 5 }) }), { maxLength: 2 }),
+      },
+      { requiredKeys: ["arrival", "burst"] }
+    ),
+    { minLength: 1, maxLength: 8 }
+  )
+  .map((rows) => rows.map((row, i) => ({ pid: `P${i + 1}`, ...row })));
+
+const optionsArb: fc.Arbitrary<SchedulerOptions> = fc.record({
+  quantum: fc.integer({ min: 1, max: 5 }),
+  preemptive: fc.boolean(),
+  cores: fc.integer({ min: 1, max: 3 }),
+  contextSwitch: fc.integer({ min: 0, max: 2 }),
+});
+
+describe.each(ALGORITHM_IDS)("%s invariants", (id) => {
+  const run = (processes: SchedulerProcess[], options: SchedulerOptions) => ALGORITHMS[id].run(processes, options);
+
+  it("lays every lane out as contiguous, non-overlapping blocks from 0 to totalTime", () => {
+    fc.assert(
+      fc.property(workloadArb, optionsArb, (processes, options) => {
+        const schedule = run(processes, options);
+        for (const blocks of [...schedule.coreBlocks, schedule.ioBlocks]) {
+          expect(blocks[0].start).toBe(0);
+          blocks.forEach((b, i) => {
+            expect(b.end).toBeGreaterThan(b.start);
+            if (i > 0) expect(b.start).toBe(blocks[i - 1].end);
+          });
+          expect(blocks.at(-1)!.end).toBe(schedule.totalTime);
+        }
+      })
+    );
+  });
+
+  it("never reports a negative waiting time", () => {
+    fc.assert(
+      fc.property(workloadArb, optionsArb, (processes, options) => {
+        for (const r of run(processes, options).results) {
+          expect(r.waiting).toBeGreaterThanOrEqual(0);
+        }
+      })
+    );
+  });
+
+  it("spends exactly the total CPU burst in process blocks", () => {
+    fc.assert(
+      fc.property(workloadArb, optionsArb, (processes, options) => {
+        const schedule = run(processes, options);
+        const busy = schedule.coreBlocks
+          .flat()
+          .filter((b) => b.process !== "IDLE" && b.process !== CONTEXT_SWITCH)
+          .reduce((sum, b) => sum + (b.end - b.start), 0);
+        const bursts = processes.reduce((sum, p) => sum + p.burst + (p.io ?? []).reduce((s, b) => s + b.cpu, 0), 0);
+        expect(busy).toBe(bursts);
+      })
+    );
+  });
+
+  it("ends at the last completion time and completes every process once", () => {
+    fc.assert(
+      fc.property(workloadArb, optionsArb, (processes, options) => {
+        const schedule = run(processes, options);
+        expect(schedule.totalTime).toBe(Math.max(...schedule.results.map((r) => r.completion)));
+        expect(schedule.results.map((r) => r.pid).sort()).toEqual(processes.map((p) => p.pid).sort());
+      })
+    );
+  });
+
+  it("matches each result's turnaround and waiting to its completion time, with response within waiting", () => {
+    fc.assert(
+      fc.property(workloadArb, optionsArb, (processes, options) => {
+        for (const r of run(processes, options).results) {
+          expect(r.turnaround).toBe(r.completion - r.arrival);
+          expect(r.waiting).toBe(r.turnaround - r.burst - r.ioTime);
+          // Until its first dispatch a job is only ever ready or switching in, both counted as waiting
+          expect(r.response).toBeGreaterThanOrEqual(0);
+          expect(r.response).toBeLessThanOrEqual(r.waiting);
+        }
+      })
+    );
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { fcfs } from "./fcfs";
+import { ganttOrder, gradeQuiz, parseOrder, practiceWorkload } from "./quiz";
+import { roundRobin } from "./roundRobin";
+
+// P3 arrives after an idle gap
+const WORKLOAD = [
+  { pid: "P1", arrival: 0, burst: 3 },
+  { pid: "P2", arrival: 1, burst: 2 },
+  { pid: "P3", arrival: 10, burst: 1 },
+];
+const KEY = fcfs(WORKLOAD);
+
+const RIGHT = [
+  { pid: "P1", completion: 3, turnaround: 3, waiting: 0 },
+  { pid: "P2", completion: 5, turnaround: 4, waiting: 2 },
+  { pid: "P3", completion: 11, turnaround: 1, waiting: 0 },
+];
+
+describe("ganttOrder", () => {
+  it("skips idle time and lists each slice once", () => {
+    expect(ganttOrder(KEY)).toEqual(["P1", "P2", "P3"]);
+    expect(ganttOrder(roundRobin([{ pid: "P1", arrival: 0, burst: 5 }, { pid: "P2", arrival: 0, burst: 2 }], { quantum: 2 }))).toEqual([
+      "P1",
+      "P2",
+      "P1",
+    ]);
+  });
+});
+
+describe("parseOrder", () => {
+  it("accepts spaces, commas and arrows", () => {
+    expect(parseOrder(" P1 → P2,P3 -> P1  P2 ")).toEqual(["P1", "P2", "P3", "P1", "P2"]);
+    expect(parseOrder("")).toEqual([]);
+  });
+});
+
+describe("gradeQuiz", () => {
+  it("gives full marks for the right answers", () => {
+    const grade = gradeQuiz(KEY, RIGHT, ["P1", "P2", "P3"]);
+    expect(grade.score).toBe(12);
+    expect(grade.total).toBe(12);
+  });
+
+  it("marks each wrong or blank cell and order slot", () => {
+    const answers = [{ ...RIGHT[0], waiting: 1 }, { pid: "P2", completion: 5 }, RIGHT[2]];
+    const grade = gradeQuiz(KEY, answers, ["P2", "P1", "P3"]);
+    expect(grade.cells[0]).toEqual({ pid: "P1", completion: true, turnaround: true, waiting: false });
+    expect(grade.cells[1]).toEqual({ pid: "P2", completion: true, turnaround: false, waiting: false });
+    expect(grade.order.map((slot) => slot.right)).toEqual([false, false, true]);
+    expect(grade.order[0]).toEqual({ entered: "P2", expected: "P1", right: false });
+    expect(grade.score).toBe(7);
+  });
+
+  it("counts extra order slots against the score and ignores repeats in a row", () => {
+    expect(gradeQuiz(KEY, RIGHT, ["P1", "P1", "P2", "P3"]).score).toBe(12);
+    const grade = gradeQuiz(KEY, RIGHT, ["P1", "P2", "P3", "P1"]);
+    expect(grade.order.at(-1)).toEqual({ entered: "P1", expected: undefined, right: false });
+    expect(grade.total).toBe(13);
+  });
+});
+
+describe("practiceWorkload", () => {
+  it("gives a small workload that changes with the seed", () => {
+    const first = practiceWorkload(1);
+    expect(first).toHaveLength(5);
+    expect(first.every((p) => p.priority === undefined)).toBe(true);
+    expect(practiceWorkload(1)).toEqual(first);
+    expect(practiceWorkload(2)).not.toEqual(first);
+    expect(practiceWorkload(1, true).every((p) => p.priority !== undefined)).toBe(true);
+  });
+});
@@ -0,0 +1,92 @@
+import { GENERATED_MAX_PRIORITY, generateWorkload, type WorkloadSpec } from "./generate";
+import { CONTEXT_SWITCH, type ScheduleResult, type SchedulerProcess } from "./types";
+
+/** Small enough to work through by hand: five processes with short, uniform bursts. */
+export const PRACTICE_WORKLOAD: Omit<WorkloadSpec, "seed"> = {
+  count: 5,
+  arrival: "poisson",
+  meanArrivalGap: 2,
+  burst: "uniform",
+  meanBurst: 4,
+};
+
+/**
+ * Generates a practice workload; each seed gives a different one.
+ * @param withPriority Give every process a priority.
+ */
+export function practiceWorkload(seed: number, withPriority = false): SchedulerProcess[] {
+  return generateWorkload({ ...PRACTICE_WORKLOAD, seed, ...(withPriority && { maxPriority: GENERATED_MAX_PRIORITY }) });
+}
+
+export type QuizField = "completion" | "turnaround" | "waiting";
+
+export const QUIZ_FIELDS: QuizField[] = ["completion", "turnaround", "waiting"];
+
+/** A student's entries for one process; a blank cell is left out. */
+export type QuizAnswer = { pid: string } & Partial<Record<QuizField, number>>;
+
+export interface QuizGrade {
+  /** Whether each entered value is right, per process in the order of `schedule.results`. */
+  cells: ({ pid: string } & Record<QuizField, boolean>)[];
+  /** Each slot of the Gantt order, entered against expected; a slot missing from either is wrong. */
+  order: { entered?: string; expected?: string; right: boolean }[];
+  score: number;
+  total: number;
+}
+
+/** Drops repeats of the same PID in a row, so a process that keeps the CPU counts once. */
+const collapse = (pids: string[]) => pids.filter((pid, i) => pid !== pids[i - 1]);
+
+/**
+ * The order processes get the CPU, as read off the Gantt chart: idle time and context
+ * switches are skipped, and a process that keeps the CPU is listed once. With several
+ * cores, slices are taken by start time, then by core.
+ */
+export function ganttOrder(schedule: Pick<ScheduleResult, "coreBlocks">): string[] {
+  const blocks = schedule.coreBlocks
+    .flatMap((lane, core) => lane.map((b) => ({ ...b, core })))
+    .filter((b) => b.process !== "IDLE" && b.process !== CONTEXT_SWITCH)
+    .sort((a, b) => a.start - b.start || a.core - b.core);
+  return collapse(blocks.map((b) => b.process));
+}
+
+/**
+ * Reads a Gantt order typed as PIDs separated by spaces, commas or arrows, e.g. "P1 → P2, P3".
+ */
+export function parseOrder(text: string): string[] {
+  return text.split(/\s*(?:→|->|,|\s)\s*/).filter(Boolean);
+}
+
+/**
+ * Grades a student's completion, turnaround and waiting times and Gantt order against a schedule.
+ * Every cell and every slot of the order is worth one point.
+ * @param schedule The answer key.
+ * @param answers Entered values, matched to processes by PID.
+ * @param order Entered Gantt order; a process listed twice in a row counts once.
+ */
+export function gradeQuiz(schedule: ScheduleResult, answers: QuizAnswer[], order: string[]): QuizGrade {
+  const byPid = new Map(answers.map((a) => [a.pid, a]));
+  const cells = schedule.results.map((result) => {
+    const answer = byPid.get(result.pid);
+    const cell = { pid: result.pid } as QuizGrade["cells"][number];
+    for (const field of QUIZ_FIELDS) cell[field] = answer?.[field] === result[field];
+    return cell;
+  });
+
+  const expectedOrder = ganttOrder(schedule);
+  const entered = collapse(order);
+  const slots = Math.max(expectedOrder.length, entered.length);
+  const orderGrade = Array.from({ length: slots }, (_, i) => ({
+    entered: entered[i],
+    expected: expectedOrder[i],
+    right: entered[i] !== undefined && entered[i] === expectedOrder[i],
+  }));
+
+  const correctCells = cells.reduce((sum, cell) => sum + QUIZ_FIELDS.filter((f) => cell[f]).length, 0);
+  return {
+    cells,
+    order: orderGrade,
+    score: correctCells + orderGrade.filter((slot) => slot.right).length,
+    total: cells.length * QUIZ_FIELDS.length + slots,
+  };
+}
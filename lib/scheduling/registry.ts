@@ -0,0 +1,102 @@
+import { fcfs } from "./fcfs";
+import { hrrn } from "./hrrn";
+import { mlfq } from "./mlfq";
+import { priority } from "./priority";
+import { roundRobin } from "./roundRobin";
+import { sjf } from "./sjf";
+import { srtf } from "./srtf";
+import type { Scheduler } from "./types";
+
+export type AlgorithmId = "fcfs" | "sjf" | "srtf" | "priority" | "rr" | "hrrn" | "mlfq";
+
+export interface AlgorithmInfo {
+  id: AlgorithmId;
+  /** Short label used on buttons, e.g. "FCFS". */
+  name: string;
+  title: string;
+  /** Preemption note shown under the page title. */
+  mode: string;
+  /** Explains the execution order under the Gantt chart. */
+  rule: string;
+  /** Page of its simulator, linked from the other simulators. */
+  route: string;
+  run: Scheduler;
+  usesPriority?: boolean;
+  usesQuantum?: boolean;
+  /** The user can switch between preemptive and non-preemptive variants. */
+  preemptionToggle?: boolean;
+  /** Configured with a list of queues plus demotion, boost and aging rules. */
+  usesQueues?: boolean;
+}
+
+export const ALGORITHMS: Record<AlgorithmId, AlgorithmInfo> = {
+  fcfs: {
+    id: "fcfs",
+    name: "FCFS",
+    title: "First-Come, First-Served",
+    mode: "Non-Preemptive",
+    rule: "Sorted by Arrival Time",
+    route: "/projects/fcfs",
+    run: fcfs,
+  },
+  sjf: {
+    id: "sjf",
+    name: "SJF",
+    title: "Shortest Job First",
+    mode: "Non-Preemptive",
+    rule: "Shortest Burst Among Arrived Processes",
+    route: "/projects/sjf",
+    run: sjf,
+  },
+  srtf: {
+    id: "srtf",
+    name: "SRTF",
+    title: "Shortest Remaining Time First",
+    mode: "Preemptive",
+    rule: "Shortest Remaining Burst, Re-evaluated Every Time Unit",
+    route: "/projects/srtf",
+    run: srtf,
+  },
+  priority: {
+    id: "priority",
+    name: "Priority",
+    title: "Priority Scheduling",
+    mode: "Preemptive or Non-Preemptive",
+    rule: "Highest Priority Among Arrived Processes",
+    route: "/projects/priority",
+    run: priority,
+    usesPriority: true,
+    preemptionToggle: true,
+  },
+  rr: {
+    id: "rr",
+    name: "RR",
+    title: "Round Robin",
+    mode: "Preemptive · Fixed Time Quantum",
+    rule: "Ready Queue Rotated Every Quantum",
+    route: "/projects/round-robin",
+    run: roundRobin,
+    usesQuantum: true,
+  },
+  hrrn: {
+    id: "hrrn",
+    name: "HRRN",
+    title: "Highest Response Ratio Next",
+    mode: "Non-Preemptive",
+    rule: "Highest (Waiting + Burst) / Burst Ratio",
+    route: "/projects/hrrn",
+    run: hrrn,
+  },
+  mlfq: {
+    id: "mlfq",
+    name: "MLFQ",
+    title: "Multilevel Feedback Queue",
+    mode: "Preemptive · Per-Queue Policy, Demotion, Boost & Aging",
+    rule: "Highest Non-Empty Queue First; Jobs That Use Full Slices Are Demoted",
+    route: "/projects/mlfq",
+    run: mlfq,
+    usesQueues: true,
+  },
+};
+
+export const ALGORITHM_IDS = Object.keys(ALGORITHMS) as AlgorithmId[];
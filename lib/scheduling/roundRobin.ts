@@ -0,0 +1,21 @@
+import { simulate } from "./engine";
+import type { SchedulerOptions, SchedulerProcess } from "./types";
+
+export const DEFAULT_QUANTUM = 2;
+
+/**
+ * Executes Round Robin (RR) scheduling with a fixed time quantum.
+ * Processes that arrive during a time slice join the ready queue before the
+ * preempted process is put back at the tail.
+ * @param processes Array of processes with arrival and burst times.
+ * @param options `quantum` is the time slice (defaults to 2); `cores` sets the core count.
+ * @returns Results including metrics and Gantt chart data.
+ */
+export function roundRobin(processes: SchedulerProcess[], options: SchedulerOptions = {}) {
+  const quantum = options.quantum ?? DEFAULT_QUANTUM;
+  if (!Number.isInteger(quantum) || quantum < 1) {
+    throw new RangeError("Round Robin quantum must be a positive integer.");
+  }
+
+  return simulate(processes, { quantum }, options);
+}
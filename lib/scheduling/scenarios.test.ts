@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { fcfs } from "./fcfs";
+import { summarize } from "./metrics";
+import { priority } from "./priority";
+import { TEXTBOOK_SCENARIOS } from "./scenarios";
+import { sjf } from "./sjf";
+import { srtf } from "./srtf";
+
+const scenario = (id: string) => TEXTBOOK_SCENARIOS.find((s) => s.id === id)!.processes;
+
+describe("TEXTBOOK_SCENARIOS", () => {
+  it("have unique ids", () => {
+    expect(new Set(TEXTBOOK_SCENARIOS.map((s) => s.id)).size).toBe(TEXTBOOK_SCENARIOS.length);
+  });
+
+  it("show the convoy effect under FCFS", () => {
+    expect(summarize(fcfs(scenario("convoy"))).avgWaiting).toBe(17);
+    expect(summarize(sjf(scenario("convoy"))).avgWaiting).toBe(3);
+  });
+
+  it("leave the CPU idle between arrivals", () => {
+    const idle = fcfs(scenario("idle-gaps")).ganttBlocks.filter((b) => b.process === "IDLE");
+    expect(idle.map((b) => [b.start, b.end])).toEqual([
+      [3, 6],
+      [8, 12],
+    ]);
+  });
+
+  it("order simultaneous arrivals by priority", () => {
+    const schedule = priority(scenario("simultaneous"));
+    expect(schedule.ganttBlocks.map((b) => b.process)).toEqual(["P2", "P5", "P1", "P3", "P4"]);
+    expect(summarize(schedule).avgWaiting).toBeCloseTo(8.2);
+  });
+
+  it("reward preemption on staggered arrivals", () => {
+    expect(summarize(sjf(scenario("staggered"))).avgWaiting).toBe(7.75);
+    expect(summarize(srtf(scenario("staggered"))).avgWaiting).toBe(6.5);
+  });
+});
@@ -0,0 +1,57 @@
+import type { SchedulerProcess } from "./types";
+
+export interface Scenario {
+  id: string;
+  name: string;
+  /** What the workload shows, in a sentence. */
+  description: string;
+  processes: SchedulerProcess[];
+}
+
+/** Classic textbook workloads, each built to show one scheduling effect. */
+export const TEXTBOOK_SCENARIOS: Scenario[] = [
+  {
+    id: "convoy",
+    name: "Convoy Effect",
+    description: "A long job first in line holds up two short ones: FCFS averages 17 ms of waiting, SJF only 3 ms.",
+    processes: [
+      { pid: "P1", arrival: 0, burst: 24 },
+      { pid: "P2", arrival: 0, burst: 3 },
+      { pid: "P3", arrival: 0, burst: 3 },
+    ],
+  },
+  {
+    id: "idle-gaps",
+    name: "Idle Gaps",
+    description: "Arrivals spaced further apart than the bursts, so the CPU sits idle between them.",
+    processes: [
+      { pid: "P1", arrival: 0, burst: 3 },
+      { pid: "P2", arrival: 6, burst: 2 },
+      { pid: "P3", arrival: 12, burst: 4 },
+      { pid: "P4", arrival: 13, burst: 1 },
+    ],
+  },
+  {
+    id: "simultaneous",
+    name: "Simultaneous Arrivals",
+    description: "Five processes arrive together, so the order comes down to burst length or priority, and any remaining ties (all of them under FCFS) go to the lower PID.",
+    processes: [
+      { pid: "P1", arrival: 0, burst: 10, priority: 3 },
+      { pid: "P2", arrival: 0, burst: 1, priority: 1 },
+      { pid: "P3", arrival: 0, burst: 2, priority: 4 },
+      { pid: "P4", arrival: 0, burst: 1, priority: 5 },
+      { pid: "P5", arrival: 0, burst: 5, priority: 2 },
+    ],
+  },
+  {
+    id: "staggered",
+    name: "Staggered Arrivals",
+    description: "Shorter jobs arrive while a long one runs: preemptive SRTF cuts the average wait from SJF's 7.75 ms to 6.5 ms.",
+    processes: [
+      { pid: "P1", arrival: 0, burst: 8 },
+      { pid: "P2", arrival: 1, burst: 4 },
+      { pid: "P3", arrival: 2, burst: 9 },
+      { pid: "P4", arrival: 3, burst: 5 },
+    ],
+  },
+];
@@ -0,0 +1,13 @@
+import { simulate } from "./engine";
+import type { SchedulerOptions, SchedulerProcess } from "./types";
+
+/**
+ * Executes non-preemptive Shortest Job First (SJF) scheduling.
+ * Whenever the CPU is free, the ready process with the smallest next CPU burst runs to the end of that burst.
+ * @param processes Array of processes with arrival and burst times.
+ * @param options `cores` is the number of CPU cores (defaults to 1).
+ * @returns Results including metrics and Gantt chart data.
+ */
+export function sjf(processes: SchedulerProcess[], options: SchedulerOptions = {}) {
+  return simulate(processes, { key: (job) => job.remaining }, options);
+}
@@ -0,0 +1,13 @@
+import { simulate } from "./engine";
+import type { SchedulerOptions, SchedulerProcess } from "./types";
+
+/**
+ * Executes Shortest Remaining Time First (SRTF), the preemptive form of SJF.
+ * A newly ready process preempts the running one if its burst is shorter than what is left.
+ * @param processes Array of processes with arrival and burst times.
+ * @param options `cores` is the number of CPU cores (defaults to 1).
+ * @returns Results including metrics and Gantt chart data.
+ */
+export function srtf(processes: SchedulerProcess[], options: SchedulerOptions = {}) {
+  return simulate(processes, { key: (job) => job.remaining, preemptive: true }, options);
+}
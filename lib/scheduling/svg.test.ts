@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { PROCESS_COLOR_HEX } from "./colors";
+import { fcfs } from "./fcfs";
+import { renderGanttSvg } from "./svg";
+
+// P2 arrives after an idle gap
+const SCHEDULE = fcfs([
+  { pid: "P1", arrival: 0, burst: 4 },
+  { pid: "P2", arrival: 6, burst: 4 },
+]);
+
+const render = (options: Partial<Parameters<typeof renderGanttSvg>[1]> = {}) =>
+  renderGanttSvg([{ blocks: SCHEDULE.ganttBlocks }], { totalTime: SCHEDULE.totalTime, timeMarkers: SCHEDULE.timeMarkers, ...options });
+
+describe("renderGanttSvg", () => {
+  it("draws one labelled block per slice, idle time dashed, on a white background", () => {
+    const svg = render();
+    expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg" width="960"')).toBe(true);
+    expect(svg).toContain('fill="#ffffff"/>');
+    expect(svg).toContain(`fill="${PROCESS_COLOR_HEX.blue.fill}"`);
+    expect(svg).toContain(`fill="${PROCESS_COLOR_HEX.green.fill}"`);
+    expect(svg.match(/stroke-dasharray/g)).toHaveLength(1);
+    expect(svg).toContain("<title>P1 (0–4)</title>");
+    expect(svg.match(/>P\d</g)).toEqual([">P1<", ">P2<"]);
+    expect(svg.match(/>\d+<\/text>/g)).toEqual([">0</text>", ">4</text>", ">6</text>", ">10</text>"]);
+  });
+
+  it("uses picked colors, escapes names and labels queue levels", () => {
+    const svg = renderGanttSvg(
+      [{ label: "CPU <1>", blocks: [{ process: "A&B", start: 0, end: 5, level: 1 }] }],
+      { totalTime: 5, timeMarkers: [0, 5], colors: { "A&B": "rose" } }
+    );
+    expect(svg).toContain(`fill="${PROCESS_COLOR_HEX.rose.fill}"`);
+    expect(svg).toContain(">CPU &lt;1&gt;<");
+    expect(svg).toContain(">A&amp;B · Q1<");
+    expect(svg).not.toContain("A&B");
+  });
+
+  it("drops labels that do not fit and markers that would overlap", () => {
+    const svg = render({ width: 50 });
+    expect(svg).not.toMatch(/>P\d</);
+    expect(svg.match(/>\d+<\/text>/g)!.length).toBeLessThan(4);
+  });
+});
@@ -0,0 +1,103 @@
+import { defaultProcessColor, PROCESS_COLOR_HEX, type ProcessColor } from "./colors";
+import { downsampleBlocks } from "./timeline";
+import { CONTEXT_SWITCH, type GanttBlock } from "./types";
+
+export interface SvgLane {
+  /** Drawn left of the lane; omit for a lone CPU lane. */
+  label?: string;
+  blocks: GanttBlock[];
+}
+
+export interface GanttSvgOptions {
+  totalTime: number;
+  timeMarkers: number[];
+  /** Image width in pixels (default 960). */
+  width?: number;
+  /** Lane height in pixels (default 36). */
+  laneHeight?: number;
+  /** Colors picked for processes, by PID; the rest get their default color. */
+  colors?: Record<string, ProcessColor>;
+}
+
+// Print-friendly styles for idle time and context switches on a white page
+const IDLE_STYLE = { fill: "#f3f4f6", text: "#6b7280", stroke: "#9ca3af" };
+const SWITCH_STYLE = { fill: "#fee2e2", text: "#991b1b", stroke: "#ef4444" };
+
+const PADDING = 12;
+const LANE_GAP = 8;
+const FONT_SIZE = 12;
+// Rough width of one character at FONT_SIZE, for deciding whether a label fits
+const CHAR_WIDTH = 7;
+// Closest two time markers may be, in pixels
+const MARKER_GAP = 28;
+
+const escapeXml = (text: string) =>
+  text.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&apos;" })[c]!);
+
+// Two decimals are plenty for screen and print, and keep big charts small
+const px = (n: number) => String(Math.round(n * 100) / 100);
+
+/**
+ * Renders Gantt lanes and their time axis as a standalone SVG image with a white background,
+ * for pasting into notes and reports. Blocks narrower than a pixel are merged, so the file
+ * stays small for long schedules.
+ * @returns SVG markup, ready to save as a .svg file.
+ */
+export function renderGanttSvg(lanes: SvgLane[], options: GanttSvgOptions): string {
+  const { totalTime, timeMarkers, width = 960, laneHeight = 36, colors } = options;
+  const labelWidth = Math.max(0, ...lanes.map((lane) => (lane.label ? lane.label.length * CHAR_WIDTH + PADDING : 0)));
+  const left = PADDING + labelWidth;
+  const chartWidth = width - left - PADDING;
+  const span = Math.max(totalTime, 1);
+  const x = (time: number) => left + (time / span) * chartWidth;
+
+  const parts: string[] = [];
+  lanes.forEach((lane, i) => {
+    const y = PADDING + i * (laneHeight + LANE_GAP);
+    const middle = y + laneHeight / 2;
+    if (lane.label) {
+      parts.push(
+        `<text x="${px(left - PADDING / 2)}" y="${px(middle)}" text-anchor="end" dominant-baseline="central" fill="#374151" font-weight="bold">${escapeXml(lane.label)}</text>`
+      );
+    }
+    parts.push(`<rect x="${px(left)}" y="${px(y)}" width="${px(chartWidth)}" height="${laneHeight}" fill="none" stroke="#d1d5db"/>`);
+
+    for (const block of downsampleBlocks(lane.blocks, 0, span, span / chartWidth)) {
+      const special = block.process === "IDLE" ? IDLE_STYLE : block.process === CONTEXT_SWITCH ? SWITCH_STYLE : null;
+      const style = special ?? { ...PROCESS_COLOR_HEX[colors?.[block.process] ?? defaultProcessColor(block.process)], stroke: "#ffffff" };
+      const blockWidth = x(block.end) - x(block.start);
+      const label = block.level !== undefined ? `${block.process} · Q${block.level}` : block.process;
+      const title = `${label} (${block.start}–${block.end})`;
+
+      parts.push(
+        `<g><title>${escapeXml(title)}</title>` +
+          `<rect x="${px(x(block.start))}" y="${px(y)}" width="${px(blockWidth)}" height="${laneHeight}" fill="${style.fill}" stroke="${style.stroke}"${special ? ' stroke-dasharray="4 3"' : ""}/>` +
+          (blockWidth >= label.length * CHAR_WIDTH + 6
+            ? `<text x="${px(x(block.start) + blockWidth / 2)}" y="${px(middle)}" text-anchor="middle" dominant-baseline="central" fill="${style.text}" font-weight="bold">${escapeXml(label)}</text>`
+            : "") +
+          `</g>`
+      );
+    }
+  });
+
+  // Time axis under the last lane, with markers at least MARKER_GAP pixels apart
+  const axis = PADDING + lanes.length * (laneHeight + LANE_GAP);
+  let last = -Infinity;
+  for (const time of [...timeMarkers].sort((a, b) => a - b)) {
+    if (time < 0 || time > span || x(time) - last < MARKER_GAP) continue;
+    last = x(time);
+    parts.push(
+      `<line x1="${px(last)}" y1="${px(axis - LANE_GAP)}" x2="${px(last)}" y2="${px(axis - 2)}" stroke="#2563eb"/>` +
+        `<text x="${px(last)}" y="${px(axis + FONT_SIZE)}" text-anchor="middle" fill="#4b5563">${time}</text>`
+    );
+  }
+
+  const height = axis + FONT_SIZE + PADDING;
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" ` +
+    `font-family="Arial, Helvetica, sans-serif" font-size="${FONT_SIZE}">` +
+    `<rect width="100%" height="100%" fill="#ffffff"/>` +
+    parts.join("") +
+    `</svg>`
+  );
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { appendBlock, blockIndexAt, clipBlocks, downsampleBlocks } from "./timeline";
+import type { GanttBlock } from "./types";
+
+const LANE: GanttBlock[] = [
+  { process: "P1", start: 0, end: 4 },
+  { process: "IDLE", start: 4, end: 6 },
+  { process: "P2", start: 6, end: 10 },
+];
+
+describe("appendBlock", () => {
+  it("extends the last block for the same process and skips empty intervals", () => {
+    const blocks: GanttBlock[] = [];
+    appendBlock(blocks, "P1", 0, 2);
+    appendBlock(blocks, "P1", 2, 5);
+    appendBlock(blocks, "P2", 5, 5);
+    appendBlock(blocks, "P2", 5, 6);
+    expect(blocks).toEqual([
+      { process: "P1", start: 0, end: 5 },
+      { process: "P2", start: 5, end: 6 },
+    ]);
+  });
+});
+
+describe("blockIndexAt", () => {
+  it("finds the block covering a time, with ends exclusive", () => {
+    expect([0, 3, 4, 9].map((t) => blockIndexAt(LANE, t))).toEqual([0, 0, 1, 2]);
+    expect(blockIndexAt(LANE, 10)).toBe(-1);
+    expect(blockIndexAt([], 0)).toBe(-1);
+  });
+});
+
+describe("clipBlocks", () => {
+  it("cuts the edge blocks to the window", () => {
+    expect(clipBlocks(LANE, 2, 7)).toEqual([
+      { process: "P1", start: 2, end: 4 },
+      { process: "IDLE", start: 4, end: 6 },
+      { process: "P2", start: 6, end: 7 },
+    ]);
+    expect(clipBlocks(LANE, 10, 12)).toEqual([]);
+  });
+});
+
+describe("downsampleBlocks", () => {
+  it("merges short blocks under the process that covers most of them", () => {
+    const lane: GanttBlock[] = [
+      { process: "P1", start: 0, end: 1 },
+      { process: "P2", start: 1, end: 4 },
+      { process: "P1", start: 4, end: 5 },
+      { process: "P3", start: 5, end: 20 },
+    ];
+    expect(downsampleBlocks(lane, 0, 20, 5)).toEqual([
+      { process: "P2", start: 0, end: 5 },
+      { process: "P3", start: 5, end: 20 },
+    ]);
+  });
+
+  it("keeps a lane that is already coarse enough", () => {
+    expect(downsampleBlocks(LANE, 0, 10, 1)).toEqual(LANE);
+  });
+});
@@ -0,0 +1,73 @@
+import type { GanttBlock } from "./types";
+
+/**
+ * Appends `[start, end)` to a lane, extending the last block instead when it is the
+ * same process at the same queue level and ends at `start`. Empty intervals are ignored.
+ */
+export function appendBlock(blocks: GanttBlock[], process: GanttBlock["process"], start: number, end: number, level?: number): void {
+  if (end <= start) return;
+  const last = blocks[blocks.length - 1];
+  if (last && last.process === process && last.level === level && last.end === start) last.end = end;
+  else blocks.push({ process, start, end, ...(level !== undefined && { level }) });
+}
+
+/**
+ * Finds the block running at `time` by binary search over a contiguous lane.
+ * @returns Its index, or -1 when `time` is outside the lane.
+ */
+export function blockIndexAt(blocks: GanttBlock[], time: number): number {
+  let lo = 0;
+  let hi = blocks.length - 1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (time < blocks[mid].start) hi = mid - 1;
+    else if (time >= blocks[mid].end) lo = mid + 1;
+    else return mid;
+  }
+  return -1;
+}
+
+/**
+ * The part of a contiguous lane inside `[from, to)`, with the edge blocks cut to fit.
+ */
+export function clipBlocks(blocks: GanttBlock[], from: number, to: number): GanttBlock[] {
+  const clipped: GanttBlock[] = [];
+  const first = blocks.length > 0 && from < blocks[0].start ? 0 : blockIndexAt(blocks, from);
+  if (first === -1) return clipped;
+  for (let i = first; i < blocks.length && blocks[i].start < to; i++) {
+    const { process, start, end, level } = blocks[i];
+    clipped.push({ process, start: Math.max(start, from), end: Math.min(end, to), ...(level !== undefined && { level }) });
+  }
+  return clipped;
+}
+
+/**
+ * Clips a lane to `[from, to)` and merges runs of blocks shorter than `minSpan`, so a
+ * zoomed-out chart draws a few hundred blocks rather than one per dispatch. A merged
+ * block shows the process that covers most of it, without a queue level.
+ */
+export function downsampleBlocks(blocks: GanttBlock[], from: number, to: number, minSpan: number): GanttBlock[] {
+  const sampled: GanttBlock[] = [];
+  let group: { start: number; end: number; share: Map<GanttBlock["process"], number> } | null = null;
+  const flush = () => {
+    if (!group) return;
+    const [process] = [...group.share].reduce((best, entry) => (entry[1] > best[1] ? entry : best));
+    appendBlock(sampled, process, group.start, group.end);
+    group = null;
+  };
+
+  for (const block of clipBlocks(blocks, from, to)) {
+    const span = block.end - block.start;
+    if (span >= minSpan) {
+      flush();
+      appendBlock(sampled, block.process, block.start, block.end, block.level);
+      continue;
+    }
+    if (group && group.end - group.start >= minSpan) flush();
+    group ??= { start: block.start, end: block.start, share: new Map() };
+    group.end = block.end;
+    group.share.set(block.process, (group.share.get(block.process) ?? 0) + span);
+  }
+  flush();
+  return sampled;
+}
@@ -0,0 +1,49 @@
+import type { ScheduleEvent, ScheduleEventType } from "./types";
+
+/**
+ * Collects the event trace for one scheduler run.
+ * @returns The growing event list and a `record` function that snapshots the ready queue.
+ */
+export function createTrace() {
+  const events: ScheduleEvent[] = [];
+
+  const record = (
+    type: ScheduleEventType,
+    time: number,
+    pid: string | null,
+    readyQueue: readonly { pid: string }[],
+    core?: number,
+    level?: number
+  ) => {
+    events.push({
+      type,
+      time,
+      ...(pid !== null && { pid }),
+      ...(core !== undefined && { core }),
+      readyQueue: readyQueue.map((p) => p.pid),
+      ...(level !== undefined && { level }),
+    });
+  };
+
+  return { events, record };
+}
+
+/**
+ * Human-readable one-line description of an event, used by the event log.
+ */
+export function describeEvent(event: ScheduleEvent): string {
+  const cpu = event.core === undefined ? "the CPU" : `CPU ${event.core + 1}`;
+  switch (event.type) {
+    case "arrival": return `${event.pid} arrives and joins the ready queue`;
+    case "switch": return `Context switch to ${event.pid} on ${cpu}`;
+    case "dispatch": return `${event.pid} is dispatched to ${cpu}`;
+    case "preempt": return `${event.pid} is preempted and returns to the ready queue`;
+    case "block": return `${event.pid} blocks for I/O`;
+    case "io-complete": return `${event.pid} finishes I/O and rejoins the ready queue`;
+    case "complete": return `${event.pid} completes`;
+    case "idle-start": return event.core === undefined ? "CPU goes idle (ready queue empty)" : `${cpu} goes idle (nothing ready for it)`;
+    case "idle-end": return event.core === undefined ? "CPU leaves idle" : `${cpu} leaves idle`;
+    case "demote": return `${event.pid} is demoted to queue ${event.level}`;
+    case "promote": return `${event.pid} is promoted to queue ${event.level}`;
+  }
+}
@@ -0,0 +1,128 @@
+// Shared types for every CPU scheduling algorithm.
+
+/**
+ * Default largest burst, quantum or context-switch time accepted by input validation.
+ * The engine itself has no limit: its cost depends on the number of events, not on time.
+ */
+export const MAX_TIME_UNIT = 1_000_000;
+
+/** Largest number of CPU cores a schedule can use. */
+export const MAX_CORES = 8;
+
+/** Most queues a multilevel feedback queue scheduler can have. */
+export const MAX_QUEUES = 8;
+
+/** Gantt entry for time a core spends switching context between two processes. */
+export const CONTEXT_SWITCH = "CS";
+
+export interface SchedulerProcess {
+  pid: string;
+  arrival: number;
+  /** CPU burst. With `io`, this is the first CPU burst. */
+  burst: number;
+  /** Lower number = higher priority. Only read by the Priority scheduler. */
+  priority?: number;
+  /**
+   * Follow-up bursts after the first CPU burst: the process blocks for `io`
+   * units on the I/O device, then needs `cpu` more units of CPU.
+   */
+  io?: { io: number; cpu: number }[];
+  /** Pins the process to one core (0-based). Absent = may run on any core. */
+  affinity?: number;
+}
+
+export interface ProcessResult extends Omit<SchedulerProcess, "io" | "affinity"> {
+  /** Total CPU time over all bursts. */
+  burst: number;
+  completion: number;
+  /** Time spent in the ready queue (TAT - CPU time - I/O time). */
+  waiting: number;
+  turnaround: number;
+  /** First dispatch minus arrival. */
+  response: number;
+  /** Time spent blocked on I/O, including waiting for the device. */
+  ioTime: number;
+}
+
+export interface GanttBlock {
+  /** PID, "IDLE", or CONTEXT_SWITCH for dispatch overhead. */
+  process: string | "IDLE" | typeof CONTEXT_SWITCH;
+  start: number;
+  end: number;
+  /** Queue the process ran from (0 = highest); only set by multilevel schedulers. */
+  level?: number;
+}
+
+export interface GanttData {
+  ganttBlocks: GanttBlock[];
+  timeMarkers: number[];
+  totalTime: number;
+}
+
+export type ScheduleEventType =
+  | "arrival"
+  | "switch"
+  | "dispatch"
+  | "preempt"
+  | "block"
+  | "io-complete"
+  | "complete"
+  | "idle-start"
+  | "idle-end"
+  | "demote"
+  | "promote";
+
+export interface ScheduleEvent {
+  type: ScheduleEventType;
+  time: number;
+  /** The process the event is about; absent for idle events. */
+  pid?: string;
+  /** Core the event happened on; only set for multi-core schedules. */
+  core?: number;
+  /** PIDs waiting in the ready queue right after the event, front first. */
+  readyQueue: string[];
+  /** Queue the process moved to, for "demote" and "promote" events. */
+  level?: number;
+}
+
+export interface ScheduleResult extends GanttData {
+  results: ProcessResult[];
+  /** Gantt lane per core, each spanning `0..totalTime`; `coreBlocks[0]` is the same as `ganttBlocks`. */
+  coreBlocks: GanttBlock[][];
+  /** I/O device lane, aligned with the CPU lanes; all "IDLE" when no process does I/O. */
+  ioBlocks: GanttBlock[];
+  /** Arrivals, dispatches, preemptions, completions and idle periods in time order. */
+  events: ScheduleEvent[];
+}
+
+/** One queue of a multilevel feedback queue scheduler. */
+export interface MlfqQueue {
+  /** Round Robin time slice; absent = FCFS, where a job runs until it blocks or completes. */
+  quantum?: number;
+}
+
+export interface MlfqOptions {
+  /** Queues from highest priority (index 0) to lowest. */
+  queues: MlfqQueue[];
+  /** Full time slices a job may use in a queue before it is demoted to the next one (default 1). */
+  demoteAfter?: number;
+  /** Every `boostInterval` time units, every job moves back to the top queue. Absent = no boost. */
+  boostInterval?: number;
+  /** A job that waits this long in a ready queue is promoted one level. Absent = no aging. */
+  agingThreshold?: number;
+}
+
+export interface SchedulerOptions {
+  /** Time slice for Round Robin. */
+  quantum?: number;
+  /** Whether Priority scheduling may preempt the running process. */
+  preemptive?: boolean;
+  /** Number of CPU cores (1 to MAX_CORES, default 1). */
+  cores?: number;
+  /** Time units charged whenever a core switches to a different process (default 0). */
+  contextSwitch?: number;
+  /** Queues, demotion, boost and aging for the multilevel feedback queue scheduler. */
+  mlfq?: MlfqOptions;
+}
+
+export type Scheduler = (processes: SchedulerProcess[], options?: SchedulerOptions) => ScheduleResult;
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { validateWorkload } from "./validate";
+
+describe("validateWorkload", () => {
+  it("reads affinity as a 0-based core and cpu as a 1-based one", () => {
+    const result = validateWorkload(
+      [
+        { pid: "A", arrival: 0, burst: 3, affinity: 1 },
+        { pid: "B", arrival: 0, burst: 3, cpu: 1 },
+      ],
+      { cores: 2 }
+    );
+    expect(result).toEqual({
+      processes: [
+        { pid: "A", arrival: 0, burst: 3, affinity: 1 },
+        { pid: "B", arrival: 0, burst: 3, affinity: 0 },
+      ],
+    });
+  });
+
+  it("rejects a cpu below 1 or past the last core, in cpu's own numbering", () => {
+    const result = validateWorkload(
+      [
+        { pid: "A", arrival: 0, burst: 3, cpu: 0 },
+        { pid: "B", arrival: 0, burst: 3, cpu: 1.5 },
+        { pid: "C", arrival: 0, burst: 3, cpu: 3 },
+      ],
+      { cores: 2 }
+    );
+    const message = "Must be a core from 1 to 2 (cpu counts from 1).";
+    expect(result).toEqual({
+      errors: [
+        { field: "processes[0].cpu", message },
+        { field: "processes[1].cpu", message },
+        { field: "processes[2].cpu", message },
+      ],
+    });
+  });
+
+  it("rejects an affinity past the last core, in affinity's own numbering", () => {
+    expect(validateWorkload([{ pid: "A", arrival: 0, burst: 3, affinity: 1 }], { cores: 1 })).toEqual({
+      errors: [{ field: "processes[0].affinity", message: "Must be 0, the run's only core (affinity counts from 0)." }],
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import { CONTEXT_SWITCH, MAX_CORES, MAX_QUEUES, MAX_TIME_UNIT, type MlfqOptions, type SchedulerOptions, type SchedulerProcess } from "./types";
+
+/** One problem with a workload, located by a path such as `processes[2].burst`. */
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+const isCount = (value: unknown, min: number, max = Infinity): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= min && value <= max;
+
+/**
+ * Reads I/O bursts given as `{ io, cpu }` pairs, a flat number list, or "I/O CPU ..." text.
+ * @returns The pairs, or null when they are malformed.
+ */
+function readIoBursts(value: unknown, maxTime: number): SchedulerProcess["io"] | null {
+  const values =
+    typeof value === "string" ? (value.trim() === "" ? [] : value.trim().split(/[\s,]+/).map(Number))
+    : Array.isArray(value) ? value.flatMap((b) => (typeof b === "object" && b !== null ? [b.io, b.cpu] : [b]))
+    : null;
+  if (!values || values.length % 2 !== 0 || !values.every((v) => isCount(v, 1, maxTime))) {
+    return null;
+  }
+
+  const pairs: { io: number; cpu: number }[] = [];
+  for (let i = 0; i < values.length; i += 2) {
+    pairs.push({ io: values[i], cpu: values[i + 1] });
+  }
+  return pairs;
+}
+
+/**
+ * Validates an untrusted workload (parsed JSON or CSV) with the simulator's input rules:
+ * non-negative arrival, burst within `1..maxTime`, unique PIDs other than "IDLE" and CONTEXT_SWITCH.
+ *
+ * Each process may also carry a non-negative `priority`, `io` bursts, and either a 0-based
+ * core `affinity` or a 1-based `cpu` (as exported by the simulator's table). A missing PID
+ * becomes `P<n>`.
+ * @param input Array of process objects.
+ * @param options `requirePriority` rejects processes without a priority, as the Priority page does;
+ *   `cores` bounds the affinity (defaults to MAX_CORES); `maxTime` bounds each burst (defaults to MAX_TIME_UNIT).
+ * @returns The processes, or every problem found.
+ */
+export function validateWorkload(
+  input: unknown,
+  {
+    requirePriority = false,
+    cores = MAX_CORES,
+    maxTime = MAX_TIME_UNIT,
+  }: { requirePriority?: boolean; cores?: number; maxTime?: number } = {}
+): { processes: SchedulerProcess[] } | { errors: FieldError[] } {
+  const path = "processes";
+  if (!Array.isArray(input) || input.length === 0) {
+    return { errors: [{ field: path, message: "Must be a non-empty array of processes." }] };
+  }
+
+  const errors: FieldError[] = [];
+  const processes: SchedulerProcess[] = [];
+  const seen = new Set<string>();
+
+  input.forEach((raw, i) => {
+    const at = `${path}[${i}]`;
+    const fail = (field: string, message: string) => errors.push({ field: `${at}.${field}`, message });
+    if (typeof raw !== "object" || raw === null) {
+      errors.push({ field: at, message: "Must be an object." });
+      return;
+    }
+    const p = raw as Record<string, unknown>;
+    const before = errors.length;
+
+    const pid = p.pid === undefined || p.pid === "" ? `P${i + 1}` : p.pid;
+    if (typeof pid !== "string") fail("pid", "Must be a string.");
+    else if (seen.has(pid)) fail("pid", `Duplicate process ID ${pid}.`);
+    else if (pid === "IDLE" || pid === CONTEXT_SWITCH) fail("pid", `"${pid}" is reserved for the Gantt chart.`);
+
+    if (!isCount(p.arrival, 0)) fail("arrival", "Arrival Time must be a non-negative integer.");
+    if (!isCount(p.burst, 1, maxTime)) fail("burst", `Burst Time must be an integer from 1 to ${maxTime}.`);
+    if (p.priority === undefined ? requirePriority : !isCount(p.priority, 0)) {
+      fail("priority", "Priority must be a non-negative integer (lower number = higher priority).");
+    }
+
+    const io = p.io === undefined ? [] : readIoBursts(p.io, maxTime);
+    if (!io) fail("io", `I/O bursts must be pairs of "I/O CPU" lengths, each from 1 to ${maxTime}.`);
+
+    // Errors name the core in the numbering the input used: 0-based affinity or 1-based cpu
+    const pinned = p.affinity !== undefined ? "affinity" : p.cpu !== undefined ? "cpu" : null;
+    const first = pinned === "cpu" ? 1 : 0;
+    if (pinned && !isCount(p[pinned], first, cores - 1 + first)) {
+      const range = cores === 1 ? `${first}, the run's only core` : `a core from ${first} to ${cores - 1 + first}`;
+      fail(pinned, `Must be ${range} (${pinned} counts from ${first}).`);
+    }
+
+    if (errors.length > before) return;
+    seen.add(pid as string);
+    processes.push({
+      pid: pid as string,
+      arrival: p.arrival as number,
+      burst: p.burst as number,
+      ...(p.priority !== undefined && { priority: p.priority as number }),
+      ...(io!.length > 0 && { io: io! }),
+      ...(pinned && { affinity: (p[pinned] as number) - first }),
+    });
+  });
+
+  return errors.length > 0 ? { errors } : { processes };
+}
+
+/**
+ * Reads MLFQ settings: `{ queues: [{ quantum? }, ...], demoteAfter?, boostInterval?, agingThreshold? }`,
+ * where a queue without a quantum is FCFS.
+ * @returns The settings, pushing any problems onto `errors`.
+ */
+function readMlfq(value: unknown, maxTime: number, errors: FieldError[]): MlfqOptions | undefined {
+  const fail = (field: string, message: string) => errors.push({ field: `mlfq${field}`, message });
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    fail("", "Must be an object with a queues array.");
+    return undefined;
+  }
+  const { queues, demoteAfter, boostInterval, agingThreshold } = value as Record<string, unknown>;
+  const before = errors.length;
+
+  if (!Array.isArray(queues) || queues.length < 1 || queues.length > MAX_QUEUES) {
+    fail(".queues", `Must be an array of 1 to ${MAX_QUEUES} queues.`);
+  } else {
+    queues.forEach((q, i) => {
+      const quantum = (q as { quantum?: unknown } | null)?.quantum;
+      if (typeof q !== "object" || q === null) fail(`.queues[${i}]`, "Must be an object.");
+      else if (quantum !== undefined && !isCount(quantum, 1, maxTime)) {
+        fail(`.queues[${i}].quantum`, `Time Quantum must be an integer from 1 to ${maxTime}, or absent for FCFS.`);
+      }
+    });
+  }
+  for (const [field, setting] of Object.entries({ demoteAfter, boostInterval, agingThreshold })) {
+    if (setting !== undefined && !isCount(setting, 1)) fail(`.${field}`, "Must be a positive integer.");
+  }
+  if (errors.length > before) return undefined;
+
+  return {
+    queues: (queues as { quantum?: number }[]).map(({ quantum }) => (quantum === undefined ? {} : { quantum })),
+    ...(demoteAfter !== undefined && { demoteAfter: demoteAfter as number }),
+    ...(boostInterval !== undefined && { boostInterval: boostInterval as number }),
+    ...(agingThreshold !== undefined && { agingThreshold: agingThreshold as number }),
+  };
+}
+
+/**
+ * Validates untrusted scheduler options with the same limits as the simulator's inputs.
+ * Absent options keep the schedulers' defaults.
+ * @param options `maxTime` bounds the quantum and context-switch time (defaults to MAX_TIME_UNIT).
+ * @returns The options, or every problem found.
+ */
+export function validateOptions(
+  input: Record<string, unknown>,
+  { maxTime = MAX_TIME_UNIT }: { maxTime?: number } = {}
+): { options: SchedulerOptions } | { errors: FieldError[] } {
+  const errors: FieldError[] = [];
+  const { quantum, preemptive, cores, contextSwitch } = input;
+  const mlfq = input.mlfq === undefined ? undefined : readMlfq(input.mlfq, maxTime, errors);
+
+  if (quantum !== undefined && !isCount(quantum, 1, maxTime)) {
+    errors.push({ field: "quantum", message: `Time Quantum must be an integer from 1 to ${maxTime}.` });
+  }
+  if (preemptive !== undefined && typeof preemptive !== "boolean") {
+    errors.push({ field: "preemptive", message: "Must be true or false." });
+  }
+  if (cores !== undefined && !isCount(cores, 1, MAX_CORES)) {
+    errors.push({ field: "cores", message: `Core count must be an integer from 1 to ${MAX_CORES}.` });
+  }
+  if (contextSwitch !== undefined && !isCount(contextSwitch, 0, maxTime)) {
+    errors.push({ field: "contextSwitch", message: `Context Switch time must be an integer from 0 to ${maxTime}.` });
+  }
+  if (errors.length > 0) return { errors };
+
+  return {
+    options: {
+      ...(quantum !== undefined && { quantum: quantum as number }),
+      ...(preemptive !== undefined && { preemptive: preemptive as boolean }),
+      ...(cores !== undefined && { cores: cores as number }),
+      ...(contextSwitch !== undefined && { contextSwitch: contextSwitch as number }),
+      ...(mlfq && { mlfq }),
+    },
+  };
+}
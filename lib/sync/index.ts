@@ -0,0 +1,18 @@
+export * from "./types";
+export { buildScenario } from "./scenarios";
+export {
+  createRun,
+  DEFAULT_STARVATION_LIMIT,
+  describeInstruction,
+  nextInstruction,
+  readyThreads,
+  simulateRandom,
+  stepRun,
+} from "./simulate";
+export {
+  SYNC_PROBLEMS,
+  SYNC_PROBLEM_IDS,
+  type SyncProblemInfo,
+  type SyncRole,
+  type SyncVariant,
+} from "./registry";
@@ -0,0 +1,88 @@
+import type { SyncProblem } from "./types";
+
+export interface SyncRole {
+  /** Label for the thread count input, e.g. "Producers". */
+  label: string;
+  /** Prefix of the thread names, e.g. "P" for P1, P2, … */
+  prefix: string;
+  min: number;
+  defaultCount: number;
+}
+
+export interface SyncVariant {
+  id: string;
+  name: string;
+  /** How the threads synchronize, shown under the variant picker. */
+  rule: string;
+}
+
+export interface SyncProblemInfo {
+  id: SyncProblem;
+  /** Short label used on tabs, e.g. "Dining Philosophers". */
+  name: string;
+  roles: SyncRole[];
+  variants: SyncVariant[];
+}
+
+export const SYNC_PROBLEMS: Record<SyncProblem, SyncProblemInfo> = {
+  "producer-consumer": {
+    id: "producer-consumer",
+    name: "Producer-Consumer",
+    roles: [
+      { label: "Producers", prefix: "P", min: 1, defaultCount: 2 },
+      { label: "Consumers", prefix: "C", min: 1, defaultCount: 2 },
+    ],
+    variants: [
+      {
+        id: "semaphores",
+        name: "Semaphores",
+        rule: "wait(empty) then wait(mutex) to add an item; wait(full) then wait(mutex) to remove one",
+      },
+      {
+        id: "lock-first",
+        name: "Lock First (buggy)",
+        rule: "Takes the mutex before waiting for a slot or an item, so a full or empty buffer can deadlock",
+      },
+    ],
+  },
+  "readers-writers": {
+    id: "readers-writers",
+    name: "Readers-Writers",
+    roles: [
+      { label: "Readers", prefix: "R", min: 1, defaultCount: 4 },
+      { label: "Writers", prefix: "W", min: 1, defaultCount: 1 },
+    ],
+    variants: [
+      {
+        id: "readers-preference",
+        name: "Readers Preference",
+        rule: "The first reader in locks rw_mutex and the last one out unlocks it; writers can starve",
+      },
+      {
+        id: "fair",
+        name: "Fair (turnstile)",
+        rule: "Everyone passes a FIFO turnstile semaphore first, so a waiting writer stops new readers",
+      },
+    ],
+  },
+  "dining-philosophers": {
+    id: "dining-philosophers",
+    name: "Dining Philosophers",
+    roles: [{ label: "Philosophers", prefix: "Ph", min: 2, defaultCount: 5 }],
+    variants: [
+      { id: "naive", name: "Left Then Right", rule: "Every philosopher picks up the left fork, then the right; can deadlock" },
+      {
+        id: "asymmetric",
+        name: "Asymmetric",
+        rule: "The last philosopher picks up the right fork first, which breaks the circular wait",
+      },
+      {
+        id: "waiter",
+        name: "Waiter",
+        rule: "A room semaphore seats at most n − 1 philosophers, so one of them can always eat",
+      },
+    ],
+  },
+};
+
+export const SYNC_PROBLEM_IDS = Object.keys(SYNC_PROBLEMS) as SyncProblem[];
@@ -0,0 +1,157 @@
+import { SYNC_PROBLEMS, type SyncRole } from "./registry";
+import {
+  MAX_BUFFER_SIZE,
+  MAX_ITERATIONS,
+  MAX_THREADS_PER_ROLE,
+  type Instruction,
+  type SyncConfig,
+  type SyncScenario,
+  type ThreadSpec,
+} from "./types";
+
+const wait = (sem: string): Instruction => ({ op: "wait", sem });
+const signal = (sem: string): Instruction => ({ op: "signal", sem });
+const work = (label: string, steps = 1): Instruction => ({ op: "work", label, steps });
+
+/** Names threads of one role after its prefix: P1, P2, … (or Ph0, Ph1, … for philosophers, who sit by forks 0 to n − 1). */
+const names = (role: SyncRole, count: number, from = 1) => Array.from({ length: count }, (_, i) => `${role.prefix}${i + from}`);
+
+/** Splits `total` loops over `count` threads as evenly as possible, the first threads taking the remainder. */
+const shares = (total: number, count: number) =>
+  Array.from({ length: count }, (_, i) => Math.floor(total / count) + (i < total % count ? 1 : 0));
+
+function producerConsumer(
+  variant: string,
+  [producers, consumers]: number[],
+  bufferSize: number,
+  iterations: number
+): Omit<SyncScenario, "iterations"> {
+  // The buggy variant swaps the two waits, taking mutex before checking the buffer
+  const order = (counting: string) => (variant === "lock-first" ? [wait("mutex"), wait(counting)] : [wait(counting), wait("mutex")]);
+  const producer: Instruction[] = [work("produce"), ...order("empty"), { op: "add", counter: "items", delta: 1 }, signal("mutex"), signal("full")];
+  const consumer: Instruction[] = [...order("full"), { op: "add", counter: "items", delta: -1 }, signal("mutex"), signal("empty"), work("consume")];
+  // As many items must be produced as consumed, or threads would be left waiting at the end for
+  // partners that have finished. Threads of the larger role loop `iterations` times each, and the
+  // other role shares out the same number of items.
+  const items = iterations * Math.max(producers, consumers);
+  const produced = shares(items, producers);
+  const consumed = shares(items, consumers);
+  const roles = SYNC_PROBLEMS["producer-consumer"].roles;
+  return {
+    threads: [
+      ...names(roles[0], producers).map((name, i) => ({ name, program: producer, iterations: produced[i] })),
+      ...names(roles[1], consumers).map((name, i) => ({ name, program: consumer, iterations: consumed[i] })),
+    ],
+    semaphores: [
+      { name: "mutex", initial: 1, lock: true },
+      { name: "empty", initial: bufferSize },
+      { name: "full", initial: 0 },
+    ],
+    counters: [{ name: "items", initial: 0 }],
+    hints: {
+      deadlock: variant === "lock-first"
+        ? "The thread holding mutex is waiting for a slot (or an item) that only a thread locked out by mutex could provide. Waiting on empty or full before taking mutex avoids this."
+        : undefined,
+    },
+  };
+}
+
+function readersWriters(variant: string, [readers, writers]: number[]): Omit<SyncScenario, "iterations"> {
+  const fair = variant === "fair";
+  const enter: Instruction[] = [
+    wait("mutex"),
+    { op: "add", counter: "read_count", delta: 1, when: 1, then: wait("rw_mutex") },
+  ];
+  const reader: Instruction[] = fair
+    ? [wait("turnstile"), ...enter, signal("turnstile"), signal("mutex")]
+    : [...enter, signal("mutex")];
+  reader.push(
+    work("read", 2),
+    wait("mutex"),
+    { op: "add", counter: "read_count", delta: -1, when: 0, then: signal("rw_mutex") },
+    signal("mutex")
+  );
+  const writer: Instruction[] = fair
+    ? [wait("turnstile"), wait("rw_mutex"), signal("turnstile"), work("write", 2), signal("rw_mutex")]
+    : [wait("rw_mutex"), work("write", 2), signal("rw_mutex")];
+
+  const roles = SYNC_PROBLEMS["readers-writers"].roles;
+  return {
+    threads: [
+      ...names(roles[0], readers).map((name) => ({ name, program: reader })),
+      ...names(roles[1], writers).map((name) => ({ name, program: writer })),
+    ],
+    semaphores: [
+      ...(fair ? [{ name: "turnstile", initial: 1, lock: true }] : []),
+      { name: "mutex", initial: 1, lock: true },
+      // Taken by the first reader in and released by the last one out, so it has no single holder
+      { name: "rw_mutex", initial: 1 },
+    ],
+    counters: [{ name: "read_count", initial: 0 }],
+    hints: {
+      starvation: fair
+        ? undefined
+        : "With readers preference, new readers join the ones already reading without waiting, so while their reads overlap rw_mutex is never released to a writer.",
+    },
+  };
+}
+
+function diningPhilosophers(variant: string, [philosophers]: number[]): Omit<SyncScenario, "iterations"> {
+  const fork = (i: number) => `fork${i % philosophers}`;
+  const threads: ThreadSpec[] = names(SYNC_PROBLEMS["dining-philosophers"].roles[0], philosophers, 0).map((name, i) => {
+    const [first, second] = variant === "asymmetric" && i === philosophers - 1 ? [fork(i + 1), fork(i)] : [fork(i), fork(i + 1)];
+    const eat = [wait(first), wait(second), work("eat", 2), signal(second), signal(first)];
+    return {
+      name,
+      program: [work("think", 2), ...(variant === "waiter" ? [wait("room"), ...eat, signal("room")] : eat)],
+    };
+  });
+
+  return {
+    threads,
+    semaphores: [
+      ...(variant === "waiter" ? [{ name: "room", initial: philosophers - 1 }] : []),
+      ...threads.map((_, i) => ({ name: fork(i), initial: 1, lock: true })),
+    ],
+    counters: [],
+    hints: {
+      deadlock:
+        variant === "naive"
+          ? "Every philosopher picked up their left fork and waits for the right one, which their neighbour holds: a circular wait. Picking forks up in a fixed global order, or seating at most n − 1, breaks the cycle."
+          : undefined,
+    },
+  };
+}
+
+/**
+ * Builds the threads, semaphores and shared counters of a classic synchronization problem.
+ * @param config Problem, variant, thread counts, loop count and buffer size. With unequal producer
+ *   and consumer counts, the role with fewer threads loops more often so the items balance out.
+ * @returns A scenario ready to run.
+ */
+export function buildScenario(config: SyncConfig): SyncScenario {
+  const { problem, variant, counts, iterations, bufferSize = 1 } = config;
+  const info = SYNC_PROBLEMS[problem];
+  if (!info.variants.some((v) => v.id === variant)) {
+    throw new RangeError(`Unknown ${info.name} variant: ${variant}.`);
+  }
+  info.roles.forEach((role, r) => {
+    const count = counts[r];
+    if (!Number.isInteger(count) || count < role.min || count > MAX_THREADS_PER_ROLE) {
+      throw new RangeError(`${role.label} must be an integer from ${role.min} to ${MAX_THREADS_PER_ROLE}.`);
+    }
+  });
+  if (!Number.isInteger(iterations) || iterations < 1 || iterations > MAX_ITERATIONS) {
+    throw new RangeError(`Iterations must be an integer from 1 to ${MAX_ITERATIONS}.`);
+  }
+  if (!Number.isInteger(bufferSize) || bufferSize < 1 || bufferSize > MAX_BUFFER_SIZE) {
+    throw new RangeError(`Buffer size must be an integer from 1 to ${MAX_BUFFER_SIZE}.`);
+  }
+
+  const build = {
+    "producer-consumer": () => producerConsumer(variant, counts, bufferSize, iterations),
+    "readers-writers": () => readersWriters(variant, counts),
+    "dining-philosophers": () => diningPhilosophers(variant, counts),
+  }[problem];
+  return { ...build(), iterations };
+}
@@ -0,0 +1,144 @@
+import fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import { buildScenario } from "./scenarios";
+import { createRun, readyThreads, simulateRandom, stepRun } from "./simulate";
+import { SYNC_PROBLEMS, SYNC_PROBLEM_IDS } from "./registry";
+import type { SyncRun } from "./types";
+
+const philosophers = (variant: string, count = 3) =>
+  buildScenario({ problem: "dining-philosophers", variant, counts: [count], iterations: 1 });
+
+/** Steps each thread in turn, `times` times, as a user would in manual mode. */
+function roundRobin(run: SyncRun, times: number): SyncRun {
+  for (let k = 0; k < times; k++) {
+    for (const t of run.threads.keys()) {
+      if (readyThreads(run).includes(t)) run = stepRun(run, t);
+    }
+  }
+  return run;
+}
+
+describe("synchronization playground", () => {
+  it("builds the threads and semaphores of each problem", () => {
+    const pc = buildScenario({ problem: "producer-consumer", variant: "semaphores", counts: [2, 1], iterations: 2, bufferSize: 3 });
+    expect(pc.threads.map((t) => t.name)).toEqual(["P1", "P2", "C1"]);
+    expect(pc.semaphores).toEqual([
+      { name: "mutex", initial: 1, lock: true },
+      { name: "empty", initial: 3 },
+      { name: "full", initial: 0 },
+    ]);
+    expect(philosophers("waiter", 4).semaphores.map((s) => s.name)).toEqual(["room", "fork0", "fork1", "fork2", "fork3"]);
+  });
+
+  it("rejects out-of-range settings", () => {
+    expect(() => philosophers("naive", 1)).toThrow(RangeError);
+    expect(() => philosophers("unknown")).toThrow(RangeError);
+    expect(() => buildScenario({ problem: "producer-consumer", variant: "semaphores", counts: [1, 1], iterations: 1, bufferSize: 0 })).toThrow(
+      RangeError
+    );
+  });
+
+  it("blocks on a semaphore at 0 and hands it to the first waiter on signal", () => {
+    let run = createRun(philosophers("naive"));
+    run = roundRobin(run, 2); // everyone thinks
+    run = stepRun(run, 0); // Ph0 takes fork0
+    run = stepRun(run, 2); // Ph2 takes fork2
+    run = stepRun(run, 2); // Ph2 waits on fork0
+    expect(run.threads[2]).toMatchObject({ status: "blocked", blockedOn: "fork0" });
+    expect(run.history.at(-1)!.action).toBe("wait(fork0) → blocked");
+    expect(readyThreads(run)).toEqual([0, 1]);
+
+    run = stepRun(run, 0); // fork1
+    run = stepRun(run, 0); // eat
+    run = stepRun(run, 0); // eat
+    run = stepRun(run, 0); // signal(fork1)
+    run = stepRun(run, 0); // signal(fork0) wakes Ph2, which now holds it
+    expect(run.history.at(-1)!.action).toBe("signal(fork0) → wakes Ph2");
+    expect(run.threads[0].status).toBe("done");
+    expect(run.threads[2]).toMatchObject({ status: "ready", pc: 3 });
+    expect(run.holders.fork0).toEqual([2]);
+    expect(run.values.fork0).toBe(0);
+  });
+
+  it("does not modify the run it steps from", () => {
+    const run = createRun(philosophers("naive"));
+    const next = stepRun(run, 1);
+    expect(run.time).toBe(0);
+    expect(run.history).toEqual([]);
+    expect(next.history[0]).toMatchObject({ time: 0, thread: 1, action: "think" });
+    expect(() => stepRun(next, 7)).toThrow(RangeError);
+  });
+
+  it("flags the circular wait of philosophers who all take their left fork", () => {
+    const run = roundRobin(createRun(philosophers("naive")), 4);
+    expect(run.over).toBe(true);
+    expect(readyThreads(run)).toEqual([]);
+    expect(run.issues).toHaveLength(1);
+    expect(run.issues[0]).toMatchObject({ kind: "deadlock", threads: [0, 1, 2] });
+    expect(run.issues[0].message).toContain("Ph0 waits on fork1 (held by Ph1); Ph1 waits on fork2 (held by Ph2); Ph2 waits on fork0 (held by Ph0)");
+  });
+
+  it("avoids that deadlock when the last philosopher takes the right fork first", () => {
+    const run = roundRobin(createRun(philosophers("asymmetric")), 20);
+    expect(run.issues).toEqual([]);
+    expect(run.threads.every((t) => t.status === "done")).toBe(true);
+  });
+
+  it("deadlocks producers that lock the mutex before waiting for a free slot", () => {
+    const scenario = buildScenario({ problem: "producer-consumer", variant: "lock-first", counts: [1, 1], iterations: 3, bufferSize: 1 });
+    let run = createRun(scenario);
+    // P1 fills the one slot, then takes mutex and waits on empty
+    for (let k = 0; k < 9; k++) run = stepRun(run, 0);
+    expect(run.threads[0]).toMatchObject({ status: "blocked", blockedOn: "empty" });
+    run = stepRun(run, 1); // C1 waits on mutex
+    expect(run.issues[0].message).toContain("C1 waits on mutex (held by P1)");
+  });
+
+  it("balances items between unequal numbers of producers and consumers", () => {
+    for (const counts of [[2, 1], [1, 2], [3, 2]]) {
+      const scenario = buildScenario({ problem: "producer-consumer", variant: "semaphores", counts, iterations: 2, bufferSize: 1 });
+      const produced = scenario.threads.filter((t) => t.name.startsWith("P")).reduce((sum, t) => sum + t.iterations!, 0);
+      const consumed = scenario.threads.filter((t) => t.name.startsWith("C")).reduce((sum, t) => sum + t.iterations!, 0);
+      expect(produced).toBe(consumed);
+
+      for (const seed of [1, 2, 3]) {
+        const run = simulateRandom(scenario, { seed });
+        expect(run.issues).toEqual([]);
+        expect(run.threads.every((t) => t.status === "done")).toBe(true);
+      }
+    }
+  });
+
+  it("flags a writer starved by overlapping readers", () => {
+    const scenario = buildScenario({ problem: "readers-writers", variant: "readers-preference", counts: [4, 1], iterations: 3 });
+    const run = simulateRandom(scenario, { seed: 1, starvationLimit: 20 });
+    const starved = run.issues.find((i) => i.kind === "starvation");
+    expect(starved).toMatchObject({ threads: [4] });
+    expect(starved!.message).toContain("W1 has been blocked on rw_mutex for 20 steps");
+  });
+
+  it("is reproducible from the seed and never breaks the semaphores", () => {
+    fc.assert(
+      fc.property(fc.constantFrom(...SYNC_PROBLEM_IDS), fc.nat(), fc.integer({ min: 1, max: 3 }), (problem, seed, iterations) => {
+        const info = SYNC_PROBLEMS[problem];
+        const scenario = buildScenario({
+          problem,
+          variant: info.variants[seed % info.variants.length].id,
+          counts: info.roles.map((r) => r.defaultCount),
+          iterations,
+          bufferSize: 2,
+        });
+        const run = simulateRandom(scenario, { seed });
+        expect(simulateRandom(scenario, { seed })).toEqual(run);
+        for (const tick of run.history) {
+          for (const s of scenario.semaphores) expect(tick.values[s.name]).toBeGreaterThanOrEqual(0);
+          // At most one thread in each lock's critical section
+          expect(tick.values.mutex ?? 0).toBeLessThanOrEqual(1);
+        }
+        for (const holders of Object.values(run.holders)) expect(holders.length).toBeLessThanOrEqual(1);
+        expect(run.over || run.time === 500).toBe(true);
+      }),
+      { numRuns: 40 }
+    );
+  });
+});
@@ -0,0 +1,228 @@
+import { createRng } from "../scheduling/generate";
+import { MAX_SYNC_STEPS, type Instruction, type SyncRun, type SyncScenario, type SyncTick } from "./types";
+
+/** Steps a thread may stay blocked before it is flagged as starving. */
+export const DEFAULT_STARVATION_LIMIT = 50;
+
+/** How an instruction reads in the lanes and the step log, e.g. "wait(mutex)" or "read_count++". */
+export function describeInstruction(instruction: Instruction): string {
+  switch (instruction.op) {
+    case "wait":
+    case "signal":
+      return `${instruction.op}(${instruction.sem})`;
+    case "work":
+      return instruction.label;
+    case "add":
+      return instruction.delta === 1
+        ? `${instruction.counter}++`
+        : instruction.delta === -1
+          ? `${instruction.counter}--`
+          : `${instruction.counter} += ${instruction.delta}`;
+  }
+}
+
+/**
+ * Starts a run with every thread ready at the top of its program.
+ * @param scenario Threads, semaphores and counters to run.
+ * @param starvationLimit Steps a thread may stay blocked before it is flagged as starving.
+ */
+export function createRun(scenario: SyncScenario, starvationLimit = DEFAULT_STARVATION_LIMIT): SyncRun {
+  const values: Record<string, number> = {};
+  for (const { name, initial } of [...scenario.semaphores, ...scenario.counters]) values[name] = initial;
+  return {
+    scenario,
+    starvationLimit,
+    time: 0,
+    threads: scenario.threads.map(() => ({ pc: 0, iteration: 0, status: "ready", lastProgress: 0 })),
+    values,
+    queues: Object.fromEntries(scenario.semaphores.map((s) => [s.name, []])),
+    holders: Object.fromEntries(scenario.semaphores.filter((s) => s.lock).map((s) => [s.name, []])),
+    history: [],
+    issues: [],
+    over: false,
+  };
+}
+
+/** Threads that may be scheduled next. */
+export function readyThreads(run: SyncRun): number[] {
+  if (run.over) return [];
+  return run.threads.flatMap((t, i) => (t.status === "ready" ? [i] : []));
+}
+
+/** Instruction a thread runs when it is next scheduled. */
+export function nextInstruction(run: SyncRun, thread: number): Instruction {
+  const state = run.threads[thread];
+  return state.pending ?? run.scenario.threads[thread].program[state.pc];
+}
+
+/** Moves a thread past its current instruction, looping back or finishing at the end of its program. */
+function advance(run: SyncRun, thread: number) {
+  const state = run.threads[thread];
+  state.lastProgress = run.time;
+  state.pending = undefined;
+  state.pc++;
+  if (state.pc === run.scenario.threads[thread].program.length) {
+    state.pc = 0;
+    state.iteration++;
+    if (state.iteration === (run.scenario.threads[thread].iterations ?? run.scenario.iterations)) state.status = "done";
+  }
+}
+
+/** Runs one instruction of `thread`, which must be ready. */
+function execute(run: SyncRun, thread: number): string {
+  const state = run.threads[thread];
+  const instruction = nextInstruction(run, thread);
+  const label = describeInstruction(instruction);
+
+  switch (instruction.op) {
+    case "wait":
+      if (run.values[instruction.sem] > 0) {
+        run.values[instruction.sem]--;
+        run.holders[instruction.sem]?.push(thread);
+        advance(run, thread);
+        return label;
+      }
+      state.status = "blocked";
+      state.blockedOn = instruction.sem;
+      run.queues[instruction.sem].push(thread);
+      return `${label} → blocked`;
+
+    case "signal": {
+      const holders = run.holders[instruction.sem];
+      if (holders) run.holders[instruction.sem] = holders.filter((t) => t !== thread);
+      const woken = run.queues[instruction.sem].shift();
+      if (woken === undefined) {
+        run.values[instruction.sem]++;
+      } else {
+        // The semaphore passes straight to the first waiter, whose wait now completes
+        run.threads[woken].status = "ready";
+        run.threads[woken].blockedOn = undefined;
+        run.holders[instruction.sem]?.push(woken);
+        advance(run, woken);
+      }
+      advance(run, thread);
+      return woken === undefined ? label : `${label} → wakes ${run.scenario.threads[woken].name}`;
+    }
+
+    case "work":
+      state.workLeft = (state.workLeft ?? instruction.steps ?? 1) - 1;
+      if (state.workLeft === 0) {
+        state.workLeft = undefined;
+        advance(run, thread);
+      } else {
+        state.lastProgress = run.time;
+      }
+      return label;
+
+    case "add":
+      run.values[instruction.counter] += instruction.delta;
+      if (instruction.then && run.values[instruction.counter] === instruction.when) {
+        // Run the conditional instruction before moving past this one
+        state.pending = instruction.then;
+        state.lastProgress = run.time;
+      } else {
+        advance(run, thread);
+      }
+      return label;
+  }
+}
+
+/** Explains why every unfinished thread is stuck: who waits on what, and who holds it. */
+function explainDeadlock(run: SyncRun, blocked: number[]): string {
+  const name = (t: number) => run.scenario.threads[t].name;
+  const waits = blocked.map((t) => {
+    const sem = run.threads[t].blockedOn!;
+    const holders = run.holders[sem];
+    return holders && holders.length > 0 ? `${name(t)} waits on ${sem} (held by ${holders.map(name).join(", ")})` : `${name(t)} waits on ${sem}`;
+  });
+  const hint = run.scenario.hints.deadlock;
+  return `Deadlock: every unfinished thread is blocked and none can signal the others. ${waits.join("; ")}.${hint ? ` ${hint}` : ""}`;
+}
+
+/** Flags the deadlock, or any thread blocked for `starvationLimit` steps since it last made progress. */
+function checkIssues(run: SyncRun) {
+  const unfinished = run.threads.flatMap((t, i) => (t.status === "done" ? [] : [i]));
+  if (unfinished.length === 0) {
+    run.over = true;
+    return;
+  }
+  if (unfinished.every((t) => run.threads[t].status === "blocked")) {
+    run.over = true;
+    run.issues.push({ kind: "deadlock", time: run.time, threads: unfinished, message: explainDeadlock(run, unfinished) });
+    return;
+  }
+
+  for (const t of unfinished) {
+    const state = run.threads[t];
+    const waited = run.time - state.lastProgress;
+    // Flag each wait once, when it reaches the limit; ready threads only wait for their turn
+    if (state.status !== "blocked" || waited !== run.starvationLimit) continue;
+    const name = run.scenario.threads[t].name;
+    const hint = run.scenario.hints.starvation;
+    run.issues.push({
+      kind: "starvation",
+      time: run.time,
+      threads: [t],
+      message: `Starvation: ${name} has been blocked on ${state.blockedOn} for ${waited} steps while other threads kept running.${hint ? ` ${hint}` : ""}`,
+    });
+  }
+}
+
+/**
+ * Schedules one thread for one step: it runs its next instruction, blocking if it waits on
+ * a semaphore at 0. A signal hands the semaphore straight to the longest-waiting thread.
+ * @param run Run so far, which is not modified.
+ * @param thread Index of a ready thread.
+ * @returns The run after the step, with the step appended to its history.
+ */
+export function stepRun(run: SyncRun, thread: number): SyncRun {
+  if (!readyThreads(run).includes(thread)) {
+    throw new RangeError(`Thread ${thread} is not ready to run.`);
+  }
+  const next = structuredClone(run);
+  stepInPlace(next, thread);
+  return next;
+}
+
+function stepInPlace(run: SyncRun, thread: number) {
+  run.time++;
+  const action = execute(run, thread);
+  checkIssues(run);
+
+  const tick: SyncTick = {
+    time: run.time - 1,
+    thread,
+    action,
+    threads: run.threads.map((t, i) => {
+      if (i === thread) return { status: "running", label: action };
+      if (t.status === "blocked") return { status: "blocked", label: `wait(${t.blockedOn})` };
+      return { status: t.status, label: "" };
+    }),
+    values: { ...run.values },
+  };
+  run.history.push(tick);
+}
+
+/**
+ * Runs a scenario to the end, picking a ready thread uniformly at random at every step.
+ * @param scenario Threads, semaphores and counters to run.
+ * @param options Seed (same seed = same interleaving), step cap and starvation limit.
+ * @returns The finished, deadlocked or capped run.
+ */
+export function simulateRandom(
+  scenario: SyncScenario,
+  options: { seed: number; maxSteps?: number; starvationLimit?: number }
+): SyncRun {
+  const { seed, maxSteps = MAX_SYNC_STEPS, starvationLimit } = options;
+  if (!Number.isInteger(maxSteps) || maxSteps < 1 || maxSteps > MAX_SYNC_STEPS) {
+    throw new RangeError(`Steps must be an integer from 1 to ${MAX_SYNC_STEPS}.`);
+  }
+  const random = createRng(seed);
+  const run = createRun(scenario, starvationLimit);
+  while (run.time < maxSteps) {
+    const ready = readyThreads(run);
+    if (ready.length === 0) break;
+    stepInPlace(run, ready[Math.floor(random() * ready.length)]);
+  }
+  return run;
+}
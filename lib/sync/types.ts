@@ -0,0 +1,115 @@
+// Shared types for the synchronization playground.
+
+/** Most threads of one role (e.g. producers) a scenario may have. */
+export const MAX_THREADS_PER_ROLE = 8;
+
+/** Longest run, in steps, a simulation may take. */
+export const MAX_SYNC_STEPS = 500;
+
+export type SyncProblem = "producer-consumer" | "readers-writers" | "dining-philosophers";
+
+/** One atomic operation of a thread's program. */
+export type Instruction =
+  | { op: "wait"; sem: string }
+  | { op: "signal"; sem: string }
+  /** Visible work such as "eat", lasting `steps` scheduled steps (default 1). */
+  | { op: "work"; label: string; steps?: number }
+  /** Adds `delta` to a shared counter; when the result equals `when`, runs `then` next. */
+  | { op: "add"; counter: string; delta: number; when?: number; then?: Instruction };
+
+export interface ThreadSpec {
+  name: string;
+  /** Run `iterations` times in a loop. */
+  program: Instruction[];
+  /** Loops this thread runs, when not the scenario's `iterations`. */
+  iterations?: number;
+}
+
+export interface SemaphoreSpec {
+  name: string;
+  initial: number;
+  /** Used as a lock: the thread that acquires it holds it until it signals. */
+  lock?: boolean;
+}
+
+export interface SyncScenario {
+  threads: ThreadSpec[];
+  semaphores: SemaphoreSpec[];
+  /** Shared integer variables, e.g. `read_count`. */
+  counters: { name: string; initial: number }[];
+  iterations: number;
+  /** Why this variant can deadlock or starve, added to the flagged issue. */
+  hints: { deadlock?: string; starvation?: string };
+}
+
+export type ThreadStatus = "ready" | "running" | "blocked" | "done";
+
+export interface ThreadState {
+  /** Index of the next instruction. */
+  pc: number;
+  /** Completed passes through the program. */
+  iteration: number;
+  status: Exclude<ThreadStatus, "running">;
+  /** Semaphore the thread is queued on. */
+  blockedOn?: string;
+  /** Steps left of the current work instruction. */
+  workLeft?: number;
+  /** Instruction triggered by an `add`, run before moving on. */
+  pending?: Instruction;
+  /** Time the thread last completed an operation. */
+  lastProgress: number;
+}
+
+/** What every thread was doing during one step. */
+export interface SyncTick {
+  time: number;
+  /** Thread scheduled in this step. */
+  thread: number;
+  /** Operation it performed, e.g. "wait(mutex)". */
+  action: string;
+  threads: { status: ThreadStatus; label: string }[];
+  /** Semaphore and counter values after the step. */
+  values: Record<string, number>;
+}
+
+export interface SyncIssue {
+  kind: "deadlock" | "starvation";
+  time: number;
+  threads: number[];
+  message: string;
+}
+
+export interface SyncRun {
+  scenario: SyncScenario;
+  /** Steps a thread may stay blocked before it is flagged as starving. */
+  starvationLimit: number;
+  time: number;
+  threads: ThreadState[];
+  values: Record<string, number>;
+  /** Threads blocked on each semaphore, woken first-in first-out. */
+  queues: Record<string, number[]>;
+  /** Threads holding each lock semaphore. */
+  holders: Record<string, number[]>;
+  history: SyncTick[];
+  issues: SyncIssue[];
+  /** No more steps can be taken: every thread is done, or they are deadlocked. */
+  over: boolean;
+}
+
+/** Most times a thread may loop through its program. */
+export const MAX_ITERATIONS = 20;
+
+/** Largest bounded buffer for producer-consumer. */
+export const MAX_BUFFER_SIZE = 20;
+
+/** Settings a scenario is built from; only the fields its problem uses matter. */
+export interface SyncConfig {
+  problem: SyncProblem;
+  /** Solution variant, one of the problem's `variants` in the registry. */
+  variant: string;
+  /** Threads of each role, in the order of the problem's `roles`. */
+  counts: number[];
+  iterations: number;
+  /** Producer-consumer only. */
+  bufferSize?: number;
+}
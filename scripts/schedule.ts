@@ -0,0 +1,145 @@
+/**
+ * Prints the metrics table and an ASCII Gantt chart for a workload file.
+ *
+ *   npm run schedule -- workload.json --algorithm rr --quantum 3
+ *
+ * The workload is JSON (an array of processes, or `{ "processes": [...] }`) or CSV with a
+ * header row (pid, arrival, burst, and optionally priority, io, affinity or cpu). Files
+ * exported from the simulator's input table work as they are.
+ */
+import { readFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import {
+  ALGORITHM_IDS,
+  ALGORITHMS,
+  DEFAULT_QUANTUM,
+  formatGantt,
+  formatMetricsTable,
+  MAX_CORES,
+  MAX_TIME_UNIT,
+  parseCsv,
+  validateWorkload,
+  type AlgorithmId,
+  type SchedulerOptions,
+} from "../lib/scheduling";
+
+const USAGE = `Usage: npm run schedule -- <workload.json|workload.csv> [options]
+
+Options:
+  -a, --algorithm <id>       ${ALGORITHM_IDS.join(" | ")} (default: fcfs)
+  -q, --quantum <n>          Round Robin time slice
+  -p, --preemptive           Preemptive Priority scheduling
+  -c, --cores <n>            Number of CPU cores (default: 1)
+  -s, --context-switch <n>   Time charged per context switch (default: 0)
+  -m, --max-time <n>         Longest burst accepted (default: ${MAX_TIME_UNIT})
+  -h, --help                 Show this message`;
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+/**
+ * Reads CSV rows into process objects; whole numbers become numbers, blank cells are left out.
+ */
+function readCsv(text: string): Record<string, unknown>[] {
+  const [header = [], ...rows] = parseCsv(text);
+  const keys = header.map((h) => h.trim().toLowerCase());
+  return rows.map((cells) =>
+    Object.fromEntries(
+      keys.flatMap((key, i) => {
+        const cell = (cells[i] ?? "").trim();
+        if (cell === "") return [];
+        return [[key, key !== "pid" && /^\d+$/.test(cell) ? Number(cell) : cell]];
+      })
+    )
+  );
+}
+
+function readWorkload(file: string): unknown {
+  let text: string;
+  try {
+    text = readFileSync(file, "utf8");
+  } catch {
+    fail(`Cannot read ${file}.`);
+  }
+
+  if (!/^\s*[[{]/.test(text)) return readCsv(text);
+  try {
+    const data = JSON.parse(text);
+    return Array.isArray(data) ? data : data?.processes;
+  } catch {
+    fail(`${file} is not valid JSON.`);
+  }
+}
+
+/**
+ * Parses a numeric option, leaving range checks to the scheduler.
+ */
+function count(value: string | undefined, name: string): number | undefined {
+  if (value === undefined) return undefined;
+  if (!/^\d+$/.test(value)) fail(`--${name} must be a whole number.`);
+  return Number(value);
+}
+
+function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      algorithm: { type: "string", short: "a", default: "fcfs" },
+      quantum: { type: "string", short: "q" },
+      preemptive: { type: "boolean", short: "p", default: false },
+      cores: { type: "string", short: "c" },
+      "context-switch": { type: "string", short: "s" },
+      "max-time": { type: "string", short: "m" },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  if (values.help || positionals.length !== 1) {
+    console.log(USAGE);
+    process.exit(values.help ? 0 : 1);
+  }
+
+  const algorithm = values.algorithm as AlgorithmId;
+  if (!ALGORITHM_IDS.includes(algorithm)) {
+    fail(`Unknown algorithm "${values.algorithm}". Choose one of: ${ALGORITHM_IDS.join(", ")}.`);
+  }
+  const info = ALGORITHMS[algorithm];
+
+  // The validator checks pinned cores against the run, in the numbering the file used (0-based affinity or 1-based cpu)
+  const cores = count(values.cores, "cores");
+  if (cores !== undefined && (cores < 1 || cores > MAX_CORES)) fail(`--cores must be from 1 to ${MAX_CORES}.`);
+  const workload = validateWorkload(readWorkload(positionals[0]), { cores: cores ?? 1, maxTime: count(values["max-time"], "max-time") });
+  if ("errors" in workload) {
+    fail(workload.errors.map((e) => `${e.field}: ${e.message}`).join("\n"));
+  }
+
+  const options: SchedulerOptions = {
+    quantum: count(values.quantum, "quantum"),
+    preemptive: values.preemptive,
+    cores,
+    contextSwitch: count(values["context-switch"], "context-switch"),
+  };
+
+  let schedule;
+  try {
+    schedule = info.run(workload.processes, options);
+  } catch (e) {
+    fail(e instanceof RangeError ? e.message : String(e));
+  }
+
+  const details = [
+    info.usesQuantum && `q = ${options.quantum ?? DEFAULT_QUANTUM}`,
+    info.preemptionToggle && (options.preemptive ? "preemptive" : "non-preemptive"),
+    options.cores && options.cores > 1 && `${options.cores} cores`,
+    options.contextSwitch && `cs = ${options.contextSwitch}`,
+  ].filter(Boolean);
+
+  console.log(`${info.title}${details.length > 0 ? ` (${details.join(", ")})` : ""}\n`);
+  console.log(formatGantt(schedule));
+  console.log();
+  console.log(formatMetricsTable(schedule));
+}
+
+main();